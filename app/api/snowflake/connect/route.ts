@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { SnowflakeCredentials, SnowflakeExecutionResult } from '../../../utils/types';
+import { getSnowflakeDriver, validateCredentials, toErrorResult } from '../../../utils/SnowflakeDriver';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Test a Snowflake connection with the supplied credentials
+ */
+export async function POST(request: Request) {
+  let credentials: SnowflakeCredentials;
+
+  try {
+    ({ credentials } = await request.json());
+  } catch (error) {
+    return NextResponse.json(toErrorResult('Failed to connect to Snowflake', new Error('Invalid request body')), { status: 400 });
+  }
+
+  const validationError = validateCredentials(credentials);
+  if (validationError) {
+    return NextResponse.json(toErrorResult('Failed to connect to Snowflake', new Error(validationError)), { status: 400 });
+  }
+
+  try {
+    const driver = await getSnowflakeDriver();
+    await driver.testConnection(credentials);
+
+    const result: SnowflakeExecutionResult = {
+      status: 'success',
+      message: 'Successfully connected to Snowflake'
+    };
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Snowflake connection failed:', error);
+    return NextResponse.json(toErrorResult('Failed to connect to Snowflake', error), { status: 502 });
+  }
+}
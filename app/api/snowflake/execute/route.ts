@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { SnowflakeCredentials } from '../../../utils/types';
+import { getSnowflakeDriver, validateCredentials, toExecutionResult, toErrorResult } from '../../../utils/SnowflakeDriver';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Execute SQL in Snowflake and return the resulting rows and columns
+ */
+export async function POST(request: Request) {
+  let credentials: SnowflakeCredentials;
+  let sql: string;
+
+  try {
+    ({ credentials, sql } = await request.json());
+  } catch (error) {
+    return NextResponse.json(toErrorResult('Failed to execute SQL', new Error('Invalid request body')), { status: 400 });
+  }
+
+  const validationError = validateCredentials(credentials);
+  if (validationError) {
+    return NextResponse.json(toErrorResult('Failed to execute SQL', new Error(validationError)), { status: 400 });
+  }
+
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return NextResponse.json(toErrorResult('Failed to execute SQL', new Error('SQL query is empty')), { status: 400 });
+  }
+
+  try {
+    const driver = await getSnowflakeDriver();
+    const result = await driver.execute(credentials, sql);
+    return NextResponse.json(toExecutionResult(result));
+  } catch (error) {
+    console.error('Snowflake execution failed:', error);
+    return NextResponse.json(toErrorResult('Failed to execute SQL', error), { status: 502 });
+  }
+}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { NodeType, EdgeType, ERDNode } from '../utils/types';
 import { useOpenAI } from '../utils/useOpenAI';
+import AutoLayout from '../utils/AutoLayout';
 import AIResponseModal from './AIResponseModal';
 import AIConversation from './AIConversation';
 
@@ -75,8 +76,8 @@ export default function AIPrompt({ nodes, setNodes, edges, setEdges, setDDL, set
     try {
       const result = await generateERDFromPrompt(userPrompt, useHistory);
       
-      // Update the ERD and DDL
-      setNodes(result.data.erd.nodes);
+      // Update the ERD and DDL, replacing the positions the model made up with a layout
+      setNodes(new AutoLayout(result.data.erd.nodes, result.data.erd.edges).layout('layered'));
       setEdges(result.data.erd.edges);
       setDDL(result.data.ddl);
       
@@ -221,7 +222,7 @@ export default function AIPrompt({ nodes, setNodes, edges, setEdges, setDDL, set
             <h3 className="text-lg font-semibold mb-4 dark:text-white">Enter OpenAI API Key</h3>
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
               To use the AI assistant, you need to provide your OpenAI API key. 
-              The key will be stored in your browser's local storage and not sent anywhere except to OpenAI's API.
+              The key will be stored in your browser&apos;s local storage and not sent anywhere except to OpenAI&apos;s API.
             </p>
             
             <input
@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useId } from 'react';
+import { Column } from '../utils/types';
+
+interface ColumnValueFieldsProps {
+  column: Column;
+  onChange: (column: Column) => void;
+  // NEXTVAL defaults of the sequences on the canvas, offered as suggestions
+  sequenceDefaults?: string[];
+}
+
+// Defaults offered for every column besides the sequences
+const COMMON_DEFAULTS = ['CURRENT_TIMESTAMP()', 'CURRENT_DATE()', 'UUID_STRING()'];
+
+const inputClassName = 'nodrag w-full p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50';
+
+/**
+ * Default value, identity and collation inputs of a column
+ */
+export default function ColumnValueFields({ column, onChange, sequenceDefaults = [] }: ColumnValueFieldsProps) {
+  const suggestionsId = useId();
+
+  const setIdentity = (enabled: boolean) => {
+    const { identity, ...rest } = column;
+    onChange(enabled ? { ...rest, identity: identity || { start: 1, increment: 1 }, defaultValue: undefined } : rest);
+  };
+
+  const setIdentityValue = (field: 'start' | 'increment', value: string) => {
+    if (!column.identity) return;
+    onChange({ ...column, identity: { ...column.identity, [field]: parseInt(value, 10) || 0 } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-xs text-gray-700 dark:text-gray-300 mb-1">
+          Default
+        </label>
+        <input
+          type="text"
+          value={column.defaultValue || ''}
+          onChange={(e) => onChange({ ...column, defaultValue: e.target.value || undefined })}
+          list={suggestionsId}
+          disabled={!!column.identity}
+          placeholder={column.identity ? 'Set by the identity' : 'No default'}
+          className={`${inputClassName} font-mono`}
+        />
+        <datalist id={suggestionsId}>
+          {[...sequenceDefaults, ...COMMON_DEFAULTS].map(value => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+      </div>
+      <div className="flex items-center space-x-2 text-xs">
+        <label className="flex items-center whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={!!column.identity}
+            onChange={(e) => setIdentity(e.target.checked)}
+            className="mr-1"
+          />
+          Identity
+        </label>
+        {column.identity && (
+          <>
+            <input
+              type="number"
+              value={column.identity.start}
+              onChange={(e) => setIdentityValue('start', e.target.value)}
+              title="Start with"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              value={column.identity.increment}
+              onChange={(e) => setIdentityValue('increment', e.target.value)}
+              title="Increment by"
+              className={inputClassName}
+            />
+          </>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs text-gray-700 dark:text-gray-300 mb-1">
+          Collation
+        </label>
+        <input
+          type="text"
+          value={column.collation || ''}
+          onChange={(e) => onChange({ ...column, collation: e.target.value || undefined })}
+          placeholder="e.g. en-ci"
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
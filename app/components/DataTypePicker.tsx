@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { DataType } from '../utils/types';
+import { BASE_DATA_TYPES, DataTypeFamily, formatDataType, parseDataType, validateDataType } from '../utils/dataTypes';
+
+interface DataTypePickerProps {
+  value: string;
+  onChange: (dataType: string) => void;
+  // Smaller controls for editing on the canvas
+  compact?: boolean;
+}
+
+const FAMILY_LABELS: Record<DataTypeFamily, string> = {
+  numeric: 'Numeric',
+  text: 'Text',
+  binary: 'Binary',
+  boolean: 'Logical',
+  temporal: 'Date & time',
+  'semi-structured': 'Semi-structured',
+  geospatial: 'Geospatial'
+};
+
+/**
+ * Base type select with inputs for its length, precision and scale or fractional seconds.
+ * Synonyms are shown as the type Snowflake stores, e.g. INT as NUMBER(38,0); types the
+ * picker doesn't know, like view columns without a type, are kept as an extra option.
+ */
+export default function DataTypePicker({ value, onChange, compact = false }: DataTypePickerProps) {
+  const type = parseDataType(value);
+  const parameters = BASE_DATA_TYPES[type.base]?.parameters;
+  const errors = validateDataType(type);
+
+  const update = (changes: Partial<DataType>) => onChange(formatDataType({ ...type, ...changes }));
+  const toNumber = (input: string) => (input.trim() === '' ? undefined : Number(input));
+
+  // Keep the parameters when switching between types declared the same way
+  const changeBase = (base: string) => {
+    onChange(formatDataType(BASE_DATA_TYPES[base]?.parameters === parameters ? { ...type, base } : { base }));
+  };
+
+  const controlClassName = compact
+    ? 'nodrag p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white'
+    : 'block border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm';
+  const numberClassName = `${controlClassName} ${compact ? 'w-16' : 'w-24'}`;
+
+  const families = Object.keys(FAMILY_LABELS) as DataTypeFamily[];
+
+  return (
+    <div className={compact ? '' : 'w-full'}>
+      <div className="flex items-center gap-1">
+        <select
+          value={type.base}
+          onChange={(e) => changeBase(e.target.value)}
+          className={`${controlClassName} ${compact ? '' : 'flex-1'}`}
+        >
+          {!parameters && <option value={type.base}>{type.base || 'No type'}</option>}
+          {families.map((family) => (
+            <optgroup key={family} label={FAMILY_LABELS[family]}>
+              {Object.entries(BASE_DATA_TYPES)
+                .filter(([, info]) => info.family === family)
+                .map(([base]) => (
+                  <option key={base} value={base}>{base}</option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        {parameters === 'length' && (
+          <input
+            type="number"
+            value={type.length ?? ''}
+            onChange={(e) => update({ length: toNumber(e.target.value) })}
+            placeholder="Length"
+            title="Length"
+            className={numberClassName}
+          />
+        )}
+        {parameters === 'precision' && (
+          <>
+            <input
+              type="number"
+              value={type.precision ?? ''}
+              onChange={(e) => update({ precision: toNumber(e.target.value) })}
+              placeholder="38"
+              title="Precision"
+              className={numberClassName}
+            />
+            <input
+              type="number"
+              value={type.scale ?? ''}
+              onChange={(e) => update({ scale: toNumber(e.target.value) })}
+              placeholder="0"
+              title="Scale"
+              className={numberClassName}
+            />
+          </>
+        )}
+        {parameters === 'time' && (
+          <input
+            type="number"
+            value={type.timePrecision ?? ''}
+            onChange={(e) => update({ timePrecision: toNumber(e.target.value) })}
+            placeholder="9"
+            title="Fractional seconds precision"
+            className={numberClassName}
+          />
+        )}
+      </div>
+      {errors.map((error) => (
+        <p key={error} className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { EdgeType, ERDNode } from '../utils/types';
+import DiagramTextGenerator, { DIAGRAM_TEXT_FORMATS, DiagramTextFormat } from '../utils/DiagramTextGenerator';
+
+export default function DiagramTextExport({ nodes, edges }: { nodes: ERDNode[]; edges: EdgeType[] }) {
+  const [format, setFormat] = useState<DiagramTextFormat>('mermaid');
+  const [copied, setCopied] = useState<'text' | 'markdown' | null>(null);
+
+  const text = useMemo(() => new DiagramTextGenerator(nodes, edges).generate(format), [nodes, edges, format]);
+
+  const copy = async (kind: 'text' | 'markdown') => {
+    try {
+      const fence = DIAGRAM_TEXT_FORMATS[format].fence;
+      await navigator.clipboard.writeText(kind === 'markdown' ? `\`\`\`${fence}\n${text}\`\`\`\n` : text);
+      setCopied(kind);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error('Error copying diagram text:', error);
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-1 mb-2">
+        {(Object.keys(DIAGRAM_TEXT_FORMATS) as DiagramTextFormat[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setFormat(key)}
+            className={`px-3 py-1 text-xs rounded-md ${
+              format === key
+                ? 'bg-primary-light dark:bg-primary-dark text-white'
+                : 'text-gray-700 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-700'
+            }`}
+          >
+            {DIAGRAM_TEXT_FORMATS[key].name}
+          </button>
+        ))}
+      </div>
+      <pre className="w-full h-48 p-2 border rounded dark:border-gray-600 bg-gray-50 dark:bg-gray-900 text-xs font-mono overflow-auto whitespace-pre">
+        {text}
+      </pre>
+      <div className="flex space-x-2 mt-2">
+        <button
+          onClick={() => copy('text')}
+          className="flex-1 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+          disabled={nodes.length === 0}
+        >
+          {copied === 'text' ? 'Copied!' : 'Copy'}
+        </button>
+        <button
+          onClick={() => copy('markdown')}
+          className="flex-1 px-3 py-2 rounded text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          disabled={nodes.length === 0}
+          title="Copy wrapped in a Markdown code block"
+        >
+          {copied === 'markdown' ? 'Copied!' : 'Copy for Markdown'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -26,17 +26,27 @@ import { toPng, toJpeg } from 'html-to-image';
 import jsPDF from 'jspdf';
 import TableNode from './TableNode';
 import DomainNode from './DomainNode';
+import SequenceNode from './SequenceNode';
 import RelationshipEdge from './RelationshipEdge';
-import { NodeType, EdgeType, Column, DomainNodeType, ERDNode } from '../utils/types';
+import { NodeType, EdgeType, Column, DomainNodeType, ERDNode, TableConstraint, TableDrift, QueryDefinition, SequenceNodeType, SequenceDefinition, LintProblem, LintRuleSettings } from '../utils/types';
 import RelationshipTypeSelector from './RelationshipTypeSelector';
 import { tableTemplates, TableTemplate } from '../utils/tableTemplates';
 import { v4 as uuidv4 } from 'uuid';
 import TableForm from './TableForm';
+import { updateConstraintColumns } from '../utils/constraintUtils';
+import { TableNamespace } from '../utils/qualifiedNames';
+import AutoLayout, { LAYOUT_ALGORITHMS, LayoutAlgorithm, NodeSize } from '../utils/AutoLayout';
+import SVGExporter, { getDomainNodeIds, rasterizeSVG } from '../utils/SVGExporter';
+import { getLineageEdges } from '../utils/queryLineage';
+import { findDefaultSequence, getNextValueDefault, getSequences } from '../utils/sequenceUtils';
+import ModelLinter from '../utils/ModelLinter';
+import ProblemsPanel from './ProblemsPanel';
 
 // Define custom node types
 const nodeTypes = {
   table: TableNode,
   domain: DomainNode,
+  sequence: SequenceNode,
 };
 
 // Define custom edge types
@@ -49,6 +59,11 @@ interface ERDCanvasProps {
   setNodes: React.Dispatch<React.SetStateAction<ERDNode[]>>;
   edges: EdgeType[];
   setEdges: (edges: EdgeType[]) => void;
+  // Differences with the deployed schema to highlight on the tables
+  drift?: TableDrift[] | null;
+  // Severities of the lint rules in this project
+  lintRules?: LintRuleSettings;
+  onLintRulesChange?: (rules: LintRuleSettings) => void;
 }
 
 // Default edge settings for using our custom RelationshipEdge component
@@ -58,7 +73,12 @@ const defaultEdgeOptions = {
   animated: false
 };
 
-export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanvasProps) {
+// Tiled PDF export: 96 px diagram units to 72 pt, rendered at 3x for print
+const PDF_POINTS_PER_UNIT = 0.75;
+const PDF_RASTER_SCALE = 3;
+const PDF_MARGIN = 20;
+
+export default function ERDCanvas({ nodes, setNodes, edges, setEdges, drift, lintRules, onLintRulesChange }: ERDCanvasProps) {
   // Convert our nodes and edges to ReactFlow format
   const [reactFlowNodes, setReactFlowNodes, onNodesChange] = useNodesState(nodes as Node[]);
   const [reactFlowEdges, setReactFlowEdges, onEdgesChange] = useEdgesState(edges);
@@ -81,6 +101,10 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
   ]);
   const reactFlowInstance = useReactFlow();
   const [showExportOptions, setShowExportOptions] = useState(false);
+  const [showLayoutOptions, setShowLayoutOptions] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  // 'all', 'selected' or 'domain:<id>' for the vector exports
+  const [exportScope, setExportScope] = useState('all');
   const [showDomainModal, setShowDomainModal] = useState(false);
   const [newDomainPosition, setNewDomainPosition] = useState({ x: 0, y: 0 });
   const [newDomainData, setNewDomainData] = useState({
@@ -125,6 +149,46 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
     );
   }, [nodes, setNodes, setReactFlowNodes]);
 
+  // Handle query and refresh settings changes of a view or dynamic table
+  const handleDefinitionChange = useCallback((nodeId: string, definition: QueryDefinition) => {
+    const updatedNodes = nodes.map(node =>
+      node.id === nodeId && node.type === 'table'
+        ? { ...node, data: { ...node.data, ...definition } }
+        : node
+    ) as ERDNode[];
+    setNodes(updatedNodes);
+    
+    // Connect the view to the tables its query reads from
+    const tables = updatedNodes.filter((node): node is NodeType => node.type === 'table');
+    const updated = tables.find(table => table.id === nodeId);
+    const lineageEdges = updated ? getLineageEdges(updated, tables, edges) : [];
+    if (lineageEdges.length > 0) {
+      setEdges([...edges, ...lineageEdges]);
+    }
+  }, [nodes, edges, setNodes, setEdges]);
+
+  // Handle changes to a sequence, keeping the column defaults that draw from it pointed at it
+  const handleSequenceChange = useCallback((nodeId: string, definition: SequenceDefinition) => {
+    const sequences = getSequences(nodes);
+    const sequence = sequences.find(node => node.id === nodeId);
+    if (!sequence) return;
+    
+    const updatedSequence: SequenceNodeType = { ...sequence, data: { ...sequence.data, ...definition } };
+    const updatedNodes = nodes.map(node => {
+      if (node.id === nodeId) return updatedSequence;
+      if (node.type !== 'table') return node;
+      
+      const drawsFromSequence = (col: Column) => findDefaultSequence(sequences, col.defaultValue, node.data)?.id === nodeId;
+      if (!node.data.columns.some(drawsFromSequence)) return node;
+      
+      const columns = node.data.columns.map(col =>
+        drawsFromSequence(col) ? { ...col, defaultValue: getNextValueDefault(updatedSequence, node.data) } : col
+      );
+      return { ...node, data: { ...node.data, columns } };
+    });
+    setNodes(updatedNodes);
+  }, [nodes, setNodes]);
+
   // Handle column changes in a table node
   const handleColumnsChange = useCallback((nodeId: string, columns: Column[], tableType?: string) => {
     console.log(`Updating node ${nodeId} with tableType: ${tableType || 'not provided'}`);
@@ -141,6 +205,9 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
           data: { 
             ...node.data, 
             columns,
+            ...(node.data.constraints
+              ? { constraints: updateConstraintColumns(node.data.constraints, node.data.columns, columns) }
+              : {}),
             // Always update tableType when provided
             ...(tableType !== undefined ? { tableType } : {}),
           }
@@ -183,8 +250,12 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
     });
   }, [nodes, setNodes, setReactFlowNodes, handleNodeDelete, handleCommentChange]);
 
+  // Problems in the model, listed in the problems panel and badged on their tables
+  const lintProblems = useMemo(() => new ModelLinter(nodes, edges, lintRules).lint(), [nodes, edges, lintRules]);
+
   // Prepare nodes with callbacks
   useEffect(() => {
+    const sequences = getSequences(nodes);
     const nodesWithCallback = nodes.map(node => {
       if (node.type === 'table') {
         return {
@@ -193,7 +264,11 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
             ...node.data,
             onColumnsChange: (columns: Column[], tableType?: string) => handleColumnsChange(node.id, columns, tableType),
             onDelete: (nodeId: string) => handleNodeDelete(nodeId),
-            onCommentChange: (comment: string) => handleCommentChange(node.id, comment)
+            onCommentChange: (comment: string) => handleCommentChange(node.id, comment),
+            onDefinitionChange: (definition: QueryDefinition) => handleDefinitionChange(node.id, definition),
+            _drift: drift?.find(table => table.nodeId === node.id),
+            _sequenceDefaults: sequences.map(sequence => getNextValueDefault(sequence, node.data)),
+            _lintProblems: lintProblems.filter(problem => problem.nodeId === node.id && !problem.edgeId)
           }
         };
       } else if (node.type === 'domain') {
@@ -204,11 +279,20 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
             onDelete: (nodeId: string) => handleNodeDelete(nodeId)
           }
         };
+      } else if (node.type === 'sequence') {
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            onChange: (definition: SequenceDefinition) => handleSequenceChange(node.id, definition),
+            onDelete: (nodeId: string) => handleNodeDelete(nodeId)
+          }
+        };
       }
       return node;
     });
     setReactFlowNodes(nodesWithCallback as Node[]);
-  }, [nodes, setReactFlowNodes, handleColumnsChange, handleNodeDelete, handleCommentChange]);
+  }, [nodes, drift, lintProblems, setReactFlowNodes, handleColumnsChange, handleNodeDelete, handleCommentChange, handleDefinitionChange, handleSequenceChange]);
 
   // Handle connections between nodes
   const onConnect = useCallback(
@@ -357,6 +441,35 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
     setNodes(reactFlowNodes as ERDNode[]);
   }, [reactFlowNodes, setNodes]);
 
+  // Rearrange the diagram, using the rendered size of each node
+  // Sizes of the rendered nodes
+  const getMeasuredSizes = useCallback(() => {
+    const sizes: Record<string, NodeSize> = {};
+    reactFlowInstance.getNodes().forEach(node => {
+      if (node.width && node.height) {
+        sizes[node.id] = { width: node.width, height: node.height };
+      }
+    });
+    return sizes;
+  }, [reactFlowInstance]);
+
+  // Select the tables a problem is about and zoom to them
+  const focusProblem = useCallback((problem: LintProblem) => {
+    const edge = problem.edgeId ? edges.find(edge => edge.id === problem.edgeId) : undefined;
+    const ids = (edge ? [edge.source, edge.target] : [problem.nodeId])
+      .filter((id): id is string => !!id && nodes.some(node => node.id === id));
+    if (ids.length === 0) return;
+
+    setReactFlowNodes(current => current.map(node => ({ ...node, selected: ids.includes(node.id) })));
+    reactFlowInstance.fitView({ nodes: ids.map(id => ({ id })), padding: 0.5, maxZoom: 1.5, duration: 400 });
+  }, [nodes, edges, setReactFlowNodes, reactFlowInstance]);
+
+  const applyLayout = useCallback((algorithm: LayoutAlgorithm) => {
+    setNodes(new AutoLayout(nodes, edges, getMeasuredSizes()).layout(algorithm));
+    setShowLayoutOptions(false);
+    setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 50);
+  }, [nodes, edges, setNodes, reactFlowInstance, getMeasuredSizes]);
+
   // Handle changes to nodes and edges
   const handleNodesChange = useCallback(
     (changes: NodeChange[]) => {
@@ -392,7 +505,7 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
     }
   }, [reactFlowInstance]);
   
-  const handleContextMenuOption = useCallback((option: 'table' | 'domain') => {
+  const handleContextMenuOption = useCallback((option: 'table' | 'domain' | 'sequence') => {
     setShowContextMenu(false);
     
     if (option === 'table') {
@@ -419,8 +532,19 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
         opacity: 0.3
       });
       setShowDomainModal(true);
+    } else if (option === 'sequence') {
+      const label = window.prompt('Sequence name', 'SEQ')?.trim();
+      if (!label) return;
+      
+      const newNode: SequenceNodeType = {
+        id: `sequence-${Date.now()}`,
+        type: 'sequence',
+        position: newTablePosition,
+        data: { label, start: 1, increment: 1 }
+      };
+      setNodes(prevNodes => [...prevNodes, newNode]);
     }
-  }, []);
+  }, [newTablePosition, setNodes]);
 
   // Export functions
   const exportAsPng = useCallback(() => {
@@ -601,6 +725,78 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
     }, 250); // Give it a bit more time to render
   }, [reactFlowInstance, reactFlowNodes]);
 
+  // Build the vector exporter for the chosen scope
+  const createSvgExporter = useCallback((): SVGExporter | null => {
+    const sizes = getMeasuredSizes();
+    let nodeIds: string[] | undefined;
+    if (exportScope === 'selected') {
+      nodeIds = reactFlowInstance.getNodes().filter(node => node.selected).map(node => node.id);
+    } else if (exportScope.startsWith('domain:')) {
+      nodeIds = getDomainNodeIds(nodes, exportScope.slice('domain:'.length), sizes);
+    }
+
+    if (nodes.length === 0 || (nodeIds && nodeIds.length === 0)) {
+      alert(exportScope === 'selected' ? 'Select the tables to export first.' : 'There is nothing to export.');
+      return null;
+    }
+
+    const dark = document.documentElement.classList.contains('dark');
+    return new SVGExporter(nodes, edges, sizes, { nodeIds, dark });
+  }, [nodes, edges, exportScope, reactFlowInstance, getMeasuredSizes]);
+
+  const exportAsSvg = useCallback(() => {
+    const exporter = createSvgExporter();
+    if (!exporter) return;
+
+    const blob = new Blob([exporter.generate()], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = 'erd-diagram.svg';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+    setShowExportOptions(false);
+  }, [createSvgExporter]);
+
+  // Split the diagram over as many A4 pages as it needs at its on-screen size
+  const exportAsTiledPdf = useCallback(async () => {
+    const exporter = createSvgExporter();
+    if (!exporter) return;
+
+    try {
+      const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      const bounds = exporter.getBounds();
+
+      // Diagram units covered by one page, leaving room for the page label
+      const tileWidth = (pageWidth - PDF_MARGIN * 2) / PDF_POINTS_PER_UNIT;
+      const tileHeight = (pageHeight - PDF_MARGIN * 3) / PDF_POINTS_PER_UNIT;
+      const columns = Math.max(1, Math.ceil(bounds.width / tileWidth));
+      const rows = Math.max(1, Math.ceil(bounds.height / tileHeight));
+
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          const page = row * columns + column + 1;
+          if (page > 1) pdf.addPage();
+
+          const area = { x: bounds.x + column * tileWidth, y: bounds.y + row * tileHeight, width: tileWidth, height: tileHeight };
+          const image = await rasterizeSVG(exporter.generate(area, PDF_RASTER_SCALE));
+          pdf.addImage(image, 'PNG', PDF_MARGIN, PDF_MARGIN, tileWidth * PDF_POINTS_PER_UNIT, tileHeight * PDF_POINTS_PER_UNIT);
+
+          pdf.setFontSize(8);
+          pdf.text(`Page ${page} of ${rows * columns} (row ${row + 1}, column ${column + 1})`, PDF_MARGIN, pageHeight - PDF_MARGIN);
+        }
+      }
+
+      pdf.save('erd-diagram-tiled.pdf');
+      setShowExportOptions(false);
+    } catch (error) {
+      console.error('Error exporting tiled PDF:', error);
+      alert('Failed to export the tiled PDF');
+    }
+  }, [createSvgExporter]);
+
   // Group templates by category
   const groupedTemplates = useMemo(() => {
     return tableTemplates.reduce<Record<string, TableTemplate[]>>((acc, template) => {
@@ -742,6 +938,8 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
             // Close context menu and export options on pane click
             setShowContextMenu(false);
             setShowExportOptions(false);
+            setShowLayoutOptions(false);
+            setShowProblems(false);
           }}
           onContextMenu={onCanvasContextMenu}
           nodeTypes={nodeTypes}
@@ -793,7 +991,11 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
           {/* Export button */}
           <Panel position="top-right" className="bg-white dark:bg-gray-800 rounded shadow-md flex">
             <button
-              onClick={() => setShowExportOptions(!showExportOptions)}
+              onClick={() => {
+                setShowExportOptions(!showExportOptions);
+                setShowLayoutOptions(false);
+                setShowProblems(false);
+              }}
               className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
               title="Export diagram"
             >
@@ -802,6 +1004,20 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
               </svg>
             </button>
             
+            <button
+              onClick={() => {
+                setShowLayoutOptions(!showLayoutOptions);
+                setShowExportOptions(false);
+                setShowProblems(false);
+              }}
+              className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded ml-1"
+              title="Auto-layout diagram"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4zM7 10v4a2 2 0 002 2h5M17 14v-4a2 2 0 00-2-2h-5" />
+              </svg>
+            </button>
+            
             <button
               onClick={() => setShowDomainModal(true)}
               className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded ml-1"
@@ -812,8 +1028,33 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
               </svg>
             </button>
             
+            <button
+              onClick={() => {
+                setShowProblems(!showProblems);
+                setShowExportOptions(false);
+                setShowLayoutOptions(false);
+              }}
+              className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded ml-1 flex items-center"
+              title="Model problems"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              {lintProblems.length > 0 && (
+                <span className={`ml-1 text-xs font-medium ${
+                  lintProblems.some(problem => problem.severity === 'error')
+                    ? 'text-red-600 dark:text-red-400'
+                    : lintProblems.some(problem => problem.severity === 'warning')
+                      ? 'text-amber-600 dark:text-amber-400'
+                      : 'text-blue-600 dark:text-blue-400'
+                }`}>
+                  {lintProblems.length}
+                </span>
+              )}
+            </button>
+            
             {showExportOptions && (
-              <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 rounded shadow-lg z-10">
+              <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded shadow-lg z-10">
                 <button
                   onClick={exportAsPng}
                   className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -826,8 +1067,60 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
                 >
                   Export as PDF
                 </button>
+                <div className="border-t dark:border-gray-700 px-4 py-2">
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Vector export of</label>
+                  <select
+                    value={exportScope}
+                    onChange={(e) => setExportScope(e.target.value)}
+                    className="w-full p-1 text-sm border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    <option value="all">Whole diagram</option>
+                    <option value="selected">Selected nodes</option>
+                    {nodes.filter((node): node is DomainNodeType => node.type === 'domain').map(domain => (
+                      <option key={domain.id} value={`domain:${domain.id}`}>Domain: {domain.data.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={exportAsSvg}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Export as SVG
+                </button>
+                <button
+                  onClick={exportAsTiledPdf}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title="Large diagrams are split over several A4 pages"
+                >
+                  Export as tiled PDF
+                </button>
+              </div>
+            )}
+            
+            {showLayoutOptions && (
+              <div className="absolute right-0 top-full mt-2 w-64 bg-white dark:bg-gray-800 rounded shadow-lg z-10">
+                {(Object.keys(LAYOUT_ALGORITHMS) as LayoutAlgorithm[]).map((algorithm) => (
+                  <button
+                    key={algorithm}
+                    onClick={() => applyLayout(algorithm)}
+                    className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <div>{LAYOUT_ALGORITHMS[algorithm].name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{LAYOUT_ALGORITHMS[algorithm].description}</div>
+                  </button>
+                ))}
               </div>
             )}
+            
+            {showProblems && (
+              <ProblemsPanel
+                problems={lintProblems}
+                rules={lintRules || {}}
+                onSelect={focusProblem}
+                onRulesChange={(rules) => onLintRulesChange?.(rules)}
+                onClose={() => setShowProblems(false)}
+              />
+            )}
           </Panel>
           
           {/* Context Menu */}
@@ -857,6 +1150,15 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
                 </svg>
                 Create Domain Box
               </button>
+              <button
+                onClick={() => handleContextMenuOption('sequence')}
+                className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 20l4-16m2 16l4-16M6 9h14M4 15h14" />
+                </svg>
+                Create Sequence
+              </button>
             </div>
           )}
           
@@ -878,7 +1180,7 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
             <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Create New Object</h2>
             
             <TableForm
-              onSave={(tableName: string, columns: Column[], tableType?: string, tableComment?: string) => {
+              onSave={(tableName: string, columns: Column[], tableType?: string, tableComment?: string, constraints?: TableConstraint[], namespace?: TableNamespace, definition?: QueryDefinition) => {
                 // Create a new table node
                 const newNode: NodeType = {
                   id: `table-${Date.now()}`,
@@ -888,19 +1190,32 @@ export default function ERDCanvas({ nodes, setNodes, edges, setEdges }: ERDCanva
                     label: tableName,
                     columns: columns,
                     tableType: tableType as 'TABLE' | 'VIEW' | 'MATERIALIZED_VIEW' | 'DYNAMIC_TABLE' | 'ICEBERG_TABLE',
-                    comment: tableComment
+                    comment: tableComment,
+                    constraints,
+                    ...namespace,
+                    ...definition
                   }
                 };
                 
                 setNodes(prevNodes => [...prevNodes, newNode]);
+                
+                // Connect a new view to the tables its query reads from
+                const tables = nodes.filter((node): node is NodeType => node.type === 'table');
+                const lineageEdges = getLineageEdges(newNode, [...tables, newNode], edges);
+                if (lineageEdges.length > 0) {
+                  setEdges([...edges, ...lineageEdges]);
+                }
                 setShowTableCreationModal(false);
               }}
               onCancel={() => setShowTableCreationModal(false)}
               existingTables={nodes.filter(node => node.type === 'table').map(node => ({
                 id: node.id,
                 label: node.data.label,
+                database: node.data.database,
+                schema: node.data.schema,
                 columns: node.data.columns
               }))}
+              sequences={getSequences(nodes)}
             />
           </div>
         </div>
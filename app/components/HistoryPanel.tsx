@@ -0,0 +1,55 @@
+'use client';
+
+import { HistoryEntry } from '../utils/types';
+
+export default function HistoryPanel({
+  entries,
+  index,
+  onSelect,
+  onClose
+}: {
+  entries: HistoryEntry[];
+  index: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}) {
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border dark:border-gray-700 z-50">
+      <div className="flex justify-between items-center px-3 py-2 border-b dark:border-gray-700">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">History</span>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          title="Close history"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      {/* Most recent first; entries after the current one can be redone */}
+      <ul className="py-1">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onSelect(i)}
+              className={`w-full text-left px-3 py-1.5 text-sm flex justify-between items-center hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                i === index
+                  ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-medium'
+                  : i > index
+                    ? 'text-gray-400 dark:text-gray-500'
+                    : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span className="truncate mr-2">{entry.label}</span>
+              <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { ERDNode, SchemaChange } from '../utils/types';
+import SchemaDiff from '../utils/SchemaDiff';
+import DDLParser from '../utils/DDLParser';
+import SnowflakeConnection from './SnowflakeConnection';
+import { migrateProject } from '../utils/projectSchema';
+
+export default function MigrationPanel({
+  nodes,
+  baselineNodes,
+  onBaselineChange
+}: {
+  nodes: ERDNode[];
+  baselineNodes: ERDNode[] | null;
+  onBaselineChange: (nodes: ERDNode[]) => void;
+}) {
+  const [showDDLInput, setShowDDLInput] = useState(false);
+  const [baselineDDL, setBaselineDDL] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [approvedScript, setApprovedScript] = useState<string | null>(null);
+
+  const changes = useMemo<SchemaChange[]>(
+    () => (baselineNodes ? new SchemaDiff(baselineNodes, nodes).getChanges() : []),
+    [baselineNodes, nodes]
+  );
+
+  // Destructive changes have to be opted into
+  useEffect(() => {
+    setSelectedIds(new Set(changes.filter(change => !change.destructive).map(change => change.id)));
+    setApprovedScript(null);
+  }, [changes]);
+
+  const selectedChanges = changes.filter(change => selectedIds.has(change.id));
+  const script = SchemaDiff.toScript(selectedChanges);
+
+  const toggleChange = (id: string) => {
+    const updated = new Set(selectedIds);
+    if (updated.has(id)) {
+      updated.delete(id);
+    } else {
+      updated.add(id);
+    }
+    setSelectedIds(updated);
+    setApprovedScript(null);
+  };
+
+  const handleLoadBaselineDDL = () => {
+    try {
+      const { nodes: parsedNodes } = new DDLParser(baselineDDL).parse();
+      if (parsedNodes.length === 0) {
+        alert('No tables were found in the DDL. Please check the syntax and try again.');
+        return;
+      }
+      onBaselineChange(parsedNodes);
+      setBaselineDDL('');
+      setShowDDLInput(false);
+    } catch (error) {
+      console.error('Error parsing baseline DDL:', error);
+      alert('Failed to parse the baseline DDL. Please check the syntax and try again.');
+    }
+  };
+
+  const handleLoadBaselineFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const project = migrateProject(JSON.parse(reader.result as string));
+        onBaselineChange(project.nodes);
+      } catch (error) {
+        console.error('Error loading baseline project:', error);
+        alert('Failed to load the project file. Please check the format and try again.');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          onClick={() => onBaselineChange(nodes)}
+          className="px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded"
+        >
+          Use Current Canvas as Baseline
+        </button>
+        <button
+          onClick={() => setShowDDLInput(!showDDLInput)}
+          className="px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded"
+        >
+          Load Baseline From DDL
+        </button>
+        <label className="px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded cursor-pointer">
+          Load Baseline From Project File
+          <input type="file" accept=".json" onChange={handleLoadBaselineFile} className="hidden" />
+        </label>
+      </div>
+
+      {showDDLInput && (
+        <div className="mb-4">
+          <textarea
+            value={baselineDDL}
+            onChange={(e) => setBaselineDDL(e.target.value)}
+            placeholder="Paste the DDL that is currently deployed..."
+            className="w-full h-40 p-3 font-mono text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border rounded border-gray-300 dark:border-gray-600"
+          />
+          <button
+            onClick={handleLoadBaselineDDL}
+            className="mt-2 px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded"
+          >
+            Compare With This DDL
+          </button>
+        </div>
+      )}
+
+      {!baselineNodes ? (
+        <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 p-4 rounded text-sm">
+          <p className="text-yellow-700 dark:text-yellow-300">
+            Choose a baseline to compare the canvas with. Executing the full DDL also makes the canvas the new baseline.
+          </p>
+        </div>
+      ) : changes.length === 0 ? (
+        <div className="bg-green-50 dark:bg-green-900/30 border-l-4 border-green-400 p-4 rounded text-sm">
+          <p className="text-green-700 dark:text-green-300">The canvas matches the baseline. There is nothing to migrate.</p>
+        </div>
+      ) : (
+        <>
+          <h3 className="text-lg font-medium mb-2">Review Changes</h3>
+          <div className="bg-white dark:bg-gray-800 rounded-md border dark:border-gray-700 shadow-sm divide-y dark:divide-gray-700 mb-4">
+            {changes.map(change => (
+              <label key={change.id} className="flex items-start p-3 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(change.id)}
+                  onChange={() => toggleChange(change.id)}
+                  className="mt-0.5 mr-3"
+                />
+                <div className="flex-1">
+                  <div className="flex items-center">
+                    <span className="text-gray-900 dark:text-white">{change.description}</span>
+                    {change.destructive && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 rounded">
+                        Destructive
+                      </span>
+                    )}
+                  </div>
+                  <pre className="mt-1 text-xs text-gray-500 dark:text-gray-400 whitespace-pre-wrap">{change.sql}</pre>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <h3 className="text-lg font-medium mb-2">Migration Script</h3>
+          <div className="bg-white dark:bg-gray-800 p-4 rounded-md border dark:border-gray-700 shadow-sm">
+            <textarea
+              readOnly
+              value={script}
+              className="w-full h-48 p-3 font-mono text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-0 focus:ring-0 focus:outline-none resize-none"
+            />
+          </div>
+          <div className="mt-3 flex space-x-3 mb-6">
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(script);
+                alert('Migration script copied to clipboard!');
+              }}
+              className="px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded"
+            >
+              Copy to Clipboard
+            </button>
+            <button
+              onClick={() => setApprovedScript(script)}
+              disabled={selectedChanges.length === 0}
+              className="px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:bg-blue-300"
+            >
+              Approve Script
+            </button>
+          </div>
+
+          {approvedScript !== null && (
+            <SnowflakeConnection
+              ddl={approvedScript}
+              onExecutionComplete={(result) => {
+                if (result.status === 'success') {
+                  alert('Migration executed successfully in Snowflake!');
+                  onBaselineChange(nodes);
+                }
+              }}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
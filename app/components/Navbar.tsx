@@ -3,7 +3,7 @@
 import ThemeSelector from './ThemeSelector';
 import { useTheme } from '../context/ThemeContext';
 
-export default function Navbar() {
+export default function Navbar({ children }: { children?: React.ReactNode }) {
   const { isDarkMode, toggleDarkMode } = useTheme();
 
   return (
@@ -12,6 +12,7 @@ export default function Navbar() {
         <div className="flex items-center">
           <h1 className="text-xl font-bold text-primary-dark dark:text-primary-light mr-2">EzERD</h1>
           <span className="text-sm text-gray-500 dark:text-gray-400">Simple ERD to Snowflake DDL</span>
+          {children}
         </div>
         <div className="flex items-center space-x-2">
           <button
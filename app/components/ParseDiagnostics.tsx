@@ -0,0 +1,35 @@
+'use client';
+
+import { ImportDiagnostic, ParseDiagnostic } from '../utils/types';
+
+// Diagnostics of sources without lines, such as a dbt manifest, are listed without a position
+export default function ParseDiagnostics({ diagnostics }: { diagnostics: (ImportDiagnostic | ParseDiagnostic)[] }) {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div className="mt-2 border rounded dark:border-gray-600 text-xs">
+      <div className="px-2 py-1 font-medium border-b dark:border-gray-600 dark:text-white">
+        Not imported ({diagnostics.length})
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y dark:divide-gray-700">
+        {diagnostics.map((diagnostic, index) => (
+          <li key={index} className="px-2 py-1">
+            {'line' in diagnostic && (
+              <>
+                <span className={diagnostic.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-300'}>
+                  Line {diagnostic.line}, column {diagnostic.column}:
+                </span>{' '}
+              </>
+            )}
+            <span className="dark:text-gray-200">{diagnostic.message}</span>
+            {'statement' in diagnostic && diagnostic.statement && (
+              <div className="font-mono text-gray-500 dark:text-gray-400 truncate" title={diagnostic.statement}>
+                {diagnostic.statement}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { LintProblem, LintRuleSettings, LintSeverity } from '../utils/types';
+import { LINT_RULES, getRuleSeverity } from '../utils/ModelLinter';
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: string; className: string }> = {
+  error: { icon: '⛔', className: 'text-red-600 dark:text-red-400' },
+  warning: { icon: '⚠', className: 'text-amber-600 dark:text-amber-400' },
+  info: { icon: 'ℹ', className: 'text-blue-600 dark:text-blue-400' }
+};
+
+export default function ProblemsPanel({
+  problems,
+  rules,
+  onSelect,
+  onRulesChange,
+  onClose
+}: {
+  problems: LintProblem[];
+  rules: LintRuleSettings;
+  onSelect: (problem: LintProblem) => void;
+  onRulesChange: (rules: LintRuleSettings) => void;
+  onClose: () => void;
+}) {
+  const [showRules, setShowRules] = useState(false);
+
+  const changeSeverity = (ruleId: string, severity: LintSeverity | 'off') => {
+    const rule = LINT_RULES.find(rule => rule.id === ruleId);
+    const updated = { ...rules, [ruleId]: severity };
+    // Only rules that differ from their default are stored with the project
+    if (rule?.defaultSeverity === severity) delete updated[ruleId];
+    onRulesChange(updated);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-96 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded shadow-lg z-10">
+      <div className="flex justify-between items-center px-3 py-2 border-b dark:border-gray-700">
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          {showRules ? 'Lint rules' : `Problems (${problems.length})`}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {showRules ? 'Show problems' : 'Configure rules'}
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Close problems"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {showRules ? (
+        <ul className="py-1">
+          {LINT_RULES.map(rule => (
+            <li key={rule.id} className="px-3 py-1.5 flex justify-between items-center">
+              <div className="mr-2">
+                <div className="text-sm text-gray-900 dark:text-white">{rule.name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{rule.description}</div>
+              </div>
+              <select
+                value={getRuleSeverity(rule, rules)}
+                onChange={(e) => changeSeverity(rule.id, e.target.value as LintSeverity | 'off')}
+                className="p-1 text-xs border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              >
+                <option value="error">Error</option>
+                <option value="warning">Warning</option>
+                <option value="info">Info</option>
+                <option value="off">Off</option>
+              </select>
+            </li>
+          ))}
+        </ul>
+      ) : problems.length === 0 ? (
+        <p className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">No problems found in the model.</p>
+      ) : (
+        <ul className="py-1">
+          {problems.map((problem, i) => (
+            <li key={`${problem.ruleId}-${i}`}>
+              <button
+                onClick={() => onSelect(problem)}
+                disabled={!problem.nodeId}
+                className="w-full text-left px-3 py-1.5 text-sm flex items-start hover:bg-gray-100 dark:hover:bg-gray-700 disabled:hover:bg-transparent"
+                title={problem.nodeId ? 'Show on the canvas' : undefined}
+              >
+                <span className={`mr-2 ${SEVERITY_STYLES[problem.severity].className}`}>{SEVERITY_STYLES[problem.severity].icon}</span>
+                <span className="flex-1 text-gray-700 dark:text-gray-300">{problem.message}</span>
+                <span className="ml-2 text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">{problem.ruleId}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
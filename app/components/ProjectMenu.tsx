@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { ProjectSummary } from '../utils/ProjectStore';
+import { SaveStatus } from '../utils/useProjects';
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Saving...',
+  saved: 'Saved',
+  error: 'Not saved'
+};
+
+export default function ProjectMenu({
+  projects,
+  currentProject,
+  saveStatus,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}: {
+  projects: ProjectSummary[];
+  currentProject: { id: string; name: string } | null;
+  saveStatus: SaveStatus;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleRename = (project: { id: string; name: string }) => {
+    const name = window.prompt('Project name', project.name);
+    if (name && name.trim() && name.trim() !== project.name) {
+      onRename(project.id, name.trim());
+    }
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Are you sure you want to delete the project "${project.name}"? This cannot be undone.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+  return (
+    <div className="relative flex items-center ml-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700"
+        title="Switch project"
+      >
+        <span className="max-w-[200px] truncate">{currentProject?.name || 'Loading...'}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      <span className={`ml-2 text-xs ${saveStatus === 'error' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+        {SAVE_STATUS_LABELS[saveStatus]}
+      </span>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-96 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border dark:border-gray-700 z-50">
+          <div className="flex justify-between items-center px-3 py-2 border-b dark:border-gray-700">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">Projects</span>
+            <button
+              onClick={() => {
+                onCreate();
+                setIsOpen(false);
+              }}
+              className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded"
+            >
+              New Project
+            </button>
+          </div>
+          <ul className="py-1">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className={`group flex items-center px-3 py-2 text-sm ${
+                  project.id === currentProject?.id ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    if (project.id !== currentProject?.id) onOpen(project.id);
+                    setIsOpen(false);
+                  }}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <div className="truncate text-gray-900 dark:text-white">{project.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {project.tableCount} tables • edited {formatDate(project.updatedAt)}
+                  </div>
+                </button>
+                <div className="flex space-x-1 ml-2 opacity-0 group-hover:opacity-100">
+                  <button
+                    onClick={() => handleRename(project)}
+                    className="px-1.5 py-0.5 text-xs text-blue-500 hover:text-blue-700 dark:text-blue-400"
+                    title="Rename project"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => {
+                      onDuplicate(project.id);
+                      setIsOpen(false);
+                    }}
+                    className="px-1.5 py-0.5 text-xs text-blue-500 hover:text-blue-700 dark:text-blue-400"
+                    title="Duplicate project"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project)}
+                    className="px-1.5 py-0.5 text-xs text-red-500 hover:text-red-700"
+                    title="Delete project"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { SequenceDefinition, SequenceNodeType } from '../utils/types';
+
+interface SequenceNodeProps {
+  data: SequenceNodeType['data'];
+  id: string;
+  selected: boolean;
+}
+
+export default function SequenceNode({ data, id, selected }: SequenceNodeProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [edited, setEdited] = useState<SequenceDefinition>({ label: '', start: 1, increment: 1 });
+
+  const startEditing = () => {
+    setEdited({ label: data.label, start: data.start, increment: data.increment, comment: data.comment });
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    data.onChange?.({
+      label: edited.label.trim(),
+      start: edited.start,
+      increment: edited.increment,
+      comment: edited.comment?.trim() || undefined
+    });
+    setIsEditing(false);
+  };
+
+  const isValid = edited.label.trim() !== '' && Number.isInteger(edited.start) && Number.isInteger(edited.increment) && edited.increment !== 0;
+  const inputClassName = 'nodrag w-full p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+  return (
+    <div className={`border-2 rounded-md overflow-hidden ${
+      selected ? 'border-primary-dark dark:border-primary-light' : 'border-gray-300 dark:border-gray-600'
+    } bg-white dark:bg-gray-800 shadow-md min-w-[180px]`}>
+      {/* Sequence Header */}
+      <div className="p-2 font-semibold border-b border-gray-300 dark:border-gray-600 bg-indigo-100 dark:bg-indigo-800">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-col">
+            {data.schema && (
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                {data.database ? `${data.database}.` : ''}{data.schema}
+              </span>
+            )}
+            <span>{data.label}</span>
+          </div>
+          <div className="flex items-center">
+            <span className="text-xs text-gray-700 dark:text-gray-300 mr-2">Sequence</span>
+            {data.onDelete && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (window.confirm(`Are you sure you want to delete the sequence "${data.label}"? Column defaults that use it are kept.`)) {
+                    data.onDelete?.(id);
+                  }
+                }}
+                className="text-red-500 hover:text-red-700 p-1"
+                title="Delete sequence"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-2 text-xs" onClick={(e) => e.stopPropagation()}>
+        {isEditing ? (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={edited.label}
+              onChange={(e) => setEdited({ ...edited, label: e.target.value })}
+              placeholder="Sequence name"
+              className={inputClassName}
+              autoFocus
+            />
+            <div className="grid grid-cols-2 gap-1">
+              <label className="text-gray-700 dark:text-gray-300">
+                Start
+                <input
+                  type="number"
+                  value={edited.start}
+                  onChange={(e) => setEdited({ ...edited, start: parseInt(e.target.value, 10) })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-gray-700 dark:text-gray-300">
+                Increment
+                <input
+                  type="number"
+                  value={edited.increment}
+                  onChange={(e) => setEdited({ ...edited, increment: parseInt(e.target.value, 10) })}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+            <input
+              type="text"
+              value={edited.comment || ''}
+              onChange={(e) => setEdited({ ...edited, comment: e.target.value })}
+              placeholder="Optional comment"
+              className={inputClassName}
+            />
+            <div className="flex justify-end space-x-1">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveEdit}
+                disabled={!isValid}
+                className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={startEditing}
+            className="w-full text-left hover:bg-gray-50 dark:hover:bg-gray-700 rounded p-1 text-gray-700 dark:text-gray-300"
+            title="Edit sequence"
+          >
+            <span className="block font-mono">START {data.start} INCREMENT {data.increment}</span>
+            {data.comment && (
+              <span className="block mt-1 text-gray-500 dark:text-gray-400">{data.comment}</span>
+            )}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,25 @@
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { NodeType, EdgeType, Column, ERDNode } from '../utils/types';
+import { NodeType, EdgeType, Column, ERDNode, TableConstraint, QueryDefinition, ParseDiagnostic, ImportDiagnostic } from '../utils/types';
 import DDLGenerator from '../utils/DDLGenerator';
 import DDLParser from '../utils/DDLParser';
 import YAMLParser from '../utils/YAMLParser';
+import DBTSchemaGenerator from '../utils/DBTSchemaGenerator';
+import DBTManifestParser from '../utils/DBTManifestParser';
+import DBMLParser from '../utils/DBMLParser';
+import DBMLGenerator from '../utils/DBMLGenerator';
+import AutoLayout from '../utils/AutoLayout';
+import { migrateProject, serializeProject } from '../utils/projectSchema';
+import { getQualifiedName, TableNamespace } from '../utils/qualifiedNames';
+import { getLineageEdges } from '../utils/queryLineage';
+import { getSequences } from '../utils/sequenceUtils';
 import TableForm from './TableForm';
 import AIPrompt from './AIPrompt';
 import SnowflakeConnection from './SnowflakeConnection';
+import DiagramTextExport from './DiagramTextExport';
+import SnowflakeImport from './SnowflakeImport';
+import ParseDiagnostics from './ParseDiagnostics';
 import { Editor } from '@monaco-editor/react';
 
 interface SidebarProps {
@@ -19,14 +31,20 @@ interface SidebarProps {
   ddl: string;
   setDDL: (ddl: string) => void;
   setActiveTab?: (tab: 'erd' | 'ddl') => void;
+  projectName?: string;
 }
 
-export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL, setActiveTab }: SidebarProps) {
+export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL, setActiveTab, projectName = 'Untitled project' }: SidebarProps) {
   const [activeTab, setActiveTabState] = useState<'tables' | 'ai' | 'import' | 'export' | 'snowflake'>('tables');
   const [showCreateTable, setShowCreateTable] = useState(false);
   const [importDDL, setImportDDL] = useState('');
+  const [importDiagnostics, setImportDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [manifestDiagnostics, setManifestDiagnostics] = useState<ImportDiagnostic[]>([]);
   const [importYAML, setImportYAML] = useState('');
   const [importJson, setImportJson] = useState('');
+  const [importDBML, setImportDBML] = useState('');
+  const [dbtManifest, setDbtManifest] = useState<{ name: string; content: string } | null>(null);
+  const [dbtCatalog, setDbtCatalog] = useState<{ name: string; content: string } | null>(null);
   const [editableDDL, setEditableDDL] = useState(ddl);
   const [showNewTableForm, setShowNewTableForm] = useState(false);
   const [editingTable, setEditingTable] = useState<NodeType | null>(null);
@@ -69,7 +87,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
   }, []);
 
   // Handle saving the edited table
-  const handleSaveEditedTable = useCallback((tableName: string, columns: Column[], tableType?: string, tableComment?: string) => {
+  const handleSaveEditedTable = useCallback((tableName: string, columns: Column[], tableType?: string, tableComment?: string, constraints?: TableConstraint[], namespace?: TableNamespace, definition?: QueryDefinition) => {
     if (editingTable) {
       const updatedNodes = nodes.map(node => 
         node.id === editingTable.id 
@@ -80,16 +98,27 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                 label: tableName,
                 columns: columns,
                 ...(tableType ? { tableType } : {}),
-                ...(tableComment !== undefined ? { comment: tableComment } : {})
+                ...(tableComment !== undefined ? { comment: tableComment } : {}),
+                ...(constraints !== undefined ? { constraints } : {}),
+                ...(namespace ? { database: namespace.database, schema: namespace.schema } : {}),
+                ...definition
               }
             }
           : node
       ) as ERDNode[];
       
       setNodes(updatedNodes);
+      
+      // Connect the view to the tables its query reads from
+      const tables = updatedNodes.filter((node): node is NodeType => node.type === 'table');
+      const updated = tables.find(table => table.id === editingTable.id);
+      const lineageEdges = updated ? getLineageEdges(updated, tables, edges) : [];
+      if (lineageEdges.length > 0) {
+        setEdges([...edges, ...lineageEdges]);
+      }
       setEditingTable(null);
     }
-  }, [editingTable, nodes, setNodes]);
+  }, [editingTable, nodes, edges, setNodes, setEdges]);
 
   const addNewTable = (tableName: string, columns: Column[], tableType?: string) => {
     const newNode: NodeType = {
@@ -126,7 +155,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
     }
     
     const ddlGenerator = new DDLGenerator(nodes, edges);
-    const generatedDDL = ddlGenerator.generateSnowflakeDDL();
+    const generatedDDL = ddlGenerator.generateDDL();
     setDDL(generatedDDL);
   };
   
@@ -139,22 +168,29 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
       }
       
       const parser = new DDLParser(importDDL);
-      const { nodes: parsedNodes, edges: parsedEdges } = parser.parse();
+      const { nodes: parsedNodes, edges: parsedEdges, diagnostics } = parser.parse();
+      setImportDiagnostics(diagnostics);
       
       if (parsedNodes.length === 0) {
-        alert('No tables were found in the DDL. Please check the syntax and try again.');
+        alert('No tables were found in the DDL. Please check the problems listed below the DDL and try again.');
         return;
       }
       
-      // Update state with the parsed nodes and edges
-      setNodes(parsedNodes);
+      // Update state with the parsed nodes and edges, laid out by their relationships
+      setNodes(new AutoLayout(parsedNodes, parsedEdges).layout('layered'));
       setEdges(parsedEdges);
       
       // Generate DDL
       const ddlGenerator = new DDLGenerator(parsedNodes, parsedEdges);
-      const generatedDDL = ddlGenerator.generateSnowflakeDDL();
+      const generatedDDL = ddlGenerator.generateDDL();
       setDDL(generatedDDL);
       
+      // Keep the DDL and the problems in view when parts of it were not imported
+      if (diagnostics.length > 0) {
+        alert(`Imported ${parsedNodes.length} tables from DDL. ${diagnostics.length} problems were found, see the list below the DDL.`);
+        return;
+      }
+      
       // Reset form and switch to tables tab
       setImportDDL('');
       setActiveTabState('tables');
@@ -182,13 +218,13 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
         return;
       }
       
-      // Update state with the parsed nodes and edges
-      setNodes(parsedNodes);
+      // Update state with the parsed nodes and edges, laid out by their relationships
+      setNodes(new AutoLayout(parsedNodes, parsedEdges).layout('layered'));
       setEdges(parsedEdges);
       
       // Generate DDL
       const ddlGenerator = new DDLGenerator(parsedNodes, parsedEdges);
-      const generatedDDL = ddlGenerator.generateSnowflakeDDL();
+      const generatedDDL = ddlGenerator.generateDDL();
       setDDL(generatedDDL);
       
       // Reset form and switch to tables tab
@@ -202,6 +238,111 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
     }
   };
   
+  // Function to handle importing DBML from dbdiagram.io
+  const handleImportDBML = () => {
+    try {
+      if (!importDBML.trim()) {
+        alert('Please paste your DBML');
+        return;
+      }
+
+      const parser = new DBMLParser(importDBML);
+      const { nodes: parsedNodes, edges: parsedEdges } = parser.parse();
+
+      if (!parsedNodes.some(node => node.type === 'table')) {
+        alert('No tables were found in the DBML. Please check the format and try again.');
+        return;
+      }
+
+      // Table groups arrive as domains, which the layout keeps their tables inside
+      setNodes(new AutoLayout(parsedNodes, parsedEdges).layout('layered'));
+      setEdges(parsedEdges);
+
+      const ddlGenerator = new DDLGenerator(parsedNodes, parsedEdges);
+      setDDL(ddlGenerator.generateDDL());
+
+      setImportDBML('');
+      setActiveTabState('tables');
+
+      alert(`Successfully imported ${parsedNodes.filter(node => node.type === 'table').length} tables from DBML!`);
+    } catch (error) {
+      console.error('Error importing DBML:', error);
+      alert(`Failed to import DBML. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  // Read a selected dbt artifact into state
+  const readDbtFile = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    setFile: (file: { name: string; content: string } | null) => void
+  ) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setManifestDiagnostics([]);
+    const reader = new FileReader();
+    reader.onload = () => setFile({ name: file.name, content: reader.result as string });
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  // Function to handle importing a compiled dbt project
+  const handleImportManifest = () => {
+    try {
+      if (!dbtManifest) {
+        alert('Please choose the manifest.json from your dbt target folder');
+        return;
+      }
+
+      const parser = new DBTManifestParser(dbtManifest.content, dbtCatalog?.content);
+      const { nodes: parsedNodes, edges: parsedEdges, diagnostics } = parser.parse();
+      setManifestDiagnostics(diagnostics);
+
+      if (parsedNodes.length === 0) {
+        alert('No models, seeds, snapshots or sources were found in the manifest.');
+        return;
+      }
+
+      setNodes(new AutoLayout(parsedNodes, parsedEdges).layout('layered'));
+      setEdges(parsedEdges);
+
+      const ddlGenerator = new DDLGenerator(parsedNodes, parsedEdges);
+      setDDL(ddlGenerator.generateDDL());
+
+      // Keep the skipped relationships in view
+      if (diagnostics.length > 0) {
+        alert(`Imported ${parsedNodes.length} objects from the dbt manifest. ${diagnostics.length} relationships were skipped, see the list below the manifest.`);
+        return;
+      }
+
+      setDbtManifest(null);
+      setDbtCatalog(null);
+      setActiveTabState('tables');
+
+      alert(`Successfully imported ${parsedNodes.length} objects from the dbt manifest!`);
+    } catch (error) {
+      console.error('Error importing dbt manifest:', error);
+      alert(`Failed to import dbt manifest. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleImportSnowflake = (importedNodes: ERDNode[], importedEdges: EdgeType[]) => {
+    if (importedNodes.length === 0) {
+      alert('No tables or views were selected.');
+      return;
+    }
+
+    setNodes(new AutoLayout(importedNodes, importedEdges).layout('layered'));
+    setEdges(importedEdges);
+
+    const ddlGenerator = new DDLGenerator(importedNodes, importedEdges);
+    setDDL(ddlGenerator.generateDDL());
+
+    setActiveTabState('tables');
+
+    alert(`Successfully imported ${importedNodes.length} objects from Snowflake!`);
+  };
+
   // Function to handle DDL changes
   const handleDDLChange = (newDDL: string) => {
     setEditableDDL(newDDL);
@@ -217,11 +358,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
   // Function to save the current ERD as JSON
   const saveProject = () => {
     try {
-      const project = {
-        nodes,
-        edges,
-        ddl
-      };
+      const project = serializeProject(projectName, nodes, edges);
       
       const jsonString = JSON.stringify(project, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
@@ -230,7 +367,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
       // Create download link and trigger click
       const a = document.createElement('a');
       a.href = url;
-      a.download = `ezerd-project-${new Date().toISOString().slice(0, 10)}.json`;
+      a.download = `${projectName.replace(/[^a-zA-Z0-9_-]+/g, '-').toLowerCase()}-${new Date().toISOString().slice(0, 10)}.json`;
       document.body.appendChild(a);
       a.click();
       
@@ -243,32 +380,84 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
     }
   };
   
+  // Download the diagram as a dbt schema.yml
+  const exportDBTSchema = () => {
+    try {
+      const schema = new DBTSchemaGenerator(nodes, edges).generate();
+      const blob = new Blob([schema], { type: 'text/yaml' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'schema.yml';
+      document.body.appendChild(a);
+      a.click();
+
+      URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting dbt schema:', error);
+      alert('Failed to export dbt schema.yml');
+    }
+  };
+
+  const copyDBTSchema = async () => {
+    try {
+      await navigator.clipboard.writeText(new DBTSchemaGenerator(nodes, edges).generate());
+      alert('dbt schema.yml copied to clipboard');
+    } catch (error) {
+      console.error('Error copying dbt schema:', error);
+      alert('Failed to copy dbt schema.yml');
+    }
+  };
+
+  // Download the diagram as DBML for dbdiagram.io
+  const exportDBML = () => {
+    try {
+      const dbml = new DBMLGenerator(nodes, edges).generate();
+      const blob = new Blob([dbml], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectName.replace(/[^a-zA-Z0-9_-]+/g, '-').toLowerCase()}.dbml`;
+      document.body.appendChild(a);
+      a.click();
+
+      URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error exporting DBML:', error);
+      alert('Failed to export DBML');
+    }
+  };
+
+  const copyDBML = async () => {
+    try {
+      await navigator.clipboard.writeText(new DBMLGenerator(nodes, edges).generate());
+      alert('DBML copied to clipboard');
+    } catch (error) {
+      console.error('Error copying DBML:', error);
+      alert('Failed to copy DBML');
+    }
+  };
+
   // Function to load a saved project
-  const loadProject = () => {
+  const loadProject = (json: string = importJson) => {
     try {
-      if (!importJson.trim()) {
+      if (!json.trim()) {
         alert('Please paste your project JSON');
         return;
       }
       
-      const project = JSON.parse(importJson);
+      // Files saved by older versions are upgraded to the current format
+      const project = migrateProject(JSON.parse(json));
       
-      // Validate project data
-      if (!project.nodes || !Array.isArray(project.nodes) || !project.edges || !Array.isArray(project.edges)) {
-        throw new Error('Invalid project format');
-      }
-      
-      // Update state with proper type
-      setNodes(project.nodes as ERDNode[]);
+      setNodes(project.nodes);
       setEdges(project.edges);
       
-      // Either use saved DDL or regenerate
-      if (project.ddl) {
-        setDDL(project.ddl);
-      } else {
-        const ddlGenerator = new DDLGenerator(project.nodes, project.edges);
-        setDDL(ddlGenerator.generateSnowflakeDDL());
-      }
+      const ddlGenerator = new DDLGenerator(project.nodes, project.edges);
+      setDDL(ddlGenerator.generateDDL());
       
       // Reset form and switch to tables tab
       setImportJson('');
@@ -281,6 +470,17 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
     }
   };
   
+  // Load a project from a downloaded JSON file
+  const loadProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    const reader = new FileReader();
+    reader.onload = () => loadProject(reader.result as string);
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+  
   return (
     <div className="w-80 bg-white dark:bg-gray-800 border-r dark:border-gray-700 flex flex-col h-full">
       <div className="border-b dark:border-gray-700">
@@ -353,7 +553,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
             
             <div className="space-y-2">
               {tables.length === 0 ? (
-                <p className="text-gray-500 dark:text-gray-400 text-sm">No objects added yet. Click "Add Object" to create your first table or view.</p>
+                <p className="text-gray-500 dark:text-gray-400 text-sm">No objects added yet. Click &quot;Add Object&quot; to create your first table or view.</p>
               ) : (
                 tables.map((table) => (
                   <div
@@ -362,7 +562,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                   >
                     <div className="flex justify-between items-center">
                       <div>
-                        <div className="font-medium">{table.data.label}</div>
+                        <div className="font-medium">{getQualifiedName(table.data)}</div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">
                           {table.data.tableType || 'TABLE'} • {table.data.columns.length} columns
                         </div>
@@ -428,12 +628,16 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                 onChange={(e) => setImportJson(e.target.value)}
               />
               <button
-                onClick={loadProject}
+                onClick={() => loadProject()}
                 className="w-full mt-2 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
                 disabled={!importJson.trim()}
               >
                 Load Project
               </button>
+              <label className="block w-full mt-2 text-center bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white px-3 py-2 rounded text-sm cursor-pointer">
+                Load Project File
+                <input type="file" accept=".json" onChange={loadProjectFile} className="hidden" />
+              </label>
             </div>
             
             <div className="border-b pb-4 mb-4">
@@ -452,6 +656,55 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                 Import YAML
               </button>
             </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">Import from DBML</h4>
+              <textarea
+                className="w-full h-40 p-2 border rounded dark:border-gray-600 bg-white dark:bg-gray-900 text-sm font-mono"
+                placeholder="Paste DBML from dbdiagram.io here... Supports tables, refs, enums, notes and table groups."
+                value={importDBML}
+                onChange={(e) => setImportDBML(e.target.value)}
+              />
+              <button
+                onClick={handleImportDBML}
+                className="w-full mt-2 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+                disabled={!importDBML.trim()}
+              >
+                Import DBML
+              </button>
+            </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">Import from Snowflake</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Pick tables and views from a live schema. Columns, keys, comments and tags are read from Snowflake.
+              </p>
+              <SnowflakeImport onImport={handleImportSnowflake} />
+            </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">Import from dbt Manifest</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Choose manifest.json from your dbt target folder. Add catalog.json from dbt docs generate for the warehouse column types.
+              </p>
+              <label className="block w-full text-center bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white px-3 py-2 rounded text-sm cursor-pointer truncate">
+                {dbtManifest ? dbtManifest.name : 'Choose manifest.json'}
+                <input type="file" accept=".json" onChange={(e) => readDbtFile(e, setDbtManifest)} className="hidden" />
+              </label>
+              <label className="block w-full mt-2 text-center bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white px-3 py-2 rounded text-sm cursor-pointer truncate">
+                {dbtCatalog ? dbtCatalog.name : 'Choose catalog.json (optional)'}
+                <input type="file" accept=".json" onChange={(e) => readDbtFile(e, setDbtCatalog)} className="hidden" />
+              </label>
+              <button
+                onClick={handleImportManifest}
+                className="w-full mt-2 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+                disabled={!dbtManifest}
+              >
+                Import Manifest
+              </button>
+
+              <ParseDiagnostics diagnostics={manifestDiagnostics} />
+            </div>
             
             <div>
               <h4 className="font-medium text-sm mb-2">Import DDL</h4>
@@ -459,7 +712,10 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                 className="w-full h-40 p-2 border rounded dark:border-gray-600 bg-white dark:bg-gray-900 text-sm font-mono"
                 placeholder="Paste Snowflake DDL here... Multiple CREATE TABLE and ALTER TABLE statements separated by semicolons are supported."
                 value={importDDL}
-                onChange={(e) => setImportDDL(e.target.value)}
+                onChange={(e) => {
+                  setImportDDL(e.target.value);
+                  setImportDiagnostics([]);
+                }}
               />
               <button
                 onClick={handleImportDDL}
@@ -468,6 +724,8 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
               >
                 Import DDL
               </button>
+              
+              <ParseDiagnostics diagnostics={importDiagnostics} />
             </div>
           </div>
         )}
@@ -489,6 +747,60 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                 Download Project JSON
               </button>
             </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">Diagram as Text</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Mermaid or PlantUML for docs and code review, with keys and crow&apos;s foot cardinality.
+              </p>
+              <DiagramTextExport nodes={nodes} edges={edges} />
+            </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">DBML</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Export tables, relationships and domains as DBML to open in dbdiagram.io.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={exportDBML}
+                  className="flex-1 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+                  disabled={nodes.length === 0}
+                >
+                  Download DBML
+                </button>
+                <button
+                  onClick={copyDBML}
+                  className="px-3 py-2 rounded text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  disabled={nodes.length === 0}
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+
+            <div className="border-b pb-4 mb-4">
+              <h4 className="font-medium text-sm mb-2">dbt schema.yml</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Export tables as dbt models with column types, descriptions, and unique, not_null and relationships tests.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  onClick={exportDBTSchema}
+                  className="flex-1 bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+                  disabled={nodes.length === 0}
+                >
+                  Download schema.yml
+                </button>
+                <button
+                  onClick={copyDBTSchema}
+                  className="px-3 py-2 rounded text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  disabled={nodes.length === 0}
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
             
             <div>
               <h4 className="font-medium text-sm mb-2">View Generated DDL</h4>
@@ -530,7 +842,7 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
             <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">Create New Object</h2>
             
             <TableForm
-              onSave={(tableName, columns, tableType, tableComment) => {
+              onSave={(tableName, columns, tableType, tableComment, constraints, namespace, definition) => {
                 // Create a new table node
                 const newNode: NodeType = {
                   id: `table-${Date.now()}`,
@@ -540,20 +852,32 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
                     label: tableName,
                     columns: columns,
                     tableType: tableType as 'TABLE' | 'VIEW' | 'MATERIALIZED_VIEW' | 'DYNAMIC_TABLE' | 'ICEBERG_TABLE',
-                    comment: tableComment
+                    comment: tableComment,
+                    constraints,
+                    ...namespace,
+                    ...definition
                   }
                 };
                 
                 // Update nodes by creating a new array
                 setNodes([...nodes, newNode]);
+                
+                // Connect a new view to the tables its query reads from
+                const lineageEdges = getLineageEdges(newNode, [...tables, newNode], edges);
+                if (lineageEdges.length > 0) {
+                  setEdges([...edges, ...lineageEdges]);
+                }
                 setShowNewTableForm(false);
               }}
               onCancel={() => setShowNewTableForm(false)}
               existingTables={tables.map(node => ({
                 id: node.id,
                 label: node.data.label,
+                database: node.data.database,
+                schema: node.data.schema,
                 columns: node.data.columns
               }))}
+              sequences={getSequences(nodes)}
             />
           </div>
         </div>
@@ -570,13 +894,25 @@ export default function Sidebar({ nodes, setNodes, edges, setEdges, ddl, setDDL,
               existingTables={tables.map(node => ({
                 id: node.id,
                 label: node.data.label,
+                database: node.data.database,
+                schema: node.data.schema,
                 columns: node.data.columns
               }))}
+              sequences={getSequences(nodes)}
               initialValues={{
                 tableName: editingTable.data.label,
                 columns: editingTable.data.columns,
                 tableType: editingTable.data.tableType,
-                tableComment: editingTable.data.comment
+                tableComment: editingTable.data.comment,
+                constraints: editingTable.data.constraints,
+                database: editingTable.data.database,
+                schema: editingTable.data.schema,
+                definition: {
+                  query: editingTable.data.query,
+                  targetLag: editingTable.data.targetLag,
+                  warehouse: editingTable.data.warehouse,
+                  refreshMode: editingTable.data.refreshMode
+                }
               }}
             />
           </div>
@@ -2,25 +2,49 @@
 
 import { useState, useEffect } from 'react';
 import { useSnowflake } from '../utils/useSnowflake';
-import { SnowflakeCredentials, SnowflakeExecutionResult } from '../utils/types';
+import { SnowflakeCredentials, SnowflakeExecutionResult, ERDNode, EdgeType, TableDrift, ColumnDrift, StatementExecution } from '../utils/types';
+import SchemaDrift, { getModelNamespaces } from '../utils/SchemaDrift';
+import DDLExecutor, { formatExecutionLog } from '../utils/DDLExecutor';
+
+const STATUS_STYLES: Record<StatementExecution['status'], string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  running: 'bg-blue-100 text-blue-700',
+  success: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+  skipped: 'bg-yellow-100 text-yellow-800'
+};
+
+const COLUMN_DRIFT_LABELS: Record<ColumnDrift['kind'], string> = {
+  missing: 'missing in Snowflake',
+  extra: 'only in Snowflake',
+  type: 'type differs',
+  nullability: 'nullability differs'
+};
 
 export default function SnowflakeConnection({
   ddl,
-  onExecutionComplete
+  onExecutionComplete,
+  nodes,
+  onDriftChange,
+  onPullChanges
 }: {
   ddl: string;
   onExecutionComplete?: (result: SnowflakeExecutionResult) => void;
+  // The model to compare with the deployed schema; Compare with Snowflake is only shown when set
+  nodes?: ERDNode[];
+  onDriftChange?: (drift: TableDrift[] | null) => void;
+  onPullChanges?: (nodes: ERDNode[], edges: EdgeType[]) => void;
 }) {
   const {
     credentials,
     isConnected,
     isTestingConnection,
     connectionError,
-    isExecuting,
     saveCredentials,
     clearCredentials,
     testConnection,
-    executeSQL
+    executeSQL,
+    introspector
   } = useSnowflake();
 
   const [formData, setFormData] = useState<SnowflakeCredentials>({
@@ -38,6 +62,21 @@ export default function SnowflakeConnection({
 
   const [showConnectionForm, setShowConnectionForm] = useState(!isConnected);
   const [executionResult, setExecutionResult] = useState<SnowflakeExecutionResult | null>(null);
+  const [stopOnError, setStopOnError] = useState(true);
+  const [dryRun, setDryRun] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [transcript, setTranscript] = useState<StatementExecution[] | null>(null);
+  const [transcriptStartedAt, setTranscriptStartedAt] = useState<Date | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const [driftResult, setDriftResult] = useState<{
+    tables: TableDrift[];
+    liveNodes: ERDNode[];
+    liveEdges: EdgeType[];
+    fixScript: string;
+    diagnostics: string[];
+  } | null>(null);
+  const [showFixScript, setShowFixScript] = useState(false);
 
   // Initialize form with saved credentials
   useEffect(() => {
@@ -80,17 +119,122 @@ export default function SnowflakeConnection({
     }
   };
 
+  // Run the DDL statement by statement, keeping a transcript of each one
   const handleExecuteDDL = async () => {
     if (!ddl.trim()) return;
     
-    const result = await executeSQL(ddl);
-    setExecutionResult(result);
+    setIsRunning(true);
+    setExecutionResult(null);
+    setTranscriptStartedAt(new Date());
     
-    if (onExecutionComplete) {
-      onExecutionComplete(result);
+    // Rows of the last statement are shown below the transcript
+    const last: { result?: SnowflakeExecutionResult } = {};
+    const runStatement = async (sql: string) => {
+      last.result = await executeSQL(sql);
+      return last.result;
+    };
+    
+    try {
+      const executions = await new DDLExecutor(runStatement).execute(ddl, { stopOnError, dryRun }, setTranscript);
+      if (dryRun) return;
+      
+      const failed = executions.filter(execution => execution.status === 'error');
+      const result: SnowflakeExecutionResult = failed.length === 0
+        ? {
+          status: 'success',
+          message: `Executed ${executions.length} ${executions.length === 1 ? 'statement' : 'statements'} successfully`,
+          columns: last.result?.columns,
+          rows: last.result?.rows
+        }
+        : {
+          status: 'error',
+          message: `${failed.length} of ${executions.length} statements failed`,
+          error: failed[0].error
+        };
+      setExecutionResult(result);
+      
+      if (onExecutionComplete) {
+        onExecutionComplete(result);
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const downloadExecutionLog = () => {
+    if (!transcript) return;
+
+    const log = formatExecutionLog(transcript, {
+      Account: credentials?.accountIdentifier,
+      User: credentials?.username,
+      Role: credentials?.role,
+      Warehouse: credentials?.warehouse,
+      Database: credentials?.database,
+      Schema: credentials?.schema,
+      Started: transcriptStartedAt?.toISOString(),
+      Mode: dryRun ? 'Dry run' : stopOnError ? 'Stop on error' : 'Continue on error'
+    });
+    const blob = new Blob([log], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `snowflake-execution-${(transcriptStartedAt || new Date()).toISOString().replace(/[:.]/g, '-')}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Introspect every schema the model uses and compare it with the canvas
+  const handleCompare = async () => {
+    if (!nodes) return;
+
+    setIsComparing(true);
+    setCompareError(null);
+    setShowFixScript(false);
+
+    try {
+      const defaults = { database: credentials?.database || undefined, schema: credentials?.schema || undefined };
+      const liveNodes: ERDNode[] = [];
+      const liveEdges: EdgeType[] = [];
+      const diagnostics: string[] = [];
+      for (const { database, schema } of getModelNamespaces(nodes, defaults)) {
+        const live = await introspector.introspectSchema(database, schema);
+        liveNodes.push(...live.nodes);
+        liveEdges.push(...live.edges);
+        diagnostics.push(...live.diagnostics);
+      }
+
+      const schemaDrift = new SchemaDrift(nodes, liveNodes, defaults);
+      const tables = schemaDrift.getDrift();
+      setDriftResult({
+        tables,
+        liveNodes: schemaDrift.getLiveModel(),
+        liveEdges: schemaDrift.getLiveEdges(liveEdges),
+        fixScript: schemaDrift.getFixScript(),
+        diagnostics
+      });
+      onDriftChange?.(tables);
+    } catch (error) {
+      console.error('Error comparing with Snowflake:', error);
+      setCompareError(error instanceof Error ? error.message : 'An unexpected error occurred');
+    } finally {
+      setIsComparing(false);
     }
   };
 
+  const clearDrift = () => {
+    setDriftResult(null);
+    setShowFixScript(false);
+    onDriftChange?.(null);
+  };
+
+  const handlePullChanges = () => {
+    if (!driftResult || !onPullChanges) return;
+    if (!window.confirm('Replace the tables and sequences on the canvas with what is deployed in Snowflake? Tables and sequences missing from Snowflake are removed.')) return;
+
+    onPullChanges(driftResult.liveNodes, driftResult.liveEdges);
+    clearDrift();
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-4 mb-6">
       <h2 className="text-xl font-semibold mb-4">Snowflake Connection</h2>
@@ -334,13 +478,34 @@ export default function SnowflakeConnection({
             <pre className="text-sm whitespace-pre-wrap">{ddl}</pre>
           </div>
           
-          <div className="flex justify-end">
+          <div className="flex justify-between items-center">
+            <div className="flex space-x-4 text-sm">
+              <label className="inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={stopOnError}
+                  onChange={(e) => setStopOnError(e.target.checked)}
+                  disabled={dryRun}
+                  className="mr-2"
+                />
+                Stop on first error
+              </label>
+              <label className="inline-flex items-center" title="List the statements that would run without sending them to Snowflake">
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  className="mr-2"
+                />
+                Dry run
+              </label>
+            </div>
             <button
               onClick={handleExecuteDDL}
-              disabled={isExecuting || !ddl.trim()}
+              disabled={isRunning || !ddl.trim()}
               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center disabled:bg-green-400"
             >
-              {isExecuting ? (
+              {isRunning ? (
                 <>
                   <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -349,11 +514,48 @@ export default function SnowflakeConnection({
                   Executing...
                 </>
               ) : (
-                'Execute in Snowflake'
+                dryRun ? 'Dry Run' : 'Execute in Snowflake'
               )}
             </button>
           </div>
           
+          {transcript && transcript.length > 0 && (
+            <div className="mt-4">
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="font-medium">Execution Transcript</h4>
+                <button
+                  onClick={downloadExecutionLog}
+                  disabled={isRunning}
+                  className="px-2 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Download Log
+                </button>
+              </div>
+              <ol className="border rounded divide-y text-sm max-h-96 overflow-auto">
+                {transcript.map(execution => (
+                  <li key={execution.index} className="p-2">
+                    <div className="flex items-center">
+                      <span className="text-gray-500 w-8">{execution.index + 1}.</span>
+                      <span className={`px-1.5 py-0.5 text-xs rounded uppercase ${STATUS_STYLES[execution.status]}`}>
+                        {execution.status}
+                      </span>
+                      <span className="ml-2 flex-1 font-mono text-xs truncate" title={execution.sql}>
+                        {execution.sql.split('\n').find(line => line.trim() && !line.trim().startsWith('--'))}
+                      </span>
+                      {execution.durationMs !== undefined && (
+                        <span className="ml-2 text-xs text-gray-500">{execution.durationMs} ms</span>
+                      )}
+                    </div>
+                    {execution.error && <p className="mt-1 ml-8 text-xs text-red-700">{execution.error}</p>}
+                    {execution.status === 'skipped' && execution.message && (
+                      <p className="mt-1 ml-8 text-xs text-gray-500">{execution.message}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+          
           {executionResult && (
             <div className={`mt-4 p-3 rounded ${
               executionResult.status === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
@@ -392,6 +594,118 @@ export default function SnowflakeConnection({
           )}
         </div>
       )}
+      
+      {isConnected && nodes && (
+        <div className="border-t pt-4 mt-4">
+          <h3 className="text-lg font-medium mb-1">Schema Drift</h3>
+          <p className="text-sm text-gray-500 mb-3">
+            Check whether the deployed tables still match the model, for example after someone altered them by hand.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleCompare}
+              disabled={isComparing || nodes.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-blue-400"
+            >
+              {isComparing ? 'Comparing...' : 'Compare with Snowflake'}
+            </button>
+            {driftResult && (
+              <button
+                onClick={clearDrift}
+                className="px-3 py-2 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Clear Highlights
+              </button>
+            )}
+          </div>
+
+          {compareError && (
+            <div className="bg-red-100 text-red-800 p-3 rounded mt-3">
+              <span className="font-medium">Comparison failed:</span> {compareError}
+            </div>
+          )}
+
+          {driftResult && driftResult.diagnostics.length > 0 && (
+            <ul className="bg-yellow-100 text-yellow-800 p-3 rounded mt-3 text-sm list-disc list-inside">
+              {driftResult.diagnostics.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          {driftResult && (driftResult.tables.length === 0 ? (
+            <div className="bg-green-100 text-green-800 p-3 rounded mt-3">
+              The deployed schema matches the model.
+            </div>
+          ) : (
+            <div className="mt-3">
+              <ul className="divide-y border rounded text-sm">
+                {driftResult.tables.map(table => (
+                  <li key={`${table.kind}-${table.table}`} className="p-2">
+                    <div className="flex items-center">
+                      <span className="font-medium">{table.table}</span>
+                      <span className={`ml-2 px-1.5 py-0.5 text-xs rounded ${
+                        table.kind === 'missing'
+                          ? 'bg-red-100 text-red-700'
+                          : table.kind === 'extra'
+                            ? 'bg-blue-100 text-blue-700'
+                            : 'bg-amber-100 text-amber-800'
+                      }`}>
+                        {table.kind === 'missing' ? 'Missing in Snowflake' : table.kind === 'extra' ? 'Only in Snowflake' : 'Changed'}
+                      </span>
+                    </div>
+                    {table.columns.length > 0 && (
+                      <ul className="mt-1 ml-4 text-xs text-gray-600 space-y-0.5">
+                        {table.columns.map(col => (
+                          <li key={`${col.kind}-${col.column}`}>
+                            <span className="font-mono">{col.column}</span> {COLUMN_DRIFT_LABELS[col.kind]}
+                            {col.expected && col.actual && `: model ${col.expected}, Snowflake ${col.actual}`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap gap-2 mt-3">
+                {onPullChanges && (
+                  <button
+                    onClick={handlePullChanges}
+                    className="px-3 py-2 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    Pull Changes Into Model
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowFixScript(!showFixScript)}
+                  className="px-3 py-2 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  {showFixScript ? 'Hide Fix-up DDL' : 'Generate Fix-up DDL'}
+                </button>
+              </div>
+
+              {showFixScript && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-500 mb-1">Brings Snowflake in line with the model. Review it before running, it may drop columns or tables.</p>
+                  <div className="bg-gray-100 p-3 rounded overflow-auto max-h-96">
+                    <pre className="text-sm whitespace-pre-wrap">{driftResult.fixScript || '-- Nothing to change'}</pre>
+                  </div>
+                  <button
+                    onClick={() => {
+                      navigator.clipboard.writeText(driftResult.fixScript);
+                      alert('Fix-up DDL copied to clipboard!');
+                    }}
+                    className="mt-2 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                    disabled={!driftResult.fixScript}
+                  >
+                    Copy to Clipboard
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { useSnowflake } from '../utils/useSnowflake';
+import { SnowflakeObject } from '../utils/SnowflakeIntrospector';
+import { ERDNode, EdgeType } from '../utils/types';
+
+const SELECT_CLASS = 'w-full p-2 border rounded dark:border-gray-600 bg-white dark:bg-gray-900 text-sm';
+
+export default function SnowflakeImport({ onImport }: { onImport: (nodes: ERDNode[], edges: EdgeType[]) => void }) {
+  const { credentials, isConnected, isTestingConnection, connectionError, testConnection, introspector } = useSnowflake();
+
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [database, setDatabase] = useState('');
+  const [schemas, setSchemas] = useState<string[]>([]);
+  const [schema, setSchema] = useState('');
+  const [objects, setObjects] = useState<SnowflakeObject[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<string[]>([]);
+
+  // Run one step of the browse flow, showing its progress and any error
+  const run = async (label: string, step: () => Promise<void>) => {
+    setLoading(label);
+    setError(null);
+    setDiagnostics([]);
+    try {
+      await step();
+    } catch (e) {
+      console.error(`Snowflake import failed while ${label.toLowerCase()}:`, e);
+      setError(e instanceof Error ? e.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const loadDatabases = () => run('Loading databases', async () => {
+    const names = await introspector.listDatabases();
+    setDatabases(names);
+    if (credentials?.database && names.includes(credentials.database.toUpperCase())) {
+      await selectDatabase(credentials.database.toUpperCase());
+    }
+  });
+
+  const selectDatabase = async (name: string) => {
+    setDatabase(name);
+    setSchemas([]);
+    setSchema('');
+    setObjects([]);
+    setSelected(new Set());
+    if (name) {
+      await run('Loading schemas', async () => setSchemas(await introspector.listSchemas(name)));
+    }
+  };
+
+  const selectSchema = async (name: string) => {
+    setSchema(name);
+    setObjects([]);
+    setSelected(new Set());
+    if (name) {
+      await run('Loading tables', async () => {
+        const listed = await introspector.listObjects(database, name);
+        setObjects(listed);
+        setSelected(new Set(listed.map(object => object.name)));
+      });
+    }
+  };
+
+  const toggleObject = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = () => run('Reading columns and keys', async () => {
+    const chosen = objects.filter(object => selected.has(object.name));
+    const { nodes, edges, diagnostics } = await introspector.introspect(database, schema, chosen);
+    setDiagnostics(diagnostics);
+    onImport(nodes, edges);
+  });
+
+  if (!credentials) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Add your connection in the Snowflake tab to browse its databases.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {!isConnected ? (
+        <>
+          <button
+            onClick={testConnection}
+            className="w-full bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+            disabled={isTestingConnection}
+          >
+            {isTestingConnection ? 'Connecting...' : `Connect to ${credentials.accountIdentifier}`}
+          </button>
+          {connectionError && <p className="text-sm text-red-600 dark:text-red-400">{connectionError}</p>}
+        </>
+      ) : databases.length === 0 ? (
+        <button
+          onClick={loadDatabases}
+          className="w-full bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+          disabled={!!loading}
+        >
+          Browse Databases
+        </button>
+      ) : (
+        <>
+          <select value={database} onChange={(e) => selectDatabase(e.target.value)} className={SELECT_CLASS} disabled={!!loading}>
+            <option value="">Choose a database</option>
+            {databases.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          {schemas.length > 0 && (
+            <select value={schema} onChange={(e) => selectSchema(e.target.value)} className={SELECT_CLASS} disabled={!!loading}>
+              <option value="">Choose a schema</option>
+              {schemas.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+          {schema && objects.length === 0 && !loading && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This schema has no tables or views.</p>
+          )}
+          {objects.length > 0 && (
+            <>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>{selected.size} of {objects.length} selected</span>
+                <button
+                  onClick={() => setSelected(selected.size === objects.length ? new Set() : new Set(objects.map(object => object.name)))}
+                  className="hover:underline"
+                >
+                  {selected.size === objects.length ? 'Select none' : 'Select all'}
+                </button>
+              </div>
+              <div className="max-h-48 overflow-y-auto border rounded dark:border-gray-600 p-2 space-y-1">
+                {objects.map(object => (
+                  <label key={object.name} className="flex items-center text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(object.name)}
+                      onChange={() => toggleObject(object.name)}
+                      className="mr-2"
+                    />
+                    <span className="truncate flex-1" title={object.comment}>{object.name}</span>
+                    {object.tableType !== 'TABLE' && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">{object.tableType.replace('_', ' ')}</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleImport}
+                className="w-full bg-primary-light hover:bg-primary dark:bg-primary-dark hover:dark:bg-primary text-white px-3 py-2 rounded text-sm"
+                disabled={!!loading || selected.size === 0}
+              >
+                Import {selected.size} {selected.size === 1 ? 'Object' : 'Objects'}
+              </button>
+            </>
+          )}
+        </>
+      )}
+      {loading && <p className="text-sm text-gray-500 dark:text-gray-400">{loading}...</p>}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {diagnostics.map(message => (
+        <p key={message} className="text-sm text-yellow-700 dark:text-yellow-400">{message}</p>
+      ))}
+    </div>
+  );
+}
@@ -2,22 +2,43 @@
 
 import { useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Column } from '../utils/types';
+import { Column, TableConstraint, QueryDefinition, RefreshMode, SequenceNodeType } from '../utils/types';
 import { tableTemplates, TableTemplate } from '../utils/tableTemplates';
+import { syncColumnFlags, updateConstraintColumns } from '../utils/constraintUtils';
+import { getQualifiedName, getTableReference, TableNamespace } from '../utils/qualifiedNames';
+import { isDerivedTable } from '../utils/queryLineage';
+import { getNextValueDefault } from '../utils/sequenceUtils';
+import { getDataTypeMismatch, parseDataType, resolveDataTypeAlias, validateDataType } from '../utils/dataTypes';
+import ColumnValueFields from './ColumnValueFields';
+import DataTypePicker from './DataTypePicker';
 
 interface TableFormProps {
-  onSave: (tableName: string, columns: Column[], tableType?: string, tableComment?: string) => void;
+  onSave: (
+    tableName: string,
+    columns: Column[],
+    tableType?: string,
+    tableComment?: string,
+    constraints?: TableConstraint[],
+    namespace?: TableNamespace,
+    definition?: QueryDefinition
+  ) => void;
   onCancel: () => void;
-  existingTables?: { id: string; label: string; columns: Column[] }[];
+  existingTables?: { id: string; label: string; database?: string; schema?: string; columns: Column[] }[];
+  // Sequences on the canvas that column defaults can draw from
+  sequences?: SequenceNodeType[];
   initialValues?: {
     tableName: string;
     columns: Column[];
     tableType?: string;
     tableComment?: string;
+    constraints?: TableConstraint[];
+    database?: string;
+    schema?: string;
+    definition?: QueryDefinition;
   };
 }
 
-export default function TableForm({ onSave, onCancel, existingTables = [], initialValues }: TableFormProps) {
+export default function TableForm({ onSave, onCancel, existingTables = [], sequences = [], initialValues }: TableFormProps) {
   const [formMode, setFormMode] = useState<'custom' | 'template'>(initialValues ? 'custom' : 'custom');
   const [selectedTemplate, setSelectedTemplate] = useState<TableTemplate | null>(null);
   
@@ -26,6 +47,12 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
     (initialValues?.tableType as any) || 'TABLE'
   );
   const [tableComment, setTableComment] = useState(initialValues?.tableComment || '');
+  const [database, setDatabase] = useState(initialValues?.database || '');
+  const [schema, setSchema] = useState(initialValues?.schema || '');
+  const [query, setQuery] = useState(initialValues?.definition?.query || '');
+  const [targetLag, setTargetLag] = useState(initialValues?.definition?.targetLag || '');
+  const [warehouse, setWarehouse] = useState(initialValues?.definition?.warehouse || '');
+  const [refreshMode, setRefreshMode] = useState<RefreshMode | ''>(initialValues?.definition?.refreshMode || '');
   
   const [columns, setColumns] = useState<Column[]>(
     initialValues?.columns || [
@@ -41,6 +68,12 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
     ]
   );
 
+  const [constraints, setConstraints] = useState<TableConstraint[]>(initialValues?.constraints || []);
+
+  const sequenceDefaults = sequences.map((sequence) =>
+    getNextValueDefault(sequence, { label: tableName, database: database || undefined, schema: schema || undefined })
+  );
+
   // Group templates by category
   const groupedTemplates = tableTemplates.reduce<Record<string, TableTemplate[]>>((acc, template) => {
     if (!acc[template.category]) {
@@ -66,17 +99,118 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
   };
 
   const removeColumn = (id: string) => {
-    setColumns(columns.filter((column) => column.id !== id));
+    const updatedColumns = columns.filter((column) => column.id !== id);
+    setConstraints(updateConstraintColumns(constraints, columns, updatedColumns));
+    setColumns(updatedColumns);
   };
 
   const updateColumn = (id: string, field: keyof Column, value: any) => {
-    setColumns(
-      columns.map((column) =>
-        column.id === id ? { ...column, [field]: value } : column
-      )
+    const updatedColumns = columns.map((column) =>
+      column.id === id ? { ...column, [field]: value } : column
+    );
+
+    if (field === 'name') {
+      setConstraints(updateConstraintColumns(constraints, columns, updatedColumns));
+    } else if (field === 'isPrimaryKey') {
+      // Keep a named or composite primary key in step with the checkboxes
+      const columnName = columns.find((column) => column.id === id)?.name || '';
+      setConstraints(constraints.map((constraint) => {
+        if (constraint.type !== 'PRIMARY KEY') return constraint;
+        const others = constraint.columns.filter((name) => name !== columnName);
+        return { ...constraint, columns: value ? [...others, columnName] : others };
+      }));
+    }
+
+    setColumns(updatedColumns);
+  };
+
+  const addConstraint = () => {
+    const hasPrimaryKey = constraints.some((constraint) => constraint.type === 'PRIMARY KEY');
+    setConstraints([
+      ...constraints,
+      {
+        id: uuidv4(),
+        name: '',
+        type: hasPrimaryKey ? 'FOREIGN KEY' : 'PRIMARY KEY',
+        columns: [],
+      },
+    ]);
+  };
+
+  const removeConstraint = (id: string) => {
+    const removed = constraints.find((constraint) => constraint.id === id);
+    setConstraints(constraints.filter((constraint) => constraint.id !== id));
+
+    // Columns of a removed key are no longer part of it
+    if (removed?.type === 'FOREIGN KEY') {
+      setColumns(columns.map((column) =>
+        removed.columns.includes(column.name)
+          ? { ...column, isForeignKey: false, referencedTable: undefined, referencedColumn: undefined }
+          : column
+      ));
+    } else if (removed?.type === 'PRIMARY KEY') {
+      setColumns(columns.map((column) =>
+        removed.columns.includes(column.name) ? { ...column, isPrimaryKey: false } : column
+      ));
+    }
+  };
+
+  const updateConstraint = (id: string, changes: Partial<TableConstraint>) => {
+    setConstraints(
+      constraints.map((constraint) => {
+        if (constraint.id !== id) return constraint;
+        const updated = { ...constraint, ...changes };
+        if (updated.type === 'FOREIGN KEY') {
+          updated.referencedColumns = updated.columns.map((_, index) => updated.referencedColumns?.[index] || '');
+        } else {
+          delete updated.referencedTable;
+          delete updated.referencedColumns;
+        }
+        return updated;
+      })
     );
   };
 
+  const moveConstraintColumn = (constraint: TableConstraint, index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= constraint.columns.length) return;
+
+    const reorder = (list: string[]) => {
+      const copy = [...list];
+      [copy[index], copy[target]] = [copy[target], copy[index]];
+      return copy;
+    };
+
+    updateConstraint(constraint.id, {
+      columns: reorder(constraint.columns),
+      ...(constraint.referencedColumns ? { referencedColumns: reorder(constraint.referencedColumns) } : {}),
+    });
+  };
+
+  const removeConstraintColumn = (constraint: TableConstraint, index: number) => {
+    updateConstraint(constraint.id, {
+      columns: constraint.columns.filter((_, i) => i !== index),
+      ...(constraint.referencedColumns
+        ? { referencedColumns: constraint.referencedColumns.filter((_, i) => i !== index) }
+        : {}),
+    });
+  };
+
+  // Foreign keys name other tables relative to this table's schema
+  const currentTable = { label: tableName, database: database.trim() || undefined, schema: schema.trim() || undefined };
+  const getReference = (table: { label: string; database?: string; schema?: string }) =>
+    getTableReference(table, currentTable);
+
+  const getReferencedColumns = (reference?: string) =>
+    (existingTables.find((table) => getReference(table) === reference) ||
+      existingTables.find((table) => table.label === reference))?.columns || [];
+
+  // Explain why a foreign key column can't hold the values of the column it references
+  const getReferenceTypeMismatch = (column: Column) => {
+    const referenced = getReferencedColumns(column.referencedTable).find((col) => col.name === column.referencedColumn);
+    return referenced ? getDataTypeMismatch(column.dataType, referenced.dataType) : undefined;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -94,12 +228,56 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
         return;
       }
       
-      columnsToSave = columns;
+      for (const col of columns) {
+        const errors = validateDataType(parseDataType(col.dataType));
+        if (errors.length > 0) {
+          alert(`Column ${col.name} has an invalid type ${col.dataType}: ${errors.join(', ')}`);
+          return;
+        }
+      }
+      
+      for (const constraint of constraints) {
+        if (constraint.columns.length === 0) {
+          alert(`Constraint ${constraint.name || constraint.type} has no columns`);
+          return;
+        }
+        if (constraint.type === 'FOREIGN KEY' &&
+            (!constraint.referencedTable || constraint.referencedColumns?.some((col) => !col))) {
+          alert(`Foreign key ${constraint.name || constraint.columns.join(', ')} needs a referenced column for every column`);
+          return;
+        }
+      }
+      
+      columnsToSave = syncColumnFlags(
+        columns.map((col) => ({ ...col, dataType: resolveDataTypeAlias(col.dataType) })),
+        constraints
+      );
     } else if (formMode === 'template' && selectedTemplate) {
       columnsToSave = selectedTemplate.getColumns(tableName);
     }
     
-    onSave(tableName, columnsToSave, tableType, tableComment);
+    const constraintsToSave = formMode === 'custom'
+      ? constraints.map(({ name, ...constraint }) => (name?.trim() ? { ...constraint, name: name.trim() } : constraint))
+      : [];
+    
+    // Only views and dynamic tables are defined by a query
+    const definition: QueryDefinition | undefined = isDerivedTable(tableType)
+      ? {
+          query: query.trim() || undefined,
+          ...(tableType === 'DYNAMIC_TABLE'
+            ? {
+                targetLag: targetLag.trim() || undefined,
+                warehouse: warehouse.trim() || undefined,
+                refreshMode: refreshMode || undefined
+              }
+            : {})
+        }
+      : undefined;
+    
+    onSave(tableName, columnsToSave, tableType, tableComment, constraintsToSave, {
+      database: currentTable.database,
+      schema: currentTable.schema
+    }, definition);
   };
 
   const handleTemplateSelect = (template: TableTemplate) => {
@@ -124,37 +302,6 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
     }
   };
 
-  const snowflakeDataTypes = [
-    'VARCHAR',
-    'CHAR',
-    'NUMBER',
-    'DECIMAL',
-    'NUMERIC',
-    'INT',
-    'INTEGER',
-    'BIGINT',
-    'SMALLINT',
-    'FLOAT',
-    'FLOAT4',
-    'FLOAT8',
-    'DOUBLE',
-    'DOUBLE PRECISION',
-    'REAL',
-    'DATE',
-    'DATETIME',
-    'TIME',
-    'TIMESTAMP',
-    'TIMESTAMP_LTZ',
-    'TIMESTAMP_NTZ',
-    'TIMESTAMP_TZ',
-    'BOOLEAN',
-    'VARIANT',
-    'OBJECT',
-    'ARRAY',
-    'BINARY',
-    'TEXT',
-  ];
-
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="grid grid-cols-2 gap-4">
@@ -191,6 +338,36 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
         </div>
       </div>
       
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="tableDatabase" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Database
+          </label>
+          <input
+            type="text"
+            id="tableDatabase"
+            value={database}
+            onChange={(e) => setDatabase(e.target.value)}
+            placeholder="Connection default"
+            className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+          />
+        </div>
+        
+        <div>
+          <label htmlFor="tableSchema" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Schema
+          </label>
+          <input
+            type="text"
+            id="tableSchema"
+            value={schema}
+            onChange={(e) => setSchema(e.target.value)}
+            placeholder="Connection default"
+            className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+          />
+        </div>
+      </div>
+      
       <div>
         <label htmlFor="tableComment" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
           Table Comment
@@ -205,6 +382,77 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
         />
       </div>
       
+      {isDerivedTable(tableType) && (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="tableQuery" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Query
+            </label>
+            <textarea
+              id="tableQuery"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="SELECT ... FROM ..."
+              rows={6}
+              spellCheck={false}
+              className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm font-mono"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Tables the query reads from are connected to this {getObjectTypeDisplayName(tableType).toLowerCase()} on the canvas.
+            </p>
+          </div>
+          
+          {tableType === 'DYNAMIC_TABLE' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="tableTargetLag" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Target Lag
+                </label>
+                <input
+                  type="text"
+                  id="tableTargetLag"
+                  value={targetLag}
+                  onChange={(e) => setTargetLag(e.target.value)}
+                  placeholder="1 minute"
+                  className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="tableWarehouse" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Warehouse
+                </label>
+                <input
+                  type="text"
+                  id="tableWarehouse"
+                  value={warehouse}
+                  onChange={(e) => setWarehouse(e.target.value)}
+                  placeholder="Required"
+                  className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                />
+              </div>
+              
+              <div>
+                <label htmlFor="tableRefreshMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Refresh Mode
+                </label>
+                <select
+                  id="tableRefreshMode"
+                  value={refreshMode}
+                  onChange={(e) => setRefreshMode(e.target.value as RefreshMode | '')}
+                  className="mt-1 block w-full border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                >
+                  <option value="">Default (Auto)</option>
+                  <option value="AUTO">Auto</option>
+                  <option value="FULL">Full</option>
+                  <option value="INCREMENTAL">Incremental</option>
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      
       <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
         <button
           type="button"
@@ -261,17 +509,10 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
                   required
                 />
                 
-                <select
+                <DataTypePicker
                   value={column.dataType}
-                  onChange={(e) => updateColumn(column.id, 'dataType', e.target.value)}
-                  className="block w-full border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
-                >
-                  {snowflakeDataTypes.map((type) => (
-                    <option key={type} value={type}>
-                      {type}
-                    </option>
-                  ))}
-                </select>
+                  onChange={(dataType) => updateColumn(column.id, 'dataType', dataType)}
+                />
                 
                 <div className="flex space-x-4">
                   <label className="flex items-center text-sm">
@@ -314,8 +555,8 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
                     >
                       <option value="">Select Table</option>
                       {existingTables.map((table) => (
-                        <option key={table.id} value={table.label}>
-                          {table.label}
+                        <option key={table.id} value={getReference(table)}>
+                          {getQualifiedName(table)}
                         </option>
                       ))}
                     </select>
@@ -326,14 +567,18 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
                       disabled={!column.referencedTable}
                     >
                       <option value="">Select Column</option>
-                      {column.referencedTable && existingTables
-                        .find((table) => table.label === column.referencedTable)
-                        ?.columns.map((col) => (
+                      {column.referencedTable && getReferencedColumns(column.referencedTable)
+                        .map((col) => (
                           <option key={col.id} value={col.name}>
                             {col.name}
                           </option>
                         ))}
                     </select>
+                    {getReferenceTypeMismatch(column) && (
+                      <p className="col-span-2 text-xs text-amber-600 dark:text-amber-400">
+                        {getReferenceTypeMismatch(column)}
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -349,6 +594,16 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
                     className="w-full p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                   />
                 </div>
+
+                {!isDerivedTable(tableType) && (
+                  <div className="mt-2">
+                    <ColumnValueFields
+                      column={column}
+                      onChange={(updated) => setColumns(columns.map((col) => (col.id === column.id ? updated : col)))}
+                      sequenceDefaults={sequenceDefaults}
+                    />
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -363,6 +618,152 @@ export default function TableForm({ onSave, onCancel, existingTables = [], initi
             </svg>
             Add Column
           </button>
+          
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mt-4 mb-2">
+            Constraints
+          </label>
+          
+          <div className="space-y-3">
+            {constraints.map((constraint) => {
+              const availableColumns = columns.filter(
+                (column) => column.name.trim() && !constraint.columns.includes(column.name)
+              );
+              const referencedColumns = getReferencedColumns(constraint.referencedTable);
+              
+              return (
+                <div key={constraint.id} className="flex flex-col space-y-2 p-2 border rounded dark:border-gray-700">
+                  <div className="flex justify-between">
+                    <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">{constraint.type}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeConstraint(constraint.id)}
+                      className="text-red-500 hover:text-red-700 text-xs"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={constraint.type}
+                      onChange={(e) => updateConstraint(constraint.id, { type: e.target.value as TableConstraint['type'] })}
+                      className="block w-full border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="PRIMARY KEY">Primary Key</option>
+                      <option value="FOREIGN KEY">Foreign Key</option>
+                      <option value="UNIQUE">Unique</option>
+                    </select>
+                    <input
+                      type="text"
+                      placeholder="Constraint Name (optional)"
+                      value={constraint.name || ''}
+                      onChange={(e) => updateConstraint(constraint.id, { name: e.target.value })}
+                      className="block w-full border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+                  
+                  {constraint.type === 'FOREIGN KEY' && (
+                    <select
+                      value={constraint.referencedTable || ''}
+                      onChange={(e) => updateConstraint(constraint.id, {
+                        referencedTable: e.target.value,
+                        referencedColumns: constraint.columns.map(() => '')
+                      })}
+                      className="block w-full border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Select Referenced Table</option>
+                      {existingTables.map((table) => (
+                        <option key={table.id} value={getReference(table)}>
+                          {getQualifiedName(table)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  
+                  {/* Columns in key order; foreign keys pair each column with a referenced column */}
+                  {constraint.columns.map((columnName, index) => (
+                    <div key={`${columnName}-${index}`} className="flex items-center space-x-2 text-sm">
+                      <span className="flex-1 dark:text-white">{columnName}</span>
+                      {constraint.type === 'FOREIGN KEY' && (
+                        <>
+                          <span className="text-gray-500 dark:text-gray-400">&rarr;</span>
+                          <select
+                            value={constraint.referencedColumns?.[index] || ''}
+                            onChange={(e) => updateConstraint(constraint.id, {
+                              referencedColumns: (constraint.referencedColumns || []).map((col, i) =>
+                                i === index ? e.target.value : col
+                              )
+                            })}
+                            className="flex-1 border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                            disabled={!constraint.referencedTable}
+                          >
+                            <option value="">Select Column</option>
+                            {referencedColumns.map((col) => (
+                              <option key={col.id} value={col.name}>
+                                {col.name}
+                              </option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => moveConstraintColumn(constraint, index, -1)}
+                        className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        &uarr;
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveConstraintColumn(constraint, index, 1)}
+                        className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                        disabled={index === constraint.columns.length - 1}
+                        title="Move down"
+                      >
+                        &darr;
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeConstraintColumn(constraint, index)}
+                        className="text-red-500 hover:text-red-700 text-xs"
+                        title="Remove column"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  ))}
+                  
+                  {availableColumns.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => updateConstraint(constraint.id, { columns: [...constraint.columns, e.target.value] })}
+                      className="block w-full border border-gray-300 dark:border-gray-600 rounded shadow-sm dark:bg-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">Add Column...</option>
+                      {availableColumns.map((column) => (
+                        <option key={column.id} value={column.name}>
+                          {column.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          
+          <button
+            type="button"
+            onClick={addConstraint}
+            className="mt-2 text-sm text-primary-dark dark:text-primary-light flex items-center"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" />
+            </svg>
+            Add Constraint
+          </button>
         </div>
       ) : (
         <div>
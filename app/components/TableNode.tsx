@@ -2,13 +2,20 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { Column } from '../utils/types';
+import { Column, TableDrift, QueryDefinition, RefreshMode, LintProblem, LintSeverity } from '../utils/types';
+import { isDerivedTable } from '../utils/queryLineage';
+import { getColumnHandleId } from '../utils/edgeUtils';
+import { parseDataType, resolveDataTypeAlias, validateDataType } from '../utils/dataTypes';
 import { v4 as uuidv4 } from 'uuid';
+import ColumnValueFields from './ColumnValueFields';
+import DataTypePicker from './DataTypePicker';
 
 interface TableNodeProps extends NodeProps {
   id: string;
   data: {
     label: string;
+    database?: string;
+    schema?: string;
     columns: Column[];
     onColumnsChange?: (columns: Column[], tableType?: string) => void;
     tableType?: 'TABLE' | 'VIEW' | 'MATERIALIZED_VIEW' | 'DYNAMIC_TABLE' | 'ICEBERG_TABLE';
@@ -17,6 +24,14 @@ interface TableNodeProps extends NodeProps {
     tags?: string[];
     onCommentChange?: (comment: string) => void;
     onTagsChange?: (tags: string[]) => void;
+    query?: string;
+    targetLag?: string;
+    warehouse?: string;
+    refreshMode?: RefreshMode;
+    onDefinitionChange?: (definition: QueryDefinition) => void;
+    _drift?: TableDrift;
+    _sequenceDefaults?: string[];
+    _lintProblems?: LintProblem[];
   };
   selected: boolean;
 }
@@ -43,6 +58,8 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
   const [isEditingType, setIsEditingType] = useState(false);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [tableType, setTableType] = useState<string>(data.tableType || 'TABLE');
+  const [isEditingQuery, setIsEditingQuery] = useState(false);
+  const [editedDefinition, setEditedDefinition] = useState<QueryDefinition>({});
   
   // For drag and drop functionality
   const dragItem = useRef<number | null>(null);
@@ -89,6 +106,28 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
     }
   };
 
+  // Column differences with the deployed table, used to highlight the column rows
+  const getColumnDrift = (column: Column) =>
+    data._drift?.columns.filter(drift => drift.kind !== 'extra' && drift.column.toUpperCase() === column.name.toUpperCase()) || [];
+
+  // Problems the model linter found on a column
+  const getColumnProblems = (column: Column) => data._lintProblems?.filter(problem => problem.columnId === column.id) || [];
+
+  const getSeverityClassName = (problems: LintProblem[]) => {
+    const severities = problems.map(problem => problem.severity);
+    const severity: LintSeverity = severities.includes('error') ? 'error' : severities.includes('warning') ? 'warning' : 'info';
+    return { error: 'text-red-500', warning: 'text-amber-500', info: 'text-blue-500' }[severity];
+  };
+
+  const hasValidType = (column: Column) => validateDataType(parseDataType(column.dataType)).length === 0;
+
+  const describeColumnDrift = (column: Column) =>
+    getColumnDrift(column)
+      .map(drift => drift.kind === 'missing'
+        ? 'Missing in Snowflake'
+        : `Snowflake has ${drift.actual}, the model ${drift.expected}`)
+      .join('\n');
+
   // Get icon for the object type
   const getObjectTypeIcon = () => {
     switch (tableType) {
@@ -135,7 +174,7 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
   const saveColumnEdit = () => {
     if (editedColumn) {
       const updatedColumns = data.columns.map(col => 
-        col.id === editingColumnId ? editedColumn : col
+        col.id === editingColumnId ? { ...editedColumn, dataType: resolveDataTypeAlias(editedColumn.dataType) } : col
       );
       data.onColumnsChange?.(updatedColumns, tableType);
     }
@@ -151,7 +190,8 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
   const addNewColumn = () => {
     const columnToAdd = {
       ...newColumn,
-      id: uuidv4()
+      id: uuidv4(),
+      dataType: resolveDataTypeAlias(newColumn.dataType)
     };
     const updatedColumns = [...data.columns, columnToAdd];
     data.onColumnsChange?.(updatedColumns, tableType);
@@ -313,6 +353,31 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
     setIsEditingType(false);
   };
 
+  // Edit the query and refresh settings of a view or dynamic table
+  const startEditingQuery = () => {
+    setEditedDefinition({
+      query: data.query || '',
+      targetLag: data.targetLag || '',
+      warehouse: data.warehouse || '',
+      refreshMode: data.refreshMode
+    });
+    setIsEditingQuery(true);
+  };
+
+  const saveQueryEdit = () => {
+    data.onDefinitionChange?.({
+      query: editedDefinition.query?.trim() || undefined,
+      ...(tableType === 'DYNAMIC_TABLE'
+        ? {
+            targetLag: editedDefinition.targetLag?.trim() || undefined,
+            warehouse: editedDefinition.warehouse?.trim() || undefined,
+            refreshMode: editedDefinition.refreshMode || undefined
+          }
+        : {})
+    });
+    setIsEditingQuery(false);
+  };
+
   // Handle column deletion
   const handleDeleteColumn = (index: number) => {
     const updatedColumns = [...data.columns];
@@ -359,7 +424,13 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
 
   return (
     <div className={`border-2 rounded-md overflow-hidden ${
-      selected ? 'border-primary-dark dark:border-primary-light' : 'border-gray-300 dark:border-gray-600'
+      selected
+        ? 'border-primary-dark dark:border-primary-light'
+        : data._drift?.kind === 'missing'
+          ? 'border-red-500 border-dashed'
+          : data._drift
+            ? 'border-amber-500'
+            : 'border-gray-300 dark:border-gray-600'
     } bg-white dark:bg-gray-800 shadow-md min-w-[250px] relative !z-10 ${isDragging ? 'pointer-events-none' : ''}`}>
       {/* Main table connection handles - for backwards compatibility */}
       <Handle
@@ -397,8 +468,28 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
       {/* Table Header */}
       <div className={`p-2 font-semibold border-b border-gray-300 dark:border-gray-600 ${getHeaderColor()}`}>
         <div className="flex items-center justify-between">
-          <span>{data.label}</span>
+          <div className="flex flex-col">
+            {data.schema && (
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                {data.database ? `${data.database}.` : ''}{data.schema}
+              </span>
+            )}
+            <span>{data.label}</span>
+            {data._drift && (
+              <span className={`text-xs font-normal ${data._drift.kind === 'missing' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                {data._drift.kind === 'missing' ? 'Missing in Snowflake' : 'Differs from Snowflake'}
+              </span>
+            )}
+          </div>
           <div className="flex items-center">
+            {data._lintProblems && data._lintProblems.length > 0 && (
+              <span
+                className={`${getSeverityClassName(data._lintProblems)} text-xs font-normal mr-2`}
+                title={data._lintProblems.map(problem => problem.message).join('\n')}
+              >
+                ⚠ {data._lintProblems.length}
+              </span>
+            )}
             {isEditingType ? (
               <select
                 value={tableType || 'TABLE'}
@@ -495,33 +586,99 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
         </div>
       </div>
       
+      {/* Query of views and dynamic tables */}
+      {isDerivedTable(tableType) && (
+        <div className="p-2 border-b border-gray-300 dark:border-gray-600 text-xs" onClick={(e) => e.stopPropagation()}>
+          {isEditingQuery ? (
+            <div className="space-y-2">
+              <textarea
+                value={editedDefinition.query || ''}
+                onChange={(e) => setEditedDefinition({ ...editedDefinition, query: e.target.value })}
+                placeholder="SELECT ... FROM ..."
+                rows={5}
+                spellCheck={false}
+                className="nodrag w-full p-1 font-mono text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                autoFocus
+              />
+              {tableType === 'DYNAMIC_TABLE' && (
+                <div className="grid grid-cols-3 gap-1">
+                  <input
+                    type="text"
+                    value={editedDefinition.targetLag || ''}
+                    onChange={(e) => setEditedDefinition({ ...editedDefinition, targetLag: e.target.value })}
+                    placeholder="Lag: 1 minute"
+                    className="nodrag p-1 border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="text"
+                    value={editedDefinition.warehouse || ''}
+                    onChange={(e) => setEditedDefinition({ ...editedDefinition, warehouse: e.target.value })}
+                    placeholder="Warehouse"
+                    className="nodrag p-1 border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  />
+                  <select
+                    value={editedDefinition.refreshMode || ''}
+                    onChange={(e) => setEditedDefinition({ ...editedDefinition, refreshMode: (e.target.value || undefined) as RefreshMode | undefined })}
+                    className="nodrag p-1 border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Auto</option>
+                    <option value="FULL">Full</option>
+                    <option value="INCREMENTAL">Incremental</option>
+                  </select>
+                </div>
+              )}
+              <div className="flex justify-end space-x-1">
+                <button
+                  onClick={() => setIsEditingQuery(false)}
+                  className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveQueryEdit}
+                  className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={startEditingQuery}
+              className="w-full text-left hover:bg-gray-50 dark:hover:bg-gray-700 rounded p-1"
+              title="Edit query"
+            >
+              {data.query ? (
+                <pre className="font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap line-clamp-3">{data.query}</pre>
+              ) : (
+                <span className="text-gray-500 dark:text-gray-400">Add query</span>
+              )}
+              {tableType === 'DYNAMIC_TABLE' && (
+                <span className="block mt-1 text-gray-500 dark:text-gray-400">
+                  Lag {data.targetLag || '1 minute'} • {data.warehouse || 'No warehouse'} • {data.refreshMode || 'AUTO'} refresh
+                </span>
+              )}
+            </button>
+          )}
+        </div>
+      )}
+      
       {/* Columns */}
       <div className="p-2 space-y-1 overflow-y-auto relative !z-20">
         {data.columns.map((column, index) => (
           editingColumnId === column.id ? (
             <div key={column.id} className="p-2 border border-blue-300 dark:border-blue-500 rounded bg-blue-50 dark:bg-gray-700 space-y-2" onClick={(e) => e.stopPropagation()}>
-              <div className="flex items-center">
-                <input 
-                  type="text" 
-                  value={editedColumn?.name || ''}
-                  onChange={(e) => handleEditChange('name', e.target.value)}
-                  className="flex-1 p-1 text-sm border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                />
-                <select 
-                  value={editedColumn?.dataType || ''}
-                  onChange={(e) => handleEditChange('dataType', e.target.value)}
-                  className="ml-2 p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                >
-                  <option value="VARCHAR">VARCHAR</option>
-                  <option value="NUMBER">NUMBER</option>
-                  <option value="INTEGER">INTEGER</option>
-                  <option value="FLOAT">FLOAT</option>
-                  <option value="BOOLEAN">BOOLEAN</option>
-                  <option value="DATE">DATE</option>
-                  <option value="TIMESTAMP">TIMESTAMP</option>
-                  <option value="VARIANT">VARIANT</option>
-                </select>
-              </div>
+              <input 
+                type="text" 
+                value={editedColumn?.name || ''}
+                onChange={(e) => handleEditChange('name', e.target.value)}
+                className="w-full p-1 text-sm border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              />
+              <DataTypePicker
+                value={editedColumn?.dataType || ''}
+                onChange={(dataType) => handleEditChange('dataType', dataType)}
+                compact
+              />
               <div className="flex items-center space-x-2 text-xs">
                 <label className="flex items-center">
                   <input 
@@ -575,6 +732,13 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
                   className="w-full p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
                 />
               </div>
+              {editedColumn && !isDerivedTable(tableType) && (
+                <ColumnValueFields
+                  column={editedColumn}
+                  onChange={setEditedColumn}
+                  sequenceDefaults={data._sequenceDefaults}
+                />
+              )}
               <div className="flex justify-end space-x-1">
                 <button 
                   onClick={cancelEditing}
@@ -584,7 +748,8 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
                 </button>
                 <button 
                   onClick={saveColumnEdit}
-                  className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded"
+                  disabled={!!editedColumn && !hasValidType(editedColumn)}
+                  className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white rounded"
                 >
                   Save
                 </button>
@@ -594,7 +759,9 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
             <div
               key={column.id} 
               className={`flex items-center text-sm p-1 rounded group relative
-                ${dragOverIndex === index ? 'bg-blue-100 dark:bg-blue-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                ${dragOverIndex === index ? 'bg-blue-100 dark:bg-blue-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}
+                ${getColumnDrift(column).length > 0 ? 'ring-1 ring-inset ring-amber-500' : ''}`}
+              title={describeColumnDrift(column) || undefined}
               onClick={(e) => startEditing(column, e)}
               draggable={false}
               onDragOver={(e) => handleDragOver(e, index)}
@@ -607,7 +774,7 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
               <Handle
                 type="source"
                 position={Position.Right}
-                id={`${id}-col-${column.id}-source`}
+                id={getColumnHandleId(id, column.id, 'source')}
                 className={`!absolute !w-2 !h-2 !border-0 !rounded-full transition-opacity duration-200 !z-[9999] !shadow-sm ${
                   column.isPrimaryKey 
                     ? '!bg-yellow-500 opacity-70 group-hover:opacity-100' 
@@ -624,7 +791,7 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
               <Handle
                 type="target"
                 position={Position.Left}
-                id={`${id}-col-${column.id}-target`}
+                id={getColumnHandleId(id, column.id, 'target')}
                 className={`!absolute !w-2 !h-2 !border-0 !rounded-full transition-opacity duration-200 !z-[9999] !shadow-sm ${
                   column.isPrimaryKey 
                     ? '!bg-yellow-500 opacity-70 group-hover:opacity-100' 
@@ -676,9 +843,23 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
                 {column.isForeignKey && (
                   <span className="text-blue-500 text-xs" title="Foreign Key">FK</span>
                 )}
+                {getColumnProblems(column).length > 0 && (
+                  <span
+                    className={`${getSeverityClassName(getColumnProblems(column))} text-xs`}
+                    title={getColumnProblems(column).map(problem => problem.message).join('\n')}
+                  >
+                    ⚠
+                  </span>
+                )}
                 {column.isNullable && (
                   <span className="text-gray-400 text-xs" title="Nullable">NULL</span>
                 )}
+                {column.identity && (
+                  <span className="text-indigo-500 text-xs" title={`Identity starting at ${column.identity.start}, increment ${column.identity.increment}`}>ID</span>
+                )}
+                {column.defaultValue && (
+                  <span className="text-indigo-500 text-xs" title={`Default ${column.defaultValue}`}>DEF</span>
+                )}
                 {column.comment && (
                   <span className="text-green-500 text-xs" title={column.comment}>📝</span>
                 )}
@@ -702,31 +883,26 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
           )
         ))}
 
+        {data._drift && data._drift.columns.some(drift => drift.kind === 'extra') && (
+          <div className="mt-1 p-1 text-xs text-amber-700 dark:text-amber-400">
+            Only in Snowflake: {data._drift.columns.filter(drift => drift.kind === 'extra').map(drift => `${drift.column} ${drift.actual}`).join(', ')}
+          </div>
+        )}
+
         {isAddingColumn ? (
           <div className="p-2 border border-green-300 dark:border-green-600 rounded bg-green-50 dark:bg-gray-700 space-y-2 mt-2">
-            <div className="flex items-center">
-              <input 
-                type="text" 
-                value={newColumn.name}
-                onChange={(e) => handleNewColumnChange('name', e.target.value)}
-                placeholder="Column name"
-                className="flex-1 p-1 text-sm border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-              />
-              <select 
-                value={newColumn.dataType}
-                onChange={(e) => handleNewColumnChange('dataType', e.target.value)}
-                className="ml-2 p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-              >
-                <option value="VARCHAR">VARCHAR</option>
-                <option value="NUMBER">NUMBER</option>
-                <option value="INTEGER">INTEGER</option>
-                <option value="FLOAT">FLOAT</option>
-                <option value="BOOLEAN">BOOLEAN</option>
-                <option value="DATE">DATE</option>
-                <option value="TIMESTAMP">TIMESTAMP</option>
-                <option value="VARIANT">VARIANT</option>
-              </select>
-            </div>
+            <input 
+              type="text" 
+              value={newColumn.name}
+              onChange={(e) => handleNewColumnChange('name', e.target.value)}
+              placeholder="Column name"
+              className="w-full p-1 text-sm border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <DataTypePicker
+              value={newColumn.dataType}
+              onChange={(dataType) => handleNewColumnChange('dataType', dataType)}
+              compact
+            />
             <div className="flex items-center space-x-2 text-xs">
               <label className="flex items-center">
                 <input 
@@ -780,6 +956,13 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
                 className="w-full p-1 text-xs border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
               />
             </div>
+            {!isDerivedTable(tableType) && (
+              <ColumnValueFields
+                column={newColumn}
+                onChange={setNewColumn}
+                sequenceDefaults={data._sequenceDefaults}
+              />
+            )}
             <div className="flex justify-end space-x-1">
               <button 
                 onClick={cancelAddingColumn}
@@ -789,7 +972,7 @@ export default function TableNode({ id, data, selected }: TableNodeProps) {
               </button>
               <button 
                 onClick={addNewColumn}
-                disabled={!newColumn.name.trim()}
+                disabled={!newColumn.name.trim() || !hasValidType(newColumn)}
                 className="px-2 py-1 text-xs bg-green-500 hover:bg-green-600 disabled:bg-green-300 disabled:hover:bg-green-300 text-white rounded"
               >
                 Add
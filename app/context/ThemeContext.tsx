@@ -22,19 +22,17 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     const storedDarkMode = localStorage.getItem('darkMode');
     const storedThemeId = localStorage.getItem('themeId');
     
-    if (storedDarkMode !== null) {
-      setIsDarkMode(storedDarkMode === 'true');
-    } else {
-      // Use system preference as fallback
-      const systemPrefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-      setIsDarkMode(systemPrefersDark);
-    }
+    // Use system preference as fallback
+    const darkMode = storedDarkMode !== null
+      ? storedDarkMode === 'true'
+      : window.matchMedia('(prefers-color-scheme: dark)').matches;
+    setIsDarkMode(darkMode);
     
     if (storedThemeId) {
       setCurrentThemeId(storedThemeId);
     } else {
       // Set default based on dark/light mode
-      const defaultTheme = getDefaultTheme(isDarkMode);
+      const defaultTheme = getDefaultTheme(darkMode);
       setCurrentThemeId(defaultTheme.id);
     }
   }, []);
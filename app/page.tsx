@@ -1,13 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { ReactFlowProvider } from 'reactflow';
 import ERDCanvas from './components/ERDCanvas';
 import Sidebar from './components/Sidebar';
 import Navbar from './components/Navbar';
-import { EdgeType, NodeType, ERDNode } from './utils/types';
+import { EdgeType, NodeType, ERDNode, TableDrift, LintRuleSettings, ParseDiagnostic } from './utils/types';
 import DDLGenerator from './utils/DDLGenerator';
+import DDLParser from './utils/DDLParser';
+import { mergeParsedERD } from './utils/mergeUtils';
+import { SQL_DIALECTS, SQLDialectId } from './utils/SQLDialects';
+import { useSnowflake } from './utils/useSnowflake';
+import { useHistory } from './utils/useHistory';
+import { useProjects } from './utils/useProjects';
+import { ProjectFile } from './utils/projectSchema';
 import SnowflakeConnection from './components/SnowflakeConnection';
+import MigrationPanel from './components/MigrationPanel';
+import HistoryPanel from './components/HistoryPanel';
+import ProjectMenu from './components/ProjectMenu';
+import ParseDiagnostics from './components/ParseDiagnostics';
 
 export default function Home() {
   const [nodes, setNodes] = useState<ERDNode[]>([]);
@@ -16,6 +27,32 @@ export default function Home() {
   const [editableDDL, setEditableDDL] = useState<string>('');
   const [activeTab, setActiveTab] = useState<'erd' | 'ddl'>('erd');
   const [isDDLModified, setIsDDLModified] = useState(false);
+  const [ddlDiagnostics, setDDLDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [dialect, setDialect] = useState<SQLDialectId>('snowflake');
+  const [ddlMode, setDDLMode] = useState<'full' | 'migration'>('full');
+  const [baselineNodes, setBaselineNodes] = useState<ERDNode[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [drift, setDrift] = useState<TableDrift[] | null>(null);
+  const [lintRules, setLintRules] = useState<LintRuleSettings>({});
+  const { credentials } = useSnowflake();
+  const history = useHistory(nodes, edges, setNodes, setEdges);
+  const { undo, redo, reset: resetHistory } = history;
+
+  // Show a project opened from the workspace, starting a fresh undo history
+  const handleProjectOpen = useCallback((project: ProjectFile) => {
+    setNodes(project.nodes);
+    setEdges(project.edges);
+    setBaselineNodes(project.baselineNodes || null);
+    setLintRules(project.lintRules || {});
+    setDrift(null);
+    resetHistory(project.nodes, project.edges, 'Opened project');
+  }, [resetHistory]);
+
+  const projects = useProjects(nodes, edges, baselineNodes, lintRules, handleProjectOpen);
+
+  // Tables without their own database or schema are placed in the connection's
+  const database = credentials?.database || undefined;
+  const schema = credentials?.schema || undefined;
 
   // Initialize editable DDL with initial DDL
   useEffect(() => {
@@ -27,8 +64,8 @@ export default function Home() {
     if (nodes.length > 0) {
       const tableNodes = nodes.filter(node => node.type === 'table');
       if (tableNodes.length > 0) {
-        const generator = new DDLGenerator(nodes, edges);
-        const generatedDDL = generator.generateSnowflakeDDL();
+        const generator = new DDLGenerator(nodes, edges, dialect, { database, schema });
+        const generatedDDL = generator.generateDDL();
         setDDL(generatedDDL);
         // Reset modification flag when nodes/edges change
         setIsDDLModified(false);
@@ -38,28 +75,97 @@ export default function Home() {
     } else {
       setDDL('');
     }
-  }, [nodes, edges]);
+  }, [nodes, edges, dialect, database, schema]);
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Handle DDL editing
   const handleDDLChange = (newDDL: string) => {
     setEditableDDL(newDDL);
     setIsDDLModified(newDDL !== ddl);
+    setDDLDiagnostics([]);
+  };
+
+  // Keep a copy of the deployed state to diff the canvas against
+  const updateBaseline = (deployedNodes: ERDNode[]) => {
+    setBaselineNodes(JSON.parse(JSON.stringify(deployedNodes)));
   };
 
+  // Take the deployed tables into the model, keeping positions, domains and handles
+  const pullLiveSchema = (liveNodes: ERDNode[], liveEdges: EdgeType[]) => {
+    const merged = mergeParsedERD(nodes, edges, liveNodes, liveEdges, { database, schema });
+    setNodes(merged.nodes);
+    setEdges(merged.edges);
+  };
+
+  // Only Snowflake DDL is read back into the model, other dialects would rewrite its types and defaults
+  const canEditDDL = dialect === 'snowflake';
+
   // Apply DDL changes and update ERD
   const applyDDLChanges = () => {
-    // Update the DDL state
-    setDDL(editableDDL);
-    setIsDDLModified(false);
-    
-    // This would ideally parse the DDL and update nodes and edges
-    // For now we'll show an alert, but in the future this could be implemented
-    alert('In a complete implementation, this would parse the DDL and update the ERD');
+    try {
+      const parser = new DDLParser(editableDDL);
+      const { nodes: parsedNodes, edges: parsedEdges, diagnostics } = parser.parse();
+      setDDLDiagnostics(diagnostics);
+      
+      if (!parsedNodes.some(node => node.type === 'table')) {
+        alert('No tables were found in the DDL. Please check the problems listed below the DDL and try again.');
+        return;
+      }
+      
+      // Tables of statements that failed to parse would be removed from the diagram
+      const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+      if (errors.length > 0 && !window.confirm(
+        `${errors.length} ${errors.length === 1 ? 'statement' : 'statements'} could not be parsed, see the problems listed below the DDL. ` +
+        'Tables they create will be removed from the diagram. Apply the rest of the changes anyway?'
+      )) {
+        return;
+      }
+      
+      // Merge into the current diagram so positions, domains and handles survive
+      const merged = mergeParsedERD(nodes, edges, parsedNodes, parsedEdges, { database, schema });
+      setNodes(merged.nodes);
+      setEdges(merged.edges);
+      setIsDDLModified(false);
+    } catch (error) {
+      console.error('Error applying DDL changes:', error);
+      alert('Failed to apply DDL changes. Please check the syntax and try again.');
+    }
   };
 
   return (
     <main className="flex flex-col h-screen">
-      <Navbar />
+      <Navbar>
+        <ProjectMenu
+          projects={projects.projects}
+          currentProject={projects.currentProject}
+          saveStatus={projects.saveStatus}
+          onOpen={projects.openProject}
+          onCreate={() => projects.createProject()}
+          onRename={projects.renameProject}
+          onDuplicate={projects.duplicateProject}
+          onDelete={projects.deleteProject}
+        />
+      </Navbar>
       <div className="flex flex-1 overflow-hidden">
         <Sidebar 
           nodes={nodes} 
@@ -69,6 +175,7 @@ export default function Home() {
           ddl={ddl} 
           setDDL={setDDL}
           setActiveTab={setActiveTab}
+          projectName={projects.currentProject?.name}
         />
         <div className="flex-1 flex flex-col">
           <div className="border-b dark:border-gray-700 py-2 px-4 flex space-x-4 bg-gray-100 dark:bg-gray-800">
@@ -92,26 +199,117 @@ export default function Home() {
             >
               DDL & Execution
             </button>
+            <div className="ml-auto flex items-center space-x-2 relative">
+              <button
+                onClick={undo}
+                disabled={!history.canUndo}
+                className="p-2 rounded-md text-gray-700 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Undo (Ctrl+Z)"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={redo}
+                disabled={!history.canRedo}
+                className="p-2 rounded-md text-gray-700 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`px-3 py-2 text-sm rounded-md ${
+                  showHistory
+                    ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+                    : 'text-gray-700 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                History
+              </button>
+              {showHistory && (
+                <HistoryPanel
+                  entries={history.entries}
+                  index={history.index}
+                  onSelect={history.goTo}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+            </div>
           </div>
           
           <div className="flex-1 overflow-hidden">
             {activeTab === 'erd' ? (
               <div className="h-full bg-gray-50 dark:bg-gray-900">
                 <ReactFlowProvider>
-                  <ERDCanvas nodes={nodes} setNodes={setNodes} edges={edges} setEdges={setEdges} />
+                  <ERDCanvas
+                    nodes={nodes}
+                    setNodes={setNodes}
+                    edges={edges}
+                    setEdges={setEdges}
+                    drift={drift}
+                    lintRules={lintRules}
+                    onLintRulesChange={setLintRules}
+                  />
                 </ReactFlowProvider>
               </div>
             ) : (
               <div className="h-full overflow-auto p-6 bg-gray-50 dark:bg-gray-900">
                 <div className="max-w-4xl mx-auto">
-                  <h2 className="text-2xl font-semibold mb-4">Snowflake DDL Execution</h2>
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-semibold">{SQL_DIALECTS[dialect].name} DDL{dialect === 'snowflake' ? ' Execution' : ''}</h2>
+                    <div className="flex items-center space-x-2">
+                      <label htmlFor="dialect" className="text-sm text-gray-700 dark:text-gray-300">Dialect</label>
+                      <select
+                        id="dialect"
+                        value={dialect}
+                        onChange={(e) => setDialect(e.target.value as SQLDialectId)}
+                        className="p-1.5 text-sm border rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      >
+                        {Object.values(SQL_DIALECTS).map((option) => (
+                          <option key={option.id} value={option.id}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  
+                  {schema && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                      Tables without a database or schema are created in {database ? `${database}.` : ''}{schema}, the schema of your Snowflake connection.
+                    </p>
+                  )}
+                  
+                  {dialect === 'snowflake' && (
+                    <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+                      {(['full', 'migration'] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => setDDLMode(mode)}
+                          className={`py-2 px-4 text-sm font-medium ${
+                            ddlMode === mode
+                              ? 'border-b-2 border-primary-dark dark:border-primary-light text-primary-dark dark:text-primary-light'
+                              : 'text-gray-500 dark:text-gray-400'
+                          }`}
+                        >
+                          {mode === 'full' ? 'Full DDL' : 'Migration'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   
-                  {nodes.length > 0 ? (
+                  {dialect === 'snowflake' && ddlMode === 'migration' ? (
+                    <MigrationPanel nodes={nodes} baselineNodes={baselineNodes} onBaselineChange={updateBaseline} />
+                  ) : nodes.length > 0 ? (
                     <>
                       <div className="mb-6">
                         <div className="flex justify-between items-center mb-2">
-                          <h3 className="text-lg font-medium">Edit DDL</h3>
-                          {isDDLModified && (
+                          <h3 className="text-lg font-medium">{canEditDDL ? 'Edit DDL' : 'DDL'}</h3>
+                          {canEditDDL && isDDLModified && (
                             <button 
                               onClick={applyDDLChanges} 
                               className="px-3 py-1.5 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded"
@@ -125,8 +323,15 @@ export default function Home() {
                             className="w-full h-64 p-3 font-mono text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-0 focus:ring-0 focus:outline-none resize-none"
                             value={editableDDL}
                             onChange={(e) => handleDDLChange(e.target.value)}
+                            readOnly={!canEditDDL}
                           />
                         </div>
+                        {!canEditDDL && (
+                          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                            {SQL_DIALECTS[dialect].name} DDL is generated from the model. Switch to Snowflake to edit the DDL and apply it to the diagram.
+                          </p>
+                        )}
+                        <ParseDiagnostics diagnostics={ddlDiagnostics} />
                         <div className="mt-3 flex space-x-3">
                           <button 
                             onClick={() => {
@@ -141,6 +346,7 @@ export default function Home() {
                             onClick={() => {
                               setEditableDDL(ddl);
                               setIsDDLModified(false);
+                              setDDLDiagnostics([]);
                             }}
                             className="px-3 py-1.5 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded"
                             disabled={!isDDLModified}
@@ -150,16 +356,28 @@ export default function Home() {
                         </div>
                       </div>
                       
-                      <div>
-                        <SnowflakeConnection 
-                          ddl={editableDDL} 
-                          onExecutionComplete={(result) => {
-                            if (result.status === 'success') {
-                              alert('DDL executed successfully in Snowflake!');
-                            }
-                          }}
-                        />
-                      </div>
+                      {dialect === 'snowflake' ? (
+                        <div>
+                          <SnowflakeConnection 
+                            ddl={editableDDL} 
+                            onExecutionComplete={(result) => {
+                              if (result.status === 'success') {
+                                alert('DDL executed successfully in Snowflake!');
+                                updateBaseline(nodes);
+                              }
+                            }}
+                            nodes={nodes}
+                            onDriftChange={setDrift}
+                            onPullChanges={pullLiveSchema}
+                          />
+                        </div>
+                      ) : (
+                        <div className="bg-blue-50 dark:bg-blue-900/30 border-l-4 border-blue-400 p-4 rounded text-sm">
+                          <p className="text-blue-700 dark:text-blue-300">
+                            Execution is only available for Snowflake. Copy the {SQL_DIALECTS[dialect].name} DDL and run it with your own tooling.
+                          </p>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-400 p-4 rounded text-sm">
@@ -0,0 +1,442 @@
+import { DomainNodeType, EdgeType, ERDNode, NodeType } from './types';
+import { getForeignKeys } from './constraintUtils';
+import { findTableByReference } from './qualifiedNames';
+
+export type LayoutAlgorithm = 'layered' | 'force' | 'grid';
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+export const LAYOUT_ALGORITHMS: Record<LayoutAlgorithm, { name: string; description: string }> = {
+  layered: { name: 'Layered', description: 'Referenced tables above the tables that reference them' },
+  force: { name: 'Force-directed', description: 'Related tables pulled together, unrelated ones pushed apart' },
+  grid: { name: 'Grid by domain', description: 'Tables in a tidy grid inside each domain' }
+};
+
+const NODE_GAP = 60;
+const LAYER_GAP = 120;
+const GROUP_GAP = 120;
+const DOMAIN_PADDING = 40;
+const DOMAIN_HEADER = 50; // Room for the domain title above its tables
+const MAX_LAYER_SIZE = 6; // Tables per row before a layer wraps
+const FORCE_ITERATIONS = 300;
+const FORCE_GRAVITY = 1;
+const SEQUENCE_WIDTH = 200;
+
+// A table placed relative to its group
+interface Box extends NodeSize {
+  id: string;
+  x: number;
+  y: number;
+}
+
+interface LayoutGroup {
+  domain?: DomainNodeType;
+  tables: NodeType[];
+}
+
+export default class AutoLayout {
+  private tables: NodeType[];
+  private domains: DomainNodeType[];
+  private nodes: ERDNode[];
+  private edges: EdgeType[];
+  private sizes: Record<string, NodeSize>;
+
+  /**
+   * @param sizes Measured sizes of the rendered nodes; tables without one are estimated from their columns
+   */
+  constructor(nodes: ERDNode[], edges: EdgeType[], sizes: Record<string, NodeSize> = {}) {
+    this.nodes = nodes;
+    this.edges = edges;
+    this.sizes = sizes;
+    this.tables = nodes.filter((node): node is NodeType => node.type === 'table');
+    this.domains = nodes.filter((node): node is DomainNodeType => node.type === 'domain');
+  }
+
+  /**
+   * Position every table with the given algorithm. Tables inside a domain stay
+   * together and the domain is resized around them; sequences are lined up below.
+   * @returns All nodes with their new positions
+   */
+  public layout(algorithm: LayoutAlgorithm): ERDNode[] {
+    const placed = this.groupByDomain().map(group => {
+      const boxes = this.layoutGroup(group.tables, algorithm);
+      const bounds = this.getBounds(boxes);
+      const padding = group.domain ? DOMAIN_PADDING : 0;
+      const header = group.domain ? DOMAIN_HEADER : 0;
+      const empty = boxes.length === 0;
+
+      return {
+        group,
+        boxes,
+        width: empty ? group.domain?.style?.width || 300 : bounds.width + padding * 2,
+        height: empty ? group.domain?.style?.height || 200 : bounds.height + header + padding,
+        offsetX: padding - bounds.x,
+        offsetY: header - bounds.y
+      };
+    });
+
+    // Pack the groups into rows of roughly square overall proportions
+    const totalArea = placed.reduce((sum, item) => sum + item.width * item.height, 0);
+    const maxRowWidth = Math.max(Math.sqrt(totalArea) * 1.6, ...placed.map(item => item.width));
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const domainBoxes = new Map<string, Box>();
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+
+    for (const item of placed) {
+      if (x > 0 && x + item.width > maxRowWidth) {
+        x = 0;
+        y += rowHeight + GROUP_GAP;
+        rowHeight = 0;
+      }
+
+      for (const box of item.boxes) {
+        positions.set(box.id, { x: Math.round(x + item.offsetX + box.x), y: Math.round(y + item.offsetY + box.y) });
+      }
+      if (item.group.domain) {
+        domainBoxes.set(item.group.domain.id, { id: item.group.domain.id, x, y, width: item.width, height: item.height });
+      }
+
+      x += item.width + GROUP_GAP;
+      rowHeight = Math.max(rowHeight, item.height);
+    }
+
+    // Sequences go in a row below everything else
+    const sequenceY = y + rowHeight + (placed.length > 0 ? GROUP_GAP : 0);
+    this.nodes.filter(node => node.type === 'sequence').forEach((node, index) => {
+      positions.set(node.id, { x: index * (SEQUENCE_WIDTH + NODE_GAP), y: sequenceY });
+    });
+
+    return this.nodes.map(node => {
+      if (node.type === 'domain') {
+        const box = domainBoxes.get(node.id);
+        return box
+          ? { ...node, position: { x: box.x, y: box.y }, style: { ...node.style, width: Math.round(box.width), height: Math.round(box.height) } }
+          : node;
+      }
+      const position = positions.get(node.id);
+      return position ? { ...node, position } : node;
+    });
+  }
+
+  private getSize(table: NodeType): NodeSize {
+    const measured = this.sizes[table.id];
+    if (measured && measured.width > 0 && measured.height > 0) return measured;
+
+    // Rough size of a rendered TableNode: header with comment and tags, one row per column
+    const longest = table.data.columns.reduce(
+      (max, col) => Math.max(max, col.name.length + col.dataType.length),
+      table.data.label.length
+    );
+    return {
+      width: Math.max(250, longest * 7 + 120),
+      height: 130 + table.data.columns.length * 32
+    };
+  }
+
+  /**
+   * Assign each table to the smallest domain its center lies in; tables outside
+   * any domain form the last group
+   */
+  private groupByDomain(): LayoutGroup[] {
+    const domains = this.domains.slice().sort((a, b) => a.data.label.localeCompare(b.data.label));
+    const groups = new Map<string, NodeType[]>(domains.map(domain => [domain.id, []]));
+    const ungrouped: NodeType[] = [];
+
+    for (const table of this.tables) {
+      const size = this.getSize(table);
+      const centerX = table.position.x + size.width / 2;
+      const centerY = table.position.y + size.height / 2;
+
+      let best: DomainNodeType | undefined;
+      for (const domain of domains) {
+        const width = domain.style?.width || 0;
+        const height = domain.style?.height || 0;
+        const inside = centerX >= domain.position.x && centerX <= domain.position.x + width &&
+          centerY >= domain.position.y && centerY <= domain.position.y + height;
+        if (inside && (!best || width * height < (best.style?.width || 0) * (best.style?.height || 0))) {
+          best = domain;
+        }
+      }
+
+      if (best) {
+        groups.get(best.id)!.push(table);
+      } else {
+        ungrouped.push(table);
+      }
+    }
+
+    const result: LayoutGroup[] = domains.map(domain => ({ domain, tables: groups.get(domain.id)! }));
+    if (ungrouped.length > 0) {
+      result.push({ tables: ungrouped });
+    }
+    return result;
+  }
+
+  private layoutGroup(tables: NodeType[], algorithm: LayoutAlgorithm): Box[] {
+    const sorted = tables.slice().sort((a, b) => a.data.label.localeCompare(b.data.label));
+    const boxes = sorted.map(table => ({ id: table.id, x: 0, y: 0, ...this.getSize(table) }));
+    if (boxes.length === 0) return boxes;
+
+    switch (algorithm) {
+      case 'layered': return this.layoutLayered(sorted, boxes);
+      case 'force': return this.layoutForce(sorted, boxes);
+      default: return this.layoutGrid(boxes);
+    }
+  }
+
+  /**
+   * Get the tables each table references within a group: foreign keys first,
+   * then any remaining edges taken from source to target
+   */
+  private getReferences(tables: NodeType[]): Map<string, Set<string>> {
+    const ids = new Set(tables.map(table => table.id));
+    const references = new Map<string, Set<string>>(tables.map(table => [table.id, new Set<string>()]));
+    const linked = new Set<string>();
+    const link = (from: string, to: string) => {
+      if (from === to || !ids.has(from) || !ids.has(to)) return;
+      references.get(from)!.add(to);
+      linked.add([from, to].sort().join('|'));
+    };
+
+    for (const table of tables) {
+      for (const fk of getForeignKeys(table.data)) {
+        const target = findTableByReference(this.tables, fk.referencedTable, table.data);
+        if (target) link(table.id, target.id);
+      }
+    }
+    for (const edge of this.edges) {
+      if (!linked.has([edge.source, edge.target].sort().join('|'))) {
+        link(edge.source, edge.target);
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Sugiyama-style layout: referenced tables in the top layers, referencing tables
+   * below them, and each layer ordered to reduce edge crossings
+   */
+  private layoutLayered(tables: NodeType[], boxes: Box[]): Box[] {
+    const references = this.getReferences(tables);
+    const neighbours = new Map<string, Set<string>>(tables.map(table => [table.id, new Set<string>()]));
+    references.forEach((targets, id) => targets.forEach(target => {
+      neighbours.get(id)!.add(target);
+      neighbours.get(target)!.add(id);
+    }));
+
+    // Layer = longest chain of references below a table; references that close a cycle are ignored
+    const layers = new Map<string, number>();
+    const visiting = new Set<string>();
+    const assignLayer = (id: string): number => {
+      if (layers.has(id)) return layers.get(id)!;
+      if (visiting.has(id)) return -1;
+      visiting.add(id);
+      let layer = 0;
+      references.get(id)!.forEach(target => {
+        const targetLayer = assignLayer(target);
+        if (targetLayer >= 0) layer = Math.max(layer, targetLayer + 1);
+      });
+      visiting.delete(id);
+      layers.set(id, layer);
+      return layer;
+    };
+
+    const connected = tables.filter(table => neighbours.get(table.id)!.size > 0);
+    const isolated = boxes.filter(box => neighbours.get(box.id)!.size === 0);
+    connected.forEach(table => assignLayer(table.id));
+
+    const rows: string[][] = [];
+    for (const table of connected) {
+      const layer = layers.get(table.id)!;
+      (rows[layer] = rows[layer] || []).push(table.id);
+    }
+    const ordered = rows.filter(row => row && row.length > 0);
+
+    // Barycenter sweeps: order each layer by the average position of its neighbours in the previous one
+    const indexOf = new Map<string, number>();
+    const updateIndexes = () => ordered.forEach(row => row.forEach((id, i) => indexOf.set(id, i)));
+    const sortByBarycenter = (row: string[], adjacent: string[]) => {
+      const adjacentIds = new Set(adjacent);
+      const barycenter = (id: string) => {
+        const positions = Array.from(neighbours.get(id)!).filter(n => adjacentIds.has(n)).map(n => indexOf.get(n)!);
+        return positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : indexOf.get(id)!;
+      };
+      const centers = new Map(row.map(id => [id, barycenter(id)]));
+      row.sort((a, b) => centers.get(a)! - centers.get(b)!);
+    };
+
+    updateIndexes();
+    for (let sweep = 0; sweep < 4; sweep++) {
+      for (let i = 1; i < ordered.length; i++) {
+        sortByBarycenter(ordered[i], ordered[i - 1]);
+        updateIndexes();
+      }
+      for (let i = ordered.length - 2; i >= 0; i--) {
+        sortByBarycenter(ordered[i], ordered[i + 1]);
+        updateIndexes();
+      }
+    }
+
+    // Wide layers wrap onto extra rows; unrelated tables go in rows at the bottom
+    const byId = new Map(boxes.map(box => [box.id, box]));
+    const lines: Box[][] = [];
+    for (const row of ordered) {
+      for (let i = 0; i < row.length; i += MAX_LAYER_SIZE) {
+        lines.push(row.slice(i, i + MAX_LAYER_SIZE).map(id => byId.get(id)!));
+      }
+    }
+    for (let i = 0; i < isolated.length; i += MAX_LAYER_SIZE) {
+      lines.push(isolated.slice(i, i + MAX_LAYER_SIZE));
+    }
+
+    const lineWidth = (line: Box[]) => line.reduce((sum, box) => sum + box.width, 0) + NODE_GAP * (line.length - 1);
+    const maxWidth = Math.max(...lines.map(lineWidth));
+    let y = 0;
+    for (const line of lines) {
+      let x = (maxWidth - lineWidth(line)) / 2;
+      for (const box of line) {
+        box.x = x;
+        box.y = y;
+        x += box.width + NODE_GAP;
+      }
+      y += Math.max(...line.map(box => box.height)) + LAYER_GAP;
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Fruchterman-Reingold layout followed by a pass that pushes overlapping tables apart
+   */
+  private layoutForce(tables: NodeType[], boxes: Box[]): Box[] {
+    const references = this.getReferences(tables);
+    const index = new Map(boxes.map((box, i) => [box.id, i]));
+    const links: [number, number][] = [];
+    references.forEach((targets, id) => targets.forEach(target => links.push([index.get(id)!, index.get(target)!])));
+
+    const count = boxes.length;
+    const ideal = 350;
+    const radius = ideal * Math.sqrt(count) / 2;
+
+    // Start on a circle so the result doesn't depend on chance
+    const centers = boxes.map((_, i) => ({
+      x: radius * Math.cos((2 * Math.PI * i) / count),
+      y: radius * Math.sin((2 * Math.PI * i) / count)
+    }));
+
+    let temperature = ideal;
+    for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+      const moves = centers.map(() => ({ x: 0, y: 0 }));
+
+      for (let i = 0; i < count; i++) {
+        for (let j = i + 1; j < count; j++) {
+          const dx = centers[i].x - centers[j].x;
+          const dy = centers[i].y - centers[j].y;
+          const distance = Math.max(Math.hypot(dx, dy), 1);
+          const force = (ideal * ideal) / distance;
+          moves[i].x += (dx / distance) * force;
+          moves[i].y += (dy / distance) * force;
+          moves[j].x -= (dx / distance) * force;
+          moves[j].y -= (dy / distance) * force;
+        }
+      }
+
+      for (const [source, target] of links) {
+        const dx = centers[source].x - centers[target].x;
+        const dy = centers[source].y - centers[target].y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (distance * distance) / ideal;
+        moves[source].x -= (dx / distance) * force;
+        moves[source].y -= (dy / distance) * force;
+        moves[target].x += (dx / distance) * force;
+        moves[target].y += (dy / distance) * force;
+      }
+
+      // Gravity keeps unrelated tables from drifting away
+      centers.forEach((center, i) => {
+        moves[i].x -= center.x * FORCE_GRAVITY;
+        moves[i].y -= center.y * FORCE_GRAVITY;
+      });
+
+      centers.forEach((center, i) => {
+        const length = Math.max(Math.hypot(moves[i].x, moves[i].y), 1);
+        center.x += (moves[i].x / length) * Math.min(length, temperature);
+        center.y += (moves[i].y / length) * Math.min(length, temperature);
+      });
+      temperature = Math.max(temperature * 0.98, 1);
+    }
+
+    boxes.forEach((box, i) => {
+      box.x = centers[i].x - box.width / 2;
+      box.y = centers[i].y - box.height / 2;
+    });
+    this.removeOverlaps(boxes);
+    return boxes;
+  }
+
+  /**
+   * Push overlapping boxes apart along the axis where they overlap least
+   */
+  private removeOverlaps(boxes: Box[]): void {
+    for (let pass = 0; pass < 50; pass++) {
+      let moved = false;
+      for (let i = 0; i < boxes.length; i++) {
+        for (let j = i + 1; j < boxes.length; j++) {
+          const a = boxes[i];
+          const b = boxes[j];
+          const overlapX = Math.min(a.x + a.width, b.x + b.width) + NODE_GAP - Math.max(a.x, b.x);
+          const overlapY = Math.min(a.y + a.height, b.y + b.height) + NODE_GAP - Math.max(a.y, b.y);
+          if (overlapX <= 0 || overlapY <= 0) continue;
+
+          moved = true;
+          if (overlapX < overlapY) {
+            const shift = (a.x < b.x ? -overlapX : overlapX) / 2;
+            a.x += shift;
+            b.x -= shift;
+          } else {
+            const shift = (a.y < b.y ? -overlapY : overlapY) / 2;
+            a.y += shift;
+            b.y -= shift;
+          }
+        }
+      }
+      if (!moved) break;
+    }
+  }
+
+  private layoutGrid(boxes: Box[]): Box[] {
+    const columns = Math.ceil(Math.sqrt(boxes.length));
+    const columnWidths: number[] = [];
+    const rowHeights: number[] = [];
+    boxes.forEach((box, i) => {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      columnWidths[column] = Math.max(columnWidths[column] || 0, box.width);
+      rowHeights[row] = Math.max(rowHeights[row] || 0, box.height);
+    });
+
+    boxes.forEach((box, i) => {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      box.x = columnWidths.slice(0, column).reduce((sum, width) => sum + width + NODE_GAP, 0);
+      box.y = rowHeights.slice(0, row).reduce((sum, height) => sum + height + NODE_GAP, 0);
+    });
+    return boxes;
+  }
+
+  private getBounds(boxes: Box[]): { x: number; y: number; width: number; height: number } {
+    if (boxes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+    const minX = Math.min(...boxes.map(box => box.x));
+    const minY = Math.min(...boxes.map(box => box.y));
+    const maxX = Math.max(...boxes.map(box => box.x + box.width));
+    const maxY = Math.max(...boxes.map(box => box.y + box.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+}
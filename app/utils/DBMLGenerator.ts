@@ -0,0 +1,203 @@
+import { ERDNode, EdgeType, NodeType, DomainNodeType, Column } from './types';
+import { getPrimaryKey, getForeignKeys, getUniqueKeys } from './constraintUtils';
+import { findTableByReference } from './qualifiedNames';
+import { isDerivedTable } from './queryLineage';
+import { getHandleColumnId } from './edgeUtils';
+
+const OPERATORS: Record<EdgeType['data']['relationshipType'], string> = {
+  'one-to-one': '-',
+  'one-to-many': '>',
+  'many-to-many': '<>'
+};
+
+export default class DBMLGenerator {
+  private tables: NodeType[];
+  private skippedViews: NodeType[];
+  private domains: DomainNodeType[];
+  private edges: EdgeType[];
+
+  constructor(nodes: ERDNode[], edges: EdgeType[]) {
+    // A DBML table needs columns, so views whose columns aren't known are left out
+    const tables = nodes.filter((node): node is NodeType => node.type === 'table');
+    const isEmptyView = (table: NodeType) => isDerivedTable(table.data.tableType) && table.data.columns.length === 0;
+    this.tables = tables.filter(table => !isEmptyView(table));
+    this.skippedViews = tables.filter(isEmptyView);
+    this.domains = nodes.filter((node): node is DomainNodeType => node.type === 'domain');
+    this.edges = edges;
+  }
+
+  /**
+   * Generate DBML for dbdiagram.io. Views and other table types are written as tables,
+   * databases are dropped since DBML only has schemas, and domains become TableGroups.
+   * Views without columns are named in a comment at the top.
+   */
+  public generate(): string {
+    const sections = [
+      this.skippedViews.length > 0
+        ? `// Views without columns are left out: ${this.skippedViews.map(view => this.tableName(view)).join(', ')}`
+        : '',
+      this.tables.map(table => this.generateTable(table)).join('\n\n'),
+      this.generateRefs().join('\n'),
+      this.generateTableGroups().join('\n\n')
+    ];
+
+    return sections.filter(section => section.length > 0).join('\n\n') + '\n';
+  }
+
+  private quoteName(name: string): string {
+    return /^\w+$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`;
+  }
+
+  private quoteString(text: string): string {
+    return text.includes('\n')
+      ? `'''${text.replace(/'''/g, "\\'''")}'''`
+      : `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * Types such as NUMBER(10, 2) are written as they are; anything else, e.g. with spaces, is quoted
+   */
+  private quoteType(dataType: string): string {
+    return /^\w+(\s*\([\d\s,]+\))?$/.test(dataType) ? dataType : `"${dataType.replace(/"/g, '\\"')}"`;
+  }
+
+  private tableName(table: NodeType): string {
+    const name = this.quoteName(table.data.label);
+    return table.data.schema ? `${this.quoteName(table.data.schema)}.${name}` : name;
+  }
+
+  private columnList(columns: string[]): string {
+    return columns.length === 1 ? this.quoteName(columns[0]) : `(${columns.map(col => this.quoteName(col)).join(', ')})`;
+  }
+
+  private generateTable(table: NodeType): string {
+    const { data } = table;
+    const primaryKey = getPrimaryKey(data);
+    const uniqueKeys = getUniqueKeys(data);
+
+    // Unnamed single-column keys are column settings, the rest go in the indexes block
+    const inlinePrimaryKey = primaryKey && !primaryKey.name && primaryKey.columns.length === 1 ? primaryKey.columns[0] : null;
+    const inlineUnique = uniqueKeys.filter(key => !key.name && key.columns.length === 1).map(key => key.columns[0]);
+    const indexes: string[] = [];
+    if (primaryKey && !inlinePrimaryKey) {
+      indexes.push(`${this.columnList(primaryKey.columns)} [pk${primaryKey.name ? `, name: ${this.quoteString(primaryKey.name)}` : ''}]`);
+    }
+    for (const key of uniqueKeys) {
+      if (key.name || key.columns.length > 1) {
+        indexes.push(`${this.columnList(key.columns)} [unique${key.name ? `, name: ${this.quoteString(key.name)}` : ''}]`);
+      }
+    }
+
+    const lines = data.columns.map(col => {
+      const settings: string[] = [];
+      if (col.name === inlinePrimaryKey) settings.push('pk');
+      if (!col.isNullable && col.name !== inlinePrimaryKey) settings.push('not null');
+      if (inlineUnique.includes(col.name)) settings.push('unique');
+      if (col.comment) settings.push(`note: ${this.quoteString(col.comment)}`);
+      return `  ${this.quoteName(col.name)} ${this.quoteType(col.dataType)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`;
+    });
+
+    if (indexes.length > 0) {
+      lines.push('', '  indexes {', ...indexes.map(index => `    ${index}`), '  }');
+    }
+    if (data.comment) {
+      lines.push('', `  Note: ${this.quoteString(data.comment)}`);
+    }
+
+    return `Table ${this.tableName(table)} {\n${lines.join('\n')}\n}`;
+  }
+
+  /**
+   * Write a Ref for every foreign key, plus column-to-column edges that have no foreign key
+   */
+  private generateRefs(): string[] {
+    const refs: string[] = [];
+    const covered = new Set<string>();
+
+    for (const table of this.tables) {
+      for (const fk of getForeignKeys(table.data)) {
+        const target = findTableByReference(this.tables, fk.referencedTable, table.data);
+        if (!target || fk.referencedColumns.length !== fk.columns.length) continue;
+
+        const edge = this.findForeignKeyEdge(table, fk.columns, target, fk.referencedColumns);
+        const operator = edge?.data.relationshipType === 'one-to-one' ? '-' : '>';
+        const name = fk.name ? ` ${this.quoteName(fk.name)}` : '';
+
+        refs.push(`Ref${name}: ${this.tableName(table)}.${this.columnList(fk.columns)} ${operator} ${this.tableName(target)}.${this.columnList(fk.referencedColumns)}`);
+        fk.columns.forEach(col => covered.add(`${table.id}.${col.toUpperCase()}`));
+      }
+    }
+
+    for (const edge of this.edges) {
+      const source = this.tables.find(node => node.id === edge.source);
+      const target = this.tables.find(node => node.id === edge.target);
+      const sourceColumn = source && this.getHandleColumn(source, edge.sourceHandle);
+      const targetColumn = target && this.getHandleColumn(target, edge.targetHandle);
+      if (!source || !target || !sourceColumn || !targetColumn) continue;
+      if (covered.has(`${source.id}.${sourceColumn.name.toUpperCase()}`) || covered.has(`${target.id}.${targetColumn.name.toUpperCase()}`)) continue;
+
+      // Edges can be drawn either way, so the column pointing at a primary key goes on the left
+      const reversed = sourceColumn.isPrimaryKey && !targetColumn.isPrimaryKey;
+      const [child, childColumn, parent, parentColumn] = reversed
+        ? [target, targetColumn, source, sourceColumn]
+        : [source, sourceColumn, target, targetColumn];
+
+      refs.push(`Ref: ${this.tableName(child)}.${this.quoteName(childColumn.name)} ${OPERATORS[edge.data.relationshipType]} ${this.tableName(parent)}.${this.quoteName(parentColumn.name)}`);
+    }
+
+    return refs;
+  }
+
+  /**
+   * Write a TableGroup per domain with the tables placed inside it; a table inside
+   * nested domains belongs to the smallest one
+   */
+  private generateTableGroups(): string[] {
+    const area = (domain: DomainNodeType) => (domain.style?.width || 0) * (domain.style?.height || 0);
+    const members = new Map<string, NodeType[]>(this.domains.map(domain => [domain.id, []]));
+
+    for (const table of this.tables) {
+      const containing = this.domains
+        .filter(domain =>
+          table.position.x >= domain.position.x && table.position.x <= domain.position.x + (domain.style?.width || 0) &&
+          table.position.y >= domain.position.y && table.position.y <= domain.position.y + (domain.style?.height || 0)
+        )
+        .sort((a, b) => area(a) - area(b));
+      if (containing.length > 0) {
+        members.get(containing[0].id)!.push(table);
+      }
+    }
+
+    return this.domains
+      .filter(domain => members.get(domain.id)!.length > 0)
+      .map(domain => {
+        const color = /^#[0-9a-f]{3,8}$/i.test(domain.data.color) ? ` [color: ${domain.data.color}]` : '';
+        const tables = members.get(domain.id)!.map(table => `  ${this.tableName(table)}`);
+        return `TableGroup ${this.quoteName(domain.data.label)}${color} {\n${tables.join('\n')}\n}`;
+      });
+  }
+
+  /**
+   * Find the edge drawn between a foreign key column and the column it references, in either direction
+   */
+  private findForeignKeyEdge(child: NodeType, columns: string[], parent: NodeType, referencedColumns: string[]): EdgeType | undefined {
+    const isPair = (childColumn?: Column, parentColumn?: Column) => !!childColumn && !!parentColumn && columns.some((col, i) =>
+      col.toUpperCase() === childColumn.name.toUpperCase() && referencedColumns[i].toUpperCase() === parentColumn.name.toUpperCase()
+    );
+
+    return this.edges.find(edge => {
+      if (edge.source === child.id && edge.target === parent.id) {
+        return isPair(this.getHandleColumn(child, edge.sourceHandle), this.getHandleColumn(parent, edge.targetHandle));
+      }
+      if (edge.source === parent.id && edge.target === child.id) {
+        return isPair(this.getHandleColumn(child, edge.targetHandle), this.getHandleColumn(parent, edge.sourceHandle));
+      }
+      return false;
+    });
+  }
+
+  private getHandleColumn(table: NodeType, handle: string): Column | undefined {
+    const columnId = getHandleColumnId(handle);
+    return columnId ? table.data.columns.find(col => col.id === columnId) : undefined;
+  }
+}
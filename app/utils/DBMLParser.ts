@@ -0,0 +1,651 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ERDNode, EdgeType, Column, NodeType, DomainNodeType, TableConstraint } from './types';
+import { findTableByReference, getTableReference } from './qualifiedNames';
+import { addForeignKey } from './constraintUtils';
+import { createRelationshipEdge } from './edgeUtils';
+
+interface Token {
+  type: 'word' | 'string' | 'expression' | 'symbol';
+  value: string;
+  line: number;
+  offset: number; // Index of the first character in the source
+}
+
+interface Setting {
+  key: string;
+  value: Token[];
+}
+
+interface RefEndpoint {
+  table: string;
+  columns: string[];
+}
+
+type RefOperator = '<' | '>' | '-' | '<>';
+
+const DEFAULT_GROUP_COLOR = '#3b82f6';
+const GROUP_OPACITY = 0.3;
+
+// Room given to each table when placing it inside its group before auto-layout
+const CELL_WIDTH = 350;
+const CELL_HEIGHT = 400;
+const GROUP_COLUMNS = 3;
+
+export default class DBMLParser {
+  private dbml: string;
+  private tokens: Token[] = [];
+  private position = 0;
+  private nodes: NodeType[] = [];
+  private domains: DomainNodeType[] = [];
+  private edges: EdgeType[] = [];
+  private aliases: Map<string, NodeType> = new Map();
+  private enums: Map<string, string[]> = new Map();
+  private groups: { name: string; color: string; tables: string[] }[] = [];
+  private refs: { name?: string; from: RefEndpoint; operator: RefOperator; to: RefEndpoint; line: number }[] = [];
+
+  constructor(dbml: string) {
+    this.dbml = dbml;
+  }
+
+  /**
+   * Parse DBML (the dbdiagram.io language) into tables, relationships and domains
+   * @throws Error with the line number when the DBML is malformed
+   */
+  public parse(): { nodes: ERDNode[]; edges: EdgeType[] } {
+    this.tokens = this.tokenize(this.dbml);
+    this.position = 0;
+
+    while (!this.atEnd()) {
+      const token = this.next();
+      const keyword = token.value.toLowerCase();
+
+      if (token.type === 'word' && keyword === 'table') {
+        this.parseTable();
+      } else if (token.type === 'word' && keyword === 'ref') {
+        this.parseRef();
+      } else if (token.type === 'word' && keyword === 'enum') {
+        this.parseEnum();
+      } else if (token.type === 'word' && keyword === 'tablegroup') {
+        this.parseTableGroup();
+      } else {
+        // Project, sticky notes and anything newer are skipped
+        this.skipDefinition();
+      }
+    }
+
+    this.applyEnums();
+    for (const ref of this.refs) {
+      this.applyRef(ref.name, ref.from, ref.operator, ref.to, ref.line);
+    }
+    this.createDomains();
+
+    return { nodes: [...this.domains, ...this.nodes], edges: this.edges };
+  }
+
+  /**
+   * Split DBML into words, strings, `expressions` and symbols, dropping comments
+   */
+  private tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+
+      if (char === '\n') {
+        line++;
+        i++;
+      } else if (/\s/.test(char)) {
+        i++;
+      } else if (source.startsWith('//', i)) {
+        while (i < source.length && source[i] !== '\n') i++;
+      } else if (source.startsWith('/*', i)) {
+        const end = source.indexOf('*/', i + 2);
+        const stop = end === -1 ? source.length : end + 2;
+        line += (source.slice(i, stop).match(/\n/g) || []).length;
+        i = stop;
+      } else if (source.startsWith("'''", i)) {
+        const end = source.indexOf("'''", i + 3);
+        if (end === -1) throw new Error(`Line ${line}: unterminated ''' string`);
+        const value = source.slice(i + 3, end);
+        tokens.push({ type: 'string', value: this.dedent(value), line, offset: i });
+        line += (value.match(/\n/g) || []).length;
+        i = end + 3;
+      } else if (char === "'" || char === '"' || char === '`') {
+        let value = '';
+        let j = i + 1;
+        while (j < source.length && source[j] !== char) {
+          if (source[j] === '\\' && j + 1 < source.length) {
+            value += source[j + 1];
+            j += 2;
+          } else {
+            if (source[j] === '\n') line++;
+            value += source[j++];
+          }
+        }
+        if (j >= source.length) throw new Error(`Line ${line}: unterminated ${char} string`);
+        // Double-quoted text is a quoted identifier, not a string value
+        tokens.push({ type: char === '`' ? 'expression' : char === '"' ? 'word' : 'string', value, line, offset: i });
+        i = j + 1;
+      } else if (source.startsWith('<>', i)) {
+        tokens.push({ type: 'symbol', value: '<>', line, offset: i });
+        i += 2;
+      } else if (/[\w#$]/.test(char)) {
+        let j = i + 1;
+        while (j < source.length && /[\w#$]/.test(source[j])) j++;
+        tokens.push({ type: 'word', value: source.slice(i, j), line, offset: i });
+        i = j;
+      } else {
+        tokens.push({ type: 'symbol', value: char, line, offset: i });
+        i++;
+      }
+    }
+
+    return tokens;
+  }
+
+  private dedent(text: string): string {
+    const lines = text.replace(/^\n/, '').replace(/\n\s*$/, '').split('\n');
+    const indent = Math.min(...lines.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+    return lines.map(l => l.slice(indent === Infinity ? 0 : indent)).join('\n');
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  private peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new Error(`Line ${last ? last.line : 1}: unexpected end of DBML`);
+    }
+    return token;
+  }
+
+  private isSymbol(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'symbol' && token.value === value;
+  }
+
+  /**
+   * Check for the } closing a block, failing when the DBML ends first
+   */
+  private atBlockEnd(): boolean {
+    if (this.atEnd()) this.next();
+    return this.isSymbol('}');
+  }
+
+  private expectSymbol(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'symbol' || token.value !== value) {
+      throw new Error(`Line ${token.line}: expected "${value}" but found "${token.value}"`);
+    }
+    return token;
+  }
+
+  private expectName(): Token {
+    const token = this.next();
+    if (token.type !== 'word') {
+      throw new Error(`Line ${token.line}: expected a name but found "${token.value}"`);
+    }
+    return token;
+  }
+
+  /**
+   * Read a dotted name such as `schema.table`
+   */
+  private parseDottedName(): string[] {
+    const parts = [this.expectName().value];
+    while (this.isSymbol('.') && this.peek(1)?.type === 'word') {
+      this.next();
+      parts.push(this.next().value);
+    }
+    return parts;
+  }
+
+  /**
+   * Skip a definition we don't model, up to and including its { } block
+   */
+  private skipDefinition(): void {
+    while (!this.atEnd() && !this.isSymbol('{')) {
+      const token = this.peek()!;
+      // Stop at the next top-level keyword when there is no block, e.g. `Note: '...'` at the top
+      if (token.type === 'word' && ['table', 'ref', 'enum', 'tablegroup', 'project'].includes(token.value.toLowerCase())) return;
+      this.next();
+    }
+    if (!this.atEnd()) this.skipBlock();
+  }
+
+  private skipBlock(): void {
+    this.expectSymbol('{');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.type === 'symbol' && token.value === '{') depth++;
+      if (token.type === 'symbol' && token.value === '}') depth--;
+    }
+  }
+
+  /**
+   * Read a [setting, key: value] list
+   */
+  private parseSettings(): Setting[] {
+    if (!this.isSymbol('[')) return [];
+    this.next();
+
+    const settings: Setting[] = [];
+    let current: Token[] = [];
+    const finish = () => {
+      if (current.length === 0) return;
+      const colon = current.findIndex(token => token.type === 'symbol' && token.value === ':');
+      settings.push(colon === -1
+        ? { key: current.map(token => token.value.toLowerCase()).join(' '), value: [] }
+        : { key: current.slice(0, colon).map(token => token.value.toLowerCase()).join(' '), value: current.slice(colon + 1) });
+      current = [];
+    };
+
+    while (!this.isSymbol(']')) {
+      const token = this.next();
+      if (token.type === 'symbol' && token.value === ',') {
+        finish();
+      } else {
+        current.push(token);
+      }
+    }
+    this.next();
+    finish();
+    return settings;
+  }
+
+  private settingText(setting?: Setting): string | undefined {
+    return setting ? setting.value.map(token => token.value).join('') : undefined;
+  }
+
+  /**
+   * Read `Note: '...'` or `Note { '...' }` after the Note keyword
+   */
+  private parseNote(): string {
+    if (this.isSymbol(':')) {
+      this.next();
+      return this.next().value;
+    }
+    this.expectSymbol('{');
+    const note = this.next().value;
+    this.expectSymbol('}');
+    return note;
+  }
+
+  private parseTable(): void {
+    const line = this.peek()?.line;
+    const nameParts = this.parseDottedName();
+    const table = nameParts[nameParts.length - 1];
+    const schema = nameParts.length > 1 ? nameParts[nameParts.length - 2] : undefined;
+
+    let alias: string | undefined;
+    if (this.peek()?.type === 'word' && this.peek()!.value.toLowerCase() === 'as') {
+      this.next();
+      alias = this.expectName().value;
+    }
+
+    const settings = this.parseSettings();
+    const node: NodeType = {
+      id: `table-${uuidv4()}`,
+      type: 'table',
+      position: { x: 0, y: 0 },
+      data: {
+        label: table,
+        ...(schema ? { schema } : {}),
+        columns: [],
+        comment: this.settingText(settings.find(s => s.key === 'note')) || ''
+      }
+    };
+
+    const same = (a?: string, b?: string) => (a || '').toUpperCase() === (b || '').toUpperCase();
+    if (this.nodes.some(existing => same(existing.data.label, table) && same(existing.data.schema, schema))) {
+      throw new Error(`Line ${line}: table ${nameParts.join('.')} is defined twice`);
+    }
+
+    this.expectSymbol('{');
+    while (!this.atBlockEnd()) {
+      const token = this.peek()!;
+      const keyword = token.type === 'word' ? token.value.toLowerCase() : '';
+
+      if (keyword === 'note' && (this.isSymbol(':', 1) || this.isSymbol('{', 1))) {
+        this.next();
+        node.data.comment = this.parseNote();
+      } else if (keyword === 'indexes' && this.isSymbol('{', 1)) {
+        this.next();
+        this.parseIndexes(node);
+      } else {
+        this.parseColumn(node);
+      }
+    }
+    this.next();
+
+    this.nodes.push(node);
+    if (alias) this.aliases.set(alias, node);
+  }
+
+  private parseColumn(node: NodeType): void {
+    const name = this.expectName();
+
+    // The type may be quoted, qualified (an enum in a schema) or take arguments, e.g. decimal(10,2)
+    const typeToken = this.next();
+    if (typeToken.type !== 'word') {
+      throw new Error(`Line ${typeToken.line}: expected a type for column "${name.value}"`);
+    }
+    let dataType = typeToken.value;
+    while (this.isSymbol('.') && this.peek(1)?.type === 'word') {
+      this.next();
+      dataType += `.${this.next().value}`;
+    }
+    if (this.isSymbol('(')) {
+      // The arguments are kept as written, e.g. NUMBER(38,0) stays NUMBER(38,0)
+      const open = this.next();
+      while (!this.isSymbol(')')) this.next();
+      const close = this.next();
+      dataType += `(${this.dbml.slice(open.offset + 1, close.offset).trim()})`;
+    }
+    if (this.isSymbol('[') && this.isSymbol(']', 1)) {
+      this.position += 2;
+      dataType += '[]';
+    }
+
+    const settings = this.parseSettings();
+    const has = (key: string) => settings.some(s => s.key === key);
+    const isPrimaryKey = has('pk') || has('primary key');
+
+    const column: Column = {
+      id: uuidv4(),
+      name: name.value,
+      dataType: dataType.toUpperCase(),
+      isPrimaryKey,
+      isForeignKey: false,
+      isNullable: !isPrimaryKey && !has('not null'),
+      comment: this.settingText(settings.find(s => s.key === 'note')) || '',
+      tags: []
+    };
+    node.data.columns.push(column);
+
+    if (has('unique')) {
+      this.addConstraint(node, { id: uuidv4(), type: 'UNIQUE', columns: [column.name] });
+    }
+
+    // Inline relationships: `ref: > users.id`
+    for (const setting of settings.filter(s => s.key === 'ref')) {
+      const [operator, ...target] = setting.value;
+      const to = this.parseEndpointTokens(target, name.line);
+      if (!operator || !['<', '>', '-', '<>'].includes(operator.value)) {
+        throw new Error(`Line ${name.line}: expected <, >, - or <> in ref of column "${name.value}"`);
+      }
+      this.refs.push({
+        from: { table: node.data.schema ? `${node.data.schema}.${node.data.label}` : node.data.label, columns: [column.name] },
+        operator: operator.value as RefOperator,
+        to,
+        line: name.line
+      });
+    }
+  }
+
+  /**
+   * Read an indexes block; pk and unique indexes become constraints, plain indexes are skipped
+   */
+  private parseIndexes(node: NodeType): void {
+    this.expectSymbol('{');
+    while (!this.atBlockEnd()) {
+      const columns: string[] = [];
+      if (this.isSymbol('(')) {
+        this.next();
+        while (!this.isSymbol(')')) {
+          const token = this.next();
+          if (token.type === 'word') columns.push(token.value);
+        }
+        this.next();
+      } else {
+        columns.push(this.next().value);
+      }
+
+      const settings = this.parseSettings();
+      const constraintName = this.settingText(settings.find(s => s.key === 'name'));
+      const resolved = columns
+        .map(name => node.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase())?.name)
+        .filter((name): name is string => !!name);
+      if (resolved.length === 0) continue;
+
+      if (settings.some(s => s.key === 'pk')) {
+        node.data.columns = node.data.columns.map(col =>
+          resolved.includes(col.name) ? { ...col, isPrimaryKey: true, isNullable: false } : col
+        );
+        if (constraintName || resolved.length > 1) {
+          this.addConstraint(node, { id: uuidv4(), ...(constraintName ? { name: constraintName } : {}), type: 'PRIMARY KEY', columns: resolved });
+        }
+      } else if (settings.some(s => s.key === 'unique')) {
+        this.addConstraint(node, { id: uuidv4(), ...(constraintName ? { name: constraintName } : {}), type: 'UNIQUE', columns: resolved });
+      }
+    }
+    this.next();
+  }
+
+  private addConstraint(node: NodeType, constraint: TableConstraint): void {
+    node.data.constraints = [...(node.data.constraints || []), constraint];
+  }
+
+  /**
+   * Read a ref endpoint such as `users.id`, `core.users.id` or `users.(a, b)`
+   */
+  private parseEndpointTokens(tokens: Token[], line: number): RefEndpoint {
+    const parts: string[] = [];
+    let columns: string[] | null = null;
+    let i = 0;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+      if (token.type === 'symbol' && token.value === '(') {
+        columns = [];
+        i++;
+        while (i < tokens.length && !(tokens[i].type === 'symbol' && tokens[i].value === ')')) {
+          if (tokens[i].type === 'word') columns.push(tokens[i].value);
+          i++;
+        }
+        i++;
+      } else if (token.type === 'word') {
+        parts.push(token.value);
+        i++;
+      } else if (token.type === 'symbol' && token.value === '.') {
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    if (columns) {
+      if (parts.length === 0 || columns.length === 0) throw new Error(`Line ${line}: invalid ref endpoint`);
+      return { table: parts.join('.'), columns };
+    }
+    if (parts.length < 2) throw new Error(`Line ${line}: a ref endpoint needs a table and a column`);
+    return { table: parts.slice(0, -1).join('.'), columns: [parts[parts.length - 1]] };
+  }
+
+  /**
+   * Read the tokens of one endpoint from the stream, stopping at an operator or the end of the ref
+   */
+  private readEndpoint(line: number): RefEndpoint {
+    const tokens: Token[] = [];
+    while (!this.atEnd()) {
+      const token = this.peek()!;
+      if (token.line !== line && tokens.length > 0) break;
+      if (token.type === 'symbol' && ['<', '>', '-', '<>', '[', '}'].includes(token.value)) break;
+      tokens.push(this.next());
+      if (token.type === 'symbol' && token.value === ')') break;
+    }
+    return this.parseEndpointTokens(tokens, line);
+  }
+
+  private parseRef(): void {
+    // The name is optional: `Ref: a.b > c.d` or `Ref fk_name: a.b > c.d`
+    const name = this.peek()?.type === 'word' ? this.next().value : undefined;
+
+    const block = this.isSymbol('{');
+    if (block) {
+      this.next();
+    } else {
+      this.expectSymbol(':');
+    }
+
+    const line = this.peek()?.line || 0;
+    const from = this.readEndpoint(line);
+    const operator = this.next();
+    if (operator.type !== 'symbol' || !['<', '>', '-', '<>'].includes(operator.value)) {
+      throw new Error(`Line ${operator.line}: expected <, >, - or <> but found "${operator.value}"`);
+    }
+    const to = this.readEndpoint(operator.line);
+    this.parseSettings();
+    if (block) this.expectSymbol('}');
+
+    this.refs.push({ name, from, operator: operator.value as RefOperator, to, line });
+  }
+
+  private parseEnum(): void {
+    const name = this.parseDottedName().join('.');
+    const values: string[] = [];
+
+    this.expectSymbol('{');
+    while (!this.atBlockEnd()) {
+      values.push(this.next().value);
+      this.parseSettings();
+    }
+    this.next();
+
+    this.enums.set(name.toUpperCase(), values);
+  }
+
+  private parseTableGroup(): void {
+    const name = this.parseDottedName().join('.');
+    const settings = this.parseSettings();
+    const tables: string[] = [];
+
+    this.expectSymbol('{');
+    while (!this.atBlockEnd()) {
+      const token = this.peek()!;
+      if (token.type === 'word' && token.value.toLowerCase() === 'note' && (this.isSymbol(':', 1) || this.isSymbol('{', 1))) {
+        this.next();
+        this.parseNote();
+      } else {
+        tables.push(this.parseDottedName().join('.'));
+      }
+    }
+    this.next();
+
+    const color = this.settingText(settings.find(s => s.key === 'color'));
+    this.groups.push({ name, color: color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : DEFAULT_GROUP_COLOR, tables });
+  }
+
+  /**
+   * Snowflake has no enum types, so enum columns become VARCHAR with the allowed values noted
+   */
+  private applyEnums(): void {
+    for (const node of this.nodes) {
+      for (const column of node.data.columns) {
+        const values = this.enums.get(column.dataType.toUpperCase()) ||
+          this.enums.get(`${node.data.schema || ''}.${column.dataType}`.toUpperCase());
+        if (!values) continue;
+
+        const allowed = `One of: ${values.join(', ')}`;
+        column.dataType = 'VARCHAR';
+        column.comment = column.comment ? `${column.comment} (${allowed})` : allowed;
+      }
+    }
+  }
+
+  private findTable(reference: string): NodeType | undefined {
+    return this.aliases.get(reference) || findTableByReference(this.nodes, reference);
+  }
+
+  /**
+   * Turn a Ref into a foreign key and an edge. `>` means the left side references the right,
+   * `<` the reverse, `-` is one-to-one and `<>` many-to-many, which has no foreign key column.
+   */
+  private applyRef(name: string | undefined, from: RefEndpoint, operator: RefOperator, to: RefEndpoint, line: number): void {
+    const [child, parent] = operator === '<' ? [to, from] : [from, to];
+    const childTable = this.findTable(child.table);
+    const parentTable = this.findTable(parent.table);
+    if (!childTable || !parentTable) {
+      throw new Error(`Line ${line}: ref to unknown table ${!childTable ? child.table : parent.table}`);
+    }
+
+    const childColumns = child.columns.map(name => childTable.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase()));
+    const parentColumns = parent.columns.map(name => parentTable.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase()));
+    const missing = childColumns.indexOf(undefined) !== -1 ? child : parentColumns.indexOf(undefined) !== -1 ? parent : null;
+    if (missing) {
+      throw new Error(`Line ${line}: ref to unknown column in ${missing.table}.(${missing.columns.join(', ')})`);
+    }
+    if (childColumns.length !== parentColumns.length) {
+      throw new Error(`Line ${line}: both sides of a ref need the same number of columns`);
+    }
+
+    const relationshipType = operator === '-' ? 'one-to-one' : operator === '<>' ? 'many-to-many' : 'one-to-many';
+    const single = childColumns.length === 1;
+
+    if (operator !== '<>') {
+      addForeignKey(childTable.data, {
+        name,
+        columns: childColumns.map(col => col!.name),
+        referencedTable: getTableReference(parentTable.data, childTable.data),
+        referencedColumns: parentColumns.map(col => col!.name)
+      });
+    }
+
+    // Single-column refs connect the column handles, like relationships drawn on the canvas
+    this.edges.push(createRelationshipEdge(
+      childTable,
+      parentTable,
+      single ? childColumns[0] : undefined,
+      single ? parentColumns[0] : undefined,
+      relationshipType
+    ));
+  }
+
+  /**
+   * Create a domain per TableGroup and place its tables inside it, so auto-layout keeps them together
+   */
+  private createDomains(): void {
+    const placed = new Set<string>();
+    let offsetX = 0;
+
+    for (const group of this.groups) {
+      const tables = group.tables
+        .map(name => this.findTable(name))
+        .filter((table): table is NodeType => !!table && !placed.has(table.id));
+      const rows = Math.max(1, Math.ceil(tables.length / GROUP_COLUMNS));
+      const tallest = Math.max(0, ...tables.map(table => 130 + 32 * table.data.columns.length));
+
+      tables.forEach((table, i) => {
+        placed.add(table.id);
+        table.position = { x: offsetX + 40 + (i % GROUP_COLUMNS) * CELL_WIDTH, y: 60 + Math.floor(i / GROUP_COLUMNS) * CELL_HEIGHT };
+      });
+
+      this.domains.push({
+        id: `domain-${uuidv4()}`,
+        type: 'domain',
+        position: { x: offsetX, y: 0 },
+        style: { width: GROUP_COLUMNS * CELL_WIDTH + 80, height: (rows - 1) * CELL_HEIGHT + tallest + 100 },
+        data: { label: group.name, color: group.color, opacity: GROUP_OPACITY }
+      });
+      offsetX += GROUP_COLUMNS * CELL_WIDTH + 200;
+    }
+
+    // Ungrouped tables go below the groups
+    const groupHeight = Math.max(0, ...this.domains.map(domain => domain.style?.height || 0));
+    this.nodes
+      .filter(table => !placed.has(table.id))
+      .forEach((table, i) => {
+        table.position = { x: (i % 5) * CELL_WIDTH, y: groupHeight + 200 + Math.floor(i / 5) * CELL_HEIGHT };
+      });
+  }
+}
@@ -0,0 +1,466 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ERDNode, EdgeType, Column, NodeType, ImportDiagnostic } from './types';
+import { findTableByReference, getTableReference } from './qualifiedNames';
+import { addForeignKey } from './constraintUtils';
+import { createRelationshipEdge } from './edgeUtils';
+
+interface ManifestColumn {
+  name: string;
+  description?: string;
+  data_type?: string | null;
+  tags?: string[];
+  constraints?: ManifestConstraint[];
+}
+
+interface ManifestConstraint {
+  type: 'not_null' | 'unique' | 'primary_key' | 'foreign_key' | 'check' | 'custom';
+  columns?: string[];
+  expression?: string | null;
+  to?: string | null;
+  to_columns?: string[];
+}
+
+interface ManifestNode {
+  unique_id: string;
+  resource_type: string;
+  name: string;
+  database?: string | null;
+  schema?: string;
+  alias?: string;
+  identifier?: string;
+  source_name?: string;
+  description?: string;
+  columns?: Record<string, ManifestColumn>;
+  tags?: string[];
+  config?: { materialized?: string; [key: string]: unknown };
+  constraints?: ManifestConstraint[];
+  depends_on?: { nodes?: string[] };
+  attached_node?: string | null;
+  column_name?: string | null;
+  test_metadata?: { name: string; namespace?: string | null; kwargs: Record<string, unknown> };
+}
+
+interface CatalogTable {
+  metadata?: { type?: string; comment?: string | null };
+  columns?: Record<string, { type: string; index: number; name: string; comment?: string | null }>;
+}
+
+interface Manifest {
+  nodes: Record<string, ManifestNode>;
+  sources?: Record<string, ManifestNode>;
+}
+
+interface Catalog {
+  nodes?: Record<string, CatalogTable>;
+  sources?: Record<string, CatalogTable>;
+}
+
+// Resource types that are tables or views in the warehouse
+const RELATION_TYPES = ['model', 'seed', 'snapshot'];
+
+const TABLE_TYPES: Record<string, NodeType['data']['tableType']> = {
+  view: 'VIEW',
+  materialized_view: 'MATERIALIZED_VIEW',
+  dynamic_table: 'DYNAMIC_TABLE'
+};
+
+export default class DBTManifestParser {
+  private manifestJson: string;
+  private catalogJson?: string;
+  private nodes: NodeType[] = [];
+  private edges: EdgeType[] = [];
+  private tableMap: Map<string, NodeType> = new Map(); // Maps dbt unique_id to table node
+  private refMap: Map<string, string> = new Map(); // Maps ref('name') and source('src', 'name') keys to unique_id
+  private diagnostics: ImportDiagnostic[] = [];
+
+  /**
+   * @param manifestJson Contents of target/manifest.json
+   * @param catalogJson Contents of target/catalog.json, which supplies the warehouse column types
+   */
+  constructor(manifestJson: string, catalogJson?: string) {
+    this.manifestJson = manifestJson;
+    this.catalogJson = catalogJson;
+  }
+
+  /**
+   * Build tables from the models, seeds, snapshots and sources of a compiled dbt project,
+   * with keys from tests and constraints and edges from foreign keys and lineage.
+   * Relationships that point at models or columns the manifest doesn't have are reported.
+   * @throws Error when the files aren't a dbt manifest or catalog
+   */
+  public parse(): { nodes: ERDNode[]; edges: EdgeType[]; diagnostics: ImportDiagnostic[] } {
+    const manifest = this.readJson<Manifest>(this.manifestJson, 'manifest.json');
+    if (!manifest.nodes || typeof manifest.nodes !== 'object') {
+      throw new Error('manifest.json has no nodes. Run dbt compile or dbt docs generate first.');
+    }
+    const catalog = this.catalogJson ? this.readJson<Catalog>(this.catalogJson, 'catalog.json') : {};
+
+    const relations = Object.values(manifest.nodes).filter(node =>
+      RELATION_TYPES.includes(node.resource_type) && node.config?.materialized !== 'ephemeral'
+    );
+    const sources = Object.values(manifest.sources || {});
+    const tests = Object.values(manifest.nodes).filter(node => node.resource_type === 'test');
+
+    for (const relation of relations) {
+      this.createTableNode(relation, catalog.nodes?.[relation.unique_id]);
+    }
+    for (const source of sources) {
+      this.createTableNode(source, catalog.sources?.[source.unique_id]);
+    }
+
+    // Keys first, so relationships can tell which end is the primary key
+    for (const relation of [...relations, ...sources]) {
+      this.applyConstraints(relation);
+    }
+    for (const test of tests) {
+      this.applyTest(test);
+    }
+    for (const table of this.nodes) {
+      this.inferPrimaryKey(table);
+    }
+
+    for (const relation of relations) {
+      this.applyForeignKeyConstraints(relation);
+    }
+    for (const test of tests) {
+      if (test.test_metadata?.name === 'relationships') {
+        this.applyRelationshipTest(test);
+      }
+    }
+    for (const relation of relations) {
+      this.createLineageEdges(relation);
+    }
+
+    return { nodes: this.nodes, edges: this.edges, diagnostics: this.diagnostics };
+  }
+
+  private readJson<T>(json: string, fileName: string): T {
+    try {
+      const parsed = JSON.parse(json);
+      if (!parsed || typeof parsed !== 'object') throw new Error('not an object');
+      return parsed as T;
+    } catch (error) {
+      console.error(`Error reading ${fileName}:`, error);
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+  }
+
+  /**
+   * Create a table for a dbt relation. Catalog columns come first, in warehouse order,
+   * followed by documented columns the catalog doesn't know about.
+   */
+  private createTableNode(relation: ManifestNode, catalogTable?: CatalogTable): void {
+    const documented = Object.values(relation.columns || {});
+    const findDocumented = (name: string) => documented.find(col => col.name.toUpperCase() === name.toUpperCase());
+
+    const warehouseColumns = Object.values(catalogTable?.columns || {}).sort((a, b) => a.index - b.index);
+    const columns: Column[] = warehouseColumns.map(col => {
+      const doc = findDocumented(col.name);
+      return this.createColumn(doc?.name || col.name, col.type, doc?.description || col.comment || '', doc?.tags);
+    });
+
+    for (const doc of documented) {
+      if (!warehouseColumns.some(col => col.name.toUpperCase() === doc.name.toUpperCase())) {
+        columns.push(this.createColumn(doc.name, doc.data_type || 'VARCHAR', doc.description || '', doc.tags));
+      }
+    }
+
+    const isSource = relation.resource_type === 'source';
+    const tableType = isSource
+      ? (catalogTable?.metadata?.type?.toUpperCase() === 'VIEW' ? 'VIEW' : 'TABLE')
+      : TABLE_TYPES[relation.config?.materialized || ''] || 'TABLE';
+
+    const node: NodeType = {
+      id: `${isSource ? 'source' : 'model'}-${uuidv4()}`,
+      type: 'table',
+      position: {
+        x: Math.floor(Math.random() * 500),
+        y: Math.floor(Math.random() * 300),
+      },
+      data: {
+        label: (isSource ? relation.identifier : relation.alias) || relation.name,
+        ...(relation.database ? { database: relation.database } : {}),
+        ...(relation.schema ? { schema: relation.schema } : {}),
+        columns,
+        tableType,
+        comment: relation.description || catalogTable?.metadata?.comment || '',
+        tags: relation.tags || []
+      }
+    };
+
+    this.nodes.push(node);
+    this.tableMap.set(relation.unique_id, node);
+    this.refMap.set(
+      isSource ? this.sourceKey(relation.source_name || '', relation.name) : this.refKey(relation.name),
+      relation.unique_id
+    );
+  }
+
+  private createColumn(name: string, dataType: string, comment: string, tags?: string[]): Column {
+    return {
+      id: uuidv4(),
+      name,
+      dataType: dataType.toUpperCase(),
+      isPrimaryKey: false,
+      isForeignKey: false,
+      isNullable: true,
+      comment,
+      tags: tags || []
+    };
+  }
+
+  private refKey(name: string): string {
+    return `ref:${name.toLowerCase()}`;
+  }
+
+  private sourceKey(source: string, name: string): string {
+    return `source:${source.toLowerCase()}.${name.toLowerCase()}`;
+  }
+
+  /**
+   * Resolve a `ref('model')` or `source('source', 'table')` string to a table
+   */
+  private resolveRef(value: string): NodeType | undefined {
+    const refMatch = value.match(/ref\s*\(\s*['"]([^'"]+)['"]\s*(?:,\s*['"]([^'"]+)['"]\s*)?\)/);
+    if (refMatch) {
+      // The two argument form is ref('package', 'model')
+      const id = this.refMap.get(this.refKey(refMatch[2] || refMatch[1]));
+      return id ? this.tableMap.get(id) : undefined;
+    }
+
+    const sourceMatch = value.match(/source\s*\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]\s*\)/);
+    if (sourceMatch) {
+      const id = this.refMap.get(this.sourceKey(sourceMatch[1], sourceMatch[2]));
+      return id ? this.tableMap.get(id) : undefined;
+    }
+
+    return undefined;
+  }
+
+  private findColumn(table: NodeType, name: string): Column | undefined {
+    const normalized = name.replace(/"/g, '').toUpperCase();
+    return table.data.columns.find(col => col.name.toUpperCase() === normalized);
+  }
+
+  private addUniqueConstraint(table: NodeType, columns: string[]): void {
+    const names = columns.map(name => this.findColumn(table, name)?.name).filter((name): name is string => !!name);
+    if (names.length === 0 || names.length !== columns.length) return;
+
+    const exists = (table.data.constraints || []).some(c =>
+      c.type === 'UNIQUE' && c.columns.length === names.length && c.columns.every((name, i) => name === names[i])
+    );
+    if (!exists) {
+      table.data.constraints = [...(table.data.constraints || []), { id: uuidv4(), type: 'UNIQUE', columns: names }];
+    }
+  }
+
+  /**
+   * Apply the not_null, unique and primary_key contract constraints of a relation
+   */
+  private applyConstraints(relation: ManifestNode): void {
+    const table = this.tableMap.get(relation.unique_id);
+    if (!table) return;
+
+    const apply = (constraint: ManifestConstraint, columns: string[]) => {
+      if (constraint.type === 'not_null') {
+        columns.forEach(name => {
+          const column = this.findColumn(table, name);
+          if (column) column.isNullable = false;
+        });
+      } else if (constraint.type === 'primary_key') {
+        columns.forEach(name => {
+          const column = this.findColumn(table, name);
+          if (column) {
+            column.isPrimaryKey = true;
+            column.isNullable = false;
+          }
+        });
+      } else if (constraint.type === 'unique') {
+        this.addUniqueConstraint(table, columns);
+      }
+    };
+
+    for (const col of Object.values(relation.columns || {})) {
+      for (const constraint of col.constraints || []) {
+        apply(constraint, [col.name]);
+      }
+    }
+    for (const constraint of relation.constraints || []) {
+      apply(constraint, constraint.columns || []);
+    }
+  }
+
+  /**
+   * Apply a generic unique, not_null or unique_combination_of_columns test
+   */
+  private applyTest(test: ManifestNode): void {
+    const metadata = test.test_metadata;
+    if (!metadata) return;
+
+    const table = this.getTestedTable(test);
+    if (!table) return;
+
+    const columnName = test.column_name || this.stringArgument(metadata.kwargs, 'column_name');
+    const column = columnName ? this.findColumn(table, columnName) : undefined;
+
+    if (metadata.name === 'not_null' && column) {
+      column.isNullable = false;
+    } else if (metadata.name === 'unique' && column) {
+      this.addUniqueConstraint(table, [column.name]);
+    } else if (metadata.name === 'unique_combination_of_columns' && Array.isArray(metadata.kwargs.combination_of_columns)) {
+      this.addUniqueConstraint(table, metadata.kwargs.combination_of_columns);
+    }
+  }
+
+  /**
+   * Get the table a test is attached to
+   */
+  private getTestedTable(test: ManifestNode): NodeType | undefined {
+    if (test.attached_node) {
+      return this.tableMap.get(test.attached_node);
+    }
+    // Older manifests only name the model in the test arguments, e.g. {{ get_where_subquery(ref('orders')) }}
+    const model = test.test_metadata?.kwargs.model;
+    return typeof model === 'string' ? this.resolveRef(model) : undefined;
+  }
+
+  /**
+   * Without a primary_key constraint, the first unique and not null column is taken as the primary key
+   */
+  private inferPrimaryKey(table: NodeType): void {
+    const constraints = table.data.constraints || [];
+    if (!table.data.columns.some(col => col.isPrimaryKey)) {
+      const key = table.data.columns.find(col =>
+        !col.isNullable && constraints.some(c => c.type === 'UNIQUE' && c.columns.length === 1 && c.columns[0] === col.name)
+      );
+      if (!key) return;
+      key.isPrimaryKey = true;
+    }
+
+    // A unique test on the primary key adds nothing to the primary key itself
+    const primaryKey = table.data.columns.filter(col => col.isPrimaryKey).map(col => col.name);
+    const remaining = constraints.filter(c =>
+      !(c.type === 'UNIQUE' && c.columns.length === primaryKey.length && c.columns.every(name => primaryKey.includes(name)))
+    );
+    if (remaining.length > 0) {
+      table.data.constraints = remaining;
+    } else {
+      delete table.data.constraints;
+    }
+  }
+
+  /**
+   * Apply foreign_key contract constraints, which name the referenced table either with
+   * `to: ref('model')` or with an expression such as `analytics.customers (id)`
+   */
+  private applyForeignKeyConstraints(relation: ManifestNode): void {
+    const table = this.tableMap.get(relation.unique_id);
+    if (!table) return;
+
+    const apply = (constraint: ManifestConstraint, columns: string[]) => {
+      if (constraint.type !== 'foreign_key') return;
+
+      let target: NodeType | undefined;
+      let targetColumns = constraint.to_columns || [];
+      if (constraint.to) {
+        target = this.resolveRef(constraint.to);
+      } else if (constraint.expression) {
+        const match = constraint.expression.match(/^\s*([^\s(]+)\s*\(([^)]+)\)/);
+        if (match) {
+          target = findTableByReference(this.nodes, match[1], table.data);
+          targetColumns = match[2].split(',').map(name => name.trim());
+        }
+      }
+
+      if (target) {
+        this.addForeignKey(table, columns, target, targetColumns);
+      } else {
+        this.report(`The foreign key of ${table.data.label} (${columns.join(', ')}) refers to ${constraint.to || constraint.expression}, which is not in the manifest`);
+      }
+    };
+
+    for (const col of Object.values(relation.columns || {})) {
+      for (const constraint of col.constraints || []) {
+        apply(constraint, [col.name]);
+      }
+    }
+    for (const constraint of relation.constraints || []) {
+      apply(constraint, constraint.columns || []);
+    }
+  }
+
+  /**
+   * Apply a relationships test: the tested column references `field` of the `to` model
+   */
+  private applyRelationshipTest(test: ManifestNode): void {
+    const kwargs = test.test_metadata?.kwargs || {};
+    const table = this.getTestedTable(test);
+    const columnName = test.column_name || this.stringArgument(kwargs, 'column_name');
+    const to = this.stringArgument(kwargs, 'to');
+    const field = this.stringArgument(kwargs, 'field');
+    if (!table || !columnName || !to || !field) return;
+
+    let target = this.resolveRef(to);
+    if (!target) {
+      // The referenced model is the dependency that isn't the tested one
+      const others = (test.depends_on?.nodes || []).filter(id => id !== test.attached_node && this.tableMap.has(id));
+      target = others.length === 1 ? this.tableMap.get(others[0]) : undefined;
+    }
+
+    if (target) {
+      this.addForeignKey(table, [columnName], target, [field]);
+    } else {
+      this.report(`The relationships test ${test.name} on ${table.data.label}.${columnName} refers to ${to}, which is not in the manifest`);
+    }
+  }
+
+  /**
+   * Mark the columns as a foreign key and connect the two tables
+   */
+  private addForeignKey(table: NodeType, columns: string[], target: NodeType, targetColumns: string[]): void {
+    const sourceColumns = columns.map(name => this.findColumn(table, name));
+    const referencedColumns = targetColumns.map(name => this.findColumn(target, name)?.name || name.replace(/"/g, ''));
+    if (sourceColumns.length === 0 || sourceColumns.some(col => !col) || sourceColumns.length !== referencedColumns.length) {
+      this.report(`The foreign key from ${table.data.label} (${columns.join(', ')}) to ${target.data.label} (${targetColumns.join(', ')}) names columns ${table.data.label} doesn't have`);
+      return;
+    }
+
+    addForeignKey(table.data, {
+      columns: sourceColumns.map(col => col!.name),
+      referencedTable: getTableReference(target.data, table.data),
+      referencedColumns
+    });
+
+    if (!this.hasEdge(table.id, target.id)) {
+      this.edges.push(createRelationshipEdge(table, target));
+    }
+  }
+
+  /**
+   * Connect a model to the models and sources it selects from, unless a key already connects them
+   */
+  private createLineageEdges(relation: ManifestNode): void {
+    const table = this.tableMap.get(relation.unique_id);
+    if (!table) return;
+
+    for (const dependency of relation.depends_on?.nodes || []) {
+      const target = this.tableMap.get(dependency);
+      if (target && target.id !== table.id && !this.hasEdge(table.id, target.id) && !this.hasEdge(target.id, table.id)) {
+        this.edges.push(createRelationshipEdge(table, target));
+      }
+    }
+  }
+
+  private stringArgument(kwargs: Record<string, unknown>, name: string): string | undefined {
+    const value = kwargs[name];
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private report(message: string): void {
+    this.diagnostics.push({ severity: 'warning', message });
+  }
+
+  private hasEdge(sourceId: string, targetId: string): boolean {
+    return this.edges.some(edge => edge.source === sourceId && edge.target === targetId);
+  }
+}
@@ -0,0 +1,221 @@
+import * as yaml from 'js-yaml';
+import { ERDNode, EdgeType, NodeType, Column } from './types';
+import { getPrimaryKey, getForeignKeys, getUniqueKeys } from './constraintUtils';
+import { findTableByReference } from './qualifiedNames';
+import { getHandleColumnId } from './edgeUtils';
+
+type DBTTest = string | { [name: string]: unknown };
+
+interface DBTColumn {
+  name: string;
+  description?: string;
+  data_type?: string;
+  tags?: string[];
+  tests?: DBTTest[];
+}
+
+interface DBTModel {
+  name: string;
+  description?: string;
+  config?: { materialized: string; alias?: string };
+  tags?: string[];
+  tests?: DBTTest[];
+  columns?: DBTColumn[];
+}
+
+interface DBTSource {
+  name: string;
+  tables: DBTModel[];
+}
+
+const MATERIALIZATIONS: Record<NonNullable<NodeType['data']['tableType']>, string> = {
+  TABLE: 'table',
+  VIEW: 'view',
+  MATERIALIZED_VIEW: 'materialized_view',
+  DYNAMIC_TABLE: 'dynamic_table',
+  ICEBERG_TABLE: 'table'
+};
+
+export default class DBTSchemaGenerator {
+  private tables: NodeType[];
+  private edges: EdgeType[];
+  private modelNames: Map<string, string>; // Maps table id to model name
+
+  constructor(nodes: ERDNode[], edges: EdgeType[]) {
+    this.tables = nodes.filter((node): node is NodeType => node.type === 'table');
+    this.edges = edges;
+    this.modelNames = this.getModelNames();
+  }
+
+  /**
+   * Generate a dbt schema.yml describing every table on the canvas.
+   * Tables named `source.table` (as created by the YAML import) become dbt sources.
+   */
+  public generate(): string {
+    const models: DBTModel[] = [];
+    const sources = new Map<string, DBTSource>();
+
+    for (const table of this.tables) {
+      const source = this.getSourceName(table);
+      if (!source) {
+        models.push(this.tableToModel(table, this.getRefName(table), true));
+        continue;
+      }
+
+      if (!sources.has(source)) {
+        sources.set(source, { name: source, tables: [] });
+      }
+      sources.get(source)!.tables.push(this.tableToModel(table, table.data.label.slice(source.length + 1), false));
+    }
+
+    const schema: Record<string, unknown> = { version: 2 };
+    if (sources.size > 0) schema.sources = Array.from(sources.values());
+    if (models.length > 0) schema.models = models;
+
+    return yaml.dump(schema, { lineWidth: -1, noRefs: true });
+  }
+
+  /**
+   * Get the dbt source a table belongs to, if its name has a source prefix
+   */
+  private getSourceName(table: NodeType): string | null {
+    const dot = table.data.label.indexOf('.');
+    return dot > 0 && dot < table.data.label.length - 1 ? table.data.label.slice(0, dot) : null;
+  }
+
+  /**
+   * Name every model after its table. Tables of the same name in different schemas are
+   * told apart by their schema, or by their database and schema, e.g. RAW_CUSTOMERS.
+   */
+  private getModelNames(): Map<string, string> {
+    const models = this.tables.filter(table => !this.getSourceName(table));
+    const qualify = (table: NodeType, parts: (string | undefined)[]) =>
+      [...parts, table.data.label].filter(part => !!part).join('_');
+    const sameName = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+
+    const names = new Map<string, string>();
+    for (const table of models) {
+      const namesakes = models.filter(other => sameName(other.data.label, table.data.label));
+      if (namesakes.length === 1) {
+        names.set(table.id, table.data.label);
+        continue;
+      }
+
+      const bySchema = qualify(table, [table.data.schema]);
+      const unique = namesakes.filter(other => sameName(qualify(other, [other.data.schema]), bySchema)).length === 1;
+      names.set(table.id, unique ? bySchema : qualify(table, [table.data.database, table.data.schema]));
+    }
+    return names;
+  }
+
+  /**
+   * Get the name a table is referred to by: its model name, or `source.table` for sources
+   */
+  private getRefName(table: NodeType): string {
+    return this.modelNames.get(table.id) || table.data.label;
+  }
+
+  /**
+   * Convert a table to a model, or to a source table when it isn't materialized by dbt
+   */
+  private tableToModel(table: NodeType, name: string, materialized: boolean): DBTModel {
+    const { data } = table;
+    const model: DBTModel = { name };
+
+    if (data.comment) model.description = data.comment;
+    if (materialized) {
+      // A model renamed to keep it apart from a namesake still builds the table it describes
+      model.config = {
+        materialized: MATERIALIZATIONS[data.tableType || 'TABLE'],
+        ...(name !== data.label ? { alias: data.label } : {})
+      };
+    }
+    if (data.tags && data.tags.length > 0) model.tags = data.tags;
+
+    const columnTests = new Map<string, DBTTest[]>();
+    const addTest = (columnName: string, test: DBTTest) => {
+      const column = data.columns.find(col => col.name.toUpperCase() === columnName.toUpperCase());
+      if (!column) return;
+      const tests = columnTests.get(column.id) || [];
+      // Skip duplicates such as a unique test from both the PK and a UNIQUE constraint
+      if (!tests.some(existing => JSON.stringify(existing) === JSON.stringify(test))) {
+        tests.push(test);
+      }
+      columnTests.set(column.id, tests);
+    };
+
+    // Keys on one column become column tests, keys on several a model-level test
+    const modelTests: DBTTest[] = [];
+    const primaryKey = getPrimaryKey(data);
+    const keys = [...(primaryKey ? [primaryKey] : []), ...getUniqueKeys(data)];
+    for (const key of keys) {
+      if (key.columns.length === 1) {
+        addTest(key.columns[0], 'unique');
+      } else {
+        modelTests.push({ 'dbt_utils.unique_combination_of_columns': { combination_of_columns: key.columns } });
+      }
+    }
+
+    for (const col of data.columns) {
+      if (col.isPrimaryKey || !col.isNullable) {
+        addTest(col.name, 'not_null');
+      }
+    }
+
+    // dbt relationships tests cover one column, so composite foreign keys are left out
+    for (const fk of getForeignKeys(data)) {
+      if (fk.columns.length !== 1 || fk.referencedColumns.length !== 1) continue;
+      const target = findTableByReference(this.tables, fk.referencedTable, data);
+      addTest(fk.columns[0], this.relationshipTest(target ? this.getRefName(target) : fk.referencedTable, fk.referencedColumns[0]));
+    }
+
+    // Edges drawn between two columns without setting the foreign key on the column.
+    // Edges can be drawn either way, so the column pointing at a primary key is the child.
+    for (const edge of this.edges) {
+      const source = this.tables.find(node => node.id === edge.source);
+      const target = this.tables.find(node => node.id === edge.target);
+      const sourceColumn = source && this.getHandleColumn(source, edge.sourceHandle);
+      const targetColumn = target && this.getHandleColumn(target, edge.targetHandle);
+      if (!source || !target || !sourceColumn || !targetColumn) continue;
+
+      const reversed = sourceColumn.isPrimaryKey && !targetColumn.isPrimaryKey;
+      const [child, childColumn, parent, parentColumn] = reversed
+        ? [target, targetColumn, source, sourceColumn]
+        : [source, sourceColumn, target, targetColumn];
+      if (child.id === table.id) {
+        addTest(childColumn.name, this.relationshipTest(this.getRefName(parent), parentColumn.name));
+      }
+    }
+
+    if (modelTests.length > 0) model.tests = modelTests;
+    if (data.columns.length > 0) {
+      model.columns = data.columns.map(col => {
+        const column: DBTColumn = { name: col.name };
+        if (col.comment) column.description = col.comment;
+        if (col.dataType) column.data_type = col.dataType;
+        if (col.tags && col.tags.length > 0) column.tags = col.tags;
+        const tests = columnTests.get(col.id);
+        if (tests) column.tests = tests;
+        return column;
+      });
+    }
+
+    return model;
+  }
+
+  /**
+   * Build a relationships test pointing at a model, or at a source for `source.table` names
+   */
+  private relationshipTest(tableName: string, field: string): DBTTest {
+    const dot = tableName.indexOf('.');
+    const to = dot > 0 && this.tables.some(table => table.data.label === tableName)
+      ? `source('${tableName.slice(0, dot)}', '${tableName.slice(dot + 1)}')`
+      : `ref('${tableName}')`;
+    return { relationships: { to, field } };
+  }
+
+  private getHandleColumn(table: NodeType, handle: string): Column | undefined {
+    const columnId = getHandleColumnId(handle);
+    return columnId ? table.data.columns.find(col => col.id === columnId) : undefined;
+  }
+}
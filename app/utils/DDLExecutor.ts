@@ -0,0 +1,107 @@
+import { StatementExecution } from './types';
+import DDLParser from './DDLParser';
+import { tokenizeSQL } from './SQLLexer';
+import { QueryRunner } from './SnowflakeIntrospector';
+
+export interface ExecutionOptions {
+  stopOnError: boolean;
+  // List the statements without sending them to Snowflake
+  dryRun: boolean;
+}
+
+/**
+ * Runs a DDL script one statement at a time and records what happened to each
+ */
+export default class DDLExecutor {
+  private runQuery: QueryRunner;
+
+  constructor(runQuery: QueryRunner) {
+    this.runQuery = runQuery;
+  }
+
+  /**
+   * Split a script into the statements that will be sent, leaving out ones that only hold comments
+   */
+  public static getStatements(ddl: string): string[] {
+    return DDLParser.splitStatements(ddl).filter(statement =>
+      tokenizeSQL(statement).tokens.some(token => token.type !== 'comment')
+    );
+  }
+
+  /**
+   * Execute the statements in order
+   * @param onUpdate Called with the whole transcript every time a statement changes status
+   */
+  public async execute(
+    ddl: string,
+    options: ExecutionOptions,
+    onUpdate?: (executions: StatementExecution[]) => void
+  ): Promise<StatementExecution[]> {
+    let executions: StatementExecution[] = DDLExecutor.getStatements(ddl).map((sql, index) => ({
+      index,
+      sql,
+      status: options.dryRun ? 'skipped' : 'pending',
+      ...(options.dryRun ? { message: 'Dry run, not executed' } : {})
+    }));
+    onUpdate?.(executions);
+    if (options.dryRun) return executions;
+
+    const update = (index: number, changes: Partial<StatementExecution>) => {
+      executions = executions.map(execution => (execution.index === index ? { ...execution, ...changes } : execution));
+      onUpdate?.(executions);
+    };
+
+    let failed = false;
+    for (const { index, sql } of executions) {
+      if (failed && options.stopOnError) {
+        update(index, { status: 'skipped', message: 'Skipped after an earlier error' });
+        continue;
+      }
+
+      update(index, { status: 'running' });
+      const started = Date.now();
+      try {
+        const result = await this.runQuery(sql);
+        update(index, {
+          status: result.status,
+          durationMs: Date.now() - started,
+          message: result.message,
+          ...(result.error ? { error: result.error } : {})
+        });
+        failed = failed || result.status === 'error';
+      } catch (error) {
+        update(index, {
+          status: 'error',
+          durationMs: Date.now() - started,
+          message: 'Failed to execute SQL',
+          error: error instanceof Error ? error.message : 'An unexpected error occurred'
+        });
+        failed = true;
+      }
+    }
+
+    return executions;
+  }
+}
+
+/**
+ * Write a transcript as a plain text log that can be replayed as SQL
+ */
+export function formatExecutionLog(executions: StatementExecution[], header: Record<string, string | undefined>): string {
+  const lines = Object.entries(header)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `-- ${key}: ${value}`);
+
+  const count = (status: StatementExecution['status']) => executions.filter(execution => execution.status === status).length;
+  lines.push(`-- Statements: ${executions.length} (${count('success')} succeeded, ${count('error')} failed, ${count('skipped')} skipped)`, '');
+
+  for (const execution of executions) {
+    const timing = execution.durationMs !== undefined ? ` in ${execution.durationMs} ms` : '';
+    lines.push(`-- [${execution.index + 1}/${executions.length}] ${execution.status.toUpperCase()}${timing}`);
+    if (execution.message) lines.push(`-- ${execution.message}`);
+    if (execution.error) lines.push(...execution.error.split('\n').map(line => `-- Error: ${line}`));
+    lines.push(`${execution.sql};`, '');
+  }
+
+  return lines.join('\n');
+}
@@ -1,62 +1,155 @@
-import { NodeType, EdgeType, Column, SnowflakeTable, ERDNode } from './types';
+import { NodeType, EdgeType, Column, SnowflakeTable, ERDNode, SequenceNodeType } from './types';
+import { getPrimaryKey, getForeignKeys, getUniqueKeys } from './constraintUtils';
+import { SQLDialect, SQLDialectId, getDialect } from './SQLDialects';
+import { TableNamespace, findTableByReference, splitQualifiedName, getQualifiedName } from './qualifiedNames';
+import { orderByDependencies } from './dependencyOrder';
+import { isDerivedTable } from './queryLineage';
+import { getSequences } from './sequenceUtils';
 
 export default class DDLGenerator {
   private nodes: ERDNode[];
   private edges: EdgeType[];
   private tables: SnowflakeTable[];
+  private sequences: SequenceNodeType[];
+  private dialect: SQLDialect;
+  private defaults: TableNamespace;
+  private cycles: string[][] = []; // Qualified names of objects that depend on each other in a cycle
 
-  constructor(nodes: ERDNode[], edges: EdgeType[]) {
+  /**
+   * @param defaults Database and schema for tables that don't set their own
+   */
+  constructor(nodes: ERDNode[], edges: EdgeType[], dialect: SQLDialectId = 'snowflake', defaults: TableNamespace = {}) {
     this.nodes = nodes;
     this.edges = edges;
+    this.dialect = getDialect(dialect);
+    this.defaults = defaults;
     this.tables = this.nodesToTables();
+    this.sequences = getSequences(nodes);
   }
 
   /**
    * Convert our ERD nodes to Snowflake table definitions
    */
   private nodesToTables(): SnowflakeTable[] {
-    return this.nodes.filter(node => node.type === 'table').map(node => {
-      const primaryKeys = node.data.columns
-        .filter(col => col.isPrimaryKey)
-        .map(col => col.name);
-
-      const foreignKeys = node.data.columns
-        .filter(col => col.isForeignKey && col.referencedTable && col.referencedColumn)
-        .map(col => ({
-          columns: [col.name],
-          referencedTable: col.referencedTable as string,
-          referencedColumns: [col.referencedColumn as string]
-        }));
+    const tableNodes = this.nodes.filter((node): node is NodeType => node.type === 'table');
+
+    // Create objects after the ones they depend on, e.g. views after their sources
+    const { tables: orderedNodes, cycles } = orderByDependencies(tableNodes, this.edges);
+    this.cycles = cycles.map(cycle => cycle.map(node => getQualifiedName(node.data, this.defaults)));
+
+    return orderedNodes.map(node => {
+      const primaryKey = getPrimaryKey(node.data);
+      const uniqueKeys = getUniqueKeys(node.data);
+
+      // Resolve foreign keys to the database and schema of the referenced table
+      const foreignKeys = getForeignKeys(node.data).map(fk => {
+        const target = findTableByReference(tableNodes, fk.referencedTable, node.data);
+        const reference = target
+          ? { database: target.data.database, schema: target.data.schema, table: target.data.label }
+          : splitQualifiedName(fk.referencedTable);
+
+        return {
+          ...fk,
+          referencedTable: reference.table,
+          referencedDatabase: reference.database || this.defaults.database,
+          referencedSchema: reference.schema || this.defaults.schema
+        };
+      });
 
       return {
         name: node.data.label,
+        database: node.data.database || this.defaults.database,
+        schema: node.data.schema || this.defaults.schema,
         columns: node.data.columns,
-        primaryKey: primaryKeys.length > 0 ? primaryKeys : undefined,
+        primaryKey: primaryKey ? primaryKey.columns : undefined,
+        primaryKeyName: primaryKey?.name,
         foreignKeys: foreignKeys.length > 0 ? foreignKeys : undefined,
+        uniqueKeys: uniqueKeys.length > 0 ? uniqueKeys : undefined,
         comment: node.data.comment,
         tags: node.data.tags,
-        tableType: node.data.tableType || 'TABLE'
+        tableType: node.data.tableType || 'TABLE',
+        query: node.data.query,
+        targetLag: node.data.targetLag,
+        warehouse: node.data.warehouse,
+        refreshMode: node.data.refreshMode,
+        icebergCatalog: node.data.icebergCatalog
       };
     });
   }
 
   /**
-   * Generate Snowflake DDL for the tables
+   * Generate DDL for the tables in the configured dialect
    */
-  public generateSnowflakeDDL(): string {
-    let ddl = '';
+  public generateDDL(): string {
+    // Tables first so foreign keys can reference any of them
+    return this.generateCreateDDL() + this.generateForeignKeyStatements();
+  }
+
+  /**
+   * Generate only the creation statements, sequences before the tables that default from them
+   */
+  public generateCreateDDL(): string {
+    let ddl = this.generateCycleWarning();
+
+    for (const sequence of this.sequences) {
+      ddl += this.generateSequenceDDL(sequence);
+      ddl += '\n\n';
+    }
 
-    // First generate table creation statements
     for (const table of this.tables) {
       ddl += this.generateTableDDL(table);
       ddl += '\n\n';
     }
 
-    // Then generate foreign key relationships
+    return ddl;
+  }
+
+  /**
+   * Warn about objects that could not be ordered because they depend on each other
+   */
+  private generateCycleWarning(): string {
+    if (this.cycles.length === 0) return '';
+
+    const lines = [
+      '-- WARNING: These objects depend on each other in a cycle, so they cannot be created in dependency order:',
+      ...this.cycles.map(cycle => `--   ${[...cycle, cycle[0]].join(' -> ')}`),
+      '-- They are created in canvas order and some statements may fail until the cycle is broken.'
+    ];
+    return lines.join('\n') + '\n\n';
+  }
+
+  /**
+   * Generate DDL for a single sequence
+   */
+  private generateSequenceDDL(sequence: SequenceNodeType): string {
+    if (!this.dialect.supportsSequences) {
+      return `-- ${sequence.data.label} is a sequence in the model, ${this.dialect.name} has no sequences`;
+    }
+
+    const name = this.dialect.formatTableName({
+      name: sequence.data.label,
+      database: sequence.data.database || this.defaults.database,
+      schema: sequence.data.schema || this.defaults.schema
+    });
+    const options = [
+      `START WITH ${sequence.data.start}`,
+      `INCREMENT BY ${sequence.data.increment}`,
+      ...this.dialect.sequenceOptions(sequence.data)
+    ];
+
+    return `${this.dialect.createPrefix} SEQUENCE ${name}\n${options.map(option => `  ${option}`).join('\n')};`;
+  }
+
+  /**
+   * Generate only the foreign key relationships
+   */
+  public generateForeignKeyStatements(): string {
+    let ddl = '';
+
     for (const table of this.tables) {
       if (table.foreignKeys && table.foreignKeys.length > 0) {
         for (const fk of table.foreignKeys) {
-          ddl += this.generateForeignKeyDDL(table.name, fk);
+          ddl += this.generateForeignKeyDDL(table, fk);
           ddl += '\n\n';
         }
       }
@@ -69,23 +162,38 @@ export default class DDLGenerator {
    * Generate DDL for a single table
    */
   private generateTableDDL(table: SnowflakeTable): string {
-    // Handle different table types
     const tableType = table.tableType || 'TABLE';
-    let ddl = `CREATE OR REPLACE ${tableType} ${this.formatIdentifier(table.name)} (\n`;
+    const objectKeyword = this.dialect.getObjectKeyword(tableType);
+    let ddl = '';
+    
+    // Object types the dialect doesn't know are created as the closest one it does
+    if (objectKeyword !== tableType.replace(/_/g, ' ')) {
+      ddl += `-- ${table.name} is a ${tableType.replace(/_/g, ' ')} in the model, created as a ${objectKeyword.toLowerCase()} for ${this.dialect.name}\n`;
+    }
+    
+    if (isDerivedTable(tableType) && objectKeyword !== 'TABLE') {
+      return ddl + this.generateQueryObjectDDL(table, objectKeyword);
+    }
+    
+    ddl += `${this.dialect.createPrefix} ${objectKeyword} ${this.dialect.formatTableName(table)} (\n`;
+    
+    const primaryKey = table.primaryKey || [];
     
     // Column definitions
     const columnDefinitions = table.columns.map(column => {
-      let colDef = `  ${this.formatIdentifier(column.name)} ${column.dataType}`;
+      let colDef = `  ${this.formatIdentifier(column.name)} ${this.dialect.mapColumnType(column)}`;
+      
+      // Add collation, identity or default value
+      colDef += this.dialect.columnValueOptions(column);
       
       // Add NOT NULL constraint if not nullable
-      if (!column.isNullable) {
+      const isKeyColumn = this.dialect.primaryKeyRequiresNotNull && primaryKey.includes(column.name);
+      if (!column.isNullable || isKeyColumn) {
         colDef += ' NOT NULL';
       }
       
-      // Add column comment if exists
-      if (column.comment) {
-        colDef += ` COMMENT '${this.escapeQuotes(column.comment)}'`;
-      }
+      // Add column comment if the dialect supports inline comments
+      colDef += this.dialect.columnOptions(column);
       
       return colDef;
     });
@@ -93,41 +201,76 @@ export default class DDLGenerator {
     ddl += columnDefinitions.join(',\n');
     
     // Add primary key constraint if exists
-    if (table.primaryKey && table.primaryKey.length > 0) {
-      const pkColumns = table.primaryKey.map(col => this.formatIdentifier(col)).join(', ');
-      ddl += `,\n  PRIMARY KEY (${pkColumns})`;
+    if (primaryKey.length > 0) {
+      const pkColumns = primaryKey.map(col => this.formatIdentifier(col)).join(', ');
+      const pkName = this.dialect.supportsNamedPrimaryKeys ? table.primaryKeyName : undefined;
+      ddl += `,\n  ${this.formatConstraintName(pkName)}PRIMARY KEY (${pkColumns})${this.dialect.constraintSuffix}`;
+    }
+    
+    // Add unique constraints
+    if (this.dialect.supportsUniqueConstraints) {
+      for (const uniqueKey of table.uniqueKeys || []) {
+        const uniqueColumns = uniqueKey.columns.map(col => this.formatIdentifier(col)).join(', ');
+        ddl += `,\n  ${this.formatConstraintName(uniqueKey.name)}UNIQUE (${uniqueColumns})`;
+      }
     }
     
     ddl += '\n)';
     
-    // Add table comment if exists
-    if (table.comment) {
-      ddl += `\nCOMMENT = '${this.escapeQuotes(table.comment)}'`;
+    // Table comment, tags and options specific to the object type
+    for (const option of this.dialect.tableOptions(table)) {
+      ddl += `\n${option}`;
     }
     
-    // Special options for different table types
-    if (tableType === 'DYNAMIC_TABLE') {
-      ddl += `\nTARGET_LAG = '1 minute'`; // Default lag for dynamic tables
-    } else if (tableType === 'ICEBERG_TABLE') {
-      ddl += `\nWITH ICEBERG_CATALOG = 'SNOWFLAKE'`; // Default catalog for Iceberg tables
+    ddl += ';';
+    
+    // Statements that have to run after the table exists
+    for (const statement of this.dialect.postTableStatements(table)) {
+      ddl += `\n\n${statement}`;
     }
     
-    // Add table tags if they exist
-    if (table.tags && table.tags.length > 0) {
-      ddl += `\nWITH TAG (${table.tags.map((tag: string) => `'${this.escapeQuotes(tag)}' = 'true'`).join(', ')})`;
+    return ddl;
+  }
+
+  /**
+   * Generate DDL for a view, materialized view or dynamic table. The column list only
+   * names the columns; their types and nullability come from the query.
+   */
+  private generateQueryObjectDDL(table: SnowflakeTable, objectKeyword: string): string {
+    let ddl = '';
+    
+    if (table.tableType === 'DYNAMIC_TABLE' && !table.warehouse) {
+      ddl += `-- ${table.name} needs a warehouse to refresh, set one before running this statement\n`;
     }
     
-    ddl += ';';
+    // Without a query, select typed NULLs so the object can still be created
+    let query = table.query?.trim().replace(/;\s*$/, '');
+    if (!query) {
+      ddl += `-- ${table.name} has no query yet, this placeholder returns its columns without any rows\n`;
+      const placeholders = table.columns.map(column =>
+        `  CAST(NULL AS ${this.dialect.mapDataType(column.dataType || 'VARCHAR')}) AS ${this.formatIdentifier(column.name)}`
+      );
+      query = `SELECT\n${placeholders.length > 0 ? placeholders.join(',\n') : '  NULL AS PLACEHOLDER'}\nWHERE FALSE`;
+    }
     
-    // Generate column-level tags in separate statements
-    for (const column of table.columns) {
-      if (column.tags && column.tags.length > 0) {
-        ddl += `\n\nALTER TABLE ${this.formatIdentifier(table.name)} MODIFY COLUMN ${this.formatIdentifier(column.name)} SET TAG`;
-        column.tags.forEach((tag, index) => {
-          ddl += ` '${this.escapeQuotes(tag)}' = 'true'${index < column.tags!.length - 1 ? ',' : ''}`;
-        });
-        ddl += ';';
-      }
+    ddl += `${this.dialect.createPrefix} ${objectKeyword} ${this.dialect.formatTableName(table)}`;
+    
+    const namesColumns = objectKeyword !== 'MATERIALIZED VIEW' || this.dialect.supportsMaterializedViewColumns;
+    if (table.columns.length > 0 && namesColumns) {
+      const columnNames = table.columns.map(column =>
+        `  ${this.formatIdentifier(column.name)}${this.dialect.columnOptions(column)}`
+      );
+      ddl += ` (\n${columnNames.join(',\n')}\n)`;
+    }
+    
+    for (const option of this.dialect.tableOptions(table)) {
+      ddl += `\n${option}`;
+    }
+    
+    ddl += `\nAS\n${query};`;
+    
+    for (const statement of this.dialect.postTableStatements(table)) {
+      ddl += `\n\n${statement}`;
     }
     
     return ddl;
@@ -136,52 +279,35 @@ export default class DDLGenerator {
   /**
    * Generate DDL for a foreign key constraint
    */
-  private generateForeignKeyDDL(tableName: string, foreignKey: {
-    columns: string[];
-    referencedTable: string;
-    referencedColumns: string[];
-  }): string {
+  private generateForeignKeyDDL(table: SnowflakeTable, foreignKey: NonNullable<SnowflakeTable['foreignKeys']>[number]): string {
     const fkColumns = foreignKey.columns.map(col => this.formatIdentifier(col)).join(', ');
     const refColumns = foreignKey.referencedColumns.map(col => this.formatIdentifier(col)).join(', ');
+    const fkName = foreignKey.name || (this.dialect.requiresForeignKeyNames
+      ? `FK_${table.name}_${foreignKey.columns.join('_')}`.replace(/[^a-zA-Z0-9_]/g, '_')
+      : undefined);
     
-    return `ALTER TABLE ${this.formatIdentifier(tableName)}\n` +
-      `  ADD FOREIGN KEY (${fkColumns})\n` +
-      `  REFERENCES ${this.formatIdentifier(foreignKey.referencedTable)} (${refColumns});`;
-  }
-
-  /**
-   * Format identifier for Snowflake DDL (handles spaces, special chars, etc.)
-   */
-  private formatIdentifier(identifier: string): string {
-    // If identifier has spaces, special chars, or is a reserved word, wrap in double quotes
-    if (/[^a-zA-Z0-9_]/.test(identifier) || this.isReservedWord(identifier)) {
-      return `"${identifier}"`;
-    }
-    return identifier.toUpperCase();
+    const referencedTable = this.dialect.formatTableName({
+      name: foreignKey.referencedTable,
+      database: foreignKey.referencedDatabase,
+      schema: foreignKey.referencedSchema
+    });
+    
+    return `ALTER TABLE ${this.dialect.formatTableName(table)}\n` +
+      `  ADD ${this.formatConstraintName(fkName)}FOREIGN KEY (${fkColumns})\n` +
+      `  REFERENCES ${referencedTable} (${refColumns})${this.dialect.constraintSuffix};`;
   }
 
   /**
-   * Escape single quotes in string literals
+   * Format the optional CONSTRAINT clause that names a key
    */
-  private escapeQuotes(str: string): string {
-    return str.replace(/'/g, "''");
+  private formatConstraintName(name?: string): string {
+    return name ? `CONSTRAINT ${this.formatIdentifier(name)} ` : '';
   }
 
   /**
-   * Check if a word is a Snowflake reserved word
+   * Format identifier for the target dialect (handles spaces, special chars, etc.)
    */
-  private isReservedWord(word: string): boolean {
-    // This is a simplified list of some common Snowflake reserved words
-    const reservedWords = [
-      'table', 'select', 'from', 'where', 'insert', 'update', 'delete',
-      'create', 'alter', 'drop', 'grant', 'revoke', 'order', 'by', 'group',
-      'having', 'join', 'left', 'right', 'outer', 'inner', 'full', 'on',
-      'union', 'all', 'as', 'distinct', 'limit', 'offset', 'with', 'database',
-      'schema', 'warehouse', 'role', 'user', 'password', 'account', 'view',
-      'function', 'procedure', 'pipe', 'stage', 'file', 'format', 'sequence',
-      'dynamic_table', 'iceberg_table'
-    ];
-    
-    return reservedWords.includes(word.toLowerCase());
+  private formatIdentifier(identifier: string): string {
+    return this.dialect.formatIdentifier(identifier);
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,92 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ERDNode, EdgeType, Column } from './types';
+import { ERDNode, EdgeType, Column, TableConstraint, NodeType, ParseDiagnostic, ColumnIdentity, RefreshMode, SequenceNodeType } from './types';
+import { findTableByReference, getTableReference } from './qualifiedNames';
+import { getLineageEdges, isDerivedTable } from './queryLineage';
+import { addForeignKey, getPrimaryKey } from './constraintUtils';
+import { createForeignKeyEdge } from './edgeUtils';
+import { SQLToken, tokenizeSQL, splitTokenStatements } from './SQLLexer';
 
+type TableType = NonNullable<NodeType['data']['tableType']>;
+
+// Object types that become tables on the canvas, as written by DDLGenerator (DYNAMIC TABLE) or underscored (DYNAMIC_TABLE)
+const OBJECT_TYPES: Record<string, TableType> = {
+  'TABLE': 'TABLE',
+  'HYBRID TABLE': 'TABLE',
+  'VIEW': 'VIEW',
+  'MATERIALIZED VIEW': 'MATERIALIZED_VIEW',
+  'MATERIALIZED_VIEW': 'MATERIALIZED_VIEW',
+  'DYNAMIC TABLE': 'DYNAMIC_TABLE',
+  'DYNAMIC_TABLE': 'DYNAMIC_TABLE',
+  'ICEBERG TABLE': 'ICEBERG_TABLE',
+  'ICEBERG_TABLE': 'ICEBERG_TABLE'
+};
+
+// Words that may come between CREATE [OR REPLACE] and the object type
+const CREATE_MODIFIERS = ['TRANSIENT', 'TEMPORARY', 'TEMP', 'VOLATILE', 'LOCAL', 'GLOBAL', 'SECURE', 'RECURSIVE'];
+
+// Words after which a parenthesized group is the value of a table option, e.g. CLUSTER BY (...) or CLONE t AT (...)
+const OPTION_GROUP_PREFIXES = ['BY', 'LINEAR', 'ON', 'AT', 'BEFORE'];
+
+// Words that start a column option, so they end a DEFAULT expression or follow a column without a type
+const COLUMN_OPTION_WORDS = [
+  'NOT', 'NULL', 'DEFAULT', 'COMMENT', 'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'FOREIGN',
+  'COLLATE', 'WITH', 'MASKING', 'TAG', 'PROJECTION', 'IDENTITY', 'AUTOINCREMENT', 'AS'
+];
+
+// Constraint properties Snowflake accepts but does not enforce
+const CONSTRAINT_PROPERTIES = ['ENFORCED', 'VALIDATE', 'NOVALIDATE', 'RELY', 'NORELY', 'DEFERRABLE', 'ENABLE', 'DISABLE'];
+
+interface ForeignKeyDeclaration {
+  constraint: TableConstraint;
+  // Where the foreign key was declared, for reporting a missing referenced table
+  token: SQLToken;
+}
+
+interface TableOptions {
+  comment?: string;
+  tags?: string[];
+  query?: string;
+  targetLag?: string;
+  warehouse?: string;
+  refreshMode?: RefreshMode;
+  icebergCatalog?: string;
+  // The AS that starts the query, for reporting a table created from one
+  queryToken?: SQLToken;
+}
+
+interface ColumnList {
+  columns: Column[];
+  constraints: TableConstraint[];
+  foreignKeys: ForeignKeyDeclaration[];
+}
+
+/**
+ * A syntax error at a token, or at the end of the statement when there is none
+ */
+class DDLSyntaxError extends Error {
+  public token?: SQLToken;
+
+  constructor(message: string, token?: SQLToken) {
+    super(message);
+    this.token = token;
+  }
+}
+
+/**
+ * Recursive-descent parser for the Snowflake DDL subset that describes a model:
+ * CREATE TABLE / VIEW / MATERIALIZED VIEW / DYNAMIC TABLE / ICEBERG TABLE,
+ * ALTER ... ADD constraints and SET TAG, and COMMENT ON.
+ */
 export default class DDLParser {
   private ddl: string;
   private nodes: ERDNode[] = [];
   private edges: EdgeType[] = [];
-  private tableNames: Map<string, string> = new Map(); // Maps normalized table name to table ID
+  private diagnostics: ParseDiagnostic[] = [];
+  // Foreign keys declared inside CREATE TABLE, resolved once every table is known
+  private pendingForeignKeys: (ForeignKeyDeclaration & { source: NodeType; statement: SQLToken[] })[] = [];
+  // Tokens of the statement being parsed, without comments
+  private tokens: SQLToken[] = [];
+  private position = 0;
 
   constructor(ddl: string) {
     this.ddl = ddl;
@@ -13,409 +94,951 @@ export default class DDLParser {
 
   /**
    * Main method to parse DDL and generate nodes and edges
-   * @returns Object containing nodes and edges
+   * @returns Nodes and edges, and the problems found in statements that were skipped in whole or in part
    */
-  public parse(): { nodes: ERDNode[], edges: EdgeType[] } {
-    // Split the DDL into separate statements
-    const statements = this.splitStatements(this.ddl);
+  public parse(): { nodes: ERDNode[], edges: EdgeType[], diagnostics: ParseDiagnostic[] } {
+    const lexed = tokenizeSQL(this.ddl);
+    this.diagnostics = lexed.diagnostics;
     
-    console.log(`Parsing ${statements.length} SQL statements`);
+    const statements = splitTokenStatements(lexed.tokens)
+      .map(statement => statement.filter(token => token.type !== 'comment'))
+      .filter(statement => statement.length > 0);
     
     // First pass: Create all table nodes
+    const alterations: SQLToken[][] = [];
     for (const statement of statements) {
-      if (this.isCreateTableStatement(statement)) {
-        this.parseCreateTable(statement);
+      if (this.isWord(statement[0], 'CREATE')) {
+        this.parseStatement(statement, () => this.parseCreate());
+      } else {
+        alterations.push(statement);
       }
     }
     
-    // Second pass: Handle foreign key relationships
-    for (const statement of statements) {
-      if (this.isAlterTableAddForeignKey(statement)) {
-        this.parseForeignKeyConstraint(statement);
-      }
+    // Second pass: Handle foreign key relationships, tags and comments
+    for (const { source, constraint, token, statement } of this.pendingForeignKeys) {
+      this.tokens = statement;
+      this.addForeignKey(source, constraint, token);
+    }
+    
+    for (const statement of alterations) {
+      this.parseStatement(statement, () => this.parseAlteration());
+    }
+    
+    // Views and dynamic tables are connected to the tables they select from
+    const tables = this.getTableNodes();
+    for (const table of tables) {
+      this.edges.push(...getLineageEdges(table, tables, this.edges));
     }
     
-    console.log(`Created ${this.nodes.length} tables and ${this.edges.length} relationships`);
-    return { nodes: this.nodes, edges: this.edges };
+    const diagnostics = [...this.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column);
+    return { nodes: this.nodes, edges: this.edges, diagnostics };
   }
 
   /**
-   * Split DDL into separate SQL statements
-   * Handles multiple statements separated by semicolons, accounting for quoted text
-   * and nested statements.
+   * Split DDL into separate SQL statements on semicolons outside of quotes,
+   * comments and $$ bodies. Comments stay with the statement that follows them.
    */
-  private splitStatements(ddl: string): string[] {
-    // Split by semicolons, but ignore semicolons inside quotes
-    const statements: string[] = [];
-    let currentStatement = '';
-    let inQuote = false;
-    let quoteChar = '';
-    let inComment = false;
+  public static splitStatements(ddl: string): string[] {
+    return splitTokenStatements(tokenizeSQL(ddl).tokens).map(statement =>
+      ddl.slice(statement[0].start, statement[statement.length - 1].end)
+    );
+  }
+
+  /**
+   * Parse one statement, turning a syntax error into a diagnostic so the other statements still import
+   */
+  private parseStatement(statement: SQLToken[], parseTokens: () => void): void {
+    this.tokens = statement;
+    this.position = 0;
     
-    for (let i = 0; i < ddl.length; i++) {
-      const char = ddl[i];
-      const nextChar = i < ddl.length - 1 ? ddl[i + 1] : '';
-      
-      // Handle line comments
-      if (!inQuote && char === '-' && nextChar === '-') {
-        inComment = true;
+    try {
+      parseTokens();
+    } catch (error) {
+      if (!(error instanceof DDLSyntaxError)) throw error;
+      this.report('error', `${error.message}; the statement was not imported`, error.token);
+    }
+  }
+
+  /**
+   * Parse a CREATE statement and add the table, view or dynamic table it creates
+   */
+  private parseCreate(): void {
+    this.expectWord('CREATE');
+    this.acceptWords('OR', 'REPLACE');
+    while (this.acceptWord(...CREATE_MODIFIERS)) {
+      // Transient, temporary and secure objects are modelled like any other
+    }
+    
+    if (this.acceptWord('SEQUENCE')) {
+      this.parseSequence();
+      return;
+    }
+    
+    const tableType = this.parseObjectType();
+    if (!tableType) {
+      this.skipStatement();
+      return;
+    }
+    
+    // The table name may be qualified as DB.SCHEMA.TABLE or SCHEMA.TABLE
+    this.acceptWords('IF', 'NOT', 'EXISTS');
+    const nameParts = this.parseQualifiedName();
+    const [database, schema] = nameParts.length === 3 ? nameParts : [undefined, nameParts[nameParts.length - 2]];
+    
+    // Options like CLUSTER BY may come before the column list, as GET_DDL writes them
+    const leadingOptions = this.parseTableOptions(true);
+    
+    // View column lists name the columns without types
+    const isDerived = isDerivedTable(tableType);
+    const list: ColumnList = this.peekSymbol('(')
+      ? this.parseColumnList(!isDerived)
+      : { columns: [], constraints: [], foreignKeys: [] };
+    
+    // Table options follow the column list; views and dynamic tables end in AS <query>
+    const options = { ...leadingOptions, ...this.parseTableOptions(false) };
+    if (!isDerived && options.query && list.columns.length === 0) {
+      this.report('warning', 'Columns of a table created with AS SELECT are not imported', options.queryToken);
+    }
+    
+    // Create the node
+    const node: NodeType = {
+      id: `table-${uuidv4()}`,
+      type: 'table',
+      position: {
+        x: Math.floor(Math.random() * 500),
+        y: Math.floor(Math.random() * 300),
+      },
+      data: {
+        label: nameParts[nameParts.length - 1],
+        ...(database ? { database } : {}),
+        ...(schema ? { schema } : {}),
+        columns: list.columns,
+        ...(list.constraints.length > 0 ? { constraints: this.resolveConstraintColumns(list.constraints, list.columns) } : {}),
+        tableType,
+        comment: options.comment || '',
+        tags: options.tags || [],
+        ...(isDerived && options.query ? { query: options.query } : {}),
+        ...(options.targetLag ? { targetLag: options.targetLag } : {}),
+        ...(options.warehouse ? { warehouse: options.warehouse } : {}),
+        ...(options.refreshMode ? { refreshMode: options.refreshMode } : {}),
+        ...(options.icebergCatalog ? { icebergCatalog: options.icebergCatalog } : {})
       }
-      
-      // End of line terminates comments
-      if (inComment && (char === '\n' || char === '\r')) {
-        inComment = false;
+    };
+    
+    this.nodes.push(node);
+    this.pendingForeignKeys.push(...list.foreignKeys.map(foreignKey => ({ ...foreignKey, source: node, statement: this.tokens })));
+  }
+
+  /**
+   * Parse the rest of a CREATE SEQUENCE statement and add the sequence
+   */
+  private parseSequence(): void {
+    this.acceptWords('IF', 'NOT', 'EXISTS');
+    const nameParts = this.parseQualifiedName();
+    const [database, schema] = nameParts.length === 3 ? nameParts : [undefined, nameParts[nameParts.length - 2]];
+    
+    const sequence: SequenceNodeType = {
+      id: `sequence-${uuidv4()}`,
+      type: 'sequence',
+      position: {
+        x: Math.floor(Math.random() * 500),
+        y: Math.floor(Math.random() * 300),
+      },
+      data: {
+        label: nameParts[nameParts.length - 1],
+        ...(database ? { database } : {}),
+        ...(schema ? { schema } : {}),
+        start: 1,
+        increment: 1
       }
-      
-      // Skip comment content but keep adding to current statement
-      if (inComment) {
-        currentStatement += char;
-        continue;
+    };
+    
+    // START [WITH] [=] n INCREMENT [BY] [=] n, optionally after WITH
+    while (!this.atEnd()) {
+      this.acceptWord('WITH');
+      if (this.acceptWord('START')) {
+        this.acceptWord('WITH');
+        this.acceptSymbol('=');
+        sequence.data.start = this.parseNumber();
+      } else if (this.acceptWord('INCREMENT')) {
+        this.acceptWord('BY');
+        this.acceptSymbol('=');
+        sequence.data.increment = this.parseNumber();
+      } else if (this.acceptWord('COMMENT')) {
+        this.acceptSymbol('=');
+        sequence.data.comment = this.parseString();
+      } else if (!this.acceptWord('ORDER', 'NOORDER')) {
+        throw this.unexpected(`Unexpected ${this.describe(this.peek())} in CREATE SEQUENCE`);
       }
-      
-      // Handle quotes
-      if ((char === "'" || char === '"') && (i === 0 || ddl[i-1] !== '\\')) {
-        if (!inQuote) {
-          inQuote = true;
-          quoteChar = char;
-        } else if (char === quoteChar) {
-          inQuote = false;
-        }
+    }
+    
+    this.nodes.push(sequence);
+  }
+
+  /**
+   * Parse an ALTER or COMMENT ON statement that changes a table created earlier
+   */
+  private parseAlteration(): void {
+    if (this.acceptWord('COMMENT')) {
+      this.parseCommentOn();
+      return;
+    }
+    
+    if (!this.acceptWord('ALTER') || !this.parseObjectType()) {
+      this.skipStatement();
+      return;
+    }
+    
+    this.acceptWords('IF', 'EXISTS');
+    const table = this.parseTableReference();
+    if (!table) return;
+    
+    const actionToken = this.peek();
+    if (this.acceptWord('ADD') && this.isTableConstraintStart()) {
+      const constraint = this.parseTableConstraint();
+      if (constraint.type === 'FOREIGN KEY') {
+        this.addForeignKey(table, constraint, actionToken!);
+      } else {
+        this.addKeyConstraint(table, constraint);
       }
+    } else if (this.acceptWord('MODIFY', 'ALTER')) {
+      this.acceptWord('COLUMN');
+      const column = this.parseColumnReference(table);
+      if (!column) return;
       
-      // Handle semicolons
-      if (char === ';' && !inQuote) {
-        if (currentStatement.trim()) {
-          statements.push(currentStatement.trim());
-        }
-        currentStatement = '';
+      if (this.acceptWords('SET', 'TAG')) {
+        column.tags = this.parseTagList(false);
+      } else if (this.acceptWord('COMMENT')) {
+        column.comment = this.parseString();
       } else {
-        currentStatement += char;
+        this.skipStatement(this.describeAction(actionToken));
+        return;
       }
+    } else if (this.acceptWords('SET', 'TAG')) {
+      table.data.tags = this.parseTagList(false);
+    } else if (this.acceptWords('SET', 'COMMENT')) {
+      this.expectSymbol('=');
+      table.data.comment = this.parseString();
+    } else {
+      this.skipStatement(this.describeAction(actionToken));
+      return;
     }
     
-    // Add the last statement if there's no trailing semicolon
-    if (currentStatement.trim()) {
-      statements.push(currentStatement.trim());
+    this.expectEnd();
+  }
+
+  /**
+   * Parse COMMENT ON TABLE|VIEW|... <name> IS '...' and COMMENT ON COLUMN <table>.<column> IS '...'
+   */
+  private parseCommentOn(): void {
+    this.acceptWords('IF', 'EXISTS');
+    this.expectWord('ON');
+    
+    if (this.acceptWord('COLUMN')) {
+      const token = this.peek();
+      const nameParts = this.parseQualifiedName(4);
+      const table = this.findTable(this.joinName(nameParts.slice(0, -1)), token);
+      const column = table && this.findColumn(table, nameParts[nameParts.length - 1], token);
+      if (!column) return;
+      
+      this.expectWord('IS');
+      column.comment = this.parseString();
+    } else if (this.parseObjectType()) {
+      const table = this.parseTableReference();
+      if (!table) return;
+      
+      this.expectWord('IS');
+      table.data.comment = this.parseString();
+    } else {
+      this.skipStatement();
+      return;
     }
     
-    // Filter out any empty statements
-    return statements.filter(stmt => stmt.trim().length > 0);
+    this.expectEnd();
   }
 
   /**
-   * Check if a statement is a CREATE TABLE statement
+   * Read the object type after CREATE or ALTER
+   * @returns The table type, or undefined for objects that are not modelled (the tokens are left unread)
    */
-  private isCreateTableStatement(statement: string): boolean {
-    return /CREATE\s+(OR\s+REPLACE\s+)?(TABLE|VIEW|MATERIALIZED_VIEW|DYNAMIC_TABLE|ICEBERG_TABLE)\s+/i.test(statement);
+  private parseObjectType(): TableType | undefined {
+    const [first, second] = [this.peek(), this.peek(1)];
+    if (first?.type !== 'word') return undefined;
+    
+    const twoWords = second?.type === 'word' ? OBJECT_TYPES[`${first.value} ${second.value}`.toUpperCase()] : undefined;
+    if (twoWords) {
+      this.position += 2;
+      return twoWords;
+    }
+    
+    const oneWord = OBJECT_TYPES[first.value.toUpperCase()];
+    if (oneWord) this.position++;
+    return oneWord;
   }
 
   /**
-   * Check if a statement is an ALTER TABLE ADD FOREIGN KEY statement
+   * Parse the parenthesized list of columns and table constraints. A broken item is
+   * reported and skipped so the rest of the table still imports.
+   * @param hasTypes False for view column lists, whose columns get an empty data type
    */
-  private isAlterTableAddForeignKey(statement: string): boolean {
-    return /ALTER\s+TABLE.*ADD\s+(CONSTRAINT\s+\w+\s+)?FOREIGN\s+KEY/i.test(statement);
+  private parseColumnList(hasTypes: boolean): ColumnList {
+    const list: ColumnList = { columns: [], constraints: [], foreignKeys: [] };
+    this.expectSymbol('(');
+    
+    do {
+      const start = this.peek();
+      try {
+        if (this.isTableConstraintStart()) {
+          const constraint = this.parseTableConstraint();
+          if (constraint.type === 'FOREIGN KEY') {
+            list.foreignKeys.push({ constraint, token: start! });
+          } else {
+            list.constraints.push(constraint);
+          }
+        } else {
+          list.columns.push(this.parseColumn(list, hasTypes));
+        }
+      } catch (error) {
+        if (!(error instanceof DDLSyntaxError)) throw error;
+        this.report('error', `${error.message}; the ${this.describe(start)} definition was skipped`, error.token);
+        this.skipListItem();
+      }
+    } while (this.acceptSymbol(','));
+    
+    this.expectSymbol(')');
+    
+    // Columns of a table-level primary key are flagged like inline ones
+    const primaryKey = list.constraints.find(c => c.type === 'PRIMARY KEY');
+    for (const column of list.columns) {
+      if (primaryKey?.columns.includes(column.name.toUpperCase())) {
+        column.isPrimaryKey = true;
+      }
+    }
+    
+    return list;
   }
 
   /**
-   * Parse a CREATE TABLE statement and add to nodes
+   * Parse a column definition: name, data type and options in any order
    */
-  private parseCreateTable(statement: string): void {
-    // Extract table type (TABLE, VIEW, etc.)
-    const typeMatch = statement.match(/CREATE\s+(OR\s+REPLACE\s+)?(TABLE|VIEW|MATERIALIZED_VIEW|DYNAMIC_TABLE|ICEBERG_TABLE)\s+/i);
-    const tableType = typeMatch?.[2]?.toUpperCase() || 'TABLE';
+  private parseColumn(list: ColumnList, hasTypes: boolean): Column {
+    const column: Column = {
+      id: uuidv4(),
+      name: this.parseIdentifier(),
+      dataType: '',
+      isPrimaryKey: false,
+      isForeignKey: false, // Will be set in second pass
+      isNullable: true,
+      comment: '',
+      tags: []
+    };
     
-    // Extract fully qualified table name - allow for quotes around each part or the whole name
-    // Format can be: "DB"."SCHEMA"."TABLE" or DB.SCHEMA.TABLE or combinations
-    const qualifiedNameRegex = /CREATE\s+(OR\s+REPLACE\s+)?(TABLE|VIEW|MATERIALIZED_VIEW|DYNAMIC_TABLE|ICEBERG_TABLE)\s+(?:(?:"([^"]+)"|([a-zA-Z0-9_]+))(?:\.(?:"([^"]+)"|([a-zA-Z0-9_]+)))?(?:\.(?:"([^"]+)"|([a-zA-Z0-9_]+)))?|"([^"]+\.[^"]+(?:\.[^"]+)?)"|([a-zA-Z0-9_]+\.[a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)?))/i;
+    if (hasTypes) {
+      column.dataType = this.isListItemEnd() || this.peekWord(...COLUMN_OPTION_WORDS) ? 'VARCHAR' : this.parseDataType();
+    }
     
-    const nameMatch = statement.match(qualifiedNameRegex);
+    while (!this.isListItemEnd()) {
+      this.parseColumnOption(column, list);
+    }
     
-    if (!nameMatch) return;
+    return column;
+  }
+
+  /**
+   * Parse a data type, including multi-word types like DOUBLE PRECISION and arguments like NUMBER(38,0)
+   */
+  private parseDataType(): string {
+    const token = this.next();
+    if (token?.type !== 'word') {
+      throw this.unexpected('Expected a data type', token);
+    }
     
-    // Extract the parts of the qualified name (database, schema, table)
-    let fullTableName = '';
-    let tableName = '';
+    let dataType = token.value;
+    const suffix = this.acceptWord('PRECISION', 'VARYING');
+    if (suffix) dataType += ` ${suffix.value}`;
     
-    // Check if we matched a fully quoted name like "DB.SCHEMA.TABLE"
-    if (nameMatch[9]) {
-      fullTableName = nameMatch[9];
-      const parts = fullTableName.split('.');
-      tableName = parts[parts.length - 1];
-    } 
-    // Check if we matched an unquoted fully qualified name like DB.SCHEMA.TABLE
-    else if (nameMatch[10]) {
-      fullTableName = nameMatch[10];
-      const parts = fullTableName.split('.');
-      tableName = parts[parts.length - 1];
+    if (this.peekSymbol('(')) {
+      const open = this.peek()!;
+      const close = this.skipGroup();
+      dataType += this.ddl.slice(open.start, close.end);
     }
-    // Otherwise, build from the individual parts
-    else {
-      const dbPart = nameMatch[3] || nameMatch[4] || '';
-      const schemaPart = nameMatch[5] || nameMatch[6] || '';
-      const tableNamePart = nameMatch[7] || nameMatch[8] || '';
-      
-      if (tableNamePart) {
-        // We have a three-part name: DB.SCHEMA.TABLE
-        tableName = tableNamePart;
-        fullTableName = `${dbPart}.${schemaPart}.${tableName}`;
-      } else if (schemaPart) {
-        // We have a two-part name: SCHEMA.TABLE
-        tableName = schemaPart;
-        fullTableName = `${dbPart}.${tableName}`;
+    
+    if (this.acceptWords('WITH', 'TIME', 'ZONE')) dataType += ' WITH TIME ZONE';
+    if (this.acceptWords('WITHOUT', 'TIME', 'ZONE')) dataType += ' WITHOUT TIME ZONE';
+    
+    return dataType;
+  }
+
+  /**
+   * Parse one option of a column definition
+   */
+  private parseColumnOption(column: Column, list: ColumnList): void {
+    if (this.acceptWords('NOT', 'NULL')) {
+      column.isNullable = false;
+    } else if (this.acceptWord('NULL')) {
+      column.isNullable = true;
+    } else if (this.acceptWord('DEFAULT')) {
+      column.defaultValue = this.parseExpression();
+    } else if (this.acceptWord('COLLATE')) {
+      column.collation = this.parseString();
+    } else if (this.acceptWord('IDENTITY', 'AUTOINCREMENT')) {
+      column.identity = this.parseIdentity();
+    } else if (this.acceptWord('COMMENT')) {
+      this.acceptSymbol('=');
+      column.comment = this.parseString();
+    } else if (this.acceptWord('AS')) {
+      // Virtual column expression
+      this.skipGroup();
+    } else if (this.peekWord('CONSTRAINT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'FOREIGN')) {
+      this.parseInlineConstraint(column, list);
+    } else {
+      this.acceptWord('WITH');
+      if (this.acceptWord('TAG')) {
+        column.tags = this.parseTagList(true);
+      } else if (this.acceptWord('MASKING', 'PROJECTION')) {
+        this.expectWord('POLICY');
+        this.parseQualifiedName();
+        if (this.acceptWord('USING')) this.skipGroup();
       } else {
-        // We have just a table name
-        tableName = dbPart;
-        fullTableName = tableName;
+        throw this.unexpected(`Unexpected ${this.describe(this.peek())} in the definition of column ${column.name}`);
       }
     }
+  }
+
+  /**
+   * Parse IDENTITY or AUTOINCREMENT arguments, written as (start, increment) or
+   * START [WITH] n INCREMENT [BY] n; both default to 1
+   */
+  private parseIdentity(): ColumnIdentity {
+    let start = 1;
+    let increment = 1;
     
-    if (!tableName) return;
+    if (this.acceptSymbol('(')) {
+      start = this.parseNumber();
+      this.expectSymbol(',');
+      increment = this.parseNumber();
+      this.expectSymbol(')');
+    } else if (this.acceptWord('START')) {
+      this.acceptWord('WITH');
+      this.acceptSymbol('=');
+      start = this.parseNumber();
+      this.expectWord('INCREMENT');
+      this.acceptWord('BY');
+      this.acceptSymbol('=');
+      increment = this.parseNumber();
+    }
     
-    // Use the full name for display but keep the simple table name for internal reference
-    const normalizedTableName = tableName.toUpperCase();
+    this.acceptWord('ORDER', 'NOORDER');
+    return { start, increment };
+  }
+
+  /**
+   * Parse a PRIMARY KEY, UNIQUE or REFERENCES constraint declared on a single column.
+   * Column names are upper-cased until they are matched against the parsed columns.
+   */
+  private parseInlineConstraint(column: Column, list: ColumnList): void {
+    const token = this.peek()!;
+    const name = this.acceptWord('CONSTRAINT') ? this.parseIdentifier() : undefined;
+    const columns = [column.name.toUpperCase()];
     
-    // Extract columns from the statement
-    const columnsSection = this.extractColumnDefinitions(statement);
-    const columns = this.parseColumns(columnsSection, statement);
+    if (this.acceptWords('PRIMARY', 'KEY')) {
+      column.isPrimaryKey = true;
+      list.constraints.push({ id: uuidv4(), ...(name ? { name } : {}), type: 'PRIMARY KEY', columns });
+    } else if (this.acceptWord('UNIQUE')) {
+      list.constraints.push({ id: uuidv4(), ...(name ? { name } : {}), type: 'UNIQUE', columns });
+    } else {
+      this.acceptWords('FOREIGN', 'KEY');
+      this.expectWord('REFERENCES');
+      list.foreignKeys.push({ constraint: { id: uuidv4(), ...(name ? { name } : {}), type: 'FOREIGN KEY', columns, ...this.parseReferences() }, token });
+    }
     
-    // Extract table comment if present
-    const commentMatch = statement.match(/COMMENT\s*=\s*'([^']*)'/i);
-    const comment = commentMatch ? commentMatch[1].replace(/''/, "'") : '';
+    this.skipConstraintProperties();
+  }
+
+  /**
+   * Check whether the next item of a column list is a table constraint rather than a column
+   */
+  private isTableConstraintStart(): boolean {
+    return this.peekWord('CONSTRAINT') ||
+      (this.peekWord('PRIMARY', 'FOREIGN') && this.isWord(this.peek(1), 'KEY')) ||
+      (this.peekWord('UNIQUE') && (this.isWord(this.peek(1), 'KEY') || this.isSymbol(this.peek(1), '(')));
+  }
+
+  /**
+   * Parse [CONSTRAINT name] PRIMARY KEY (...), UNIQUE (...) or FOREIGN KEY (...) REFERENCES table [(...)]
+   */
+  private parseTableConstraint(): TableConstraint {
+    const name = this.acceptWord('CONSTRAINT') ? this.parseIdentifier() : undefined;
+    let constraint: TableConstraint;
     
-    // Extract tags if present
-    const tagsMatch = statement.match(/WITH\s+TAG\s+\(([^)]*)\)/i);
-    let tags: string[] = [];
+    if (this.acceptWords('PRIMARY', 'KEY')) {
+      constraint = { id: uuidv4(), ...(name ? { name } : {}), type: 'PRIMARY KEY', columns: this.parseColumnNames() };
+    } else if (this.acceptWord('UNIQUE')) {
+      this.acceptWord('KEY');
+      constraint = { id: uuidv4(), ...(name ? { name } : {}), type: 'UNIQUE', columns: this.parseColumnNames() };
+    } else {
+      this.expectWord('FOREIGN');
+      this.expectWord('KEY');
+      const columns = this.parseColumnNames();
+      this.expectWord('REFERENCES');
+      constraint = { id: uuidv4(), ...(name ? { name } : {}), type: 'FOREIGN KEY', columns, ...this.parseReferences() };
+    }
     
-    if (tagsMatch) {
-      const tagsText = tagsMatch[1];
-      // Extract tag names from tag expressions like 'tag1' = 'true'
-      const tagRegex = /'([^']+)'\s*=\s*'true'/g;
-      let tagMatch;
-      while ((tagMatch = tagRegex.exec(tagsText)) !== null) {
-        tags.push(tagMatch[1]);
+    this.skipConstraintProperties();
+    return constraint;
+  }
+
+  /**
+   * Parse the table and optional columns after REFERENCES. The table keeps the name
+   * as written; no columns means the primary key of the referenced table.
+   */
+  private parseReferences(): { referencedTable: string; referencedColumns: string[] } {
+    const referencedTable = this.joinName(this.parseQualifiedName());
+    return { referencedTable, referencedColumns: this.peekSymbol('(') ? this.parseColumnNames() : [] };
+  }
+
+  /**
+   * Skip constraint properties like NOT ENFORCED, RELY or ON DELETE CASCADE
+   */
+  private skipConstraintProperties(): void {
+    for (;;) {
+      if (this.acceptWord(...CONSTRAINT_PROPERTIES) || this.acceptWords('NOT', 'ENFORCED') || this.acceptWords('NOT', 'DEFERRABLE')) {
+        continue;
+      }
+      if (this.acceptWord('INITIALLY', 'MATCH')) {
+        this.expectWord('DEFERRED', 'IMMEDIATE', 'FULL', 'SIMPLE', 'PARTIAL');
+        continue;
+      }
+      if (this.acceptWord('ON')) {
+        this.expectWord('UPDATE', 'DELETE');
+        if (!this.acceptWords('NO', 'ACTION') && !this.acceptWords('SET', 'NULL') && !this.acceptWords('SET', 'DEFAULT')) {
+          this.expectWord('CASCADE', 'RESTRICT');
+        }
+        continue;
       }
+      return;
     }
+  }
+
+  /**
+   * Parse the options around the column list, up to the query of a view or dynamic table.
+   * Options that do not change the model, like CLUSTER BY or DATA_RETENTION_TIME_IN_DAYS, are skipped.
+   * @param beforeColumns Whether the column list may still follow, so a group that is no option value ends the options
+   */
+  private parseTableOptions(beforeColumns: boolean): TableOptions {
+    const options: TableOptions = {};
+    const start = this.position;
     
-    // Create the node
-    const nodeId = `table-${uuidv4()}`;
-    this.tableNames.set(normalizedTableName, nodeId);
-    
-    const node: ERDNode = {
-      id: nodeId,
-      type: 'table',
-      position: {
-        x: Math.floor(Math.random() * 500),
-        y: Math.floor(Math.random() * 300),
-      },
-      data: {
-        label: fullTableName,
-        columns,
-        tableType: tableType as any,
-        comment,
-        tags
+    while (!this.atEnd()) {
+      if (this.isQueryStart()) {
+        options.queryToken = this.next();
+        options.query = this.ddl.slice(this.peek()!.start, this.tokens[this.tokens.length - 1].end).trim();
+        this.position = this.tokens.length;
+      } else if (this.acceptWord('WITH')) {
+        // WITH TAG, WITH ICEBERG_CATALOG and the like
+      } else if (this.acceptWord('COMMENT')) {
+        this.acceptSymbol('=');
+        options.comment = this.parseString();
+      } else if (this.acceptWord('TAG')) {
+        options.tags = this.parseTagList(true);
+      } else if (this.acceptWord('TARGET_LAG')) {
+        this.expectSymbol('=');
+        // DOWNSTREAM has no lag of its own
+        if (this.peek()?.type === 'string') options.targetLag = this.parseString();
+        else this.next();
+      } else if (this.acceptWord('WAREHOUSE')) {
+        this.expectSymbol('=');
+        options.warehouse = this.parseIdentifier();
+      } else if (this.acceptWord('REFRESH_MODE')) {
+        this.expectSymbol('=');
+        options.refreshMode = this.expectWord('AUTO', 'FULL', 'INCREMENTAL').value.toUpperCase() as RefreshMode;
+      } else if (this.peekWord('LIKE', 'CLONE')) {
+        this.report('warning', `Columns of a table created with ${this.next()!.value.toUpperCase()} are not imported`, this.peek(-1));
+      } else if (this.acceptWord('ICEBERG_CATALOG', 'CATALOG')) {
+        this.expectSymbol('=');
+        options.icebergCatalog = this.parseString();
+      } else if (this.peekSymbol('(')) {
+        // The word before a leading column list is the table name, which may be spelled like a prefix
+        const previous = this.position > start ? this.peek(-1) : undefined;
+        if (this.isSymbol(previous, '=') || this.isWord(previous, ...OPTION_GROUP_PREFIXES)) {
+          this.skipGroup();
+        } else if (beforeColumns) {
+          break;
+        } else {
+          this.report('error', 'Unexpected parenthesized list after the table definition; it was not imported', this.peek());
+          this.skipGroup();
+        }
+      } else {
+        this.next();
       }
-    };
+    }
     
-    this.nodes.push(node);
+    return options;
+  }
+
+  /**
+   * Check whether the next tokens are AS followed by a query
+   */
+  private isQueryStart(): boolean {
+    const next = this.peek(1);
+    return this.peekWord('AS') && (this.isWord(next, 'SELECT', 'WITH') || this.isSymbol(next, '('));
   }
 
   /**
-   * Extract column definitions section from CREATE TABLE statement
+   * Parse a tag list like 'tag1' = 'true', db.schema.tag2 = 'value', keeping the tag names
+   * @param parenthesized Whether the list is wrapped in parentheses, as in WITH TAG (...)
    */
-  private extractColumnDefinitions(statement: string): string {
-    // Get content between the first ( and the matching )
-    const startIdx = statement.indexOf('(');
-    if (startIdx === -1) return '';
+  private parseTagList(parenthesized: boolean): string[] {
+    const tags: string[] = [];
+    if (parenthesized) this.expectSymbol('(');
     
-    let depth = 1;
-    let endIdx = startIdx + 1;
+    do {
+      tags.push(this.peek()?.type === 'string' ? this.parseString() : this.joinName(this.parseQualifiedName()));
+      this.expectSymbol('=');
+      this.parseString();
+    } while (this.acceptSymbol(','));
     
-    for (let i = startIdx + 1; i < statement.length; i++) {
-      if (statement[i] === '(') depth++;
-      else if (statement[i] === ')') depth--;
-      
-      if (depth === 0) {
-        endIdx = i;
-        break;
-      }
+    if (parenthesized) this.expectSymbol(')');
+    return tags;
+  }
+
+  /**
+   * Read a DEFAULT expression as written, up to the next column option or the end of the column
+   */
+  private parseExpression(): string {
+    const first = this.peek();
+    let last: SQLToken | undefined;
+    
+    while (!this.isListItemEnd() && !(last && this.peekWord(...COLUMN_OPTION_WORDS))) {
+      last = this.peekSymbol('(') ? this.skipGroup() : this.next();
     }
     
-    return statement.substring(startIdx + 1, endIdx).trim();
+    if (!first || !last) {
+      throw this.unexpected('Expected an expression after DEFAULT');
+    }
+    return this.ddl.slice(first.start, last.end);
   }
 
   /**
-   * Parse column definitions into Column objects
+   * Parse a parenthesized list of column names, upper-cased until they are matched against the parsed columns
    */
-  private parseColumns(columnsSection: string, fullStatement: string): Column[] {
-    const columns: Column[] = [];
-    const lines = columnsSection.split(',\n').map(line => line.trim());
-    
-    let primaryKeyColumns: string[] = [];
+  private parseColumnNames(): string[] {
+    const names: string[] = [];
+    this.expectSymbol('(');
+    do {
+      names.push(this.parseIdentifier().toUpperCase());
+    } while (this.acceptSymbol(','));
+    this.expectSymbol(')');
+    return names;
+  }
+
+  /**
+   * Parse a name with optional database and schema parts, each quoted or plain
+   */
+  private parseQualifiedName(maxParts = 3): string[] {
+    const parts = [this.parseIdentifier()];
+    while (this.peekSymbol('.') && parts.length < maxParts) {
+      this.next();
+      parts.push(this.parseIdentifier());
+    }
+    return parts;
+  }
+
+  /**
+   * Write name parts back as a dotted name, quoting parts that contain a dot
+   */
+  private joinName(parts: string[]): string {
+    return parts.map(part => (part.includes('.') ? `"${part}"` : part)).join('.');
+  }
+
+  private parseIdentifier(): string {
+    const token = this.peek();
+    if (token?.type !== 'word' && token?.type !== 'quoted') {
+      throw this.unexpected('Expected a name');
+    }
+    this.position++;
+    return token.value;
+  }
+
+  private parseString(): string {
+    const token = this.peek();
+    if (token?.type !== 'string') {
+      throw this.unexpected('Expected a quoted string');
+    }
+    this.position++;
+    return token.value;
+  }
+
+  private parseNumber(): number {
+    const negative = !!this.acceptSymbol('-');
+    const token = this.peek();
+    if (token?.type !== 'number') {
+      throw this.unexpected('Expected a number');
+    }
+    this.position++;
+    return Number(token.value) * (negative ? -1 : 1);
+  }
+
+  /**
+   * Parse the name of a table created earlier in the script, reporting it if there is none
+   */
+  private parseTableReference(): NodeType | undefined {
+    const token = this.peek();
+    return this.findTable(this.joinName(this.parseQualifiedName()), token);
+  }
+
+  private findTable(reference: string, token?: SQLToken): NodeType | undefined {
+    const table = findTableByReference(this.getTableNodes(), reference);
+    if (!table) {
+      this.report('warning', `${reference} is not created in this DDL; the statement was skipped`, token);
+    }
+    return table;
+  }
+
+  /**
+   * Parse a column name of a table, reporting it if the table has no such column
+   */
+  private parseColumnReference(table: NodeType): Column | undefined {
+    const token = this.peek();
+    return this.findColumn(table, this.parseIdentifier(), token);
+  }
+
+  private findColumn(table: NodeType, name: string, token?: SQLToken): Column | undefined {
+    const column = table.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase());
+    if (!column) {
+      this.report('warning', `${table.data.label} has no column ${name}; the statement was skipped`, token);
+    }
+    return column;
+  }
+
+  private peek(offset = 0): SQLToken | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): SQLToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  private isWord(token: SQLToken | undefined, ...words: string[]): boolean {
+    return token?.type === 'word' && words.includes(token.value.toUpperCase());
+  }
+
+  private isSymbol(token: SQLToken | undefined, symbol: string): boolean {
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  private peekWord(...words: string[]): boolean {
+    return this.isWord(this.peek(), ...words);
+  }
+
+  private peekSymbol(symbol: string): boolean {
+    return this.isSymbol(this.peek(), symbol);
+  }
+
+  /**
+   * Read the next token if it is one of the given keywords
+   */
+  private acceptWord(...words: string[]): SQLToken | undefined {
+    return this.peekWord(...words) ? this.next() : undefined;
+  }
+
+  /**
+   * Read a sequence of keywords like NOT NULL, only if all of them follow
+   */
+  private acceptWords(...words: string[]): boolean {
+    if (!words.every((word, offset) => this.isWord(this.peek(offset), word))) return false;
+    this.position += words.length;
+    return true;
+  }
+
+  private acceptSymbol(symbol: string): SQLToken | undefined {
+    return this.peekSymbol(symbol) ? this.next() : undefined;
+  }
+
+  private expectWord(...words: string[]): SQLToken {
+    const token = this.acceptWord(...words);
+    if (!token) {
+      throw this.unexpected(`Expected ${words.join(' or ')}`);
+    }
+    return token;
+  }
+
+  private expectSymbol(symbol: string): SQLToken {
+    const token = this.acceptSymbol(symbol);
+    if (!token) {
+      throw this.unexpected(`Expected "${symbol}"`);
+    }
+    return token;
+  }
+
+  private expectEnd(): void {
+    if (!this.atEnd()) {
+      throw this.unexpected(`Unexpected ${this.describe(this.peek())}`);
+    }
+  }
+
+  /**
+   * Create a syntax error at a token, naming what was found instead
+   */
+  private unexpected(message: string, token = this.peek()): DDLSyntaxError {
+    return new DDLSyntaxError(
+      token ? (message.startsWith('Unexpected') ? message : `${message} but found ${this.describe(token)}`) : `${message} but the statement ended`,
+      token
+    );
+  }
+
+  /**
+   * Describe a token for a message, e.g. "COLUMN" or the start of a column definition
+   */
+  private describe(token?: SQLToken): string {
+    if (!token) return 'end of statement';
+    return `"${token.type === 'string' ? this.ddl.slice(token.start, token.end) : token.value}"`;
+  }
+
+  /**
+   * Describe an ALTER action that is not imported by its first keywords, e.g. ALTER ... ADD COLUMN
+   */
+  private describeAction(token?: SQLToken): string {
+    const start = token ? this.tokens.indexOf(token) : this.tokens.length;
+    const keywords = this.tokens.slice(start, start + 2).filter(t => t.type === 'word').map(t => t.value.toUpperCase());
+    return `ALTER ... ${keywords.join(' ')} statements are not imported`;
+  }
+
+  /**
+   * Read a parenthesized group including nested groups
+   * @returns The closing parenthesis
+   */
+  private skipGroup(): SQLToken {
+    const open = this.expectSymbol('(');
+    let depth = 1;
     
-    // Extract primary key constraint if present
-    const primaryKeyMatch = columnsSection.match(/PRIMARY\s+KEY\s*\(([^)]+)\)/i);
-    if (primaryKeyMatch) {
-      primaryKeyColumns = primaryKeyMatch[1]
-        .split(',')
-        .map(col => col.trim().replace(/"/g, '').toUpperCase());
+    while (!this.atEnd()) {
+      const token = this.next()!;
+      if (this.isSymbol(token, '(')) depth++;
+      if (this.isSymbol(token, ')') && --depth === 0) return token;
     }
     
-    // Process each column definition
-    for (const line of lines) {
-      // Skip if line is a constraint definition
-      if (/^(PRIMARY|FOREIGN|UNIQUE)\s+KEY/i.test(line)) continue;
-      
-      // Extract column name
-      const nameMatch = line.match(/^(?:"([^"]+)"|([a-zA-Z0-9_]+))\s+/);
-      if (!nameMatch) continue;
-      
-      const name = nameMatch[1] || nameMatch[2];
-      
-      // Extract data type
-      const typeMatch = line.match(/\s+([a-zA-Z0-9_]+(\([^)]+\))?)/);
-      const dataType = typeMatch ? typeMatch[1] : 'VARCHAR';
-      
-      // Check if column is nullable
-      const isNullable = !/NOT\s+NULL/i.test(line);
-      
-      // Check if column is a primary key
-      const isPrimaryKey = primaryKeyColumns.includes(name.toUpperCase());
-      
-      // Extract comment if present
-      const commentMatch = line.match(/COMMENT\s+'([^']*)'/i);
-      const comment = commentMatch ? commentMatch[1].replace(/''/, "'") : '';
-      
-      // Parse column-level tags from full statement
-      let tags: string[] = [];
-      const tagRegex = new RegExp(`ALTER\\s+TABLE.*MODIFY\\s+COLUMN\\s+(?:"${name}"|${name})\\s+SET\\s+TAG\\s+([^;]+)`, 'i');
-      const tagsMatch = fullStatement.match(tagRegex);
-      
-      if (tagsMatch) {
-        const tagsText = tagsMatch[1];
-        // Extract tag names from tag expressions
-        const tagNameRegex = /'([^']+)'\s*=\s*'true'/g;
-        let tagMatch;
-        while ((tagMatch = tagNameRegex.exec(tagsText)) !== null) {
-          tags.push(tagMatch[1]);
-        }
-      }
-      
-      columns.push({
-        id: uuidv4(),
-        name,
-        dataType,
-        isPrimaryKey,
-        isForeignKey: false, // Will be set in second pass
-        isNullable,
-        comment,
-        tags
-      });
-    }
-    
-    return columns;
-  }
-
-  /**
-   * Parse a foreign key constraint and create relationships
-   */
-  private parseForeignKeyConstraint(statement: string): void {
-    // Extract source table name (may be fully qualified)
-    const tableMatch = statement.match(/ALTER\s+TABLE\s+(?:"([^"]+(?:\.[^"]+)*?)"|([a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)*))/i);
-    if (!tableMatch) return;
-    
-    // Get the full name and extract just the table part for lookup
-    const fullSourceName = (tableMatch[1] || tableMatch[2]);
-    const sourceParts = fullSourceName.split('.');
-    const tableName = sourceParts[sourceParts.length - 1].toUpperCase();
-    
-    // Extract source columns
-    const sourceColsMatch = statement.match(/FOREIGN\s+KEY\s*\(([^)]+)\)/i);
-    if (!sourceColsMatch) return;
-    
-    const sourceCols = sourceColsMatch[1]
-      .split(',')
-      .map(col => col.trim().replace(/"/g, '').toUpperCase());
-    
-    // Extract target table and columns
-    const refsMatch = statement.match(/REFERENCES\s+(?:"([^"]+(?:\.[^"]+)*?)"|([a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)*))\s*\(([^)]+)\)/i);
-    if (!refsMatch) return;
-    
-    // Get the full target name and extract just the table part for lookup
-    const fullTargetName = (refsMatch[1] || refsMatch[2]);
-    const targetParts = fullTargetName.split('.');
-    const targetTable = targetParts[targetParts.length - 1].toUpperCase();
-    
-    const targetCols = refsMatch[3]
-      .split(',')
-      .map(col => col.trim().replace(/"/g, '').toUpperCase());
-    
-    // Find matching source and target nodes
-    let sourceNode = null;
-    let targetNode = null;
-    let sourceId = '';
-    let targetId = '';
-    
-    // First try exact match using the tableNames map
-    if (this.tableNames.has(tableName) && this.tableNames.has(targetTable)) {
-      sourceId = this.tableNames.get(tableName)!;
-      targetId = this.tableNames.get(targetTable)!;
-      sourceNode = this.nodes.find(node => node.id === sourceId);
-      targetNode = this.nodes.find(node => node.id === targetId);
-    }
-    
-    // If that fails, try matching by label (which may include full paths)
-    if (!sourceNode || !targetNode) {
-      for (const node of this.nodes) {
-        if (node.type === 'table') {
-          const nodeLabel = node.data.label.toUpperCase();
-          
-          // Check if node label matches full source name
-          if (!sourceNode && (nodeLabel === fullSourceName.toUpperCase() || 
-              nodeLabel.endsWith('.' + tableName))) {
-            sourceNode = node;
-            sourceId = node.id;
-          }
-          
-          // Check if node label matches full target name
-          if (!targetNode && (nodeLabel === fullTargetName.toUpperCase() || 
-              nodeLabel.endsWith('.' + targetTable))) {
-            targetNode = node;
-            targetId = node.id;
-          }
-        }
+    throw new DDLSyntaxError('Missing ")" for this "("', open);
+  }
+
+  /**
+   * Check whether a column or constraint definition ends here
+   */
+  private isListItemEnd(): boolean {
+    return this.atEnd() || this.peekSymbol(',') || this.peekSymbol(')');
+  }
+
+  /**
+   * Skip the rest of a column or constraint definition after a syntax error
+   */
+  private skipListItem(): void {
+    while (!this.isListItemEnd()) {
+      if (this.peekSymbol('(')) {
+        this.skipGroup();
+      } else {
+        this.next();
       }
     }
+  }
+
+  /**
+   * Report a statement that does not describe the model and move past it
+   */
+  private skipStatement(message?: string): void {
+    const leading = this.position === 0 ? this.tokens.slice(0, 2) : [this.tokens[0], this.peek()];
+    const keywords = leading.filter(token => token?.type === 'word').map(token => token!.value.toUpperCase());
+    this.report('warning', message || `${keywords.join(' ')} statements are not imported`, this.tokens[0]);
+    this.position = this.tokens.length;
+  }
+
+  /**
+   * Add a diagnostic at a token of the current statement, or at its last token
+   */
+  private report(severity: ParseDiagnostic['severity'], message: string, token?: SQLToken): void {
+    const at = token || this.tokens[this.tokens.length - 1];
+    const statement = this.ddl.slice(this.tokens[0].start, this.tokens[this.tokens.length - 1].end).split('\n')[0];
+    
+    this.diagnostics.push({
+      severity,
+      message,
+      line: at.line,
+      column: at.column,
+      statement: statement.length > 80 ? `${statement.slice(0, 77)}...` : statement
+    });
+  }
+
+  /**
+   * Replace upper-cased constraint column names with the names of the parsed columns.
+   * An unnamed single-column primary key is fully described by the column flag and is dropped.
+   */
+  private resolveConstraintColumns(constraints: TableConstraint[], columns: Column[]): TableConstraint[] {
+    const resolve = (name: string) => columns.find(col => col.name.toUpperCase() === name)?.name || name;
     
-    // If we have both source and target nodes
-    if (sourceNode && targetNode && sourceNode.type === 'table' && targetNode.type === 'table') {
-      // Update source columns to mark them as foreign keys
-      for (let i = 0; i < sourceCols.length && i < targetCols.length; i++) {
-        const columnName = sourceCols[i];
-        const column = sourceNode.data.columns.find(
-          (col: Column) => col.name.toUpperCase() === columnName
-        );
-        
-        if (column) {
-          column.isForeignKey = true;
-          column.referencedTable = targetNode.data.label; // Use full label
-          column.referencedColumn = targetCols[i];
+    return constraints
+      .filter(c => c.type !== 'PRIMARY KEY' || c.name || c.columns.length > 1)
+      .map(c => ({ ...c, columns: c.columns.map(resolve) }));
+  }
+
+  /**
+   * Add a PRIMARY KEY or UNIQUE constraint from ALTER TABLE ... ADD
+   */
+  private addKeyConstraint(table: NodeType, constraint: TableConstraint): void {
+    if (constraint.type === 'PRIMARY KEY') {
+      for (const column of table.data.columns) {
+        if (constraint.columns.includes(column.name.toUpperCase())) {
+          column.isPrimaryKey = true;
         }
       }
+    }
+    
+    const resolved = this.resolveConstraintColumns([constraint], table.data.columns);
+    if (resolved.length > 0) {
+      table.data.constraints = [...(table.data.constraints || []), ...resolved];
+    }
+  }
+
+  /**
+   * Get the table nodes parsed so far
+   */
+  private getTableNodes(): NodeType[] {
+    return this.nodes.filter((node): node is NodeType => node.type === 'table');
+  }
+
+  /**
+   * Mark the columns of a foreign key, keep it as a constraint when the column flags
+   * can't describe it, and connect the tables
+   * @param token Where the foreign key was declared, for reporting a missing referenced table
+   */
+  private addForeignKey(sourceNode: NodeType, constraint: TableConstraint, token: SQLToken): void {
+    const { name: constraintName, columns: sourceCols, referencedTable: fullTargetName = '' } = constraint;
+    let targetCols = constraint.referencedColumns || [];
+    
+    // An unqualified target is looked up in the source's schema
+    const targetNode = findTableByReference(this.getTableNodes(), fullTargetName, sourceNode.data);
+    if (targetNode && targetCols.length === 0) {
+      targetCols = (getPrimaryKey(targetNode.data)?.columns || []).map(name => name.toUpperCase());
+    }
+    
+    if (targetNode) {
+      const reference = getTableReference(targetNode.data, sourceNode.data);
       
-      // Create an edge between the tables
-      const edge: EdgeType = {
-        id: `e${sourceId}-${targetId}-${uuidv4()}`,
-        source: sourceId,
-        target: targetId,
-        sourceHandle: '',
-        targetHandle: '',
-        type: 'relationship',
-        data: { relationshipType: 'one-to-many' }
-      };
+      const findName = (columns: Column[], name: string) =>
+        columns.find(col => col.name.toUpperCase() === name)?.name || name;
       
-      this.edges.push(edge);
+      const foreignKey = {
+        name: constraintName,
+        columns: sourceCols.map(name => findName(sourceNode.data.columns, name)),
+        referencedTable: reference,
+        referencedColumns: targetCols.map(name => findName(targetNode.data.columns, name))
+      };
+      addForeignKey(sourceNode.data, foreignKey);
+      this.edges.push(createForeignKeyEdge(sourceNode, targetNode, foreignKey));
     } else {
-      console.warn(`Could not create relationship between ${fullSourceName} and ${fullTargetName} - tables not found`);
+      this.report('warning', `Could not create the relationship from ${sourceNode.data.label} to ${fullTargetName}: the table is not created in this DDL`, token);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,221 @@
+import { ERDNode, EdgeType, NodeType, Column } from './types';
+import { getForeignKeys, getUniqueKeys } from './constraintUtils';
+import { findTableByReference } from './qualifiedNames';
+import { getHandleColumnId } from './edgeUtils';
+
+export type DiagramTextFormat = 'mermaid' | 'plantuml';
+
+export const DIAGRAM_TEXT_FORMATS: Record<DiagramTextFormat, { name: string; fence: string }> = {
+  mermaid: { name: 'Mermaid', fence: 'mermaid' },
+  plantuml: { name: 'PlantUML', fence: 'plantuml' }
+};
+
+// A relationship from the table holding the foreign key to the table it references
+interface Relationship {
+  parent: NodeType;
+  child: NodeType;
+  type: EdgeType['data']['relationshipType'];
+  columns: Column[];
+}
+
+// Crow's foot ends as [parent end, parent end when the foreign key is nullable, child end]
+const CROWS_FOOT_ENDS: Record<EdgeType['data']['relationshipType'], [string, string, string]> = {
+  'one-to-one': ['||', '|o', 'o|'],
+  'one-to-many': ['||', '|o', 'o{'],
+  'many-to-many': ['}o', '}o', 'o{']
+};
+
+export default class DiagramTextGenerator {
+  private tables: NodeType[];
+  private edges: EdgeType[];
+  private names: Map<string, string>;
+
+  constructor(nodes: ERDNode[], edges: EdgeType[]) {
+    this.tables = nodes.filter((node): node is NodeType => node.type === 'table');
+    this.edges = edges;
+    this.names = this.getEntityNames();
+  }
+
+  public generate(format: DiagramTextFormat): string {
+    return format === 'mermaid' ? this.toMermaid() : this.toPlantUML();
+  }
+
+  /**
+   * Generate a Mermaid erDiagram
+   */
+  public toMermaid(): string {
+    const lines = ['erDiagram'];
+
+    for (const rel of this.getRelationships()) {
+      const [parentEnd, optionalParentEnd, childEnd] = CROWS_FOOT_ENDS[rel.type];
+      const optional = rel.columns.length > 0 && rel.columns.every(col => col.isNullable);
+      const label = rel.columns.map(col => col.name).join(', ') || 'references';
+      lines.push(`    ${this.names.get(rel.parent.id)} ${optional ? optionalParentEnd : parentEnd}--${childEnd} ${this.names.get(rel.child.id)} : "${label}"`);
+    }
+
+    for (const table of this.tables) {
+      const keys = this.getColumnKeys(table);
+      lines.push(`    ${this.names.get(table.id)} {`);
+      for (const col of table.data.columns) {
+        // Mermaid types can't contain spaces or commas
+        const type = col.dataType.replace(/\s*,\s*/g, '_').replace(/\s+/g, '_') || 'UNKNOWN';
+        const markers = keys.get(col.id) || [];
+        const comment = col.comment ? ` "${col.comment.replace(/"/g, "'").replace(/\n/g, ' ')}"` : '';
+        lines.push(`        ${type} ${this.sanitize(col.name)}${markers.length > 0 ? ` ${markers.join(', ')}` : ''}${comment}`);
+      }
+      lines.push('    }');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Generate a PlantUML entity diagram in information engineering notation.
+   * Key columns sit above the separator and mandatory columns are starred.
+   */
+  public toPlantUML(): string {
+    const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+
+    for (const table of this.tables) {
+      const keys = this.getColumnKeys(table);
+      const attribute = (col: Column) => {
+        const markers = (keys.get(col.id) || []).map(marker => ` <<${marker}>>`).join('');
+        return `  ${col.isNullable ? '' : '* '}${col.name} : ${col.dataType}${markers}`;
+      };
+      const keyColumns = table.data.columns.filter(col => col.isPrimaryKey);
+      const otherColumns = table.data.columns.filter(col => !col.isPrimaryKey);
+
+      lines.push(`entity "${table.data.label.replace(/"/g, "'")}" as ${this.names.get(table.id)} {`);
+      lines.push(...keyColumns.map(attribute));
+      if (keyColumns.length > 0) lines.push('  --');
+      lines.push(...otherColumns.map(attribute));
+      lines.push('}');
+      if (table.data.comment) {
+        lines.push(`note bottom of ${this.names.get(table.id)} : ${table.data.comment.replace(/\n/g, '\\n')}`);
+      }
+      lines.push('');
+    }
+
+    for (const rel of this.getRelationships()) {
+      const [parentEnd, optionalParentEnd, childEnd] = CROWS_FOOT_ENDS[rel.type];
+      const optional = rel.columns.length > 0 && rel.columns.every(col => col.isNullable);
+      const label = rel.columns.length > 0 ? ` : ${rel.columns.map(col => col.name).join(', ')}` : '';
+      lines.push(`${this.names.get(rel.parent.id)} ${optional ? optionalParentEnd : parentEnd}--${childEnd} ${this.names.get(rel.child.id)}${label}`);
+    }
+
+    lines.push('@enduml');
+    return lines.join('\n') + '\n';
+  }
+
+  private sanitize(name: string): string {
+    return name.replace(/[^\w-]+/g, '_');
+  }
+
+  /**
+   * Pick an identifier for every table, qualified with the schema only where names would clash
+   */
+  private getEntityNames(): Map<string, string> {
+    const counts = new Map<string, number>();
+    for (const table of this.tables) {
+      const name = this.sanitize(table.data.label).toUpperCase();
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+    for (const table of this.tables) {
+      let name = this.sanitize(table.data.label);
+      if ((counts.get(name.toUpperCase()) || 0) > 1 && table.data.schema) {
+        name = this.sanitize(`${table.data.schema}_${table.data.label}`);
+      }
+      // Fall back to numbering when even the schema doesn't tell them apart
+      let unique = name;
+      for (let i = 2; used.has(unique.toUpperCase()); i++) unique = `${name}_${i}`;
+      used.add(unique.toUpperCase());
+      names.set(table.id, unique);
+    }
+    return names;
+  }
+
+  /**
+   * Get the PK, FK and UK markers of each column
+   */
+  private getColumnKeys(table: NodeType): Map<string, string[]> {
+    const keys = new Map<string, string[]>();
+    const add = (col: Column | undefined, marker: string) => {
+      if (!col) return;
+      const markers = keys.get(col.id) || [];
+      if (!markers.includes(marker)) markers.push(marker);
+      keys.set(col.id, markers);
+    };
+    const find = (name: string) => table.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase());
+
+    table.data.columns.filter(col => col.isPrimaryKey).forEach(col => add(col, 'PK'));
+    getForeignKeys(table.data).forEach(fk => fk.columns.forEach(name => add(find(name), 'FK')));
+    getUniqueKeys(table.data).forEach(key => key.columns.forEach(name => add(find(name), 'UK')));
+    return keys;
+  }
+
+  /**
+   * Combine edges and foreign keys into one relationship per connected column set.
+   * Edges supply the cardinality; foreign keys without an edge are one-to-many.
+   */
+  private getRelationships(): Relationship[] {
+    const relationships: Relationship[] = [];
+    const findColumn = (table: NodeType, name: string) =>
+      table.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase());
+
+    const foreignKeys = this.tables.flatMap(table =>
+      getForeignKeys(table.data)
+        .map(fk => ({
+          child: table,
+          parent: findTableByReference(this.tables, fk.referencedTable, table.data),
+          columns: fk.columns.map(name => findColumn(table, name)).filter((col): col is Column => !!col)
+        }))
+        .filter((fk): fk is { child: NodeType; parent: NodeType; columns: Column[] } => !!fk.parent)
+    );
+    const usedForeignKeys = new Set<number>();
+
+    for (const edge of this.edges) {
+      const source = this.tables.find(node => node.id === edge.source);
+      const target = this.tables.find(node => node.id === edge.target);
+      if (!source || !target) continue;
+
+      const sourceColumn = this.getHandleColumn(source, edge.sourceHandle);
+      const targetColumn = this.getHandleColumn(target, edge.targetHandle);
+
+      // A foreign key decides the direction when the edge starts at one of its columns and ends at the table it
+      // references; edges without column handles match any foreign key between the two tables.
+      // Otherwise the column pointing at a primary key is the child
+      const isForeignKeyEnd = (fk: typeof foreignKeys[number], child: NodeType, childColumn: Column | undefined, parent: NodeType) =>
+        fk.child.id === child.id && fk.parent.id === parent.id &&
+        (!sourceColumn || !targetColumn || (!!childColumn && fk.columns.some(col => col.id === childColumn.id)));
+      const fkIndex = foreignKeys.findIndex((fk, i) => !usedForeignKeys.has(i) &&
+        (isForeignKeyEnd(fk, source, sourceColumn, target) || isForeignKeyEnd(fk, target, targetColumn, source))
+      );
+
+      if (fkIndex !== -1) {
+        usedForeignKeys.add(fkIndex);
+        const fk = foreignKeys[fkIndex];
+        relationships.push({ parent: fk.parent, child: fk.child, type: edge.data.relationshipType, columns: fk.columns });
+      } else if (sourceColumn && targetColumn && sourceColumn.isPrimaryKey && !targetColumn.isPrimaryKey) {
+        relationships.push({ parent: source, child: target, type: edge.data.relationshipType, columns: [targetColumn] });
+      } else {
+        relationships.push({ parent: target, child: source, type: edge.data.relationshipType, columns: sourceColumn ? [sourceColumn] : [] });
+      }
+    }
+
+    foreignKeys.forEach((fk, i) => {
+      if (!usedForeignKeys.has(i)) {
+        relationships.push({ parent: fk.parent, child: fk.child, type: 'one-to-many', columns: fk.columns });
+      }
+    });
+
+    return relationships;
+  }
+
+  private getHandleColumn(table: NodeType, handle: string): Column | undefined {
+    const columnId = getHandleColumnId(handle);
+    return columnId ? table.data.columns.find(col => col.id === columnId) : undefined;
+  }
+}
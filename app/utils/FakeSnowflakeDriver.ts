@@ -0,0 +1,174 @@
+import { SnowflakeCredentials } from './types';
+import { SnowflakeDriver, SnowflakeQueryResult } from './SnowflakeDriver';
+
+/**
+ * In-memory driver used for offline development and testing.
+ * It accepts any well-formed credentials, records every statement it receives
+ * and answers queries with canned results.
+ */
+export default class FakeSnowflakeDriver implements SnowflakeDriver {
+  public executedStatements: string[] = [];
+  private responses: { pattern: RegExp; result: SnowflakeQueryResult | Error }[] = [];
+
+  public async testConnection(credentials: SnowflakeCredentials): Promise<void> {
+    if (credentials.password === 'invalid') {
+      throw new Error('Incorrect username or password was specified.');
+    }
+  }
+
+  public async execute(credentials: SnowflakeCredentials, sql: string): Promise<SnowflakeQueryResult> {
+    await this.testConnection(credentials);
+
+    if (!sql.trim()) {
+      throw new Error('SQL query is empty');
+    }
+
+    this.executedStatements.push(sql);
+
+    // Registered responses take priority over the defaults
+    const registered = this.responses.find(response => response.pattern.test(sql));
+    if (registered) {
+      if (registered.result instanceof Error) {
+        throw registered.result;
+      }
+      return registered.result;
+    }
+
+    const sqlLower = sql.trim().toLowerCase();
+
+    const catalogResult = this.querySampleCatalog(sqlLower, credentials);
+    if (catalogResult) {
+      return catalogResult;
+    }
+
+    if (sqlLower.startsWith('select')) {
+      return {
+        columns: ['COLUMN1', 'COLUMN2'],
+        rows: [
+          ['Value1', 'Value2'],
+          ['Value3', 'Value4']
+        ]
+      };
+    }
+
+    if (sqlLower.startsWith('show') || sqlLower.startsWith('describe')) {
+      return {
+        columns: ['NAME', 'TYPE', 'DATABASE', 'SCHEMA', 'OWNER'],
+        rows: [
+          ['TABLE1', 'TABLE', credentials.database || 'MYDB', credentials.schema || 'PUBLIC', credentials.username],
+          ['TABLE2', 'TABLE', credentials.database || 'MYDB', credentials.schema || 'PUBLIC', credentials.username]
+        ]
+      };
+    }
+
+    // DDL and DML statements return no result set
+    return { columns: [], rows: [] };
+  }
+
+  /**
+   * Answer the introspection queries with a small CUSTOMERS/ORDERS schema
+   */
+  private querySampleCatalog(sqlLower: string, credentials: SnowflakeCredentials): SnowflakeQueryResult | null {
+    // Unquoted names are stored in upper case
+    const database = (credentials.database || 'MYDB').toUpperCase();
+    const schema = (credentials.schema || 'PUBLIC').toUpperCase();
+
+    if (sqlLower.startsWith('show databases')) {
+      return { columns: ['created_on', 'name', 'owner'], rows: [[null, database, credentials.username]] };
+    }
+    if (sqlLower.startsWith('show schemas')) {
+      return {
+        columns: ['created_on', 'name', 'database_name'],
+        rows: [[null, 'INFORMATION_SCHEMA', database], [null, schema, database]]
+      };
+    }
+    if (sqlLower.includes('information_schema.sequences')) {
+      return {
+        columns: ['SEQUENCE_NAME', 'START_VALUE', 'INCREMENT', 'COMMENT'],
+        rows: [['ORDER_SEQ', 1, 1, null]]
+      };
+    }
+    if (sqlLower.includes('information_schema.views')) {
+      return {
+        columns: ['TABLE_NAME', 'VIEW_DEFINITION'],
+        rows: [[
+          'ORDER_TOTALS',
+          'create or replace view ORDER_TOTALS as\nselect CUSTOMER_ID, sum(AMOUNT) as TOTAL\nfrom ORDERS\ngroup by CUSTOMER_ID;'
+        ]]
+      };
+    }
+    if (sqlLower.includes('information_schema.tables')) {
+      return {
+        columns: ['TABLE_NAME', 'TABLE_TYPE', 'COMMENT'],
+        rows: [
+          ['CUSTOMERS', 'BASE TABLE', 'Customer master data'],
+          ['ORDERS', 'BASE TABLE', null],
+          ['ORDER_TOTALS', 'VIEW', null]
+        ]
+      };
+    }
+    if (sqlLower.includes('information_schema.columns')) {
+      const columns = [
+        ['CUSTOMERS', 'CUSTOMER_ID', 'NUMBER', null, 38, 0, 'NO', null],
+        ['CUSTOMERS', 'EMAIL', 'TEXT', 255, null, null, 'NO', 'Login email'],
+        ['CUSTOMERS', 'CREATED_AT', 'TIMESTAMP_NTZ', null, null, null, 'YES', null],
+        ['ORDERS', 'ORDER_ID', 'NUMBER', null, 38, 0, 'NO', null],
+        ['ORDERS', 'CUSTOMER_ID', 'NUMBER', null, 38, 0, 'NO', null],
+        ['ORDERS', 'AMOUNT', 'NUMBER', null, 10, 2, 'YES', null],
+        ['ORDER_TOTALS', 'CUSTOMER_ID', 'NUMBER', null, 38, 0, 'YES', null],
+        ['ORDER_TOTALS', 'TOTAL', 'NUMBER', null, 38, 2, 'YES', null]
+      ];
+      return {
+        columns: ['TABLE_NAME', 'COLUMN_NAME', 'DATA_TYPE', 'CHARACTER_MAXIMUM_LENGTH', 'NUMERIC_PRECISION', 'NUMERIC_SCALE', 'IS_NULLABLE', 'COMMENT'],
+        rows: columns.filter(row => sqlLower.includes(`'${String(row[0]).toLowerCase()}'`))
+      };
+    }
+    if (sqlLower.startsWith('show primary keys')) {
+      return {
+        columns: ['database_name', 'schema_name', 'table_name', 'column_name', 'key_sequence', 'constraint_name'],
+        rows: [
+          [database, schema, 'CUSTOMERS', 'CUSTOMER_ID', 1, 'SYS_CONSTRAINT_1'],
+          [database, schema, 'ORDERS', 'ORDER_ID', 1, 'SYS_CONSTRAINT_2']
+        ]
+      };
+    }
+    if (sqlLower.startsWith('show unique keys')) {
+      return {
+        columns: ['database_name', 'schema_name', 'table_name', 'column_name', 'key_sequence', 'constraint_name'],
+        rows: [[database, schema, 'CUSTOMERS', 'EMAIL', 1, 'UQ_CUSTOMERS_EMAIL']]
+      };
+    }
+    if (sqlLower.startsWith('show imported keys')) {
+      return {
+        columns: ['pk_database_name', 'pk_schema_name', 'pk_table_name', 'pk_column_name', 'fk_database_name', 'fk_schema_name', 'fk_table_name', 'fk_column_name', 'key_sequence', 'fk_name'],
+        rows: [[database, schema, 'CUSTOMERS', 'CUSTOMER_ID', database, schema, 'ORDERS', 'CUSTOMER_ID', 1, 'FK_ORDERS_CUSTOMER']]
+      };
+    }
+    if (sqlLower.includes('account_usage.tag_references')) {
+      return {
+        columns: ['OBJECT_NAME', 'COLUMN_NAME', 'TAG_NAME', 'DOMAIN'],
+        rows: [
+          ['CUSTOMERS', null, 'MASTER_DATA', 'TABLE'],
+          ['CUSTOMERS', 'EMAIL', 'PII', 'COLUMN']
+        ]
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Register the result (or error) to return for statements matching a pattern
+   */
+  public respondTo(pattern: RegExp, result: SnowflakeQueryResult | Error): void {
+    this.responses.push({ pattern, result });
+  }
+
+  /**
+   * Forget recorded statements and registered responses
+   */
+  public reset(): void {
+    this.executedStatements = [];
+    this.responses = [];
+  }
+}
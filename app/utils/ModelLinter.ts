@@ -0,0 +1,235 @@
+import { ERDNode, EdgeType, NodeType, Column, LintProblem, LintRuleSettings, LintSeverity } from './types';
+import { findTableByReference } from './qualifiedNames';
+import { getForeignKeyTypeMismatches, getPrimaryKey } from './constraintUtils';
+import { isDerivedTable } from './queryLineage';
+
+export interface LintContext {
+  nodes: ERDNode[];
+  edges: EdgeType[];
+  tables: NodeType[];
+}
+
+// What a rule reports; the linter adds the rule id and the severity configured for it
+export type LintFinding = Omit<LintProblem, 'ruleId' | 'severity'>;
+
+export interface LintRule {
+  id: string;
+  name: string;
+  description: string;
+  defaultSeverity: LintSeverity | 'off';
+  check: (context: LintContext) => LintFinding[];
+}
+
+// Names Snowflake keeps as written without quotes
+const UNQUOTED_NAME_PATTERN = /^[A-Z_][A-Z0-9_$]*$/;
+
+// Handles of a table that aren't tied to a column
+const TABLE_HANDLES = ['top', 'left', 'right', 'bottom'];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const sameName = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+const findColumn = (table: NodeType, name: string) => table.data.columns.find(col => sameName(col.name, name));
+
+/**
+ * Check that a handle id belongs to the table and, for column handles, that the column still exists
+ */
+function isValidHandle(table: NodeType, handle: string): boolean {
+  if (!handle) return true;
+
+  const prefix = `${table.id}-`;
+  if (!handle.startsWith(prefix)) return false;
+
+  const rest = handle.slice(prefix.length);
+  if (TABLE_HANDLES.includes(rest)) return true;
+
+  const match = rest.match(/^col-(.+)-(?:source|target)$/);
+  return !!match && table.data.columns.some(col => col.id === match[1]);
+}
+
+/**
+ * Built-in rules, in the order the rule settings list them
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'primary-key',
+    name: 'Primary key',
+    description: 'Tables should have a primary key',
+    defaultSeverity: 'warning',
+    check: ({ tables }) => tables
+      .filter(table => !isDerivedTable(table.data.tableType) && !getPrimaryKey(table.data))
+      .map(table => ({ nodeId: table.id, message: `${table.data.label} has no primary key` }))
+  },
+  {
+    id: 'foreign-key-reference',
+    name: 'Foreign key reference',
+    description: 'Foreign keys should reference a table and column that exist',
+    defaultSeverity: 'error',
+    check: ({ tables }) => {
+      const findings: LintFinding[] = [];
+
+      for (const table of tables) {
+        const constraints = (table.data.constraints || []).filter(c => c.type === 'FOREIGN KEY');
+        const covered = (col: Column) => constraints.some(c => c.columns.some(name => sameName(name, col.name)));
+
+        for (const col of table.data.columns.filter(col => col.isForeignKey && !covered(col))) {
+          const finding = (message: string) => findings.push({ nodeId: table.id, columnId: col.id, message: `${table.data.label}.${col.name} ${message}` });
+          const target = col.referencedTable ? findTableByReference(tables, col.referencedTable, table.data) : undefined;
+
+          if (!col.referencedTable) {
+            finding('is a foreign key without a referenced table');
+          } else if (!target) {
+            finding(`references ${col.referencedTable}, which isn't in the model`);
+          } else if (!col.referencedColumn) {
+            finding(`doesn't say which column of ${target.data.label} it references`);
+          } else if (!findColumn(target, col.referencedColumn)) {
+            finding(`references ${target.data.label}.${col.referencedColumn}, which doesn't exist`);
+          }
+        }
+
+        for (const constraint of constraints) {
+          const name = constraint.name || `Foreign key (${constraint.columns.join(', ')})`;
+          const target = constraint.referencedTable ? findTableByReference(tables, constraint.referencedTable, table.data) : undefined;
+          const missingColumns = constraint.columns.filter(col => !findColumn(table, col));
+
+          if (missingColumns.length > 0) {
+            findings.push({ nodeId: table.id, message: `${name} on ${table.data.label} uses ${missingColumns.join(', ')}, which ${missingColumns.length === 1 ? "doesn't" : "don't"} exist` });
+          }
+          if (!target) {
+            findings.push({ nodeId: table.id, message: `${name} on ${table.data.label} references ${constraint.referencedTable || 'no table'}, which isn't in the model` });
+            continue;
+          }
+
+          const referencedColumns = constraint.referencedColumns || [];
+          const missingReferences = referencedColumns.filter(col => !findColumn(target, col));
+          if (missingReferences.length > 0) {
+            findings.push({ nodeId: table.id, message: `${name} on ${table.data.label} references ${missingReferences.map(col => `${target.data.label}.${col}`).join(', ')}, which doesn't exist` });
+          } else if (referencedColumns.length === 0 && !getPrimaryKey(target.data)) {
+            findings.push({ nodeId: table.id, message: `${name} on ${table.data.label} references the primary key of ${target.data.label}, which has none` });
+          }
+        }
+      }
+
+      return findings;
+    }
+  },
+  {
+    id: 'duplicate-column',
+    name: 'Duplicate column',
+    description: 'Column names should be unique within a table',
+    defaultSeverity: 'error',
+    check: ({ tables }) => tables.flatMap(table => {
+      const seen = new Set<string>();
+      return table.data.columns
+        .filter(col => {
+          const key = col.name.trim().toUpperCase();
+          if (!key) return false;
+          const isDuplicate = seen.has(key);
+          seen.add(key);
+          return isDuplicate;
+        })
+        .map(col => ({ nodeId: table.id, columnId: col.id, message: `${table.data.label} has more than one column named ${col.name}` }));
+    })
+  },
+  {
+    id: 'foreign-key-type',
+    name: 'Foreign key type',
+    description: 'Foreign key columns should be able to hold the values of the column they reference',
+    defaultSeverity: 'warning',
+    check: ({ tables }) => tables.flatMap(table =>
+      getForeignKeyTypeMismatches(table, tables).map(mismatch => ({
+        nodeId: table.id,
+        columnId: findColumn(table, mismatch.column)?.id,
+        message: `${table.data.label}.${mismatch.column} references ${mismatch.referencedTable}.${mismatch.referencedColumn}: ${mismatch.message}`
+      }))
+    )
+  },
+  {
+    id: 'naming-convention',
+    name: 'Naming convention',
+    description: 'Table and column names should be UPPER_SNAKE_CASE so Snowflake needs no quotes',
+    defaultSeverity: 'info',
+    check: ({ tables }) => tables.flatMap(table => [
+      ...(UNQUOTED_NAME_PATTERN.test(table.data.label)
+        ? []
+        : [{ nodeId: table.id, message: `Table name ${table.data.label} isn't UPPER_SNAKE_CASE` }]),
+      ...table.data.columns
+        .filter(col => !UNQUOTED_NAME_PATTERN.test(col.name))
+        .map(col => ({
+          nodeId: table.id,
+          columnId: col.id,
+          message: col.name.trim()
+            ? `Column name ${table.data.label}.${col.name} isn't UPPER_SNAKE_CASE`
+            : `${table.data.label} has a column without a name`
+        }))
+    ])
+  },
+  {
+    id: 'orphan-edge',
+    name: 'Orphan relationship',
+    description: 'Relationships should connect tables and columns that still exist',
+    defaultSeverity: 'error',
+    check: ({ nodes, edges }) => edges.flatMap(edge => {
+      const source = nodes.find(node => node.id === edge.source);
+      const target = nodes.find(node => node.id === edge.target);
+      const name = `Relationship from ${source?.data.label || 'a deleted table'} to ${target?.data.label || 'a deleted table'}`;
+
+      if (source?.type !== 'table' || target?.type !== 'table') {
+        return [{ edgeId: edge.id, nodeId: (source || target)?.id, message: `${name} isn't connected to a table on both ends` }];
+      }
+      if (!isValidHandle(source, edge.sourceHandle) || !isValidHandle(target, edge.targetHandle)) {
+        return [{ edgeId: edge.id, nodeId: source.id, message: `${name} is attached to a column that no longer exists` }];
+      }
+      return [];
+    })
+  }
+];
+
+/**
+ * Get the severity a rule runs with in a project
+ */
+export function getRuleSeverity(rule: LintRule, settings: LintRuleSettings = {}): LintSeverity | 'off' {
+  return settings[rule.id] || rule.defaultSeverity;
+}
+
+/**
+ * Runs lint rules over the model and collects their problems
+ */
+export default class ModelLinter {
+  private context: LintContext;
+  private settings: LintRuleSettings;
+  private rules: LintRule[];
+
+  constructor(nodes: ERDNode[], edges: EdgeType[], settings: LintRuleSettings = {}, rules: LintRule[] = LINT_RULES) {
+    this.context = {
+      nodes,
+      edges,
+      tables: nodes.filter((node): node is NodeType => node.type === 'table')
+    };
+    this.settings = settings;
+    this.rules = rules;
+  }
+
+  /**
+   * Run every rule that isn't turned off, most severe problems first
+   */
+  public lint(): LintProblem[] {
+    const problems: LintProblem[] = [];
+
+    for (const rule of this.rules) {
+      const severity = getRuleSeverity(rule, this.settings);
+      if (severity === 'off') continue;
+
+      try {
+        for (const finding of rule.check(this.context)) {
+          problems.push({ ...finding, ruleId: rule.id, severity });
+        }
+      } catch (error) {
+        // A broken rule shouldn't hide the problems the others found
+        console.error(`Lint rule ${rule.id} failed:`, error);
+      }
+    }
+
+    return problems.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }
+}
@@ -0,0 +1,114 @@
+import { ProjectFile, migrateProject } from './projectSchema';
+
+const DB_NAME = 'ezerd';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const LAST_PROJECT_KEY = 'ezerd_last_project';
+
+export interface StoredProject {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  project: ProjectFile;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  tableCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Wrap an IndexedDB request in a promise
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Saves projects in the browser's IndexedDB
+ */
+export default class ProjectStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failure
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  /**
+   * List all projects, most recently edited first
+   */
+  public async listProjects(): Promise<ProjectSummary[]> {
+    const store = await this.getStore('readonly');
+    const records = await toPromise(store.getAll()) as StoredProject[];
+
+    return records
+      .map(record => ({
+        id: record.id,
+        name: record.project.name,
+        tableCount: record.project.nodes.filter(node => node.type === 'table').length,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Load a project, upgrading it if it was saved by an older version
+   */
+  public async getProject(id: string): Promise<StoredProject | null> {
+    const store = await this.getStore('readonly');
+    const record = await toPromise(store.get(id)) as StoredProject | undefined;
+    if (!record) return null;
+
+    return { ...record, project: migrateProject(record.project) };
+  }
+
+  public async saveProject(record: StoredProject): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await toPromise(store.put(record));
+  }
+
+  public async deleteProject(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await toPromise(store.delete(id));
+  }
+
+  public getLastProjectId(): string | null {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  }
+
+  public setLastProjectId(id: string): void {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  }
+}
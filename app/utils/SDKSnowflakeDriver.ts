@@ -0,0 +1,172 @@
+import * as snowflake from 'snowflake-sdk';
+import { createHash } from 'crypto';
+import { SnowflakeCredentials } from './types';
+import { SnowflakeDriver, SnowflakeQueryResult } from './SnowflakeDriver';
+
+// Close a session nobody has used for this long
+const SESSION_IDLE_MS = 5 * 60 * 1000;
+
+interface Session {
+  connection: Promise<snowflake.Connection>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Driver that runs statements against a real Snowflake account
+ * through the official Node.js SDK. The credentials come from the browser
+ * on every call, so statements sent with the same credentials share one
+ * session: USE, ALTER SESSION, temporary tables and transactions carry over
+ * from one statement of a script to the next, and only the first one logs in.
+ */
+export default class SDKSnowflakeDriver implements SnowflakeDriver {
+  private sessions = new Map<string, Session>();
+
+  constructor() {
+    snowflake.configure({ logLevel: 'ERROR' });
+  }
+
+  public async testConnection(credentials: SnowflakeCredentials): Promise<void> {
+    const connection = await this.connect(credentials);
+    try {
+      await this.run(connection, 'SELECT CURRENT_VERSION()');
+    } finally {
+      await this.disconnect(connection);
+    }
+  }
+
+  public async execute(credentials: SnowflakeCredentials, sql: string): Promise<SnowflakeQueryResult> {
+    const key = createHash('sha256').update(JSON.stringify(credentials)).digest('hex');
+    const connection = await this.getSession(key, credentials);
+    try {
+      return await this.run(connection, sql);
+    } finally {
+      this.keepAlive(key);
+    }
+  }
+
+  /**
+   * Get the open session for the credentials, logging in when there is none or it was lost
+   */
+  private async getSession(key: string, credentials: SnowflakeCredentials): Promise<snowflake.Connection> {
+    const existing = this.sessions.get(key);
+    if (existing) {
+      const connection = await existing.connection.catch(() => undefined);
+      if (connection?.isUp()) {
+        this.keepAlive(key);
+        return connection;
+      }
+      this.closeSession(key);
+    }
+
+    const session: Session = { connection: this.connect(credentials) };
+    this.sessions.set(key, session);
+    this.keepAlive(key);
+
+    try {
+      return await session.connection;
+    } catch (error) {
+      // A failed login isn't kept, the next statement tries again
+      if (this.sessions.get(key) === session) this.closeSession(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Restart the idle timer of a session
+   */
+  private keepAlive(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => this.closeSession(key), SESSION_IDLE_MS);
+    // Idle sessions shouldn't keep the server process alive
+    session.idleTimer.unref?.();
+  }
+
+  private closeSession(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+
+    this.sessions.delete(key);
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    session.connection.then(connection => this.disconnect(connection), () => undefined);
+  }
+
+  /**
+   * Open a connection using password or key pair authentication
+   */
+  private async connect(credentials: SnowflakeCredentials): Promise<snowflake.Connection> {
+    const options: snowflake.ConnectionOptions = {
+      account: credentials.accountIdentifier,
+      username: credentials.username,
+      role: credentials.role || undefined,
+      warehouse: credentials.warehouse || undefined,
+      database: credentials.database || undefined,
+      schema: credentials.schema || undefined,
+      application: 'EzERD'
+    };
+
+    if (credentials.authType === 'keypair') {
+      options.authenticator = 'SNOWFLAKE_JWT';
+      options.privateKey = credentials.privateKey;
+      if (credentials.privateKeyPass) {
+        options.privateKeyPass = credentials.privateKeyPass;
+      }
+    } else {
+      options.password = credentials.password;
+    }
+
+    const connection = snowflake.createConnection(options);
+
+    return new Promise((resolve, reject) => {
+      connection.connect((err, conn) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(conn);
+        }
+      });
+    });
+  }
+
+  /**
+   * Execute SQL on an open connection. Multiple statements are allowed so a
+   * whole DDL script can be sent at once; the result of the last one is returned.
+   */
+  private run(connection: snowflake.Connection, sql: string): Promise<SnowflakeQueryResult> {
+    return new Promise((resolve, reject) => {
+      connection.execute({
+        sqlText: sql,
+        rowMode: 'array',
+        parameters: { MULTI_STATEMENT_COUNT: 0 },
+        complete: (err, stmt, rows) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+
+          // Walk through the remaining statements of a multi-statement request
+          if ('hasNext' in stmt && stmt.hasNext()) {
+            stmt.NextResult();
+            return;
+          }
+
+          const columns = (stmt.getColumns() || []).map(col => col.getName());
+          resolve({ columns, rows: rows || [] });
+        }
+      });
+    });
+  }
+
+  private disconnect(connection: snowflake.Connection): Promise<void> {
+    return new Promise(resolve => {
+      connection.destroy(err => {
+        if (err) {
+          console.error('Failed to close Snowflake connection:', err);
+        }
+        resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,706 @@
+import { Column, SnowflakeTable, SequenceNodeType } from './types';
+import { isDerivedTable } from './queryLineage';
+import { getSequenceReference } from './sequenceUtils';
+
+export type SQLDialectId = 'snowflake' | 'postgres' | 'bigquery' | 'databricks' | 'sqlserver';
+
+// Words that need quoting in every dialect we generate for
+const COMMON_RESERVED_WORDS = [
+  'table', 'select', 'from', 'where', 'insert', 'update', 'delete',
+  'create', 'alter', 'drop', 'grant', 'revoke', 'order', 'by', 'group',
+  'having', 'join', 'left', 'right', 'outer', 'inner', 'full', 'on',
+  'union', 'all', 'as', 'distinct', 'limit', 'offset', 'with', 'user',
+  'view', 'function', 'primary', 'foreign', 'key', 'references', 'default',
+  'check', 'unique', 'constraint', 'null', 'not', 'and', 'or', 'case', 'when'
+];
+
+/**
+ * Split a data type like NUMBER(38, 0) into its base name and arguments
+ */
+export function splitDataType(dataType: string): { base: string; args: string[] } {
+  const match = dataType.trim().match(/^([a-zA-Z_][a-zA-Z0-9_ ]*?)\s*(?:\(([^)]*)\))?$/);
+  if (!match) return { base: dataType.trim().toUpperCase(), args: [] };
+
+  return {
+    base: match[1].replace(/\s+/g, ' ').toUpperCase(),
+    args: match[2] ? match[2].split(',').map(arg => arg.trim()).filter(Boolean) : []
+  };
+}
+
+/**
+ * Base class for the SQL flavours DDLGenerator can emit.
+ * The defaults describe ANSI-style DDL; dialects override what differs.
+ */
+export abstract class SQLDialect {
+  public abstract readonly id: SQLDialectId;
+  public abstract readonly name: string;
+
+  /** Keyword used to start a CREATE statement */
+  public readonly createPrefix: string = 'CREATE';
+
+  /** Appended to key constraints the database does not enforce */
+  public readonly constraintSuffix: string = '';
+
+  /** Whether ALTER TABLE ... ADD FOREIGN KEY needs a constraint name */
+  public readonly requiresForeignKeyNames: boolean = false;
+
+  public readonly supportsNamedPrimaryKeys: boolean = true;
+
+  public readonly supportsUniqueConstraints: boolean = true;
+
+  /** Whether primary key columns must be declared NOT NULL explicitly */
+  public readonly primaryKeyRequiresNotNull: boolean = false;
+
+  public readonly supportsSequences: boolean = true;
+
+  public readonly supportsMaterializedViews: boolean = true;
+
+  /** Whether CREATE MATERIALIZED VIEW accepts a list of column names */
+  public readonly supportsMaterializedViewColumns: boolean = true;
+
+  protected readonly reservedWords: string[] = COMMON_RESERVED_WORDS;
+
+  /** Snowflake functions used in column defaults and what this dialect calls them, keyed by upper-case name */
+  protected readonly defaultFunctions: Record<string, string> = {};
+
+  /**
+   * Map a (Snowflake) data type from the model to this dialect
+   */
+  public abstract mapDataType(dataType: string): string;
+
+  /**
+   * Get the type a column is declared with, for dialects that restrict the types of e.g. identity columns
+   */
+  public mapColumnType(column: Column): string {
+    return this.mapDataType(column.dataType);
+  }
+
+  /**
+   * Wrap an identifier in the dialect's quote characters
+   */
+  protected abstract quoteIdentifier(identifier: string): string;
+
+  /**
+   * Format identifier for DDL (handles spaces, special chars, reserved words)
+   */
+  public formatIdentifier(identifier: string): string {
+    if (/[^a-zA-Z0-9_]/.test(identifier) || this.reservedWords.includes(identifier.toLowerCase())) {
+      return this.quoteIdentifier(identifier);
+    }
+    return identifier;
+  }
+
+  /**
+   * Format a table name, qualified with its database and schema when they are set
+   */
+  public formatTableName(table: { name: string; database?: string; schema?: string }): string {
+    return [table.schema ? table.database : undefined, table.schema, table.name]
+      .filter((part): part is string => !!part)
+      .map(part => this.formatIdentifier(part))
+      .join('.');
+  }
+
+  /**
+   * Escape single quotes in string literals
+   */
+  public escapeString(str: string): string {
+    return str.replace(/'/g, "''");
+  }
+
+  /**
+   * Get the SQL keyword for an object type. Only Snowflake knows dynamic
+   * and Iceberg tables, so other dialects create those as tables.
+   */
+  public getObjectKeyword(tableType: string): string {
+    switch (tableType) {
+      case 'VIEW':
+        return 'VIEW';
+      case 'MATERIALIZED_VIEW':
+        return this.supportsMaterializedViews ? 'MATERIALIZED VIEW' : 'VIEW';
+      default:
+        return 'TABLE';
+    }
+  }
+
+  /**
+   * How a column gets its value when none is given: identity, then default
+   */
+  public columnValueOptions(column: Column): string {
+    if (column.identity) {
+      return ` GENERATED BY DEFAULT AS IDENTITY (START WITH ${column.identity.start} INCREMENT BY ${column.identity.increment})`;
+    }
+    const defaultValue = column.defaultValue && this.formatDefault(column.defaultValue);
+    return defaultValue ? ` DEFAULT ${defaultValue}` : '';
+  }
+
+  /**
+   * Write a default expression from the model, where sequences are read with Snowflake's SEQ.NEXTVAL.
+   * Dialects without sequences leave sequence defaults out.
+   */
+  protected formatDefault(defaultValue: string): string {
+    return this.supportsSequences || !getSequenceReference(defaultValue) ? this.translateDefaultFunctions(defaultValue) : '';
+  }
+
+  /**
+   * Replace calls of Snowflake functions without arguments, e.g. CURRENT_TIMESTAMP(), with this
+   * dialect's spelling. String literals are matched as a whole so their contents are left alone.
+   */
+  protected translateDefaultFunctions(defaultValue: string): string {
+    return defaultValue.replace(/'(?:[^']|'')*'|\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(\s*\)/g, (match, name?: string) =>
+      (name && this.defaultFunctions[name.toUpperCase()]) ?? match
+    );
+  }
+
+  /**
+   * Clauses that follow START WITH and INCREMENT BY in CREATE SEQUENCE
+   */
+  public sequenceOptions(sequence: SequenceNodeType['data']): string[] {
+    return [];
+  }
+
+  /**
+   * Text appended to a column definition, e.g. an inline comment
+   */
+  public columnOptions(column: Column): string {
+    return '';
+  }
+
+  /**
+   * Clauses that follow the closing parenthesis of CREATE TABLE
+   */
+  public tableOptions(table: SnowflakeTable): string[] {
+    return [];
+  }
+
+  /**
+   * Statements emitted after CREATE TABLE, e.g. comments and tags
+   */
+  public postTableStatements(table: SnowflakeTable): string[] {
+    return [];
+  }
+}
+
+class SnowflakeDialect extends SQLDialect {
+  public readonly id = 'snowflake';
+  public readonly name = 'Snowflake';
+  public readonly createPrefix = 'CREATE OR REPLACE';
+
+  // This is a simplified list of some common Snowflake reserved words
+  protected readonly reservedWords = [
+    'table', 'select', 'from', 'where', 'insert', 'update', 'delete',
+    'create', 'alter', 'drop', 'grant', 'revoke', 'order', 'by', 'group',
+    'having', 'join', 'left', 'right', 'outer', 'inner', 'full', 'on',
+    'union', 'all', 'as', 'distinct', 'limit', 'offset', 'with', 'database',
+    'schema', 'warehouse', 'role', 'user', 'password', 'account', 'view',
+    'function', 'procedure', 'pipe', 'stage', 'file', 'format', 'sequence',
+    'dynamic_table', 'iceberg_table'
+  ];
+
+  public mapDataType(dataType: string): string {
+    return dataType;
+  }
+
+  protected quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  // Unquoted Snowflake identifiers are stored upper-case
+  public formatIdentifier(identifier: string): string {
+    const formatted = super.formatIdentifier(identifier);
+    return formatted === identifier ? identifier.toUpperCase() : formatted;
+  }
+
+  // e.g. DYNAMIC_TABLE -> DYNAMIC TABLE
+  public getObjectKeyword(tableType: string): string {
+    return tableType.replace(/_/g, ' ');
+  }
+
+  public columnValueOptions(column: Column): string {
+    const collation = column.collation ? ` COLLATE '${this.escapeString(column.collation)}'` : '';
+    if (column.identity) {
+      return `${collation} IDENTITY(${column.identity.start}, ${column.identity.increment})`;
+    }
+    return collation + (column.defaultValue ? ` DEFAULT ${column.defaultValue}` : '');
+  }
+
+  public sequenceOptions(sequence: SequenceNodeType['data']): string[] {
+    return sequence.comment ? [`COMMENT = '${this.escapeString(sequence.comment)}'`] : [];
+  }
+
+  public columnOptions(column: Column): string {
+    return column.comment ? ` COMMENT '${this.escapeString(column.comment)}'` : '';
+  }
+
+  public tableOptions(table: SnowflakeTable): string[] {
+    const options: string[] = [];
+
+    if (table.comment) {
+      options.push(`COMMENT = '${this.escapeString(table.comment)}'`);
+    }
+
+    // Special options for different table types
+    if (table.tableType === 'DYNAMIC_TABLE') {
+      options.push(`TARGET_LAG = '${this.escapeString(table.targetLag || '1 minute')}'`); // Default lag for dynamic tables
+      if (table.refreshMode) {
+        options.push(`REFRESH_MODE = ${table.refreshMode}`);
+      }
+      if (table.warehouse) {
+        options.push(`WAREHOUSE = ${this.formatIdentifier(table.warehouse)}`);
+      }
+    } else if (table.tableType === 'ICEBERG_TABLE') {
+      options.push(`WITH ICEBERG_CATALOG = '${this.escapeString(table.icebergCatalog || 'SNOWFLAKE')}'`); // Default catalog for Iceberg tables
+    }
+
+    if (table.tags && table.tags.length > 0) {
+      options.push(`WITH TAG (${table.tags.map(tag => `'${this.escapeString(tag)}' = 'true'`).join(', ')})`);
+    }
+
+    return options;
+  }
+
+  // Column-level tags are set in separate statements
+  public postTableStatements(table: SnowflakeTable): string[] {
+    const keyword = isDerivedTable(table.tableType) ? this.getObjectKeyword(table.tableType!) : 'TABLE';
+    return table.columns
+      .filter(column => column.tags && column.tags.length > 0)
+      .map(column =>
+        `ALTER ${keyword} ${this.formatTableName(table)} MODIFY COLUMN ${this.formatIdentifier(column.name)} SET TAG ` +
+        column.tags!.map(tag => `'${this.escapeString(tag)}' = 'true'`).join(', ') + ';'
+      );
+  }
+}
+
+class PostgresDialect extends SQLDialect {
+  public readonly id = 'postgres';
+  public readonly name = 'PostgreSQL';
+
+  public mapDataType(dataType: string): string {
+    const { base, args } = splitDataType(dataType);
+
+    switch (base) {
+      case 'VARCHAR':
+      case 'CHAR':
+      case 'CHARACTER':
+        return args.length > 0 && Number(args[0]) <= 10485760 ? `${base}(${args[0]})` : 'TEXT';
+      case 'STRING':
+      case 'TEXT':
+        return 'TEXT';
+      case 'NUMBER':
+      case 'DECIMAL':
+      case 'NUMERIC':
+        return args.length > 0 ? `NUMERIC(${args.join(', ')})` : 'NUMERIC';
+      case 'INT':
+      case 'INTEGER':
+        return 'INTEGER';
+      case 'TINYINT':
+      case 'BYTEINT':
+        return 'SMALLINT';
+      case 'FLOAT':
+      case 'FLOAT8':
+      case 'DOUBLE':
+      case 'DOUBLE PRECISION':
+        return 'DOUBLE PRECISION';
+      case 'FLOAT4':
+        return 'REAL';
+      case 'DATETIME':
+      case 'TIMESTAMP':
+      case 'TIMESTAMP_NTZ':
+        return 'TIMESTAMP';
+      case 'TIMESTAMP_LTZ':
+      case 'TIMESTAMP_TZ':
+        return 'TIMESTAMPTZ';
+      case 'VARIANT':
+      case 'OBJECT':
+      case 'ARRAY':
+        return 'JSONB';
+      case 'BINARY':
+      case 'VARBINARY':
+        return 'BYTEA';
+      case 'GEOGRAPHY':
+      case 'GEOMETRY':
+        return 'TEXT';
+      default:
+        return dataType;
+    }
+  }
+
+  protected quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  // A connection sees one database, so names stop at the schema
+  public formatTableName(table: { name: string; database?: string; schema?: string }): string {
+    return super.formatTableName({ name: table.name, schema: table.schema });
+  }
+
+  // Identity columns must be SMALLINT, INTEGER or BIGINT
+  public mapColumnType(column: Column): string {
+    const type = super.mapColumnType(column);
+    return column.identity && !['SMALLINT', 'INTEGER', 'BIGINT'].includes(type) ? 'BIGINT' : type;
+  }
+
+  protected readonly defaultFunctions: Record<string, string> = {
+    CURRENT_TIMESTAMP: 'CURRENT_TIMESTAMP',
+    CURRENT_DATE: 'CURRENT_DATE',
+    CURRENT_TIME: 'CURRENT_TIME',
+    SYSDATE: "(NOW() AT TIME ZONE 'UTC')",
+    GETDATE: 'CURRENT_TIMESTAMP',
+    UUID_STRING: 'gen_random_uuid()::TEXT',
+    CURRENT_USER: 'CURRENT_USER'
+  };
+
+  // Sequences are read with nextval('seq')
+  protected formatDefault(defaultValue: string): string {
+    const sequence = getSequenceReference(defaultValue);
+    return sequence ? `nextval('${this.escapeString(sequence)}')` : this.translateDefaultFunctions(defaultValue);
+  }
+
+  // Postgres has no inline comments, they are attached with COMMENT ON
+  public postTableStatements(table: SnowflakeTable): string[] {
+    const tableName = this.formatTableName(table);
+    const keyword = isDerivedTable(table.tableType) ? this.getObjectKeyword(table.tableType!) : 'TABLE';
+    const statements: string[] = [];
+
+    if (table.comment) {
+      statements.push(`COMMENT ON ${keyword} ${tableName} IS '${this.escapeString(table.comment)}';`);
+    }
+
+    for (const column of table.columns) {
+      if (column.comment) {
+        statements.push(
+          `COMMENT ON COLUMN ${tableName}.${this.formatIdentifier(column.name)} IS '${this.escapeString(column.comment)}';`
+        );
+      }
+    }
+
+    return statements;
+  }
+}
+
+class BigQueryDialect extends SQLDialect {
+  public readonly id = 'bigquery';
+  public readonly name = 'BigQuery';
+  public readonly createPrefix = 'CREATE OR REPLACE';
+  public readonly constraintSuffix = ' NOT ENFORCED';
+  public readonly supportsNamedPrimaryKeys = false;
+  public readonly supportsUniqueConstraints = false;
+  public readonly supportsMaterializedViewColumns = false;
+
+  public mapDataType(dataType: string): string {
+    const { base, args } = splitDataType(dataType);
+
+    switch (base) {
+      case 'VARCHAR':
+      case 'CHAR':
+      case 'CHARACTER':
+      case 'STRING':
+      case 'TEXT':
+        return 'STRING';
+      case 'NUMBER':
+      case 'DECIMAL':
+      case 'NUMERIC': {
+        const precision = Number(args[0] || 38);
+        const scale = Number(args[1] || 0);
+        if (scale === 0) return 'INT64';
+        return precision - scale <= 29 && scale <= 9 ? `NUMERIC(${precision}, ${scale})` : `BIGNUMERIC(${precision}, ${scale})`;
+      }
+      case 'INT':
+      case 'INTEGER':
+      case 'BIGINT':
+      case 'SMALLINT':
+      case 'TINYINT':
+      case 'BYTEINT':
+        return 'INT64';
+      case 'FLOAT':
+      case 'FLOAT4':
+      case 'FLOAT8':
+      case 'DOUBLE':
+      case 'DOUBLE PRECISION':
+      case 'REAL':
+        return 'FLOAT64';
+      case 'DATETIME':
+      case 'TIMESTAMP':
+      case 'TIMESTAMP_NTZ':
+        return 'DATETIME';
+      case 'TIMESTAMP_LTZ':
+      case 'TIMESTAMP_TZ':
+        return 'TIMESTAMP';
+      case 'BOOLEAN':
+        return 'BOOL';
+      case 'VARIANT':
+      case 'OBJECT':
+      case 'ARRAY':
+        return 'JSON';
+      case 'BINARY':
+      case 'VARBINARY':
+        return 'BYTES';
+      default:
+        return dataType;
+    }
+  }
+
+  protected quoteIdentifier(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '\\`')}\``;
+  }
+
+  public readonly supportsSequences = false;
+
+  protected readonly defaultFunctions: Record<string, string> = {
+    SYSDATE: "CURRENT_DATETIME('UTC')",
+    GETDATE: 'CURRENT_DATETIME()',
+    UUID_STRING: 'GENERATE_UUID()',
+    CURRENT_USER: 'SESSION_USER()'
+  };
+
+  // BigQuery has no identity columns
+  public columnValueOptions(column: Column): string {
+    let defaultValue = column.defaultValue && this.formatDefault(column.defaultValue);
+    // TIMESTAMP_NTZ becomes DATETIME, which takes the current DATETIME rather than a TIMESTAMP
+    if (defaultValue && this.mapDataType(column.dataType) === 'DATETIME') {
+      defaultValue = defaultValue.replace(/\bCURRENT_TIMESTAMP\s*\(\s*\)/gi, 'CURRENT_DATETIME()');
+    }
+    return defaultValue ? ` DEFAULT ${defaultValue}` : '';
+  }
+
+  public columnOptions(column: Column): string {
+    return column.comment ? ` OPTIONS(description = '${this.escapeString(column.comment)}')` : '';
+  }
+
+  public tableOptions(table: SnowflakeTable): string[] {
+    return table.comment ? [`OPTIONS(description = '${this.escapeString(table.comment)}')`] : [];
+  }
+
+  // BigQuery string literals use backslash escapes
+  public escapeString(str: string): string {
+    return str.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+}
+
+class DatabricksDialect extends SQLDialect {
+  public readonly id = 'databricks';
+  public readonly name = 'Databricks';
+  public readonly createPrefix = 'CREATE OR REPLACE';
+  public readonly requiresForeignKeyNames = true;
+  public readonly supportsUniqueConstraints = false;
+  public readonly primaryKeyRequiresNotNull = true;
+  public readonly supportsSequences = false;
+
+  protected readonly defaultFunctions: Record<string, string> = {
+    SYSDATE: 'current_timestamp()',
+    GETDATE: 'current_timestamp()',
+    CURRENT_TIME: "date_format(current_timestamp(), 'HH:mm:ss')",
+    UUID_STRING: 'uuid()'
+  };
+
+  public mapDataType(dataType: string): string {
+    const { base, args } = splitDataType(dataType);
+
+    switch (base) {
+      case 'VARCHAR':
+      case 'CHAR':
+      case 'CHARACTER':
+      case 'STRING':
+      case 'TEXT':
+      case 'TIME':
+        return 'STRING';
+      case 'NUMBER':
+      case 'DECIMAL':
+      case 'NUMERIC':
+        return args.length > 0 ? `DECIMAL(${args.join(', ')})` : 'DECIMAL(38, 0)';
+      case 'INTEGER':
+        return 'INT';
+      case 'BYTEINT':
+        return 'TINYINT';
+      case 'FLOAT':
+      case 'FLOAT8':
+      case 'DOUBLE PRECISION':
+        return 'DOUBLE';
+      case 'FLOAT4':
+      case 'REAL':
+        return 'FLOAT';
+      case 'DATETIME':
+      case 'TIMESTAMP_NTZ':
+        return 'TIMESTAMP_NTZ';
+      case 'TIMESTAMP_LTZ':
+      case 'TIMESTAMP_TZ':
+        return 'TIMESTAMP';
+      case 'VARIANT':
+        return 'VARIANT';
+      case 'OBJECT':
+        return 'MAP<STRING, STRING>';
+      case 'ARRAY':
+        return 'ARRAY<STRING>';
+      case 'VARBINARY':
+        return 'BINARY';
+      default:
+        return dataType;
+    }
+  }
+
+  protected quoteIdentifier(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '``')}\``;
+  }
+
+  // Identity columns must be BIGINT
+  public mapColumnType(column: Column): string {
+    return column.identity ? 'BIGINT' : super.mapColumnType(column);
+  }
+
+  public columnOptions(column: Column): string {
+    return column.comment ? ` COMMENT '${this.escapeString(column.comment)}'` : '';
+  }
+
+  public tableOptions(table: SnowflakeTable): string[] {
+    const options = table.comment ? [`COMMENT '${this.escapeString(table.comment)}'`] : [];
+    // Delta tables only accept column defaults with this table feature
+    if (table.columns.some(column => !column.identity && column.defaultValue && this.formatDefault(column.defaultValue))) {
+      options.push(`TBLPROPERTIES ('delta.feature.allowColumnDefaults' = 'supported')`);
+    }
+    return options;
+  }
+
+  // Unity Catalog tags are set in separate statements
+  public postTableStatements(table: SnowflakeTable): string[] {
+    const tableName = this.formatTableName(table);
+    const keyword = isDerivedTable(table.tableType) ? this.getObjectKeyword(table.tableType!) : 'TABLE';
+    const tagList = (tags: string[]) => tags.map(tag => `'${this.escapeString(tag)}' = 'true'`).join(', ');
+    const statements: string[] = [];
+
+    if (table.tags && table.tags.length > 0) {
+      statements.push(`ALTER ${keyword} ${tableName} SET TAGS (${tagList(table.tags)});`);
+    }
+
+    for (const column of table.columns) {
+      if (column.tags && column.tags.length > 0) {
+        statements.push(
+          `ALTER ${keyword} ${tableName} ALTER COLUMN ${this.formatIdentifier(column.name)} SET TAGS (${tagList(column.tags)});`
+        );
+      }
+    }
+
+    return statements;
+  }
+
+  // Databricks string literals use backslash escapes
+  public escapeString(str: string): string {
+    return str.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+}
+
+class SQLServerDialect extends SQLDialect {
+  public readonly id = 'sqlserver';
+  public readonly name = 'SQL Server';
+  // Indexed views need schema binding and an index, so materialized views are created as plain views
+  public readonly supportsMaterializedViews = false;
+
+  public mapDataType(dataType: string): string {
+    const { base, args } = splitDataType(dataType);
+    const length = (max: number) => (args.length > 0 && Number(args[0]) <= max ? args[0] : 'MAX');
+
+    switch (base) {
+      case 'VARCHAR':
+      case 'STRING':
+      case 'TEXT':
+        return `NVARCHAR(${length(4000)})`;
+      case 'CHAR':
+      case 'CHARACTER':
+        return args.length > 0 && Number(args[0]) <= 4000 ? `NCHAR(${args[0]})` : 'NVARCHAR(MAX)';
+      case 'NUMBER':
+      case 'DECIMAL':
+      case 'NUMERIC':
+        return args.length > 0 ? `DECIMAL(${args.join(', ')})` : 'DECIMAL(38, 0)';
+      case 'INTEGER':
+        return 'INT';
+      case 'BYTEINT':
+        return 'TINYINT';
+      case 'DOUBLE':
+      case 'DOUBLE PRECISION':
+      case 'FLOAT4':
+      case 'FLOAT8':
+        return 'FLOAT';
+      case 'DATETIME':
+      case 'TIMESTAMP':
+      case 'TIMESTAMP_NTZ':
+        return 'DATETIME2';
+      case 'TIMESTAMP_LTZ':
+      case 'TIMESTAMP_TZ':
+        return 'DATETIMEOFFSET';
+      case 'BOOLEAN':
+        return 'BIT';
+      case 'VARIANT':
+      case 'OBJECT':
+      case 'ARRAY':
+        return 'NVARCHAR(MAX)';
+      case 'BINARY':
+      case 'VARBINARY':
+        return `VARBINARY(${length(8000)})`;
+      default:
+        return dataType;
+    }
+  }
+
+  protected quoteIdentifier(identifier: string): string {
+    return `[${identifier.replace(/]/g, ']]')}]`;
+  }
+
+  protected readonly defaultFunctions: Record<string, string> = {
+    CURRENT_TIMESTAMP: 'CURRENT_TIMESTAMP',
+    CURRENT_DATE: 'CAST(GETDATE() AS DATE)',
+    CURRENT_TIME: 'CAST(GETDATE() AS TIME)',
+    SYSDATE: 'SYSUTCDATETIME()',
+    UUID_STRING: 'CONVERT(NVARCHAR(36), NEWID())',
+    CURRENT_USER: 'CURRENT_USER'
+  };
+
+  public columnValueOptions(column: Column): string {
+    if (column.identity) {
+      return ` IDENTITY(${column.identity.start}, ${column.identity.increment})`;
+    }
+    return column.defaultValue ? ` DEFAULT ${this.formatDefault(column.defaultValue)}` : '';
+  }
+
+  // Sequences are read with NEXT VALUE FOR seq
+  protected formatDefault(defaultValue: string): string {
+    const sequence = getSequenceReference(defaultValue);
+    return sequence ? `NEXT VALUE FOR ${sequence}` : this.translateDefaultFunctions(defaultValue);
+  }
+
+  // SQL Server stores descriptions as extended properties
+  public postTableStatements(table: SnowflakeTable): string[] {
+    const tableName = this.escapeString(table.name);
+    const objectType = isDerivedTable(table.tableType) ? this.getObjectKeyword(table.tableType!) : 'TABLE';
+    const describe = (description: string, column?: string) =>
+      `EXEC sp_addextendedproperty @name = N'MS_Description', @value = N'${this.escapeString(description)}', ` +
+      `@level0type = N'SCHEMA', @level0name = N'${this.escapeString(table.schema || 'dbo')}', @level1type = N'${objectType}', @level1name = N'${tableName}'` +
+      (column ? `, @level2type = N'COLUMN', @level2name = N'${this.escapeString(column)}'` : '') + ';';
+
+    const statements: string[] = [];
+
+    if (table.comment) {
+      statements.push(describe(table.comment));
+    }
+
+    for (const column of table.columns) {
+      if (column.comment) {
+        statements.push(describe(column.comment, column.name));
+      }
+    }
+
+    return statements;
+  }
+}
+
+export const SQL_DIALECTS: Record<SQLDialectId, SQLDialect> = {
+  snowflake: new SnowflakeDialect(),
+  postgres: new PostgresDialect(),
+  bigquery: new BigQueryDialect(),
+  databricks: new DatabricksDialect(),
+  sqlserver: new SQLServerDialect()
+};
+
+/**
+ * Look up a dialect by id, falling back to Snowflake
+ */
+export function getDialect(id?: SQLDialectId): SQLDialect {
+  return (id && SQL_DIALECTS[id]) || SQL_DIALECTS.snowflake;
+}
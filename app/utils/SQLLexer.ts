@@ -0,0 +1,121 @@
+import { ParseDiagnostic } from './types';
+
+export type SQLTokenType = 'word' | 'quoted' | 'string' | 'number' | 'symbol' | 'comment';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  // Identifiers and strings without their quotes and escapes, everything else as written
+  value: string;
+  // Offsets into the SQL text, end exclusive
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+// Operators read as one symbol
+const MULTI_CHAR_SYMBOLS = ['::', '=>', '->', '<=', '>=', '<>', '!=', '||'];
+
+/**
+ * Split SQL into tokens. Comments are kept as tokens so statements can be cut out of
+ * the text with them; $$-quoted bodies are read as strings. Unterminated quotes and
+ * comments are reported and run to the end of the text.
+ */
+export function tokenizeSQL(sql: string): { tokens: SQLToken[]; diagnostics: ParseDiagnostic[] } {
+  const tokens: SQLToken[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: SQLTokenType, end: number, value = sql.slice(i, end)) => {
+    tokens.push({ type, value, start: i, end, line, column: i - lineStart + 1 });
+    for (let j = i; j < end; j++) {
+      if (sql[j] === '\n') {
+        line++;
+        lineStart = j + 1;
+      }
+    }
+    i = end;
+  };
+  const unterminated = (what: string) => {
+    diagnostics.push({ severity: 'error', message: `Unterminated ${what}`, line, column: i - lineStart + 1 });
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      if (char === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+      i++;
+    } else if ((char === '-' && next === '-') || (char === '/' && next === '/')) {
+      const end = sql.indexOf('\n', i);
+      push('comment', end === -1 ? sql.length : end);
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) unterminated('/* comment');
+      push('comment', end === -1 ? sql.length : end + 2);
+    } else if (char === '$' && next === '$') {
+      const end = sql.indexOf('$$', i + 2);
+      if (end === -1) unterminated('$$ string');
+      push('string', end === -1 ? sql.length : end + 2, sql.slice(i + 2, end === -1 ? sql.length : end));
+    } else if (char === "'" || char === '"') {
+      // Strings escape quotes by doubling them or with a backslash, identifiers only by doubling them
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === '\\' && char === "'") {
+          j += 2;
+        } else if (sql[j] === char && sql[j + 1] === char) {
+          j += 2;
+        } else if (sql[j] === char) {
+          break;
+        } else {
+          j++;
+        }
+      }
+      if (j >= sql.length) unterminated(char === "'" ? 'string' : 'quoted identifier');
+
+      const body = sql.slice(i + 1, Math.min(j, sql.length));
+      const value = char === "'"
+        ? body.replace(/''/g, "'").replace(/\\(['\\])/g, '$1')
+        : body.replace(/""/g, '"');
+      push(char === "'" ? 'string' : 'quoted', Math.min(j + 1, sql.length), value);
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(next || ''))) {
+      const match = sql.slice(i).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)!;
+      push('number', i + match[0].length);
+    } else if (/[a-zA-Z_$]/.test(char)) {
+      const match = sql.slice(i).match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/)!;
+      push('word', i + match[0].length);
+    } else {
+      const symbol = MULTI_CHAR_SYMBOLS.find(candidate => sql.startsWith(candidate, i)) || char;
+      push('symbol', i + symbol.length);
+    }
+  }
+
+  return { tokens, diagnostics };
+}
+
+/**
+ * Group tokens into statements on top-level semicolons. Comments stay with the
+ * statement that follows them; groups without tokens are left out.
+ */
+export function splitTokenStatements(tokens: SQLToken[]): SQLToken[][] {
+  const statements: SQLToken[][] = [];
+  let current: SQLToken[] = [];
+
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.value === ';') {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+
+  if (current.length > 0) statements.push(current);
+  return statements;
+}
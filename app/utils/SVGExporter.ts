@@ -0,0 +1,325 @@
+import { ERDNode, EdgeType, NodeType, DomainNodeType, Column } from './types';
+import { NodeSize } from './AutoLayout';
+import { getContrastingColor } from './colorUtils';
+import { getHandleColumnId } from './edgeUtils';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SVGExportOptions {
+  // Only these nodes, and edges between them, are drawn; all nodes when left out
+  nodeIds?: string[];
+  dark?: boolean;
+  padding?: number;
+}
+
+interface Palette {
+  background: string;
+  tableFill: string;
+  tableBorder: string;
+  text: string;
+  mutedText: string;
+  edge: string;
+  labelFill: string;
+  labelBorder: string;
+  headers: Record<NonNullable<NodeType['data']['tableType']>, string>;
+}
+
+// Light and dark colors matching the Tailwind classes used by TableNode and RelationshipEdge
+const PALETTES: Record<'light' | 'dark', Palette> = {
+  light: {
+    background: '#ffffff',
+    tableFill: '#ffffff',
+    tableBorder: '#d1d5db',
+    text: '#111827',
+    mutedText: '#6b7280',
+    edge: '#000000',
+    labelFill: '#ffffff',
+    labelBorder: '#d1d5db',
+    headers: { TABLE: '#f3f4f6', VIEW: '#ccfbf1', MATERIALIZED_VIEW: '#f3e8ff', DYNAMIC_TABLE: '#fef3c7', ICEBERG_TABLE: '#cffafe' }
+  },
+  dark: {
+    background: '#111827',
+    tableFill: '#1f2937',
+    tableBorder: '#4b5563',
+    text: '#ffffff',
+    mutedText: '#9ca3af',
+    edge: '#ffffff',
+    labelFill: '#1f2937',
+    labelBorder: '#4b5563',
+    headers: { TABLE: '#374151', VIEW: '#115e59', MATERIALIZED_VIEW: '#6b21a8', DYNAMIC_TABLE: '#92400e', ICEBERG_TABLE: '#155e75' }
+  }
+};
+
+const HEADER_HEIGHT = 36;
+const NAMESPACE_HEIGHT = 14; // Extra header room for the database.schema line
+const ROW_HEIGHT = 28;
+const DOMAIN_HEADER_HEIGHT = 36;
+const FONT = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+
+const CARDINALITY_LABELS: Record<EdgeType['data']['relationshipType'], string> = {
+  'one-to-one': '1:1',
+  'one-to-many': '1:N',
+  'many-to-many': 'N:N'
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Draws the diagram as a standalone vector SVG from the model, rather than capturing the
+ * rendered canvas, so it stays sharp at any size
+ */
+export default class SVGExporter {
+  private tables: NodeType[];
+  private domains: DomainNodeType[];
+  private edges: EdgeType[];
+  private sizes: Record<string, NodeSize>;
+  private palette: Palette;
+  private padding: number;
+
+  /**
+   * @param sizes Measured sizes of the rendered nodes; tables without one are sized from their content
+   */
+  constructor(nodes: ERDNode[], edges: EdgeType[], sizes: Record<string, NodeSize> = {}, options: SVGExportOptions = {}) {
+    const included = options.nodeIds ? new Set(options.nodeIds) : null;
+    const scoped = included ? nodes.filter(node => included.has(node.id)) : nodes;
+
+    this.tables = scoped.filter((node): node is NodeType => node.type === 'table');
+    this.domains = scoped.filter((node): node is DomainNodeType => node.type === 'domain');
+    this.edges = edges.filter(edge =>
+      this.tables.some(table => table.id === edge.source) && this.tables.some(table => table.id === edge.target)
+    );
+    this.sizes = sizes;
+    this.palette = PALETTES[options.dark ? 'dark' : 'light'];
+    this.padding = options.padding ?? 40;
+  }
+
+  /**
+   * Area covered by the drawn nodes, including padding
+   */
+  public getBounds(): Bounds {
+    const boxes = [
+      ...this.tables.map(table => ({ ...table.position, ...this.getTableSize(table) })),
+      ...this.domains.map(domain => ({ ...domain.position, width: domain.style?.width || 300, height: domain.style?.height || 200 }))
+    ];
+    if (boxes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+    const minX = Math.min(...boxes.map(box => box.x));
+    const minY = Math.min(...boxes.map(box => box.y));
+    const maxX = Math.max(...boxes.map(box => box.x + box.width));
+    const maxY = Math.max(...boxes.map(box => box.y + box.height));
+
+    return {
+      x: minX - this.padding,
+      y: minY - this.padding,
+      width: maxX - minX + this.padding * 2,
+      height: maxY - minY + this.padding * 2
+    };
+  }
+
+  /**
+   * Generate the SVG document
+   * @param area Part of the diagram to show, e.g. one page of a tiled PDF; the whole diagram by default
+   * @param scale Output pixels per diagram unit
+   */
+  public generate(area: Bounds = this.getBounds(), scale: number = 1): string {
+    const width = Math.ceil(area.width * scale);
+    const height = Math.ceil(area.height * scale);
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${area.x} ${area.y} ${area.width} ${area.height}" font-family="${FONT}">`,
+      `<rect x="${area.x}" y="${area.y}" width="${area.width}" height="${area.height}" fill="${this.palette.background}"/>`,
+      ...this.domains.map(domain => this.renderDomain(domain)),
+      ...this.edges.map(edge => this.renderEdge(edge)),
+      ...this.tables.map(table => this.renderTable(table)),
+      '</svg>'
+    ].join('\n');
+  }
+
+  private getTableSize(table: NodeType): NodeSize {
+    const contentHeight = this.getHeaderHeight(table) + table.data.columns.length * ROW_HEIGHT + 8;
+    const measured = this.sizes[table.id];
+    if (measured) {
+      return { width: measured.width, height: Math.max(measured.height, contentHeight) };
+    }
+
+    const longest = Math.max(table.data.label.length, ...table.data.columns.map(col => col.name.length + col.dataType.length));
+    return { width: Math.max(250, longest * 7 + 120), height: contentHeight };
+  }
+
+  private getHeaderHeight(table: NodeType): number {
+    return HEADER_HEIGHT + (table.data.schema ? NAMESPACE_HEIGHT : 0);
+  }
+
+  private renderDomain(domain: DomainNodeType): string {
+    const { x, y } = domain.position;
+    const width = domain.style?.width || 300;
+    const height = domain.style?.height || 200;
+    const { color, opacity, label } = domain.data;
+
+    return [
+      `<g>`,
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="none" stroke="${color}" stroke-width="2"/>`,
+      `<path d="M ${x} ${y + DOMAIN_HEADER_HEIGHT} V ${y + 8} Q ${x} ${y} ${x + 8} ${y} H ${x + width - 8} Q ${x + width} ${y} ${x + width} ${y + 8} V ${y + DOMAIN_HEADER_HEIGHT} Z" fill="${color}" fill-opacity="${opacity}"/>`,
+      `<text x="${x + 10}" y="${y + 23}" font-size="14" font-weight="bold" fill="${getContrastingColor(color)}">${escapeXml(label)}</text>`,
+      `</g>`
+    ].join('\n');
+  }
+
+  private renderTable(table: NodeType): string {
+    const { x, y } = table.position;
+    const { width, height } = this.getTableSize(table);
+    const headerHeight = this.getHeaderHeight(table);
+    const { data } = table;
+    const parts: string[] = [];
+
+    parts.push(`<g>`);
+    parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="6" fill="${this.palette.tableFill}" stroke="${this.palette.tableBorder}" stroke-width="2"/>`);
+    parts.push(`<path d="M ${x + 1} ${y + headerHeight} V ${y + 6} Q ${x + 1} ${y + 1} ${x + 6} ${y + 1} H ${x + width - 6} Q ${x + width - 1} ${y + 1} ${x + width - 1} ${y + 6} V ${y + headerHeight} Z" fill="${this.palette.headers[data.tableType || 'TABLE']}"/>`);
+    parts.push(`<line x1="${x}" y1="${y + headerHeight}" x2="${x + width}" y2="${y + headerHeight}" stroke="${this.palette.tableBorder}"/>`);
+
+    if (data.schema) {
+      const namespace = `${data.database ? `${data.database}.` : ''}${data.schema}`;
+      parts.push(`<text x="${x + 8}" y="${y + 16}" font-size="11" fill="${this.palette.mutedText}">${escapeXml(namespace)}</text>`);
+    }
+    parts.push(`<text x="${x + 8}" y="${y + headerHeight - 12}" font-size="14" font-weight="600" fill="${this.palette.text}">${escapeXml(data.label)}</text>`);
+    if (data.tableType && data.tableType !== 'TABLE') {
+      parts.push(`<text x="${x + width - 8}" y="${y + headerHeight - 12}" font-size="11" text-anchor="end" fill="${this.palette.mutedText}">${escapeXml(data.tableType.replace(/_/g, ' '))}</text>`);
+    }
+
+    data.columns.forEach((col, index) => {
+      const rowY = y + headerHeight + 4 + index * ROW_HEIGHT;
+      const textY = rowY + ROW_HEIGHT / 2 + 4;
+      const badge = col.isPrimaryKey ? 'PK' : col.isForeignKey ? 'FK' : '';
+
+      if (badge) {
+        const badgeColor = col.isPrimaryKey ? '#eab308' : '#3b82f6';
+        parts.push(`<rect x="${x + 8}" y="${rowY + 6}" width="22" height="16" rx="3" fill="${badgeColor}"/>`);
+        parts.push(`<text x="${x + 19}" y="${textY - 1}" font-size="9" font-weight="bold" text-anchor="middle" fill="#ffffff">${badge}</text>`);
+      }
+      const weight = col.isPrimaryKey ? ' font-weight="600"' : '';
+      parts.push(`<text x="${x + 36}" y="${textY}" font-size="13"${weight} fill="${this.palette.text}">${escapeXml(col.name)}${col.isNullable ? '' : ' *'}</text>`);
+      parts.push(`<text x="${x + width - 8}" y="${textY}" font-size="12" text-anchor="end" fill="${this.palette.mutedText}">${escapeXml(col.dataType)}</text>`);
+    });
+
+    parts.push(`</g>`);
+    return parts.join('\n');
+  }
+
+  /**
+   * Anchor point of an edge end: the row of a connected column, otherwise the middle of the side facing the other table
+   */
+  private getAnchor(table: NodeType, handle: string, side: 'left' | 'right'): { x: number; y: number } {
+    const { width, height } = this.getTableSize(table);
+    const columnId = getHandleColumnId(handle);
+    const index = columnId ? table.data.columns.findIndex((col: Column) => col.id === columnId) : -1;
+
+    return {
+      x: table.position.x + (side === 'right' ? width : 0),
+      y: index === -1
+        ? table.position.y + height / 2
+        : table.position.y + this.getHeaderHeight(table) + 4 + index * ROW_HEIGHT + ROW_HEIGHT / 2
+    };
+  }
+
+  private renderEdge(edge: EdgeType): string {
+    const source = this.tables.find(table => table.id === edge.source)!;
+    const target = this.tables.find(table => table.id === edge.target)!;
+    const relationshipType = edge.data?.relationshipType || 'one-to-many';
+
+    // Column handles sit on the right of the source and the left of the target, as on the canvas
+    const columnEdge = !!getHandleColumnId(edge.sourceHandle) && !!getHandleColumnId(edge.targetHandle);
+    const targetIsLeft = target.position.x + this.getTableSize(target).width / 2 < source.position.x + this.getTableSize(source).width / 2;
+    const sourceSide = columnEdge || !targetIsLeft ? 'right' : 'left';
+    const targetSide = columnEdge || !targetIsLeft ? 'left' : 'right';
+
+    const start = this.getAnchor(source, edge.sourceHandle, sourceSide);
+    const end = this.getAnchor(target, edge.targetHandle, targetSide);
+
+    // Horizontal bezier like React Flow's default edge
+    const offset = Math.max(25, Math.abs(end.x - start.x) / 2);
+    const c1 = start.x + (sourceSide === 'right' ? offset : -offset);
+    const c2 = end.x + (targetSide === 'left' ? -offset : offset);
+    const path = `M ${start.x} ${start.y} C ${c1} ${start.y} ${c2} ${end.y} ${end.x} ${end.y}`;
+    const midX = (start.x + 3 * c1 + 3 * c2 + end.x) / 8;
+    const midY = (start.y + end.y) / 2;
+
+    // Markers are drawn pointing into the table, just outside the side the edge leaves from
+    const rotation = (side: 'left' | 'right') => (side === 'right' ? 180 : 0);
+    const color = this.palette.edge;
+    const bar = `<line x1="-10" y1="-8" x2="-10" y2="8" stroke="${color}" stroke-width="2"/>`;
+    const crowsFoot = `<path d="M -14 -8 L -6 0 L -14 8" fill="none" stroke="${color}" stroke-width="2"/><path d="M -20 -8 L -12 0 L -20 8" fill="none" stroke="${color}" stroke-width="2"/>`;
+    const sourceMarker = relationshipType === 'many-to-many' ? crowsFoot : bar;
+    const targetMarker = relationshipType === 'one-to-one' ? bar : crowsFoot;
+
+    const label = CARDINALITY_LABELS[relationshipType];
+    const labelWidth = label.length * 7 + 8;
+
+    return [
+      `<g>`,
+      `<path d="${path}" fill="none" stroke="${color}" stroke-width="1.5"${relationshipType === 'many-to-many' ? ' stroke-dasharray="5,5"' : ''}/>`,
+      `<g transform="translate(${start.x}, ${start.y}) rotate(${rotation(sourceSide)})">${sourceMarker}</g>`,
+      `<g transform="translate(${end.x}, ${end.y}) rotate(${rotation(targetSide)})">${targetMarker}</g>`,
+      `<rect x="${midX - labelWidth / 2}" y="${midY - 8}" width="${labelWidth}" height="16" rx="4" fill="${this.palette.labelFill}" stroke="${this.palette.labelBorder}"/>`,
+      `<text x="${midX}" y="${midY + 4}" font-size="10" font-weight="bold" text-anchor="middle" fill="${this.palette.text}">${label}</text>`,
+      `</g>`
+    ].join('\n');
+  }
+}
+
+/**
+ * Get a domain and the nodes whose center lies inside it
+ */
+export function getDomainNodeIds(nodes: ERDNode[], domainId: string, sizes: Record<string, NodeSize> = {}): string[] {
+  const domain = nodes.find((node): node is DomainNodeType => node.id === domainId && node.type === 'domain');
+  if (!domain) return [];
+
+  const width = domain.style?.width || 300;
+  const height = domain.style?.height || 200;
+
+  return nodes
+    .filter(node => {
+      if (node.id === domain.id) return true;
+      const size = node.type === 'domain'
+        ? { width: node.style?.width || 300, height: node.style?.height || 200 }
+        : sizes[node.id] || { width: 250, height: HEADER_HEIGHT + (node.type === 'table' ? node.data.columns.length : 2) * ROW_HEIGHT + 8 };
+      const centerX = node.position.x + size.width / 2;
+      const centerY = node.position.y + size.height / 2;
+      return centerX >= domain.position.x && centerX <= domain.position.x + width &&
+        centerY >= domain.position.y && centerY <= domain.position.y + height;
+    })
+    .map(node => node.id);
+}
+
+/**
+ * Render an SVG document to a PNG data URL at its own width and height
+ */
+export function rasterizeSVG(svg: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('Failed to render the SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
@@ -0,0 +1,587 @@
+import { Column, ERDNode, NodeType, SchemaChange, SchemaChangeKind, SequenceNodeType } from './types';
+import DDLGenerator from './DDLGenerator';
+import { getDialect } from './SQLDialects';
+import { getPrimaryKey, getForeignKeys, getUniqueKeys, ResolvedForeignKey, ResolvedKey } from './constraintUtils';
+import { normalizeTableName } from './mergeUtils';
+import { findTableByReference, getQualifiedName } from './qualifiedNames';
+import { getSequenceReference, getSequences } from './sequenceUtils';
+import { isDerivedTable } from './queryLineage';
+import { getDataTypeMismatch } from './dataTypes';
+
+type ChangePhase =
+  | 'dropConstraints'
+  | 'renameTables'
+  | 'dropTables'
+  | 'createTables'
+  | 'alterTables'
+  | 'addConstraints'
+  | 'addForeignKeys';
+
+// Statements are emitted phase by phase so every statement only depends on earlier ones
+const PHASE_ORDER: ChangePhase[] = [
+  'dropConstraints',
+  'renameTables',
+  'dropTables',
+  'createTables',
+  'alterTables',
+  'addConstraints',
+  'addForeignKeys'
+];
+
+export default class SchemaDiff {
+  private oldTables: NodeType[];
+  private newTables: NodeType[];
+  private oldSequences: SequenceNodeType[];
+  private newSequences: SequenceNodeType[];
+  private dialect = getDialect('snowflake');
+  private matches: Map<string, NodeType> = new Map(); // Maps new table ID to the matching old table
+  private phases: Record<ChangePhase, Omit<SchemaChange, 'id'>[]> = {
+    dropConstraints: [],
+    renameTables: [],
+    dropTables: [],
+    createTables: [],
+    alterTables: [],
+    addConstraints: [],
+    addForeignKeys: []
+  };
+
+  constructor(oldNodes: ERDNode[], newNodes: ERDNode[]) {
+    this.oldTables = oldNodes.filter((node): node is NodeType => node.type === 'table');
+    this.newTables = newNodes.filter((node): node is NodeType => node.type === 'table');
+    this.oldSequences = getSequences(oldNodes);
+    this.newSequences = getSequences(newNodes);
+  }
+
+  /**
+   * Compare the two ERD states and list the changes needed to migrate from the old to the new one
+   * @returns Changes in the order their statements have to run
+   */
+  public getChanges(): SchemaChange[] {
+    this.matchTables();
+    this.diffSequences();
+
+    const matchedOldIds = new Set(Array.from(this.matches.values()).map(table => table.id));
+
+    for (const table of this.newTables) {
+      const oldTable = this.matches.get(table.id);
+      if (oldTable) {
+        this.diffTable(oldTable, table);
+      } else {
+        this.addCreateTable(table);
+      }
+    }
+
+    for (const table of this.oldTables) {
+      if (!matchedOldIds.has(table.id)) {
+        this.add('dropTables', 'DROP_TABLE', table.data.label,
+          `Drop ${this.describeType(table)} ${table.data.label}`,
+          `DROP ${this.getKeyword(table)} ${this.formatTableName(table)};`,
+          true);
+      }
+    }
+
+    return PHASE_ORDER
+      .reduce<Omit<SchemaChange, 'id'>[]>((all, phase) => all.concat(this.phases[phase]), [])
+      .map((change, index) => ({ id: `change-${index}`, ...change }));
+  }
+
+  /**
+   * Build the migration script for a list of changes
+   */
+  public static toScript(changes: SchemaChange[]): string {
+    return changes.map(change => change.sql).join('\n\n');
+  }
+
+  /**
+   * Pair tables by ID first, then by name so states imported from DDL can be compared too
+   */
+  private matchTables(): void {
+    const oldById = new Map(this.oldTables.map(table => [table.id, table]));
+    const used = new Set<string>();
+
+    for (const table of this.newTables) {
+      const oldTable = oldById.get(table.id);
+      if (oldTable) {
+        this.matches.set(table.id, oldTable);
+        used.add(oldTable.id);
+      }
+    }
+
+    for (const table of this.newTables) {
+      if (this.matches.has(table.id)) continue;
+
+      const oldTable = this.oldTables.find(old =>
+        !used.has(old.id) &&
+        normalizeTableName(getQualifiedName(old.data)) === normalizeTableName(getQualifiedName(table.data))
+      );
+      if (oldTable) {
+        this.matches.set(table.id, oldTable);
+        used.add(oldTable.id);
+      }
+    }
+  }
+
+  /**
+   * Create, rename, alter and drop sequences. New sequences are created before the
+   * tables whose defaults use them. Snowflake can't restart a sequence, so a changed
+   * start value only applies when the sequence is created.
+   */
+  private diffSequences(): void {
+    const matched = new Set<string>();
+    const findOld = (sequence: SequenceNodeType) =>
+      this.oldSequences.find(old => old.id === sequence.id) ||
+      this.oldSequences.find(old =>
+        !matched.has(old.id) &&
+        normalizeTableName(getQualifiedName(old.data)) === normalizeTableName(getQualifiedName(sequence.data))
+      );
+
+    for (const sequence of this.newSequences) {
+      const label = sequence.data.label;
+      const name = this.formatTableName(sequence);
+      const oldSequence = findOld(sequence);
+      if (!oldSequence) {
+        this.add('createTables', 'CREATE_SEQUENCE', label,
+          `Create sequence ${label}`,
+          new DDLGenerator([sequence], []).generateCreateDDL().trim(),
+          false);
+        continue;
+      }
+      matched.add(oldSequence.id);
+
+      const oldName = this.formatTableName(oldSequence);
+      if (oldName !== name) {
+        this.add('renameTables', 'ALTER_SEQUENCE', label,
+          `Rename sequence ${oldSequence.data.label} to ${label}`,
+          `ALTER SEQUENCE ${oldName} RENAME TO ${name};`,
+          false);
+      }
+
+      if (oldSequence.data.increment !== sequence.data.increment) {
+        this.add('alterTables', 'ALTER_SEQUENCE', label,
+          `Change increment of sequence ${label} to ${sequence.data.increment}`,
+          `ALTER SEQUENCE ${name} SET INCREMENT = ${sequence.data.increment};`,
+          false);
+      }
+
+      if ((oldSequence.data.comment || '') !== (sequence.data.comment || '')) {
+        this.add('alterTables', 'ALTER_SEQUENCE', label,
+          `Change comment of sequence ${label}`,
+          sequence.data.comment
+            ? `ALTER SEQUENCE ${name} SET COMMENT = '${this.dialect.escapeString(sequence.data.comment)}';`
+            : `ALTER SEQUENCE ${name} UNSET COMMENT;`,
+          false);
+      }
+    }
+
+    for (const sequence of this.oldSequences) {
+      if (!matched.has(sequence.id)) {
+        this.add('dropTables', 'DROP_SEQUENCE', sequence.data.label,
+          `Drop sequence ${sequence.data.label}`,
+          `DROP SEQUENCE ${this.formatTableName(sequence)};`,
+          true);
+      }
+    }
+  }
+
+  /**
+   * Emit the CREATE statement for a new table; its foreign keys are added at the end
+   */
+  private addCreateTable(table: NodeType): void {
+    this.add('createTables', 'CREATE_TABLE', table.data.label,
+      `Create ${this.describeType(table)} ${table.data.label}`,
+      new DDLGenerator([table], []).generateCreateDDL().trim(),
+      false);
+
+    for (const fk of getForeignKeys(table.data)) {
+      this.addForeignKey(table, fk);
+    }
+  }
+
+  /**
+   * Compare a table that exists in both states
+   */
+  private diffTable(oldTable: NodeType, newTable: NodeType): void {
+    const oldName = this.formatTableName(oldTable);
+    const newName = this.formatTableName(newTable);
+    const columnMatches = this.matchColumns(oldTable.data.columns, newTable.data.columns);
+
+    const typeChanged = (oldTable.data.tableType || 'TABLE') !== (newTable.data.tableType || 'TABLE');
+    const isDerived = isDerivedTable(newTable.data.tableType);
+    const columnsChanged = newTable.data.columns.length !== oldTable.data.columns.length ||
+      newTable.data.columns.some(col => {
+        const oldCol = columnMatches.get(col.id);
+        return !oldCol || oldCol.name !== col.name || !this.sameType(oldCol, col) || oldCol.isNullable !== col.isNullable;
+      });
+    const queryChanged = this.normalizeQuery(oldTable.data.query) !== this.normalizeQuery(newTable.data.query) ||
+      (oldTable.data.refreshMode || 'AUTO') !== (newTable.data.refreshMode || 'AUTO');
+
+    // Objects that can't be altered in place are replaced
+    if (typeChanged || (isDerived && (columnsChanged || queryChanged))) {
+      this.addRecreateTable(oldTable, newTable, typeChanged);
+      return;
+    }
+
+    if (oldName !== newName) {
+      this.add('renameTables', 'RENAME_TABLE', newTable.data.label,
+        `Rename ${oldTable.data.label} to ${newTable.data.label}`,
+        `ALTER ${this.getKeyword(oldTable)} ${oldName} RENAME TO ${newName};`,
+        false);
+    }
+
+    this.diffTableOptions(oldTable, newTable);
+    this.diffColumns(oldTable, newTable, columnMatches);
+    this.diffConstraints(oldTable, newTable, columnMatches);
+  }
+
+  /**
+   * Drop (if the object type changed) and recreate a table with its current definition
+   */
+  private addRecreateTable(oldTable: NodeType, newTable: NodeType, typeChanged: boolean): void {
+    const oldName = this.formatTableName(oldTable);
+    const renamed = oldName !== this.formatTableName(newTable);
+    const statements: string[] = [];
+
+    if (typeChanged || renamed) {
+      statements.push(`DROP ${this.getKeyword(oldTable)} ${oldName};`);
+    }
+    statements.push(new DDLGenerator([newTable], []).generateCreateDDL().trim());
+
+    // Replacing a table that stores data loses it; views are only redefined
+    const destructive = !isDerivedTable(oldTable.data.tableType);
+
+    this.add('createTables', 'RECREATE_TABLE', newTable.data.label,
+      `Recreate ${oldTable.data.label} as ${this.describeType(newTable)} ${newTable.data.label}`,
+      statements.join('\n\n'),
+      destructive);
+
+    for (const fk of getForeignKeys(newTable.data)) {
+      this.addForeignKey(newTable, fk);
+    }
+  }
+
+  /**
+   * Compare comment and dynamic table lag and warehouse
+   */
+  private diffTableOptions(oldTable: NodeType, newTable: NodeType): void {
+    const name = this.formatTableName(newTable);
+    const keyword = this.getKeyword(newTable);
+
+    if ((oldTable.data.comment || '') !== (newTable.data.comment || '')) {
+      this.add('alterTables', 'ALTER_TABLE', newTable.data.label,
+        `Change comment of ${newTable.data.label}`,
+        newTable.data.comment
+          ? `ALTER ${keyword} ${name} SET COMMENT = '${this.dialect.escapeString(newTable.data.comment)}';`
+          : `ALTER ${keyword} ${name} UNSET COMMENT;`,
+        false);
+    }
+
+    if (newTable.data.tableType === 'DYNAMIC_TABLE' &&
+        (oldTable.data.targetLag || '1 minute') !== (newTable.data.targetLag || '1 minute')) {
+      this.add('alterTables', 'ALTER_TABLE', newTable.data.label,
+        `Change target lag of ${newTable.data.label} to ${newTable.data.targetLag || '1 minute'}`,
+        `ALTER DYNAMIC TABLE ${name} SET TARGET_LAG = '${this.dialect.escapeString(newTable.data.targetLag || '1 minute')}';`,
+        false);
+    }
+
+    if (newTable.data.tableType === 'DYNAMIC_TABLE' && newTable.data.warehouse &&
+        (oldTable.data.warehouse || '').toUpperCase() !== newTable.data.warehouse.toUpperCase()) {
+      this.add('alterTables', 'ALTER_TABLE', newTable.data.label,
+        `Change warehouse of ${newTable.data.label} to ${newTable.data.warehouse}`,
+        `ALTER DYNAMIC TABLE ${name} SET WAREHOUSE = ${this.dialect.formatIdentifier(newTable.data.warehouse)};`,
+        false);
+    }
+  }
+
+  /**
+   * Pair columns by ID first, then by name
+   * @returns Map of new column ID to the matching old column
+   */
+  private matchColumns(oldColumns: Column[], newColumns: Column[]): Map<string, Column> {
+    const matches = new Map<string, Column>();
+    const used = new Set<string>();
+
+    for (const col of newColumns) {
+      const oldCol = oldColumns.find(old => old.id === col.id);
+      if (oldCol) {
+        matches.set(col.id, oldCol);
+        used.add(oldCol.id);
+      }
+    }
+
+    for (const col of newColumns) {
+      if (matches.has(col.id)) continue;
+
+      const oldCol = oldColumns.find(old => !used.has(old.id) && old.name.toUpperCase() === col.name.toUpperCase());
+      if (oldCol) {
+        matches.set(col.id, oldCol);
+        used.add(oldCol.id);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Compare columns: renames, type, nullability, default and comment changes, then additions and drops
+   */
+  private diffColumns(oldTable: NodeType, newTable: NodeType, columnMatches: Map<string, Column>): void {
+    const label = newTable.data.label;
+    const table = this.formatTableName(newTable);
+    const matchedOldIds = new Set(Array.from(columnMatches.values()).map(col => col.id));
+
+    for (const col of newTable.data.columns) {
+      const oldCol = columnMatches.get(col.id);
+      const column = this.formatIdentifier(col.name);
+
+      if (!oldCol) {
+        let definition = `${column} ${col.dataType}${this.dialect.columnValueOptions(col)}`;
+        if (!col.isNullable) definition += ' NOT NULL';
+        if (col.comment) definition += ` COMMENT '${this.dialect.escapeString(col.comment)}'`;
+
+        // Snowflake can't add a NOT NULL column without a value to a table that has rows
+        const needsValue = !col.isNullable && !col.defaultValue && !col.identity;
+        this.add('alterTables', 'ADD_COLUMN', label,
+          `Add column ${col.name} ${col.dataType} to ${label}${needsValue ? ' (NOT NULL without a default fails if the table has rows)' : ''}`,
+          `ALTER TABLE ${table} ADD COLUMN ${definition};`,
+          needsValue);
+        continue;
+      }
+
+      if (this.formatIdentifier(oldCol.name) !== column) {
+        this.add('alterTables', 'RENAME_COLUMN', label,
+          `Rename column ${label}.${oldCol.name} to ${col.name}`,
+          `ALTER TABLE ${table} RENAME COLUMN ${this.formatIdentifier(oldCol.name)} TO ${column};`,
+          false);
+      }
+
+      if (!this.sameType(oldCol, col)) {
+        // A type that can't hold every existing value fails or truncates data
+        const narrowing = getDataTypeMismatch(col.dataType, oldCol.dataType);
+        this.add('alterTables', 'ALTER_COLUMN', label,
+          `Change type of ${label}.${col.name} from ${oldCol.dataType} to ${col.dataType}${narrowing ? ` (${narrowing})` : ''}`,
+          `ALTER TABLE ${table} ALTER COLUMN ${column} SET DATA TYPE ${col.dataType};`,
+          !!narrowing);
+      }
+
+      if (oldCol.isNullable !== col.isNullable) {
+        this.add('alterTables', 'ALTER_COLUMN', label,
+          `Make ${label}.${col.name} ${col.isNullable ? 'nullable' : 'NOT NULL'}`,
+          `ALTER TABLE ${table} ALTER COLUMN ${column} ${col.isNullable ? 'DROP' : 'SET'} NOT NULL;`,
+          false);
+      }
+
+      this.diffColumnValues(newTable, oldCol, col);
+
+      if ((oldCol.comment || '') !== (col.comment || '')) {
+        this.add('alterTables', 'ALTER_COLUMN', label,
+          `Change comment of ${label}.${col.name}`,
+          col.comment
+            ? `ALTER TABLE ${table} ALTER COLUMN ${column} COMMENT '${this.dialect.escapeString(col.comment)}';`
+            : `ALTER TABLE ${table} ALTER COLUMN ${column} UNSET COMMENT;`,
+          false);
+      }
+    }
+
+    for (const oldCol of oldTable.data.columns) {
+      if (!matchedOldIds.has(oldCol.id)) {
+        this.add('alterTables', 'DROP_COLUMN', label,
+          `Drop column ${label}.${oldCol.name}`,
+          `ALTER TABLE ${table} DROP COLUMN ${this.formatIdentifier(oldCol.name)};`,
+          true);
+      }
+    }
+  }
+
+  /**
+   * Compare default, identity and collation of a column. Snowflake can only switch a
+   * default to a sequence or drop it; other changes are left as a note because the
+   * column has to be recreated to apply them.
+   */
+  private diffColumnValues(newTable: NodeType, oldCol: Column, col: Column): void {
+    const label = newTable.data.label;
+    const table = this.formatTableName(newTable);
+    const column = this.formatIdentifier(col.name);
+    const note = (description: string) => this.add('alterTables', 'ALTER_COLUMN', label,
+      description,
+      `-- ${description}: Snowflake cannot alter this in place, recreate ${label}.${col.name} to apply it`,
+      false);
+
+    const sameIdentity = JSON.stringify(oldCol.identity || null) === JSON.stringify(col.identity || null);
+    if (!sameIdentity) {
+      note(col.identity
+        ? `Make ${label}.${col.name} an identity starting at ${col.identity.start}, increment ${col.identity.increment}`
+        : `Remove the identity of ${label}.${col.name}`);
+    } else if ((oldCol.defaultValue || '') !== (col.defaultValue || '')) {
+      if (!col.defaultValue) {
+        this.add('alterTables', 'ALTER_COLUMN', label,
+          `Drop default of ${label}.${col.name}`,
+          `ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT;`,
+          false);
+      } else if (getSequenceReference(col.defaultValue)) {
+        this.add('alterTables', 'ALTER_COLUMN', label,
+          `Set default of ${label}.${col.name} to ${col.defaultValue}`,
+          `ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ${col.defaultValue};`,
+          false);
+      } else {
+        note(`Set default of ${label}.${col.name} to ${col.defaultValue}`);
+      }
+    }
+
+    if ((oldCol.collation || '').toLowerCase() !== (col.collation || '').toLowerCase()) {
+      note(col.collation ? `Set collation of ${label}.${col.name} to '${col.collation}'` : `Remove collation of ${label}.${col.name}`);
+    }
+  }
+
+  /**
+   * Compare primary key, unique and foreign key constraints. Changed constraints are
+   * dropped before any rename (using the old names) and added back at the end.
+   */
+  private diffConstraints(oldTable: NodeType, newTable: NodeType, columnMatches: Map<string, Column>): void {
+    const oldName = this.formatTableName(oldTable);
+    const newLabel = newTable.data.label;
+    const newName = this.formatTableName(newTable);
+
+    // Old column name -> new column name, so renamed columns don't count as a constraint change
+    const renamed = new Map<string, string>();
+    for (const col of newTable.data.columns) {
+      const oldCol = columnMatches.get(col.id);
+      if (oldCol) renamed.set(oldCol.name.toUpperCase(), col.name.toUpperCase());
+    }
+    const oldKey = (key: ResolvedKey) =>
+      `${(key.name || '').toUpperCase()}|${key.columns.map(col => renamed.get(col.toUpperCase()) || `-${col}`).join(',')}`;
+    const newKey = (key: ResolvedKey) =>
+      `${(key.name || '').toUpperCase()}|${key.columns.map(col => col.toUpperCase()).join(',')}`;
+
+    // Primary key
+    const oldPrimaryKey = getPrimaryKey(oldTable.data);
+    const newPrimaryKey = getPrimaryKey(newTable.data);
+    if ((oldPrimaryKey ? oldKey(oldPrimaryKey) : '') !== (newPrimaryKey ? newKey(newPrimaryKey) : '')) {
+      if (oldPrimaryKey) {
+        this.add('dropConstraints', 'DROP_CONSTRAINT', oldTable.data.label,
+          `Drop primary key of ${oldTable.data.label}`,
+          `ALTER TABLE ${oldName} DROP PRIMARY KEY;`,
+          false);
+      }
+      if (newPrimaryKey) {
+        this.add('addConstraints', 'ADD_CONSTRAINT', newLabel,
+          `Add primary key (${newPrimaryKey.columns.join(', ')}) to ${newLabel}`,
+          `ALTER TABLE ${newName} ADD ${this.formatConstraintName(newPrimaryKey.name)}PRIMARY KEY (${this.formatColumns(newPrimaryKey.columns)});`,
+          false);
+      }
+    }
+
+    // Unique keys
+    const oldUniqueKeys = getUniqueKeys(oldTable.data);
+    const newUniqueKeys = getUniqueKeys(newTable.data);
+    const newUniqueSet = new Set(newUniqueKeys.map(newKey));
+    const oldUniqueSet = new Set(oldUniqueKeys.map(oldKey));
+
+    for (const key of oldUniqueKeys) {
+      if (newUniqueSet.has(oldKey(key))) continue;
+      this.add('dropConstraints', 'DROP_CONSTRAINT', oldTable.data.label,
+        `Drop unique key (${key.columns.join(', ')}) of ${oldTable.data.label}`,
+        key.name
+          ? `ALTER TABLE ${oldName} DROP CONSTRAINT ${this.formatIdentifier(key.name)};`
+          : `ALTER TABLE ${oldName} DROP UNIQUE (${this.formatColumns(key.columns)});`,
+        false);
+    }
+    for (const key of newUniqueKeys) {
+      if (oldUniqueSet.has(newKey(key))) continue;
+      this.add('addConstraints', 'ADD_CONSTRAINT', newLabel,
+        `Add unique key (${key.columns.join(', ')}) to ${newLabel}`,
+        `ALTER TABLE ${newName} ADD ${this.formatConstraintName(key.name)}UNIQUE (${this.formatColumns(key.columns)});`,
+        false);
+    }
+
+    // Foreign keys, comparing referenced tables by their matched ID so renames don't count
+    const oldForeignKeys = getForeignKeys(oldTable.data);
+    const newForeignKeys = getForeignKeys(newTable.data);
+    const oldFkKey = (fk: ResolvedForeignKey) =>
+      `${oldKey(fk)}|${this.findTableId(this.oldTables, fk.referencedTable, oldTable)}|${fk.referencedColumns.join(',').toUpperCase()}`;
+    const newFkKey = (fk: ResolvedForeignKey) => {
+      const refId = this.findTableId(this.newTables, fk.referencedTable, newTable);
+      const oldRefId = this.matches.get(refId)?.id || refId;
+      return `${newKey(fk)}|${oldRefId}|${fk.referencedColumns.join(',').toUpperCase()}`;
+    };
+    const newFkSet = new Set(newForeignKeys.map(newFkKey));
+    const oldFkSet = new Set(oldForeignKeys.map(oldFkKey));
+
+    for (const fk of oldForeignKeys) {
+      if (newFkSet.has(oldFkKey(fk))) continue;
+      this.add('dropConstraints', 'DROP_CONSTRAINT', oldTable.data.label,
+        `Drop foreign key (${fk.columns.join(', ')}) of ${oldTable.data.label} referencing ${fk.referencedTable}`,
+        fk.name
+          ? `ALTER TABLE ${oldName} DROP CONSTRAINT ${this.formatIdentifier(fk.name)};`
+          : `ALTER TABLE ${oldName} DROP FOREIGN KEY (${this.formatColumns(fk.columns)});`,
+        false);
+    }
+    for (const fk of newForeignKeys) {
+      if (!oldFkSet.has(newFkKey(fk))) {
+        this.addForeignKey(newTable, fk);
+      }
+    }
+  }
+
+  /**
+   * Add a foreign key, skipping ones that reference a table that doesn't exist
+   */
+  private addForeignKey(table: NodeType, fk: ResolvedForeignKey): void {
+    const target = findTableByReference(this.newTables, fk.referencedTable, table.data);
+    if (!target) return;
+
+    this.add('addForeignKeys', 'ADD_CONSTRAINT', table.data.label,
+      `Add foreign key (${fk.columns.join(', ')}) of ${table.data.label} referencing ${fk.referencedTable}`,
+      `ALTER TABLE ${this.formatTableName(table)} ADD ${this.formatConstraintName(fk.name)}FOREIGN KEY (${this.formatColumns(fk.columns)}) ` +
+        `REFERENCES ${this.formatTableName(target)} (${this.formatColumns(fk.referencedColumns)});`,
+      false);
+  }
+
+  private add(
+    phase: ChangePhase,
+    kind: SchemaChangeKind,
+    table: string,
+    description: string,
+    sql: string,
+    destructive: boolean
+  ): void {
+    this.phases[phase].push({ kind, table, description, sql, destructive });
+  }
+
+  private findTableId(tables: NodeType[], reference: string, from: NodeType): string {
+    return findTableByReference(tables, reference, from.data)?.id || '';
+  }
+
+  // Views take their column types from the query, an untyped column matches any type
+  private sameType(a: Column, b: Column): boolean {
+    if (!a.dataType || !b.dataType) return true;
+    return a.dataType.replace(/\s+/g, '').toUpperCase() === b.dataType.replace(/\s+/g, '').toUpperCase();
+  }
+
+  private normalizeQuery(query?: string): string {
+    return (query || '').trim().replace(/;\s*$/, '').replace(/\s+/g, ' ');
+  }
+
+  private getKeyword(table: NodeType): string {
+    return this.dialect.getObjectKeyword(table.data.tableType || 'TABLE');
+  }
+
+  private describeType(table: NodeType): string {
+    return this.getKeyword(table).toLowerCase();
+  }
+
+  private formatColumns(columns: string[]): string {
+    return columns.map(col => this.formatIdentifier(col)).join(', ');
+  }
+
+  private formatConstraintName(name?: string): string {
+    return name ? `CONSTRAINT ${this.formatIdentifier(name)} ` : '';
+  }
+
+  private formatTableName(table: NodeType | SequenceNodeType): string {
+    return this.dialect.formatTableName({ name: table.data.label, database: table.data.database, schema: table.data.schema });
+  }
+
+  private formatIdentifier(identifier: string): string {
+    return this.dialect.formatIdentifier(identifier);
+  }
+}
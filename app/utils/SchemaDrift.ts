@@ -0,0 +1,194 @@
+import { ERDNode, EdgeType, NodeType, Column, TableDrift, ColumnDrift, SequenceNodeType } from './types';
+import SchemaDiff from './SchemaDiff';
+import { normalizeTableName } from './mergeUtils';
+import { getQualifiedName, TableNamespace } from './qualifiedNames';
+import { isSameDataType, normalizeDataType } from './dataTypes';
+import { isDerivedTable } from './queryLineage';
+import { getSequences } from './sequenceUtils';
+
+/**
+ * Get the database and schema pairs the tables of the model live in
+ */
+export function getModelNamespaces(nodes: ERDNode[], defaults: TableNamespace = {}): { database: string; schema: string }[] {
+  const namespaces = new Map<string, { database: string; schema: string }>();
+
+  for (const node of nodes) {
+    if (node.type !== 'table') continue;
+    const database = node.data.database || defaults.database;
+    const schema = node.data.schema || defaults.schema;
+    if (!database || !schema) {
+      throw new Error(`${node.data.label} has no database and schema. Set them on the table or on your Snowflake connection.`);
+    }
+    namespaces.set(`${database}.${schema}`.toUpperCase(), { database: database.toUpperCase(), schema: schema.toUpperCase() });
+  }
+
+  return Array.from(namespaces.values());
+}
+
+/**
+ * Compares the model on the canvas with the tables that are deployed in Snowflake
+ */
+export default class SchemaDrift {
+  private modelTables: NodeType[];
+  private liveTables: NodeType[];
+  private modelSequences: SequenceNodeType[];
+  private liveSequences: SequenceNodeType[];
+  private defaults: TableNamespace;
+
+  constructor(modelNodes: ERDNode[], liveNodes: ERDNode[], defaults: TableNamespace = {}) {
+    this.modelTables = modelNodes.filter((node): node is NodeType => node.type === 'table');
+    this.liveTables = liveNodes.filter((node): node is NodeType => node.type === 'table');
+    this.modelSequences = getSequences(modelNodes);
+    this.liveSequences = getSequences(liveNodes);
+    this.defaults = defaults;
+  }
+
+  /**
+   * List the tables that are missing from Snowflake, only exist there, or whose columns differ
+   */
+  public getDrift(): TableDrift[] {
+    const drift: TableDrift[] = [];
+    const matched = new Set<string>();
+
+    for (const table of this.modelTables) {
+      const live = this.findLiveTable(table);
+      const name = getQualifiedName(table.data, this.defaults);
+
+      if (!live) {
+        drift.push({ nodeId: table.id, table: name, kind: 'missing', columns: [] });
+        continue;
+      }
+
+      matched.add(live.id);
+      const columns = this.diffColumns(table, live);
+      if (columns.length > 0) {
+        drift.push({ nodeId: table.id, table: name, kind: 'changed', columns });
+      }
+    }
+
+    for (const live of this.liveTables) {
+      if (!matched.has(live.id)) {
+        drift.push({ table: getQualifiedName(live.data), kind: 'extra', columns: [] });
+      }
+    }
+
+    return drift;
+  }
+
+  /**
+   * Get the deployed tables and sequences written the way the model writes them: matched
+   * objects keep the model's id and namespace, others leave out a namespace that repeats the
+   * defaults, and equivalent types keep the model's spelling
+   */
+  public getLiveModel(): ERDNode[] {
+    const tables = this.liveTables.map(live => {
+      const model = this.findModelTable(live);
+      const columns = live.data.columns.map(col => {
+        const modelColumn = model && this.findColumn(model.data.columns, col.name);
+        if (!modelColumn) return col;
+        return {
+          ...col,
+          dataType: isSameDataType(modelColumn.dataType, col.dataType) ? modelColumn.dataType : col.dataType,
+          isNullable: this.isSameNullability(model, modelColumn, col) ? modelColumn.isNullable : col.isNullable
+        };
+      });
+
+      // Matched tables take the id and namespace of the model table
+      return { ...live, id: model ? model.id : live.id, data: { ...live.data, ...this.getNamespace(live, model), columns } };
+    });
+
+    const sequences = this.liveSequences.map(live => {
+      const key = normalizeTableName(getQualifiedName(live.data));
+      const model = this.modelSequences.find(sequence => normalizeTableName(getQualifiedName(sequence.data, this.defaults)) === key);
+      return { ...live, id: model ? model.id : live.id, data: { ...live.data, ...this.getNamespace(live, model) } };
+    });
+
+    return [...sequences, ...tables];
+  }
+
+  /**
+   * Point the edges of the deployed tables at the ids getLiveModel gives them
+   */
+  public getLiveEdges(liveEdges: EdgeType[]): EdgeType[] {
+    const modelId = (id: string) => {
+      const live = this.liveTables.find(table => table.id === id);
+      return (live && this.findModelTable(live)?.id) || id;
+    };
+    return liveEdges.map(edge => ({ ...edge, source: modelId(edge.source), target: modelId(edge.target) }));
+  }
+
+  /**
+   * Build the script that brings Snowflake in line with the model
+   */
+  public getFixScript(): string {
+    return SchemaDiff.toScript(new SchemaDiff(this.getLiveModel(), [...this.modelSequences, ...this.modelTables]).getChanges());
+  }
+
+  /**
+   * The namespace of a live object: the model object's when matched, without the defaults otherwise
+   */
+  private getNamespace(live: NodeType | SequenceNodeType, model?: NodeType | SequenceNodeType): { database?: string; schema?: string } {
+    if (model) return { database: model.data.database, schema: model.data.schema };
+
+    const sameName = (a?: string, b?: string) => (a || '').toUpperCase() === (b || '').toUpperCase();
+    return {
+      database: sameName(live.data.database, this.defaults.database) ? undefined : live.data.database,
+      schema: sameName(live.data.schema, this.defaults.schema) ? undefined : live.data.schema
+    };
+  }
+
+  private findLiveTable(table: NodeType): NodeType | undefined {
+    const key = normalizeTableName(getQualifiedName(table.data, this.defaults));
+    return this.liveTables.find(live => normalizeTableName(getQualifiedName(live.data)) === key);
+  }
+
+  private findModelTable(live: NodeType): NodeType | undefined {
+    return this.modelTables.find(table => this.findLiveTable(table) === live);
+  }
+
+  private findColumn(columns: Column[], name: string): Column | undefined {
+    return columns.find(col => col.name.toUpperCase() === name.toUpperCase());
+  }
+
+  /**
+   * Primary key columns are always NOT NULL in Snowflake, and views take nullability from their query
+   */
+  private isSameNullability(table: NodeType, column: Column, liveColumn: Column): boolean {
+    if (isDerivedTable(table.data.tableType)) return true;
+    return (column.isNullable && !column.isPrimaryKey) === liveColumn.isNullable;
+  }
+
+  private diffColumns(table: NodeType, live: NodeType): ColumnDrift[] {
+    const drift: ColumnDrift[] = [];
+
+    for (const col of table.data.columns) {
+      const liveColumn = this.findColumn(live.data.columns, col.name);
+      if (!liveColumn) {
+        drift.push({ column: col.name, kind: 'missing', expected: col.dataType });
+        continue;
+      }
+
+      if (col.dataType && !isSameDataType(col.dataType, liveColumn.dataType)) {
+        drift.push({ column: col.name, kind: 'type', expected: normalizeDataType(col.dataType), actual: liveColumn.dataType });
+      }
+
+      if (!this.isSameNullability(table, col, liveColumn)) {
+        const nullable = col.isNullable && !col.isPrimaryKey;
+        drift.push({
+          column: col.name,
+          kind: 'nullability',
+          expected: nullable ? 'NULL' : 'NOT NULL',
+          actual: liveColumn.isNullable ? 'NULL' : 'NOT NULL'
+        });
+      }
+    }
+
+    for (const liveColumn of live.data.columns) {
+      if (!this.findColumn(table.data.columns, liveColumn.name)) {
+        drift.push({ column: liveColumn.name, kind: 'extra', actual: liveColumn.dataType });
+      }
+    }
+
+    return drift;
+  }
+}
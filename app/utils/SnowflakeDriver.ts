@@ -0,0 +1,105 @@
+import { SnowflakeCredentials, SnowflakeExecutionResult } from './types';
+
+/**
+ * Rows and column names returned by a single statement
+ */
+export interface SnowflakeQueryResult {
+  columns: string[];
+  rows: any[][];
+}
+
+/**
+ * Contract implemented by everything that can talk to Snowflake on the server.
+ * The API routes only depend on this interface so a fake driver can be swapped
+ * in for offline development.
+ */
+export interface SnowflakeDriver {
+  testConnection(credentials: SnowflakeCredentials): Promise<void>;
+  execute(credentials: SnowflakeCredentials, sql: string): Promise<SnowflakeQueryResult>;
+}
+
+/**
+ * Validate the credentials before handing them to a driver
+ * @returns An error message, or null when the credentials look usable
+ */
+export function validateCredentials(creds: SnowflakeCredentials | undefined | null): string | null {
+  if (!creds) {
+    return 'Snowflake credentials are required';
+  }
+
+  // Check for properly formed account identifier
+  if (!creds.accountIdentifier || !/^[a-z0-9]+-[a-z0-9]+|[a-z0-9]+\.[a-z0-9]+-[0-9]+/i.test(creds.accountIdentifier)) {
+    return 'Invalid account identifier format';
+  }
+
+  // Check for required fields
+  if (!creds.username) {
+    return 'Username is required';
+  }
+
+  // Check for authentication requirements
+  if (creds.authType === 'password' && !creds.password) {
+    return 'Password is required for password authentication';
+  } else if (creds.authType === 'keypair' && !creds.privateKey) {
+    return 'Private key is required for keypair authentication';
+  }
+
+  return null;
+}
+
+/**
+ * Convert a driver result into the shape the client expects
+ */
+export function toExecutionResult(result: SnowflakeQueryResult): SnowflakeExecutionResult {
+  if (result.columns.length === 0) {
+    return {
+      status: 'success',
+      message: 'Statement executed successfully'
+    };
+  }
+
+  return {
+    status: 'success',
+    message: `Query executed successfully (${result.rows.length} rows)`,
+    columns: result.columns,
+    rows: result.rows
+  };
+}
+
+/**
+ * Convert a thrown driver error into an error result
+ */
+export function toErrorResult(message: string, error: unknown): SnowflakeExecutionResult {
+  return {
+    status: 'error',
+    message,
+    error: (error as Error)?.message || 'An unexpected error occurred'
+  };
+}
+
+let driverInstance: SnowflakeDriver | null = null;
+
+/**
+ * Get the driver configured for this server.
+ * Set SNOWFLAKE_DRIVER=fake to use the in-memory driver instead of the Snowflake SDK.
+ */
+export async function getSnowflakeDriver(): Promise<SnowflakeDriver> {
+  if (driverInstance) return driverInstance;
+
+  if (process.env.SNOWFLAKE_DRIVER === 'fake') {
+    const { default: FakeSnowflakeDriver } = await import('./FakeSnowflakeDriver');
+    driverInstance = new FakeSnowflakeDriver();
+  } else {
+    const { default: SDKSnowflakeDriver } = await import('./SDKSnowflakeDriver');
+    driverInstance = new SDKSnowflakeDriver();
+  }
+
+  return driverInstance;
+}
+
+/**
+ * Override the configured driver (used when running against a fake)
+ */
+export function setSnowflakeDriver(driver: SnowflakeDriver | null): void {
+  driverInstance = driver;
+}
@@ -0,0 +1,361 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ERDNode, EdgeType, NodeType, Column, TableConstraint, SnowflakeExecutionResult, SequenceNodeType } from './types';
+import { getTableReference } from './qualifiedNames';
+import { getLineageEdges, isDerivedTable } from './queryLineage';
+import DDLParser from './DDLParser';
+import { addForeignKey } from './constraintUtils';
+import { createForeignKeyEdge } from './edgeUtils';
+
+/**
+ * Runs one statement and returns its result, e.g. `executeSQL` from useSnowflake
+ */
+export type QueryRunner = (sql: string) => Promise<SnowflakeExecutionResult>;
+
+/**
+ * A table or view listed in a schema
+ */
+export interface SnowflakeObject {
+  name: string;
+  tableType: NonNullable<NodeType['data']['tableType']>;
+  comment?: string;
+}
+
+// INFORMATION_SCHEMA.TABLES.TABLE_TYPE -> ERD table type
+const TABLE_TYPES: Record<string, SnowflakeObject['tableType']> = {
+  'BASE TABLE': 'TABLE',
+  'TEMPORARY TABLE': 'TABLE',
+  'EXTERNAL TABLE': 'TABLE',
+  'VIEW': 'VIEW',
+  'MATERIALIZED VIEW': 'MATERIALIZED_VIEW'
+};
+
+// Length Snowflake reports for a VARCHAR declared without one
+const MAX_VARCHAR_LENGTH = 16777216;
+
+/**
+ * Nodes and edges read from a schema. Diagnostics describe the details that couldn't
+ * be read, such as tags or view queries the role isn't allowed to see.
+ */
+export interface IntrospectionResult {
+  nodes: ERDNode[];
+  edges: EdgeType[];
+  diagnostics: string[];
+}
+
+/**
+ * Rows of a result keyed by upper-cased column name.
+ * SHOW commands return lower-case column names while INFORMATION_SCHEMA uses upper case.
+ */
+type Row = Record<string, any>;
+
+export default class SnowflakeIntrospector {
+  private runQuery: QueryRunner;
+
+  constructor(runQuery: QueryRunner) {
+    this.runQuery = runQuery;
+  }
+
+  public async listDatabases(): Promise<string[]> {
+    const rows = await this.query('SHOW DATABASES');
+    return rows.map(row => String(row.NAME));
+  }
+
+  public async listSchemas(database: string): Promise<string[]> {
+    const rows = await this.query(`SHOW SCHEMAS IN DATABASE ${this.quoteIdentifier(database)}`);
+    return rows.map(row => String(row.NAME)).filter(name => name !== 'INFORMATION_SCHEMA');
+  }
+
+  /**
+   * List the tables and views of a schema
+   */
+  public async listObjects(database: string, schema: string): Promise<SnowflakeObject[]> {
+    const rows = await this.query(
+      `SELECT TABLE_NAME, TABLE_TYPE, COMMENT FROM ${this.quoteIdentifier(database)}.INFORMATION_SCHEMA.TABLES ` +
+      `WHERE TABLE_SCHEMA = ${this.quoteString(schema)} ORDER BY TABLE_NAME`
+    );
+
+    return rows.map(row => ({
+      name: String(row.TABLE_NAME),
+      tableType: TABLE_TYPES[String(row.TABLE_TYPE).toUpperCase()] || 'TABLE',
+      ...(row.COMMENT ? { comment: String(row.COMMENT) } : {})
+    }));
+  }
+
+  /**
+   * Build table nodes and relationship edges for the chosen objects of a schema
+   * from their columns, keys, comments and tags, along with the sequences of the
+   * schema that column defaults can draw from
+   */
+  public async introspect(database: string, schema: string, objects: SnowflakeObject[]): Promise<IntrospectionResult> {
+    if (objects.length === 0) return { nodes: [], edges: [], diagnostics: [] };
+
+    const names = objects.map(object => object.name);
+    const schemaName = `${this.quoteIdentifier(database)}.${this.quoteIdentifier(schema)}`;
+
+    const columnRows = await this.query(
+      'SELECT TABLE_NAME, COLUMN_NAME, DATA_TYPE, CHARACTER_MAXIMUM_LENGTH, NUMERIC_PRECISION, NUMERIC_SCALE, IS_NULLABLE, COMMENT, ' +
+      'COLUMN_DEFAULT, IS_IDENTITY, IDENTITY_START, IDENTITY_INCREMENT, COLLATION_NAME ' +
+      `FROM ${this.quoteIdentifier(database)}.INFORMATION_SCHEMA.COLUMNS ` +
+      `WHERE TABLE_SCHEMA = ${this.quoteString(schema)} AND TABLE_NAME IN (${names.map(name => this.quoteString(name)).join(', ')}) ` +
+      'ORDER BY TABLE_NAME, ORDINAL_POSITION'
+    );
+    const primaryKeyRows = await this.query(`SHOW PRIMARY KEYS IN SCHEMA ${schemaName}`);
+    const uniqueKeyRows = await this.query(`SHOW UNIQUE KEYS IN SCHEMA ${schemaName}`);
+    const importedKeyRows = await this.query(`SHOW IMPORTED KEYS IN SCHEMA ${schemaName}`);
+
+    const tables: NodeType[] = objects.map(object => ({
+      id: `table-${uuidv4()}`,
+      type: 'table',
+      position: { x: 0, y: 0 },
+      data: {
+        label: object.name,
+        database,
+        schema,
+        columns: columnRows
+          .filter(row => row.TABLE_NAME === object.name)
+          .map(row => this.toColumn(row)),
+        tableType: object.tableType,
+        comment: object.comment || '',
+        tags: []
+      }
+    }));
+    const findTable = (name: string) => tables.find(table => table.data.label === name);
+
+    for (const table of tables) {
+      const constraints = [
+        ...this.toKeyConstraints(table, primaryKeyRows.filter(row => row.TABLE_NAME === table.data.label), 'PRIMARY KEY'),
+        ...this.toKeyConstraints(table, uniqueKeyRows.filter(row => row.TABLE_NAME === table.data.label), 'UNIQUE')
+      ];
+      if (constraints.length > 0) table.data.constraints = constraints;
+    }
+
+    const diagnostics: string[] = [];
+    await this.addTags(database, schema, tables, diagnostics);
+    await this.addQueries(database, schema, tables.filter(table => isDerivedTable(table.data.tableType)), diagnostics);
+
+    // Imported keys list one row per column of each foreign key
+    const edges: EdgeType[] = [];
+    const foreignKeys = this.groupKeyRows(importedKeyRows.filter(row => findTable(row.FK_TABLE_NAME)), 'FK_NAME', 'FK_TABLE_NAME');
+
+    for (const rows of foreignKeys) {
+      const child = findTable(rows[0].FK_TABLE_NAME)!;
+      const parent = rows[0].PK_DATABASE_NAME === database && rows[0].PK_SCHEMA_NAME === schema
+        ? findTable(rows[0].PK_TABLE_NAME)
+        : undefined;
+      const reference = getTableReference(
+        { label: rows[0].PK_TABLE_NAME, database: rows[0].PK_DATABASE_NAME, schema: rows[0].PK_SCHEMA_NAME },
+        child.data
+      );
+      const foreignKey = {
+        name: this.constraintName(rows[0].FK_NAME),
+        columns: rows.map(row => String(row.FK_COLUMN_NAME)),
+        referencedTable: reference,
+        referencedColumns: rows.map(row => String(row.PK_COLUMN_NAME))
+      };
+
+      addForeignKey(child.data, foreignKey);
+      if (parent) {
+        edges.push(createForeignKeyEdge(child, parent, foreignKey));
+      }
+    }
+
+    // Views are connected to the tables they select from
+    for (const table of tables) {
+      edges.push(...getLineageEdges(table, tables, edges));
+    }
+
+    return { nodes: [...await this.listSequences(database, schema), ...tables], edges, diagnostics };
+  }
+
+  /**
+   * Build the nodes and edges of every table and view in a schema
+   */
+  public async introspectSchema(database: string, schema: string): Promise<IntrospectionResult> {
+    return this.introspect(database, schema, await this.listObjects(database, schema));
+  }
+
+  /**
+   * Build sequence nodes for the sequences of a schema
+   */
+  private async listSequences(database: string, schema: string): Promise<SequenceNodeType[]> {
+    const rows = await this.query(
+      `SELECT SEQUENCE_NAME, START_VALUE, INCREMENT, COMMENT FROM ${this.quoteIdentifier(database)}.INFORMATION_SCHEMA.SEQUENCES ` +
+      `WHERE SEQUENCE_SCHEMA = ${this.quoteString(schema)} ORDER BY SEQUENCE_NAME`
+    );
+
+    return rows.map(row => ({
+      id: `sequence-${uuidv4()}`,
+      type: 'sequence',
+      position: { x: 0, y: 0 },
+      data: {
+        label: String(row.SEQUENCE_NAME),
+        database,
+        schema,
+        start: Number(row.START_VALUE),
+        increment: Number(row.INCREMENT),
+        ...(row.COMMENT ? { comment: String(row.COMMENT) } : {})
+      }
+    }));
+  }
+
+  /**
+   * Run a statement and key its rows by upper-cased column name
+   */
+  private async query(sql: string): Promise<Row[]> {
+    const result = await this.runQuery(sql);
+    if (result.status === 'error') {
+      throw new Error(result.error || result.message);
+    }
+
+    const columns = (result.columns || []).map(col => col.toUpperCase());
+    return (result.rows || []).map(values => {
+      const row: Row = {};
+      columns.forEach((col, i) => {
+        row[col] = Array.isArray(values) ? values[i] : values[col] ?? values[col.toLowerCase()];
+      });
+      return row;
+    });
+  }
+
+  private quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  private quoteString(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Names Snowflake generates for unnamed constraints are left out
+   */
+  private constraintName(name: unknown): string | undefined {
+    return typeof name === 'string' && name && !/^SYS_CONSTRAINT_/i.test(name) ? name : undefined;
+  }
+
+  private toColumn(row: Row): Column {
+    return {
+      id: uuidv4(),
+      name: String(row.COLUMN_NAME),
+      dataType: this.formatDataType(row),
+      isPrimaryKey: false,
+      isForeignKey: false,
+      isNullable: String(row.IS_NULLABLE).toUpperCase() !== 'NO',
+      ...(row.COMMENT ? { comment: String(row.COMMENT) } : {}),
+      ...(row.COLUMN_DEFAULT ? { defaultValue: String(row.COLUMN_DEFAULT) } : {}),
+      ...(String(row.IS_IDENTITY).toUpperCase() === 'YES'
+        ? { identity: { start: Number(row.IDENTITY_START), increment: Number(row.IDENTITY_INCREMENT) } }
+        : {}),
+      ...(row.COLLATION_NAME ? { collation: String(row.COLLATION_NAME) } : {})
+    };
+  }
+
+  /**
+   * Turn the INFORMATION_SCHEMA type columns back into a declared type, e.g. TEXT of length 100 -> VARCHAR(100)
+   */
+  private formatDataType(row: Row): string {
+    const type = String(row.DATA_TYPE).toUpperCase();
+    const length = Number(row.CHARACTER_MAXIMUM_LENGTH);
+
+    if (type === 'TEXT') {
+      return length && length !== MAX_VARCHAR_LENGTH ? `VARCHAR(${length})` : 'VARCHAR';
+    }
+    if (type === 'NUMBER' && row.NUMERIC_PRECISION !== null && row.NUMERIC_PRECISION !== undefined) {
+      return `NUMBER(${row.NUMERIC_PRECISION},${row.NUMERIC_SCALE || 0})`;
+    }
+    return type;
+  }
+
+  /**
+   * Group SHOW ... KEYS rows into one list per constraint, ordered by key sequence
+   */
+  private groupKeyRows(rows: Row[], nameColumn: string, tableColumn: string): Row[][] {
+    const groups = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = `${row[tableColumn]}.${row[nameColumn]}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+    return Array.from(groups.values()).map(group =>
+      group.sort((a, b) => Number(a.KEY_SEQUENCE) - Number(b.KEY_SEQUENCE))
+    );
+  }
+
+  /**
+   * Flag primary key columns and return the constraints that need to be kept.
+   * An unnamed single-column primary key is fully described by the column flag.
+   */
+  private toKeyConstraints(table: NodeType, rows: Row[], type: 'PRIMARY KEY' | 'UNIQUE'): TableConstraint[] {
+    return this.groupKeyRows(rows, 'CONSTRAINT_NAME', 'TABLE_NAME')
+      .map((group): TableConstraint | null => {
+        const columns = group.map(row => String(row.COLUMN_NAME));
+        const name = this.constraintName(group[0].CONSTRAINT_NAME);
+
+        if (type === 'PRIMARY KEY') {
+          table.data.columns.forEach(col => {
+            if (columns.includes(col.name)) {
+              col.isPrimaryKey = true;
+              col.isNullable = false;
+            }
+          });
+          if (!name && columns.length === 1) return null;
+        }
+
+        return { id: uuidv4(), ...(name ? { name } : {}), type, columns };
+      })
+      .filter((constraint): constraint is TableConstraint => !!constraint);
+  }
+
+  /**
+   * Read the queries of views from their definitions. Views whose definition can't be
+   * read are kept without a query.
+   */
+  private async addQueries(database: string, schema: string, views: NodeType[], diagnostics: string[]): Promise<void> {
+    if (views.length === 0) return;
+
+    try {
+      const rows = await this.query(
+        `SELECT TABLE_NAME, VIEW_DEFINITION FROM ${this.quoteIdentifier(database)}.INFORMATION_SCHEMA.VIEWS ` +
+        `WHERE TABLE_SCHEMA = ${this.quoteString(schema)} AND TABLE_NAME IN (${views.map(view => this.quoteString(view.data.label)).join(', ')})`
+      );
+
+      for (const row of rows) {
+        const view = views.find(table => table.data.label === row.TABLE_NAME);
+        const definition = row.VIEW_DEFINITION ? new DDLParser(String(row.VIEW_DEFINITION)).parse().nodes[0] : undefined;
+        if (view && definition?.type === 'table' && definition.data.query) {
+          view.data.query = definition.data.query;
+        }
+      }
+    } catch (error) {
+      diagnostics.push(`The view queries of ${database}.${schema} couldn't be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Add the table and column tags, read for the whole schema at once. Reading tags needs
+   * extra privileges, so a failure leaves the tables untagged instead of failing the import.
+   */
+  private async addTags(database: string, schema: string, tables: NodeType[], diagnostics: string[]): Promise<void> {
+    try {
+      const rows = await this.query(
+        'SELECT OBJECT_NAME, COLUMN_NAME, TAG_NAME, DOMAIN FROM SNOWFLAKE.ACCOUNT_USAGE.TAG_REFERENCES ' +
+        `WHERE OBJECT_DATABASE = ${this.quoteString(database)} AND OBJECT_SCHEMA = ${this.quoteString(schema)} ` +
+        'AND OBJECT_DELETED IS NULL ORDER BY OBJECT_NAME, TAG_NAME'
+      );
+
+      for (const row of rows) {
+        const table = tables.find(t => t.data.label === row.OBJECT_NAME);
+        if (!table) continue;
+
+        const tag = String(row.TAG_NAME);
+        const domain = String(row.DOMAIN).toUpperCase();
+        if (domain === 'COLUMN') {
+          const column = table.data.columns.find(col => col.name === row.COLUMN_NAME);
+          if (column) column.tags = Array.from(new Set([...(column.tags || []), tag]));
+        } else if (domain === 'TABLE') {
+          table.data.tags = Array.from(new Set([...(table.data.tags || []), tag]));
+        }
+      }
+    } catch (error) {
+      diagnostics.push(`The tags of ${database}.${schema} couldn't be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
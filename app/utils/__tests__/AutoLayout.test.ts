@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import AutoLayout, { LayoutAlgorithm, NodeSize } from '../AutoLayout';
+import { DomainNodeType, ERDNode, NodeType } from '../types';
+import { column, sequence, table } from './fixtures';
+
+const size: NodeSize = { width: 250, height: 200 };
+
+const at = (node: NodeType, x: number, y: number): NodeType => ({ ...node, position: { x, y } });
+
+const customers = table('customers', { label: 'CUSTOMERS', columns: [column('ID', 'NUMBER', { isPrimaryKey: true })] });
+const orders = table('orders', {
+  label: 'ORDERS',
+  columns: [column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'ID' })]
+});
+const payments = table('payments', {
+  label: 'PAYMENTS',
+  columns: [column('ORDER_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'ORDERS', referencedColumn: 'ORDER_ID' })]
+});
+const products = table('products', { label: 'PRODUCTS', columns: [] });
+
+const sales: DomainNodeType = {
+  id: 'sales',
+  type: 'domain',
+  position: { x: 0, y: 0 },
+  style: { width: 1000, height: 1000 },
+  data: { label: 'Sales', color: '#3b82f6', opacity: 0.3 }
+};
+
+const layout = (nodes: ERDNode[], algorithm: LayoutAlgorithm) => {
+  const sizes = Object.fromEntries(nodes.filter(node => node.type === 'table').map(node => [node.id, size]));
+  return new AutoLayout(nodes, [], sizes).layout(algorithm);
+};
+
+const find = (nodes: ERDNode[], id: string) => nodes.find(node => node.id === id)!;
+
+const overlaps = (a: ERDNode, b: ERDNode) =>
+  a.position.x < b.position.x + size.width && b.position.x < a.position.x + size.width &&
+  a.position.y < b.position.y + size.height && b.position.y < a.position.y + size.height;
+
+describe('AutoLayout', () => {
+  it('places referenced tables above the tables that reference them', () => {
+    const nodes = layout([payments, orders, customers], 'layered');
+
+    expect(find(nodes, 'customers').position.y).toBeLessThan(find(nodes, 'orders').position.y);
+    expect(find(nodes, 'orders').position.y).toBeLessThan(find(nodes, 'payments').position.y);
+  });
+
+  it.each<LayoutAlgorithm>(['layered', 'force', 'grid'])('leaves no %s tables on top of each other', algorithm => {
+    const tables = [customers, orders, payments, products];
+    const nodes = layout(tables, algorithm);
+
+    for (let i = 0; i < tables.length; i++) {
+      for (let j = i + 1; j < tables.length; j++) {
+        expect(overlaps(nodes[i], nodes[j])).toBe(false);
+      }
+    }
+  });
+
+  it('keeps the tables of a domain inside it and fits the domain around them', () => {
+    const nodes = layout([sales, at(customers, 100, 100), at(orders, 500, 100), at(products, 2000, 2000)], 'grid');
+    const domain = find(nodes, 'sales') as DomainNodeType;
+    const inside = (node: ERDNode) =>
+      node.position.x >= domain.position.x && node.position.x + size.width <= domain.position.x + domain.style!.width! &&
+      node.position.y >= domain.position.y && node.position.y + size.height <= domain.position.y + domain.style!.height!;
+
+    expect(domain.style).toEqual({ width: 250 * 2 + 60 + 40 * 2, height: 200 + 50 + 40 });
+    expect(inside(find(nodes, 'customers'))).toBe(true);
+    expect(inside(find(nodes, 'orders'))).toBe(true);
+    expect(inside(find(nodes, 'products'))).toBe(false);
+  });
+
+  it('lines up sequences below the tables', () => {
+    const nodes = layout([customers, sequence('seq-1', { label: 'SEQ_1' }), sequence('seq-2', { label: 'SEQ_2' })], 'grid');
+
+    expect(find(nodes, 'seq-1').position).toEqual({ x: 0, y: 200 + 120 });
+    expect(find(nodes, 'seq-2').position).toEqual({ x: 260, y: 200 + 120 });
+  });
+});
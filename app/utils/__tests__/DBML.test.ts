@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import DBMLGenerator from '../DBMLGenerator';
+import DBMLParser from '../DBMLParser';
+import { NodeType } from '../types';
+import { column, table } from './fixtures';
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  schema: 'CORE',
+  comment: 'Customer master data',
+  columns: [
+    column('CUSTOMER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }),
+    column('EMAIL', 'VARCHAR(255)', { isNullable: false, comment: 'Login email' })
+  ]
+});
+
+const orders = table('orders', {
+  label: 'ORDERS',
+  schema: 'CORE',
+  columns: [
+    column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }),
+    column('CUSTOMER_ID', 'NUMBER(38,0)', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'CUSTOMER_ID' }),
+    column('AMOUNT', 'NUMBER(10, 2)')
+  ]
+});
+
+const parseTables = (dbml: string) =>
+  new DBMLParser(dbml).parse().nodes.filter((node): node is NodeType => node.type === 'table');
+
+describe('DBML', () => {
+  it('reads back the tables, keys and notes it writes', () => {
+    const dbml = new DBMLGenerator([customers, orders], []).generate();
+    const [parsedCustomers, parsedOrders] = parseTables(dbml);
+
+    expect(dbml).toContain('Ref: CORE.ORDERS.CUSTOMER_ID > CORE.CUSTOMERS.CUSTOMER_ID');
+    expect(parsedCustomers.data).toMatchObject({ label: 'CUSTOMERS', schema: 'CORE', comment: 'Customer master data' });
+    expect(parsedCustomers.data.columns.map(col => [col.name, col.isPrimaryKey, col.isNullable, col.comment])).toEqual([
+      ['CUSTOMER_ID', true, false, ''],
+      ['EMAIL', false, false, 'Login email']
+    ]);
+    expect(parsedOrders.data.columns[1]).toMatchObject({ isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'CUSTOMER_ID' });
+  });
+
+  it('keeps the spelling of type arguments', () => {
+    const dbml = new DBMLGenerator([customers, orders], []).generate();
+    const parsedOrders = parseTables(dbml)[1];
+
+    expect(parsedOrders.data.columns.map(col => col.dataType)).toEqual(['NUMBER(38,0)', 'NUMBER(38,0)', 'NUMBER(10, 2)']);
+  });
+
+  it('leaves out views without columns and names them in a comment', () => {
+    const view = table('totals', { label: 'ORDER_TOTALS', schema: 'CORE', tableType: 'VIEW', columns: [], query: 'SELECT 1' });
+    const dbml = new DBMLGenerator([customers, view], []).generate();
+
+    expect(dbml.startsWith('// Views without columns are left out: CORE.ORDER_TOTALS\n')).toBe(true);
+    expect(dbml).not.toContain('Table CORE.ORDER_TOTALS');
+    expect(parseTables(dbml).map(node => node.data.label)).toEqual(['CUSTOMERS']);
+  });
+
+  it('draws single-column refs between the column handles', () => {
+    const { edges } = new DBMLParser(
+      'Table a {\n  id int [pk]\n}\nTable b {\n  id int [pk]\n  a_id int [ref: > a.id]\n}'
+    ).parse();
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0].sourceHandle).toMatch(/-col-.+-source$/);
+    expect(edges[0].targetHandle).toMatch(/-col-.+-target$/);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import DBTManifestParser from '../DBTManifestParser';
+import { NodeType } from '../types';
+
+const model = (name: string, columns: string[], extra: object = {}) => ({
+  unique_id: `model.shop.${name}`,
+  resource_type: 'model',
+  name,
+  database: 'ANALYTICS',
+  schema: 'CORE',
+  config: { materialized: 'table' },
+  columns: Object.fromEntries(columns.map(col => [col, { name: col, data_type: 'number' }])),
+  ...extra
+});
+
+const test = (name: string, attachedNode: string, metadata: object, extra: object = {}) => ({
+  unique_id: `test.shop.${name}`,
+  resource_type: 'test',
+  name,
+  attached_node: attachedNode,
+  test_metadata: metadata,
+  ...extra
+});
+
+const parse = (nodes: object[]) => {
+  const manifest = { nodes: Object.fromEntries(nodes.map(node => [(node as { unique_id: string }).unique_id, node])) };
+  const { nodes: parsed, edges, diagnostics } = new DBTManifestParser(JSON.stringify(manifest)).parse();
+  return { tables: parsed as NodeType[], edges, diagnostics };
+};
+
+describe('DBTManifestParser', () => {
+  it('builds keys and relationships from tests', () => {
+    const { tables, edges, diagnostics } = parse([
+      model('customers', ['customer_id']),
+      model('orders', ['order_id', 'customer_id'], { depends_on: { nodes: ['model.shop.customers'] } }),
+      test('unique_customers_id', 'model.shop.customers', { name: 'unique', kwargs: {} }, { column_name: 'customer_id' }),
+      test('not_null_customers_id', 'model.shop.customers', { name: 'not_null', kwargs: {} }, { column_name: 'customer_id' }),
+      test('relationships_orders_customer', 'model.shop.orders',
+        { name: 'relationships', kwargs: { to: "ref('customers')", field: 'customer_id' } },
+        { column_name: 'customer_id' })
+    ]);
+    const [customers, orders] = tables;
+
+    expect(diagnostics).toEqual([]);
+    expect(customers.data.columns[0]).toMatchObject({ isPrimaryKey: true, isNullable: false, dataType: 'NUMBER' });
+    expect(orders.data.columns[1]).toMatchObject({ isForeignKey: true, referencedTable: 'customers', referencedColumn: 'customer_id' });
+    expect(edges).toEqual([expect.objectContaining({ source: orders.id, target: customers.id })]);
+  });
+
+  it('reports relationships to models that are not in the manifest', () => {
+    const { tables, diagnostics } = parse([
+      model('orders', ['order_id', 'customer_id']),
+      test('relationships_orders_customer', 'model.shop.orders',
+        { name: 'relationships', kwargs: { to: "ref('customers')", field: 'customer_id' } },
+        { column_name: 'customer_id' })
+    ]);
+
+    expect(tables[0].data.columns[1].isForeignKey).toBe(false);
+    expect(diagnostics).toEqual([{
+      severity: 'warning',
+      message: "The relationships test relationships_orders_customer on orders.customer_id refers to ref('customers'), which is not in the manifest"
+    }]);
+  });
+
+  it('reports foreign key constraints on columns the model does not have', () => {
+    const { diagnostics } = parse([
+      model('customers', ['customer_id']),
+      model('orders', ['order_id'], {
+        constraints: [{ type: 'foreign_key', columns: ['customer_id'], to: "ref('customers')", to_columns: ['customer_id'] }]
+      })
+    ]);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain("names columns orders doesn't have");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import * as yaml from 'js-yaml';
+import DBTSchemaGenerator from '../DBTSchemaGenerator';
+import { ERDNode } from '../types';
+import { column, table } from './fixtures';
+
+interface Schema {
+  models?: { name: string; config?: { materialized: string; alias?: string }; tests?: unknown[]; columns?: { name: string; tests?: unknown[] }[] }[];
+  sources?: { name: string; tables: { name: string }[] }[];
+}
+
+const generate = (nodes: ERDNode[]) => yaml.load(new DBTSchemaGenerator(nodes, []).generate()) as Schema;
+
+const customers = (id: string, schema: string) => table(id, {
+  label: 'CUSTOMERS',
+  database: 'SALES',
+  schema,
+  columns: [column('CUSTOMER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false })]
+});
+
+describe('DBTSchemaGenerator', () => {
+  it('turns keys into column and model tests', () => {
+    const orders = table('orders', {
+      label: 'ORDERS',
+      tableType: 'VIEW',
+      columns: [
+        column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }),
+        column('LINE', 'NUMBER(38,0)', { isNullable: false }),
+        column('CUSTOMER_ID', 'NUMBER(38,0)', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'CUSTOMER_ID' })
+      ],
+      constraints: [{ id: 'uq', type: 'UNIQUE', columns: ['ORDER_ID', 'LINE'] }]
+    });
+    const [model] = generate([orders, table('customers', { label: 'CUSTOMERS', columns: [column('CUSTOMER_ID', 'NUMBER(38,0)')] })]).models!;
+
+    expect(model.config).toEqual({ materialized: 'view' });
+    expect(model.tests).toEqual([{ 'dbt_utils.unique_combination_of_columns': { combination_of_columns: ['ORDER_ID', 'LINE'] } }]);
+    expect(model.columns!.map(col => col.tests)).toEqual([
+      ['unique', 'not_null'],
+      ['not_null'],
+      [{ relationships: { to: "ref('CUSTOMERS')", field: 'CUSTOMER_ID' } }]
+    ]);
+  });
+
+  it('writes tables named source.table as sources', () => {
+    const raw = table('raw', { label: 'stripe.payments', columns: [column('ID', 'NUMBER')] });
+
+    expect(generate([raw])).toEqual({ version: 2, sources: [{ name: 'stripe', tables: [expect.objectContaining({ name: 'payments' })] }] });
+  });
+
+  it('keeps tables of the same name in different schemas apart', () => {
+    const orders = table('orders', {
+      label: 'ORDERS',
+      database: 'SALES',
+      schema: 'CORE',
+      columns: [column('CUSTOMER_ID', 'NUMBER(38,0)', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'CUSTOMER_ID' })]
+    });
+    const { models } = generate([customers('raw-customers', 'RAW'), customers('core-customers', 'CORE'), orders]);
+
+    expect(models!.map(model => [model.name, model.config])).toEqual([
+      ['RAW_CUSTOMERS', { materialized: 'table', alias: 'CUSTOMERS' }],
+      ['CORE_CUSTOMERS', { materialized: 'table', alias: 'CUSTOMERS' }],
+      ['ORDERS', { materialized: 'table' }]
+    ]);
+    expect(models![2].columns![0].tests).toEqual([{ relationships: { to: "ref('CORE_CUSTOMERS')", field: 'CUSTOMER_ID' } }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import DDLExecutor, { formatExecutionLog } from '../DDLExecutor';
+import { QueryRunner } from '../SnowflakeIntrospector';
+import { StatementExecution } from '../types';
+
+const script = [
+  '-- Customers first',
+  'CREATE TABLE CUSTOMERS (ID NUMBER);',
+  'CREATE TABLE ORDERS (CUSTOMER_ID NUMBER REFERENCES MISSING (ID));',
+  '/* only a comment */;',
+  'CREATE TABLE PAYMENTS (ID NUMBER);'
+].join('\n');
+
+// Fails every statement about orders
+const runQuery: QueryRunner = async sql => sql.includes('ORDERS')
+  ? { status: 'error', message: 'Query failed', error: "Table 'MISSING' does not exist" }
+  : { status: 'success', message: 'Statement executed successfully' };
+
+const summarize = (executions: StatementExecution[]) => executions.map(({ index, status, error }) => ({ index, status, error }));
+
+describe('DDLExecutor', () => {
+  it('leaves out statements that only hold comments', () => {
+    expect(DDLExecutor.getStatements(script)).toHaveLength(3);
+  });
+
+  it('lists the statements without running them on a dry run', async () => {
+    const sent: string[] = [];
+    const executor = new DDLExecutor(async sql => {
+      sent.push(sql);
+      return { status: 'success', message: '' };
+    });
+
+    const executions = await executor.execute(script, { stopOnError: true, dryRun: true });
+
+    expect(sent).toEqual([]);
+    expect(executions.map(execution => execution.status)).toEqual(['skipped', 'skipped', 'skipped']);
+  });
+
+  it('skips the rest of the script after an error when asked to stop', async () => {
+    const executions = await new DDLExecutor(runQuery).execute(script, { stopOnError: true, dryRun: false });
+
+    expect(summarize(executions)).toEqual([
+      { index: 0, status: 'success', error: undefined },
+      { index: 1, status: 'error', error: "Table 'MISSING' does not exist" },
+      { index: 2, status: 'skipped', error: undefined }
+    ]);
+  });
+
+  it('runs every statement otherwise, recording thrown errors', async () => {
+    const updates: StatementExecution['status'][][] = [];
+    const executor = new DDLExecutor(async sql => {
+      if (sql.includes('ORDERS')) throw new Error('Network error');
+      return runQuery(sql);
+    });
+
+    const executions = await executor.execute(script, { stopOnError: false, dryRun: false }, transcript => {
+      updates.push(transcript.map(execution => execution.status));
+    });
+
+    expect(summarize(executions)).toEqual([
+      { index: 0, status: 'success', error: undefined },
+      { index: 1, status: 'error', error: 'Network error' },
+      { index: 2, status: 'success', error: undefined }
+    ]);
+    expect(updates[0]).toEqual(['pending', 'pending', 'pending']);
+    expect(updates[1]).toEqual(['running', 'pending', 'pending']);
+  });
+});
+
+describe('formatExecutionLog', () => {
+  it('writes the transcript as commented SQL', () => {
+    const log = formatExecutionLog([
+      { index: 0, sql: 'CREATE TABLE A (ID NUMBER)', status: 'success', durationMs: 12 },
+      { index: 1, sql: 'CREATE TABLE B (ID NUMBER)', status: 'error', message: 'Query failed', error: 'line one\nline two' }
+    ], { Account: 'org-account', Role: undefined });
+
+    expect(log).toBe([
+      '-- Account: org-account',
+      '-- Statements: 2 (1 succeeded, 1 failed, 0 skipped)',
+      '',
+      '-- [1/2] SUCCESS in 12 ms',
+      'CREATE TABLE A (ID NUMBER);',
+      '',
+      '-- [2/2] ERROR',
+      '-- Query failed',
+      '-- Error: line one',
+      '-- Error: line two',
+      'CREATE TABLE B (ID NUMBER);',
+      ''
+    ].join('\n'));
+  });
+});
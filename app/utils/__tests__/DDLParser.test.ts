@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import DDLParser from '../DDLParser';
+import { getForeignKeys } from '../constraintUtils';
+import DDLGenerator from '../DDLGenerator';
+import { NodeType } from '../types';
+
+const parse = (ddl: string) => {
+  const { nodes, diagnostics } = new DDLParser(ddl).parse();
+  return { tables: nodes.filter((node): node is NodeType => node.type === 'table'), diagnostics };
+};
+
+describe('DDLParser table options', () => {
+  it('reads the columns after options that come before the column list', () => {
+    const { tables, diagnostics } = parse(
+      "create or replace TABLE T cluster by (ID) COMMENT = 'Clustered' (\n  ID NUMBER(38,0) NOT NULL,\n  NAME VARCHAR(100)\n);"
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(tables[0].data.columns.map(col => col.name)).toEqual(['ID', 'NAME']);
+    expect(tables[0].data.comment).toBe('Clustered');
+  });
+
+  it('skips option values in parentheses after the column list', () => {
+    const { tables, diagnostics } = parse(
+      "CREATE TABLE T (ID INT) CLUSTER BY (ID) STAGE_FILE_FORMAT = (TYPE = CSV) WITH ROW ACCESS POLICY P ON (ID);"
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(tables[0].data.columns.map(col => col.name)).toEqual(['ID']);
+  });
+
+  it('reports a parenthesized list it does not understand', () => {
+    const { diagnostics } = parse('CREATE TABLE T (ID INT) (NAME VARCHAR);');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', line: 1, column: 25 });
+  });
+
+  it('warns that a table created from a query has no columns', () => {
+    const { tables, diagnostics } = parse('CREATE TABLE T AS SELECT ID FROM S;');
+
+    expect(tables[0].data.columns).toEqual([]);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'warning', message: 'Columns of a table created with AS SELECT are not imported' });
+  });
+
+  it('keeps the columns of a table created from a query with a column list', () => {
+    const { tables, diagnostics } = parse('CREATE TABLE T (ID INT) AS SELECT ID FROM S;');
+
+    expect(diagnostics).toEqual([]);
+    expect(tables[0].data.columns.map(col => col.name)).toEqual(['ID']);
+  });
+});
+
+describe('DDLParser foreign keys', () => {
+  it('points the column at the referenced column as it is spelled in the table', () => {
+    const { tables } = parse(
+      'CREATE TABLE ORDERS ("Order Id" INT PRIMARY KEY);\n' +
+      'CREATE TABLE LINES (ID INT, "Order Ref" INT, FOREIGN KEY ("Order Ref") REFERENCES ORDERS ("Order Id"));'
+    );
+
+    expect(tables[1].data.columns[1]).toMatchObject({ isForeignKey: true, referencedTable: 'ORDERS', referencedColumn: 'Order Id' });
+  });
+
+  it('keeps an inline reference on a column of a composite foreign key', () => {
+    const ddl =
+      'CREATE TABLE ORDERS (ORDER_ID INT, SHOP_ID INT, PRIMARY KEY (ORDER_ID, SHOP_ID));\n' +
+      'CREATE TABLE SHOPS (SHOP_ID INT PRIMARY KEY);\n' +
+      'CREATE TABLE LINES (\n' +
+      '  ORDER_ID INT,\n' +
+      '  SHOP_ID INT REFERENCES SHOPS (SHOP_ID),\n' +
+      '  FOREIGN KEY (ORDER_ID, SHOP_ID) REFERENCES ORDERS (ORDER_ID, SHOP_ID)\n' +
+      ');';
+    const { tables } = parse(ddl);
+    const lines = tables.find(table => table.data.label === 'LINES')!;
+
+    expect(getForeignKeys(lines.data)).toEqual([
+      { name: undefined, columns: ['SHOP_ID'], referencedTable: 'SHOPS', referencedColumns: ['SHOP_ID'] },
+      { name: undefined, columns: ['ORDER_ID', 'SHOP_ID'], referencedTable: 'ORDERS', referencedColumns: ['ORDER_ID', 'SHOP_ID'] }
+    ]);
+    expect(new DDLGenerator(tables, []).generateDDL()).toContain('ADD FOREIGN KEY (SHOP_ID)\n  REFERENCES SHOPS (SHOP_ID);');
+  });
+});
+
+describe('DDLParser diagnostics', () => {
+  it('imports the rest of the script around statements it cannot read', () => {
+    const { tables, diagnostics } = parse([
+      'GRANT SELECT ON TABLE A TO ROLE ANALYST;',
+      'CREATE TABLE (ID NUMBER);',
+      'CREATE TABLE A (ID NUMBER, NAME VARCHAR(10) DEFAULT, EMAIL VARCHAR);'
+    ].join('\n'));
+
+    expect(tables.map(node => node.data.columns.map(col => col.name))).toEqual([['ID', 'EMAIL']]);
+    expect(diagnostics).toEqual([
+      {
+        severity: 'warning',
+        message: 'GRANT SELECT statements are not imported',
+        line: 1,
+        column: 1,
+        statement: 'GRANT SELECT ON TABLE A TO ROLE ANALYST'
+      },
+      {
+        severity: 'error',
+        message: 'Expected a name but found "("; the statement was not imported',
+        line: 2,
+        column: 14,
+        statement: 'CREATE TABLE (ID NUMBER)'
+      },
+      {
+        severity: 'error',
+        message: 'Expected an expression after DEFAULT but found ","; the "NAME" definition was skipped',
+        line: 3,
+        column: 52,
+        statement: 'CREATE TABLE A (ID NUMBER, NAME VARCHAR(10) DEFAULT, EMAIL VARCHAR)'
+      }
+    ]);
+  });
+
+  it('warns about tables and columns the script does not create', () => {
+    const { diagnostics } = parse([
+      'CREATE TABLE B (ID NUMBER REFERENCES MISSING (ID));',
+      'ALTER TABLE NOPE ADD PRIMARY KEY (ID);',
+      "COMMENT ON COLUMN B.NOPE IS 'Gone';"
+    ].join('\n'));
+
+    expect(diagnostics.map(({ severity, message, line }) => ({ severity, message, line }))).toEqual([
+      { severity: 'warning', message: 'Could not create the relationship from B to MISSING: the table is not created in this DDL', line: 1 },
+      { severity: 'warning', message: 'NOPE is not created in this DDL; the statement was skipped', line: 2 },
+      { severity: 'warning', message: 'B has no column NOPE; the statement was skipped', line: 3 }
+    ]);
+  });
+
+  it('sorts lexer errors in with the statement errors', () => {
+    const { diagnostics } = parse("CREATE TABLE A (ID NUMBER);\nCREATE TABLE C (ID NUMBER COMMENT 'open);");
+
+    expect(diagnostics.map(({ message, line, column }) => ({ message, line, column }))).toEqual([
+      { message: 'Unterminated string', line: 2, column: 35 },
+      { message: 'Expected ")" but the statement ended; the statement was not imported', line: 2, column: 35 }
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import DDLGenerator from '../DDLGenerator';
+import DDLParser from '../DDLParser';
+import { ERDNode, NodeType } from '../types';
+import { column, sequence, table } from './fixtures';
+
+type TableType = NonNullable<NodeType['data']['tableType']>;
+
+const TABLE_TYPES: TableType[] = ['TABLE', 'VIEW', 'MATERIALIZED_VIEW', 'DYNAMIC_TABLE', 'ICEBERG_TABLE'];
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  comment: "Customer's master data",
+  tags: ['DOMAIN'],
+  columns: [
+    column('CUSTOMER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }),
+    column('EMAIL', 'VARCHAR(255)', { isNullable: false, comment: "Customer's login", tags: ['PII'] })
+  ]
+});
+
+/**
+ * Build a model with an object of the given type that reads from or references CUSTOMERS
+ */
+function buildModel(tableType: TableType): NodeType[] {
+  const base = { label: 'ORDERS', database: 'SALES', schema: 'CORE', comment: `Orders as ${tableType}`, tags: ['TIER'] };
+  let orders: NodeType;
+
+  switch (tableType) {
+    case 'VIEW':
+    case 'MATERIALIZED_VIEW':
+      orders = table('orders', {
+        ...base,
+        tableType,
+        columns: [column('CUSTOMER_ID', ''), column('ORDER_COUNT', '')],
+        query: 'SELECT CUSTOMER_ID, COUNT(*) AS ORDER_COUNT\nFROM CUSTOMERS\nGROUP BY CUSTOMER_ID'
+      });
+      break;
+    case 'DYNAMIC_TABLE':
+      orders = table('orders', {
+        ...base,
+        tableType,
+        columns: [column('CUSTOMER_ID', 'NUMBER(38,0)'), column('EMAIL', 'VARCHAR(255)')],
+        query: 'SELECT CUSTOMER_ID, EMAIL FROM CUSTOMERS',
+        targetLag: '1 hour',
+        warehouse: 'TRANSFORM_WH',
+        refreshMode: 'INCREMENTAL'
+      });
+      break;
+    default:
+      orders = table('orders', {
+        ...base,
+        tableType,
+        ...(tableType === 'ICEBERG_TABLE' ? { icebergCatalog: 'SNOWFLAKE' } : {}),
+        columns: [
+          column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }),
+          column('CUSTOMER_ID', 'NUMBER(38,0)', {
+            isForeignKey: true,
+            isNullable: false,
+            referencedTable: 'CUSTOMERS',
+            referencedColumn: 'CUSTOMER_ID',
+            comment: 'Who ordered'
+          }),
+          column('AMOUNT', 'NUMBER(10,2)', { tags: ['FINANCE'] })
+        ]
+      });
+  }
+
+  return [customers, orders];
+}
+
+const roundTrip = (ddl: string) => {
+  const { nodes, edges, diagnostics } = new DDLParser(ddl).parse();
+  return { ddl: new DDLGenerator(nodes, edges).generateDDL(), nodes, diagnostics };
+};
+
+describe('DDL round trip', () => {
+  it.each(TABLE_TYPES)('generate -> parse -> generate is a fixed point for %s', (tableType) => {
+    const ddl = new DDLGenerator(buildModel(tableType), []).generateDDL();
+
+    const first = roundTrip(ddl);
+    expect(first.diagnostics).toEqual([]);
+    expect(first.ddl).toBe(ddl);
+    expect(roundTrip(first.ddl).ddl).toBe(ddl);
+  });
+
+  it.each(TABLE_TYPES)('keeps comments, tags and options of a %s', (tableType) => {
+    const nodes = buildModel(tableType);
+    const parsed = roundTrip(new DDLGenerator(nodes, []).generateDDL()).nodes;
+    const expected = nodes[1].data;
+    const orders = parsed.find((node): node is NodeType => node.type === 'table' && node.data.label === 'ORDERS')!.data;
+
+    expect(orders.tableType).toBe(tableType);
+    expect(orders.comment).toBe(expected.comment);
+    expect(orders.tags).toEqual(expected.tags);
+    expect(orders.query).toBe(expected.query);
+    expect(orders.targetLag).toBe(expected.targetLag);
+    expect(orders.warehouse).toBe(expected.warehouse);
+    expect(orders.refreshMode).toBe(expected.refreshMode);
+    expect(orders.icebergCatalog).toBe(expected.icebergCatalog);
+    expect(orders.columns.map(col => [col.name, col.comment || undefined, col.tags?.length ? col.tags : undefined]))
+      .toEqual(expected.columns.map(col => [col.name, col.comment, col.tags]));
+  });
+});
+
+describe('DDL round trip of column options', () => {
+  const model: ERDNode[] = [
+    sequence('order-seq', { label: 'ORDER_SEQ', start: 1000, increment: 10, comment: 'Order numbers' }),
+    table('orders', {
+      label: 'ORDERS',
+      columns: [
+        column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false, defaultValue: 'ORDER_SEQ.NEXTVAL' }),
+        column('LINE_ID', 'NUMBER(38,0)', { isNullable: false, identity: { start: 1, increment: 1 } }),
+        column('STATUS', 'VARCHAR(20)', { defaultValue: "'NEW'", collation: 'en-ci' }),
+        column('CREATED_AT', 'TIMESTAMP_NTZ(9)', { defaultValue: 'CURRENT_TIMESTAMP()' })
+      ]
+    })
+  ];
+
+  it('keeps defaults, identities, collations and sequences without diagnostics', () => {
+    const ddl = new DDLGenerator(model, []).generateDDL();
+    const { nodes, edges, diagnostics } = new DDLParser(ddl).parse();
+
+    expect(diagnostics).toEqual([]);
+    expect(new DDLGenerator(nodes, edges).generateDDL()).toBe(ddl);
+    expect(nodes.find(node => node.type === 'sequence')!.data)
+      .toEqual({ label: 'ORDER_SEQ', start: 1000, increment: 10, comment: 'Order numbers' });
+
+    const orders = nodes.find((node): node is NodeType => node.type === 'table')!;
+    expect(orders.data.columns.map(({ name, defaultValue, identity, collation }) => ({ name, defaultValue, identity, collation }))).toEqual([
+      { name: 'ORDER_ID', defaultValue: 'ORDER_SEQ.NEXTVAL', identity: undefined, collation: undefined },
+      { name: 'LINE_ID', defaultValue: undefined, identity: { start: 1, increment: 1 }, collation: undefined },
+      { name: 'STATUS', defaultValue: "'NEW'", identity: undefined, collation: 'en-ci' },
+      { name: 'CREATED_AT', defaultValue: 'CURRENT_TIMESTAMP()', identity: undefined, collation: undefined }
+    ]);
+  });
+});
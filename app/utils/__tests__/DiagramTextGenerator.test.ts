@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import DiagramTextGenerator from '../DiagramTextGenerator';
+import { getColumnHandleId } from '../edgeUtils';
+import { EdgeType } from '../types';
+import { column, table } from './fixtures';
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  comment: 'People who order',
+  columns: [
+    column('CUSTOMER_ID', 'NUMBER(38, 0)', { isPrimaryKey: true, isNullable: false }),
+    column('EMAIL', 'VARCHAR(255)', { comment: 'Login "name"' })
+  ],
+  constraints: [{ id: 'uq', type: 'UNIQUE', columns: ['EMAIL'] }]
+});
+
+const orders = table('orders', {
+  label: 'ORDERS',
+  columns: [
+    column('ORDER_ID', 'NUMBER', { isPrimaryKey: true, isNullable: false }),
+    column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'CUSTOMER_ID' })
+  ]
+});
+
+// Drawn from the referenced column to the foreign key, against the direction of the key
+const oneToOne: EdgeType = {
+  id: 'e1',
+  source: 'customers',
+  target: 'orders',
+  sourceHandle: getColumnHandleId('customers', 'CUSTOMER_ID', 'source'),
+  targetHandle: getColumnHandleId('orders', 'CUSTOMER_ID', 'target'),
+  type: 'relationship',
+  data: { relationshipType: 'one-to-one' }
+};
+
+describe('DiagramTextGenerator', () => {
+  it('writes a Mermaid entity per table and a relationship per foreign key', () => {
+    expect(new DiagramTextGenerator([customers, orders], []).toMermaid()).toBe([
+      'erDiagram',
+      '    CUSTOMERS |o--o{ ORDERS : "CUSTOMER_ID"',
+      '    CUSTOMERS {',
+      '        NUMBER(38_0) CUSTOMER_ID PK',
+      '        VARCHAR(255) EMAIL UK "Login \'name\'"',
+      '    }',
+      '    ORDERS {',
+      '        NUMBER ORDER_ID PK',
+      '        NUMBER CUSTOMER_ID FK',
+      '    }',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes PlantUML entities with the keys above the separator', () => {
+    expect(new DiagramTextGenerator([customers, orders], [oneToOne]).toPlantUML()).toBe([
+      '@startuml',
+      'hide circle',
+      'skinparam linetype ortho',
+      '',
+      'entity "CUSTOMERS" as CUSTOMERS {',
+      '  * CUSTOMER_ID : NUMBER(38, 0) <<PK>>',
+      '  --',
+      '  EMAIL : VARCHAR(255) <<UK>>',
+      '}',
+      'note bottom of CUSTOMERS : People who order',
+      '',
+      'entity "ORDERS" as ORDERS {',
+      '  * ORDER_ID : NUMBER <<PK>>',
+      '  --',
+      '  CUSTOMER_ID : NUMBER <<FK>>',
+      '}',
+      '',
+      'CUSTOMERS |o--o| ORDERS : CUSTOMER_ID',
+      '@enduml',
+      ''
+    ].join('\n'));
+  });
+
+  it('qualifies tables of the same name with their schema', () => {
+    const raw = table('raw', { ...customers.data, schema: 'RAW', comment: undefined, constraints: [] });
+    const core = table('core', { ...customers.data, schema: 'CORE', comment: undefined, constraints: [] });
+
+    expect(new DiagramTextGenerator([raw, core], []).toMermaid()).toMatch(/ {4}RAW_CUSTOMERS \{[\s\S]* {4}CORE_CUSTOMERS \{/);
+  });
+});
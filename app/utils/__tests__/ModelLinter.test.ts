@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ModelLinter, { LINT_RULES, LintRule } from '../ModelLinter';
+import { getColumnHandleId } from '../edgeUtils';
+import { EdgeType, ERDNode } from '../types';
+import { column, table } from './fixtures';
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  columns: [column('ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false })]
+});
+
+const edge = (source: string, target: string, sourceHandle = '', targetHandle = ''): EdgeType => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+  targetHandle,
+  type: 'relationship',
+  data: { relationshipType: 'one-to-many' }
+});
+
+const lint = (nodes: ERDNode[], edges: EdgeType[] = []) =>
+  new ModelLinter(nodes, edges).lint().map(({ ruleId, severity, message }) => ({ ruleId, severity, message }));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ModelLinter', () => {
+  it('finds nothing wrong with a clean model', () => {
+    const orders = table('orders', {
+      label: 'ORDERS',
+      columns: [
+        column('ORDER_ID', 'NUMBER', { isPrimaryKey: true }),
+        column('CUSTOMER_ID', 'INT', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'ID' })
+      ]
+    });
+    const view = table('view', { label: 'ACTIVE_CUSTOMERS', tableType: 'VIEW', columns: [column('ID', '')] });
+
+    expect(lint([customers, orders, view], [edge('orders', 'customers', getColumnHandleId('orders', 'CUSTOMER_ID', 'source'), 'customers-left')]))
+      .toEqual([]);
+  });
+
+  it('checks keys, column names and relationships, errors first', () => {
+    const orders = table('orders', {
+      label: 'Orders',
+      columns: [
+        column('CUSTOMER_ID', 'VARCHAR(10)', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'ID' }),
+        column('SHOP_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'SHOPS', referencedColumn: 'ID' }),
+        column('NOTE', 'VARCHAR'),
+        column('note', 'VARCHAR')
+      ]
+    });
+
+    expect(lint([customers, orders], [edge('orders', 'deleted'), edge('orders', 'customers', 'orders-col-GONE-source')])).toEqual([
+      { ruleId: 'foreign-key-reference', severity: 'error', message: "Orders.SHOP_ID references SHOPS, which isn't in the model" },
+      { ruleId: 'duplicate-column', severity: 'error', message: 'Orders has more than one column named note' },
+      { ruleId: 'orphan-edge', severity: 'error', message: "Relationship from Orders to a deleted table isn't connected to a table on both ends" },
+      { ruleId: 'orphan-edge', severity: 'error', message: 'Relationship from Orders to CUSTOMERS is attached to a column that no longer exists' },
+      { ruleId: 'primary-key', severity: 'warning', message: 'Orders has no primary key' },
+      { ruleId: 'foreign-key-type', severity: 'warning', message: 'Orders.CUSTOMER_ID references CUSTOMERS.ID: VARCHAR(10) is not compatible with NUMBER(38,0)' },
+      { ruleId: 'naming-convention', severity: 'info', message: "Table name Orders isn't UPPER_SNAKE_CASE" },
+      { ruleId: 'naming-convention', severity: 'info', message: "Column name Orders.note isn't UPPER_SNAKE_CASE" }
+    ]);
+  });
+
+  it('checks the columns of foreign key constraints', () => {
+    const orders = table('orders', {
+      label: 'ORDERS',
+      columns: [column('ID', 'NUMBER', { isPrimaryKey: true }), column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true })],
+      constraints: [
+        { id: 'fk', name: 'FK_CUSTOMER', type: 'FOREIGN KEY', columns: ['CUSTOMER_ID', 'REGION'], referencedTable: 'CUSTOMERS', referencedColumns: ['ID', 'REGION'] }
+      ]
+    });
+
+    expect(lint([customers, orders]).map(problem => problem.message)).toEqual([
+      "FK_CUSTOMER on ORDERS uses REGION, which doesn't exist",
+      "FK_CUSTOMER on ORDERS references CUSTOMERS.REGION, which doesn't exist"
+    ]);
+  });
+
+  it('runs rules with the severity set for the project', () => {
+    const products = table('products', { label: 'products', columns: [] });
+
+    expect(new ModelLinter([products], [], { 'primary-key': 'error', 'naming-convention': 'off' }).lint())
+      .toEqual([{ ruleId: 'primary-key', severity: 'error', message: 'products has no primary key', nodeId: 'products' }]);
+  });
+
+  it('keeps the problems of other rules when a rule fails', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: LintRule = {
+      id: 'broken',
+      name: 'Broken',
+      description: 'Always fails',
+      defaultSeverity: 'error',
+      check: () => { throw new Error('Rule failed'); }
+    };
+    const products = table('products', { label: 'PRODUCTS', columns: [] });
+
+    expect(new ModelLinter([products], [], {}, [broken, ...LINT_RULES]).lint().map(problem => problem.ruleId)).toEqual(['primary-key']);
+    expect(console.error).toHaveBeenCalledWith('Lint rule broken failed:', expect.any(Error));
+  });
+});
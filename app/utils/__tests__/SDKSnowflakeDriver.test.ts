@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as snowflake from 'snowflake-sdk';
+import SDKSnowflakeDriver from '../SDKSnowflakeDriver';
+import { SnowflakeCredentials } from '../types';
+
+vi.mock('snowflake-sdk', () => ({ configure: vi.fn(), createConnection: vi.fn() }));
+
+interface FakeConnection {
+  up: boolean;
+  statements: string[];
+}
+
+const connections: FakeConnection[] = [];
+
+const credentials: SnowflakeCredentials = {
+  accountIdentifier: 'org-account',
+  username: 'modeler',
+  role: 'MODELER',
+  authType: 'password',
+  password: 'secret',
+  warehouse: 'DEV_WH',
+  database: 'SALES',
+  schema: 'CORE'
+};
+
+beforeEach(() => {
+  connections.length = 0;
+  vi.mocked(snowflake.createConnection).mockImplementation(() => {
+    const state: FakeConnection = { up: true, statements: [] };
+    connections.push(state);
+    const connection = {
+      connect: (callback: (err: Error | undefined, conn: unknown) => void) => callback(undefined, connection),
+      isUp: () => state.up,
+      execute: ({ sqlText, complete }: { sqlText: string; complete: (err: undefined, stmt: unknown, rows: unknown[]) => void }) => {
+        state.statements.push(sqlText);
+        complete(undefined, { getColumns: () => [] }, []);
+      },
+      destroy: (callback: (err?: Error) => void) => {
+        state.up = false;
+        callback();
+      }
+    };
+    return connection as unknown as snowflake.Connection;
+  });
+});
+
+describe('SDKSnowflakeDriver sessions', () => {
+  it('runs the statements of a script on one session', async () => {
+    const driver = new SDKSnowflakeDriver();
+    await driver.execute(credentials, 'USE SCHEMA STAGING');
+    await driver.execute(credentials, 'CREATE TEMPORARY TABLE T (ID INT)');
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0].statements).toEqual(['USE SCHEMA STAGING', 'CREATE TEMPORARY TABLE T (ID INT)']);
+  });
+
+  it('opens a session per set of credentials', async () => {
+    const driver = new SDKSnowflakeDriver();
+    await driver.execute(credentials, 'SELECT 1');
+    await driver.execute({ ...credentials, role: 'ANALYST' }, 'SELECT 1');
+
+    expect(connections).toHaveLength(2);
+  });
+
+  it('logs in again when the session was lost', async () => {
+    const driver = new SDKSnowflakeDriver();
+    await driver.execute(credentials, 'SELECT 1');
+    connections[0].up = false;
+    await driver.execute(credentials, 'SELECT 2');
+
+    expect(connections).toHaveLength(2);
+    expect(connections[1].statements).toEqual(['SELECT 2']);
+  });
+});
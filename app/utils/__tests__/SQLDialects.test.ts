@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import DDLGenerator from '../DDLGenerator';
+import { SQLDialectId } from '../SQLDialects';
+import { column, table } from './fixtures';
+
+const events = table('events', {
+  label: 'EVENTS',
+  columns: [
+    column('EVENT_ID', 'INT', { isPrimaryKey: true, isNullable: false, identity: { start: 1, increment: 1 } }),
+    column('CREATED_AT', 'TIMESTAMP_NTZ', { defaultValue: 'CURRENT_TIMESTAMP()' }),
+    column('EVENT_DATE', 'DATE', { defaultValue: 'CURRENT_DATE()' }),
+    column('TOKEN', 'VARCHAR', { defaultValue: 'UUID_STRING()' }),
+    column('NOTE', 'VARCHAR', { defaultValue: "'CURRENT_DATE()'" })
+  ]
+});
+
+const generate = (dialect: SQLDialectId) => new DDLGenerator([events], [], dialect).generateDDL();
+
+describe('column defaults in other dialects', () => {
+  it('translates Snowflake default functions', () => {
+    expect(generate('postgres')).toContain('CREATED_AT TIMESTAMP DEFAULT CURRENT_TIMESTAMP,');
+    expect(generate('postgres')).toContain('EVENT_DATE DATE DEFAULT CURRENT_DATE,');
+    expect(generate('postgres')).toContain('TOKEN TEXT DEFAULT gen_random_uuid()::TEXT,');
+    expect(generate('sqlserver')).toContain('CREATED_AT DATETIME2 DEFAULT CURRENT_TIMESTAMP,');
+    expect(generate('sqlserver')).toContain('EVENT_DATE DATE DEFAULT CAST(GETDATE() AS DATE),');
+    expect(generate('bigquery')).toContain('CREATED_AT DATETIME DEFAULT CURRENT_DATETIME(),');
+    expect(generate('databricks')).toContain('TOKEN STRING DEFAULT uuid(),');
+  });
+
+  it('leaves string literals alone', () => {
+    for (const dialect of ['postgres', 'sqlserver', 'bigquery', 'databricks'] as const) {
+      expect(generate(dialect)).toContain("DEFAULT 'CURRENT_DATE()'");
+    }
+  });
+
+  it('keeps the Snowflake spelling for Snowflake', () => {
+    expect(generate('snowflake')).toContain('CREATED_AT TIMESTAMP_NTZ DEFAULT CURRENT_TIMESTAMP(),');
+  });
+
+  it('declares Databricks identity columns as BIGINT and enables column defaults', () => {
+    const ddl = generate('databricks');
+    expect(ddl).toContain('EVENT_ID BIGINT GENERATED BY DEFAULT AS IDENTITY');
+    expect(ddl).toContain("TBLPROPERTIES ('delta.feature.allowColumnDefaults' = 'supported')");
+  });
+});
+
+describe('views in other dialects', () => {
+  const view = (tableType: 'VIEW' | 'MATERIALIZED_VIEW') => table('daily', {
+    label: 'DAILY_EVENTS',
+    tableType,
+    comment: 'Events per day',
+    columns: [column('EVENT_DATE', ''), column('EVENT_COUNT', '')],
+    query: 'SELECT EVENT_DATE, COUNT(*) AS EVENT_COUNT FROM EVENTS GROUP BY EVENT_DATE'
+  });
+  const generateView = (tableType: 'VIEW' | 'MATERIALIZED_VIEW', dialect: SQLDialectId) =>
+    new DDLGenerator([events, view(tableType)], [], dialect).generateDDL();
+
+  it('creates views with their query', () => {
+    for (const dialect of ['postgres', 'sqlserver', 'bigquery', 'databricks'] as const) {
+      const ddl = generateView('VIEW', dialect);
+      expect(ddl).toMatch(/CREATE (OR REPLACE )?VIEW \W?DAILY_EVENTS\W? \(/);
+      expect(ddl).toContain('AS\nSELECT EVENT_DATE, COUNT(*) AS EVENT_COUNT FROM EVENTS GROUP BY EVENT_DATE;');
+    }
+    expect(generateView('VIEW', 'postgres')).toContain("COMMENT ON VIEW DAILY_EVENTS IS 'Events per day';");
+    expect(generateView('VIEW', 'sqlserver')).toContain("@level1type = N'VIEW', @level1name = N'DAILY_EVENTS'");
+  });
+
+  it('creates materialized views where the dialect has them', () => {
+    expect(generateView('MATERIALIZED_VIEW', 'postgres')).toContain('CREATE MATERIALIZED VIEW DAILY_EVENTS (');
+    expect(generateView('MATERIALIZED_VIEW', 'databricks')).toContain('CREATE OR REPLACE MATERIALIZED VIEW DAILY_EVENTS (');
+    expect(generateView('MATERIALIZED_VIEW', 'bigquery')).toContain(
+      "CREATE OR REPLACE MATERIALIZED VIEW DAILY_EVENTS\nOPTIONS(description = 'Events per day')\nAS\n"
+    );
+    expect(generateView('MATERIALIZED_VIEW', 'sqlserver')).toContain(
+      '-- DAILY_EVENTS is a MATERIALIZED VIEW in the model, created as a view for SQL Server\nCREATE VIEW DAILY_EVENTS ('
+    );
+  });
+});
+
+describe('PostgreSQL tables', () => {
+  const orders = table('orders', {
+    label: 'ORDERS',
+    database: 'SALES',
+    schema: 'CORE',
+    columns: [
+      column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false, identity: { start: 1, increment: 1 } }),
+      column('LINE_NO', 'INT', { identity: { start: 1, increment: 1 } }),
+      column('CUSTOMER_ID', 'NUMBER(38,0)', { isForeignKey: true, referencedTable: 'SALES.CORE.CUSTOMERS', referencedColumn: 'CUSTOMER_ID' })
+    ]
+  });
+  const customers = table('customers', {
+    label: 'CUSTOMERS',
+    database: 'SALES',
+    schema: 'CORE',
+    columns: [column('CUSTOMER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false })]
+  });
+  const ddl = new DDLGenerator([customers, orders], [], 'postgres').generateDDL();
+
+  it('declares identity columns with an integer type', () => {
+    expect(ddl).toContain('ORDER_ID BIGINT GENERATED BY DEFAULT AS IDENTITY');
+    expect(ddl).toContain('LINE_NO INTEGER GENERATED BY DEFAULT AS IDENTITY');
+    expect(ddl).toContain('CUSTOMER_ID NUMERIC(38, 0),');
+  });
+
+  it('names tables by schema only', () => {
+    expect(ddl).toContain('CREATE TABLE CORE.ORDERS (');
+    expect(ddl).toContain('REFERENCES CORE.CUSTOMERS (CUSTOMER_ID)');
+    expect(ddl).not.toContain('SALES.');
+  });
+});
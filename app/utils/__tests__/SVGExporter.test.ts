@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import SVGExporter, { getDomainNodeIds } from '../SVGExporter';
+import { DomainNodeType, EdgeType, NodeType } from '../types';
+import { column, table } from './fixtures';
+
+const at = (node: NodeType, x: number, y: number): NodeType => ({ ...node, position: { x, y } });
+
+const customers = at(table('customers', {
+  label: 'CUSTOMERS',
+  columns: [column('ID', 'NUMBER', { isPrimaryKey: true, isNullable: false })]
+}), 0, 0);
+const orders = at(table('orders', {
+  label: 'ORDERS & <RETURNS>',
+  columns: [column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true })]
+}), 400, 0);
+
+const edge: EdgeType = {
+  id: 'e1',
+  source: 'orders',
+  target: 'customers',
+  sourceHandle: 'orders-left',
+  targetHandle: 'customers-right',
+  type: 'relationship',
+  data: { relationshipType: 'one-to-many' }
+};
+
+const sales: DomainNodeType = {
+  id: 'sales',
+  type: 'domain',
+  position: { x: -50, y: -50 },
+  style: { width: 400, height: 300 },
+  data: { label: 'Sales', color: '#3b82f6', opacity: 0.3 }
+};
+
+const sizes = { customers: { width: 250, height: 100 }, orders: { width: 250, height: 100 } };
+
+describe('SVGExporter', () => {
+  it('covers every node plus the padding', () => {
+    expect(new SVGExporter([customers, orders], [], sizes, { padding: 10 }).getBounds()).toEqual({
+      x: -10, y: -10, width: 650 + 20, height: 100 + 20
+    });
+  });
+
+  it('draws tables, edges and escaped labels', () => {
+    const svg = new SVGExporter([customers, orders], [edge], sizes).generate();
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="730" height="180" viewBox="-40 -40 730 180"/);
+    expect(svg).toContain('>ORDERS &amp; &lt;RETURNS&gt;</text>');
+    expect(svg).toContain('>ID *</text>');
+    expect(svg).toContain('>1:N</text>');
+    expect(svg.endsWith('</svg>')).toBe(true);
+  });
+
+  it('leaves out the nodes outside the scope and their edges', () => {
+    const svg = new SVGExporter([customers, orders], [edge], sizes, { nodeIds: ['customers'] }).generate();
+
+    expect(svg).toContain('>CUSTOMERS</text>');
+    expect(svg).not.toContain('ORDERS');
+    expect(svg).not.toContain('1:N');
+  });
+
+  it('uses the dark colors', () => {
+    expect(new SVGExporter([customers], [], sizes, { dark: true }).generate()).toContain('fill="#111827"/>');
+  });
+});
+
+describe('getDomainNodeIds', () => {
+  it('gets the domain and the nodes whose center lies inside it', () => {
+    expect(getDomainNodeIds([sales, customers, orders], 'sales', sizes)).toEqual(['sales', 'customers']);
+    expect(getDomainNodeIds([customers], 'missing', sizes)).toEqual([]);
+  });
+});
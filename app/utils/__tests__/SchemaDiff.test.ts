@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import SchemaDiff from '../SchemaDiff';
+import { Column } from '../types';
+import { column, table } from './fixtures';
+
+const orders = (columns: Column[]) => table('orders', {
+  label: 'ORDERS',
+  columns: [column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false }), ...columns]
+});
+
+const diff = (before: Column[], after: Column[]) => new SchemaDiff([orders(before)], [orders(after)]).getChanges();
+
+describe('SchemaDiff risky changes', () => {
+  it('flags NOT NULL columns added without a default', () => {
+    const [change] = diff([], [column('STATUS', 'VARCHAR(10)', { isNullable: false })]);
+    expect(change.sql).toBe('ALTER TABLE ORDERS ADD COLUMN STATUS VARCHAR(10) NOT NULL;');
+    expect(change.destructive).toBe(true);
+  });
+
+  it('does not flag NOT NULL columns that get a default or nullable columns', () => {
+    const changes = diff([], [
+      column('STATUS', 'VARCHAR(10)', { isNullable: false, defaultValue: "'NEW'" }),
+      column('NOTE', 'VARCHAR')
+    ]);
+    expect(changes.map(change => change.destructive)).toEqual([false, false]);
+  });
+
+  it('flags type changes that narrow the column', () => {
+    const [change] = diff([column('NAME', 'VARCHAR(100)')], [column('NAME', 'VARCHAR(20)')]);
+    expect(change.sql).toBe('ALTER TABLE ORDERS ALTER COLUMN NAME SET DATA TYPE VARCHAR(20);');
+    expect(change.destructive).toBe(true);
+  });
+
+  it('does not flag type changes that widen the column', () => {
+    const [change] = diff([column('NAME', 'VARCHAR(20)')], [column('NAME', 'VARCHAR(100)')]);
+    expect(change.destructive).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import SchemaDrift, { getModelNamespaces } from '../SchemaDrift';
+import { mergeParsedERD } from '../mergeUtils';
+import { ERDNode } from '../types';
+import { column, sequence, table } from './fixtures';
+
+const defaults = { database: 'SALES', schema: 'CORE' };
+
+const orders = table('orders', {
+  label: 'ORDERS',
+  columns: [column('ORDER_ID', 'NUMBER(38,0)', { isPrimaryKey: true, isNullable: false, defaultValue: 'ORDER_SEQ.NEXTVAL' })]
+});
+const orderSequence = { ...sequence('order-seq', { label: 'ORDER_SEQ' }), position: { x: 40, y: 80 } };
+
+// What the introspector returns for the same schema: new ids and fully qualified names
+const liveNodes: ERDNode[] = [
+  sequence('live-seq', { label: 'ORDER_SEQ', ...defaults }),
+  table('live-orders', { ...orders.data, ...defaults })
+];
+
+describe('SchemaDrift sequences', () => {
+  it('returns deployed sequences with the id and namespace of the model sequence', () => {
+    const live = new SchemaDrift([orderSequence, orders], liveNodes, defaults).getLiveModel();
+
+    expect(live.map(node => [node.id, node.type, node.data.label, (node.data as { schema?: string }).schema]))
+      .toEqual([['order-seq', 'sequence', 'ORDER_SEQ', undefined], ['orders', 'table', 'ORDERS', undefined]]);
+  });
+
+  it('keeps the sequences on the canvas when live changes are pulled in', () => {
+    const drift = new SchemaDrift([orderSequence, orders], liveNodes, defaults);
+    const merged = mergeParsedERD([orderSequence, orders], [], drift.getLiveModel(), drift.getLiveEdges([]), defaults);
+
+    expect(merged.nodes.find(node => node.type === 'sequence')).toMatchObject({ id: 'order-seq', position: { x: 40, y: 80 } });
+    expect(merged.nodes).toHaveLength(2);
+  });
+
+  it('creates sequences that are missing from Snowflake in the fix script', () => {
+    const script = new SchemaDrift([orderSequence, orders], [liveNodes[1]], defaults).getFixScript();
+    expect(script).toContain('CREATE OR REPLACE SEQUENCE ORDER_SEQ');
+    expect(new SchemaDrift([orderSequence, orders], liveNodes, defaults).getFixScript()).not.toContain('SEQUENCE');
+  });
+});
+
+describe('SchemaDrift tables', () => {
+  const customers = table('customers', {
+    label: 'CUSTOMERS',
+    columns: [
+      column('CUSTOMER_ID', 'INT', { isPrimaryKey: true }),
+      column('EMAIL', 'VARCHAR(255)'),
+      column('NAME', 'TEXT', { isNullable: false })
+    ]
+  });
+
+  it('lists tables missing from Snowflake and tables only deployed there', () => {
+    const live = [table('live-legacy', { label: 'LEGACY', ...defaults, columns: [] })];
+
+    expect(new SchemaDrift([customers], live, defaults).getDrift()).toEqual([
+      { nodeId: 'customers', table: 'SALES.CORE.CUSTOMERS', kind: 'missing', columns: [] },
+      { table: 'SALES.CORE.LEGACY', kind: 'extra', columns: [] }
+    ]);
+  });
+
+  it('reports columns that differ and ignores equivalent declarations', () => {
+    const live = [table('live-customers', {
+      label: 'CUSTOMERS',
+      ...defaults,
+      columns: [
+        // Primary keys are NOT NULL in Snowflake and INT is stored as NUMBER(38,0)
+        column('CUSTOMER_ID', 'NUMBER(38,0)', { isNullable: false }),
+        column('EMAIL', 'VARCHAR(100)', { isNullable: false }),
+        column('CREATED_AT', 'TIMESTAMP_NTZ(9)')
+      ]
+    })];
+
+    expect(new SchemaDrift([customers], live, defaults).getDrift()).toEqual([{
+      nodeId: 'customers',
+      table: 'SALES.CORE.CUSTOMERS',
+      kind: 'changed',
+      columns: [
+        { column: 'EMAIL', kind: 'type', expected: 'VARCHAR(255)', actual: 'VARCHAR(100)' },
+        { column: 'EMAIL', kind: 'nullability', expected: 'NULL', actual: 'NOT NULL' },
+        { column: 'NAME', kind: 'missing', expected: 'TEXT' },
+        { column: 'CREATED_AT', kind: 'extra', actual: 'TIMESTAMP_NTZ(9)' }
+      ]
+    }]);
+  });
+
+  it('takes the nullability of view columns from Snowflake', () => {
+    const view = table('view', { label: 'ACTIVE', tableType: 'VIEW', columns: [column('ID', 'NUMBER', { isNullable: false })] });
+    const live = [table('live-view', { label: 'ACTIVE', tableType: 'VIEW', ...defaults, columns: [column('ID', 'NUMBER')] })];
+
+    expect(new SchemaDrift([view], live, defaults).getDrift()).toEqual([]);
+  });
+});
+
+describe('getModelNamespaces', () => {
+  it('collects each database and schema once', () => {
+    const raw = table('raw', { label: 'ORDERS', schema: 'raw', columns: [] });
+
+    expect(getModelNamespaces([orders, raw, orderSequence], defaults)).toEqual([
+      { database: 'SALES', schema: 'CORE' },
+      { database: 'SALES', schema: 'RAW' }
+    ]);
+  });
+
+  it('requires a namespace for every table', () => {
+    expect(() => getModelNamespaces([orders])).toThrow('ORDERS has no database and schema');
+  });
+});
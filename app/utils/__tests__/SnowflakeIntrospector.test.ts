@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import FakeSnowflakeDriver from '../FakeSnowflakeDriver';
+import SnowflakeIntrospector from '../SnowflakeIntrospector';
+import { NodeType, SnowflakeCredentials } from '../types';
+
+const credentials: SnowflakeCredentials = {
+  accountIdentifier: 'org-account',
+  username: 'modeler',
+  role: 'MODELER',
+  authType: 'password',
+  password: 'secret',
+  warehouse: 'DEV_WH',
+  database: 'SALES',
+  schema: 'CORE'
+};
+
+let driver: FakeSnowflakeDriver;
+let introspector: SnowflakeIntrospector;
+
+beforeEach(() => {
+  driver = new FakeSnowflakeDriver();
+  introspector = new SnowflakeIntrospector(async sql => {
+    try {
+      const result = await driver.execute(credentials, sql);
+      return { status: 'success', message: 'Query executed successfully', ...result };
+    } catch (error) {
+      return { status: 'error', message: 'Query failed', error: (error as Error).message };
+    }
+  });
+});
+
+const tableNamed = (nodes: { type?: string }[], name: string) =>
+  nodes.find((node): node is NodeType => node.type === 'table' && (node as NodeType).data.label === name)!;
+
+describe('SnowflakeIntrospector', () => {
+  it('builds the tables, keys, tags, view queries and sequences of a schema', async () => {
+    const { nodes, edges, diagnostics } = await introspector.introspectSchema('SALES', 'CORE');
+
+    expect(diagnostics).toEqual([]);
+    expect(nodes.filter(node => node.type === 'sequence').map(node => node.data.label)).toEqual(['ORDER_SEQ']);
+
+    const customers = tableNamed(nodes, 'CUSTOMERS');
+    expect(customers.data.comment).toBe('Customer master data');
+    expect(customers.data.tags).toEqual(['MASTER_DATA']);
+    expect(customers.data.columns.map(col => [col.name, col.dataType, col.isPrimaryKey])).toEqual([
+      ['CUSTOMER_ID', 'NUMBER(38,0)', true],
+      ['EMAIL', 'VARCHAR(255)', false],
+      ['CREATED_AT', 'TIMESTAMP_NTZ', false]
+    ]);
+    expect(customers.data.columns.find(col => col.name === 'EMAIL')!.tags).toEqual(['PII']);
+    expect(customers.data.constraints).toEqual([
+      expect.objectContaining({ name: 'UQ_CUSTOMERS_EMAIL', type: 'UNIQUE', columns: ['EMAIL'] })
+    ]);
+
+    const orders = tableNamed(nodes, 'ORDERS');
+    expect(orders.data.columns.find(col => col.name === 'CUSTOMER_ID')).toMatchObject({
+      isForeignKey: true,
+      referencedTable: 'CUSTOMERS',
+      referencedColumn: 'CUSTOMER_ID'
+    });
+    expect(edges).toContainEqual(expect.objectContaining({ source: orders.id, target: customers.id }));
+
+    const totals = tableNamed(nodes, 'ORDER_TOTALS');
+    expect(totals.data.tableType).toBe('VIEW');
+    expect(totals.data.query).toContain('sum(AMOUNT)');
+  });
+
+  it('reads the tags of the whole schema with one query', async () => {
+    await introspector.introspectSchema('SALES', 'CORE');
+
+    const tagQueries = driver.executedStatements.filter(sql => /TAG_REFERENCES/i.test(sql));
+    expect(tagQueries).toHaveLength(1);
+    expect(tagQueries[0]).toContain("OBJECT_DATABASE = 'SALES' AND OBJECT_SCHEMA = 'CORE'");
+  });
+
+  it('reports the details it could not read instead of failing the import', async () => {
+    driver.respondTo(/TAG_REFERENCES/i, new Error('Insufficient privileges to operate on ACCOUNT_USAGE'));
+    driver.respondTo(/INFORMATION_SCHEMA\.VIEWS/i, new Error('Object does not exist'));
+
+    const { nodes, diagnostics } = await introspector.introspectSchema('SALES', 'CORE');
+
+    expect(tableNamed(nodes, 'CUSTOMERS').data.tags).toEqual([]);
+    expect(tableNamed(nodes, 'ORDER_TOTALS').data.query).toBeUndefined();
+    expect(diagnostics).toEqual([
+      "The tags of SALES.CORE couldn't be read: Insufficient privileges to operate on ACCOUNT_USAGE",
+      "The view queries of SALES.CORE couldn't be read: Object does not exist"
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatDataType,
+  getDataTypeMismatch,
+  isSameDataType,
+  normalizeDataType,
+  parseDataType,
+  resolveDataTypeAlias,
+  validateDataType
+} from '../dataTypes';
+
+describe('normalizeDataType', () => {
+  it('writes synonyms and defaults the way Snowflake reports them', () => {
+    expect(normalizeDataType('int')).toBe('NUMBER(38,0)');
+    expect(normalizeDataType('DECIMAL(10, 2)')).toBe('NUMBER(10,2)');
+    expect(normalizeDataType('VARCHAR(16777216)')).toBe('VARCHAR');
+    expect(normalizeDataType('char')).toBe('VARCHAR(1)');
+    expect(normalizeDataType('TIMESTAMP(9)')).toBe('TIMESTAMP_NTZ');
+    expect(normalizeDataType('double   precision')).toBe('FLOAT');
+  });
+
+  it('compares declarations by the type Snowflake stores', () => {
+    expect(isSameDataType('INTEGER', 'NUMBER(38, 0)')).toBe(true);
+    expect(isSameDataType('STRING', 'TEXT(16777216)')).toBe(true);
+    expect(isSameDataType('NUMBER(10,2)', 'NUMBER(10,3)')).toBe(false);
+  });
+});
+
+describe('parseDataType', () => {
+  it('splits a declaration into its base type and parameters', () => {
+    expect(parseDataType('NUMBER(10, 2)')).toEqual({ base: 'NUMBER', precision: 10, scale: 2 });
+    expect(parseDataType('TEXT(10)')).toEqual({ base: 'VARCHAR', length: 10 });
+    expect(parseDataType('BIGINT')).toEqual({ base: 'NUMBER', precision: 38, scale: 0 });
+    expect(parseDataType('TIMESTAMP_LTZ(3)')).toEqual({ base: 'TIMESTAMP_LTZ', timePrecision: 3 });
+  });
+
+  it('keeps types the picker does not know whole', () => {
+    expect(parseDataType('VECTOR(FLOAT, 256)')).toEqual({ base: 'VECTOR(FLOAT, 256)' });
+    expect(parseDataType('BOOLEAN(1)')).toEqual({ base: 'BOOLEAN(1)' });
+  });
+
+  it('writes the parts back as a declaration', () => {
+    expect(formatDataType({ base: 'NUMBER', scale: 2 })).toBe('NUMBER(38,2)');
+    expect(formatDataType({ base: 'VARCHAR' })).toBe('VARCHAR');
+    expect(resolveDataTypeAlias('int')).toBe('NUMBER(38,0)');
+    expect(resolveDataTypeAlias('')).toBe('');
+  });
+});
+
+describe('validateDataType', () => {
+  it('checks parameters against the Snowflake limits', () => {
+    expect(validateDataType({ base: 'NUMBER', precision: 10, scale: 2 })).toEqual([]);
+    expect(validateDataType({ base: 'NUMBER', precision: 5, scale: 6 })).toEqual(['Scale must be a whole number from 0 to 5']);
+    expect(validateDataType({ base: 'VARCHAR', length: 0 })).toEqual(['Length must be a whole number from 1 to 16777216']);
+    expect(validateDataType({ base: 'TIME', timePrecision: 1.5 })).toEqual(['Time precision must be a whole number from 0 to 9']);
+  });
+});
+
+describe('getDataTypeMismatch', () => {
+  it('accepts foreign keys that can hold every referenced value', () => {
+    expect(getDataTypeMismatch('INT', 'NUMBER(38,0)')).toBeUndefined();
+    expect(getDataTypeMismatch('VARCHAR', 'VARCHAR(10)')).toBeUndefined();
+    expect(getDataTypeMismatch('', 'NUMBER')).toBeUndefined();
+  });
+
+  it('explains why a foreign key cannot hold the referenced values', () => {
+    expect(getDataTypeMismatch('VARCHAR(10)', 'NUMBER')).toBe('VARCHAR(10) is not compatible with NUMBER');
+    expect(getDataTypeMismatch('NUMBER(5,0)', 'NUMBER(10,0)')).toBe("NUMBER(5,0) can't hold every NUMBER(10,0) value");
+    expect(getDataTypeMismatch('NUMBER(10,2)', 'NUMBER(10,0)')).toBe('NUMBER(10,2) has a different scale than NUMBER(10,0)');
+    expect(getDataTypeMismatch('CHAR', 'VARCHAR(2)')).toBe("CHAR can't hold every VARCHAR(2) value");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { getDependencies, orderByDependencies } from '../dependencyOrder';
+import { EdgeType, NodeType } from '../types';
+import { column, table } from './fixtures';
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  columns: [
+    column('ID', 'NUMBER', { isPrimaryKey: true }),
+    column('LAST_ORDER_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'ORDERS', referencedColumn: 'ID' })
+  ]
+});
+const orders = table('orders', {
+  label: 'ORDERS',
+  columns: [column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true, referencedTable: 'CUSTOMERS', referencedColumn: 'ID' })]
+});
+const view = (id: string, label: string, query: string): NodeType =>
+  table(id, { label, tableType: 'VIEW', query, columns: [] });
+
+const edge = (source: string, target: string): EdgeType => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle: '',
+  targetHandle: '',
+  type: 'relationship',
+  data: { relationshipType: 'one-to-many' }
+});
+
+const labels = (tables: NodeType[]) => tables.map(node => node.data.label);
+
+describe('getDependencies', () => {
+  it('makes views depend on their sources and tables on the tables their foreign keys reference', () => {
+    const totals = view('totals', 'ORDER_TOTALS', 'SELECT * FROM ORDERS');
+    const dependencies = getDependencies([totals, orders, customers], [edge('customers', 'totals')]);
+
+    expect(dependencies.get('totals')).toEqual({ hard: new Set(['customers', 'orders']), soft: new Set() });
+    expect(dependencies.get('orders')).toEqual({ hard: new Set(), soft: new Set(['customers']) });
+  });
+});
+
+describe('orderByDependencies', () => {
+  it('puts views after their sources and keeps the canvas order otherwise', () => {
+    const totals = view('totals', 'ORDER_TOTALS', 'SELECT * FROM ORDERS');
+    const products = table('products', { label: 'PRODUCTS', columns: [] });
+
+    const { tables, cycles } = orderByDependencies([totals, products, orders, customers], []);
+
+    expect(labels(tables)).toEqual(['PRODUCTS', 'ORDERS', 'ORDER_TOTALS', 'CUSTOMERS']);
+    expect(cycles).toEqual([]);
+  });
+
+  it('breaks foreign key cycles without reporting them', () => {
+    const { tables, cycles } = orderByDependencies([orders, customers], []);
+
+    expect(labels(tables)).toEqual(['ORDERS', 'CUSTOMERS']);
+    expect(cycles).toEqual([]);
+  });
+
+  it('reports views that read from each other', () => {
+    const a = view('a', 'A', 'SELECT * FROM B');
+    const b = view('b', 'B', 'SELECT * FROM A');
+    const { tables, cycles } = orderByDependencies([orders, a, b], []);
+
+    expect(labels(tables)).toEqual(['ORDERS', 'A', 'B']);
+    expect(cycles.map(labels)).toEqual([['A', 'B']]);
+  });
+});
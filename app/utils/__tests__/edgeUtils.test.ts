@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createForeignKeyEdge, getColumnHandleId, getHandleColumnId } from '../edgeUtils';
+import { column, table } from './fixtures';
+
+const customers = table('table-1', { label: 'CUSTOMERS', columns: [column('3f2b-9c1d', 'NUMBER', { name: 'ID' })] });
+const orders = table('table-2', { label: 'ORDERS', columns: [column('7a4e-0b2c', 'NUMBER', { name: 'CUSTOMER_ID' })] });
+
+describe('edge handles', () => {
+  it('reads back the column of a column handle', () => {
+    const handle = getColumnHandleId('table-1', '3f2b-9c1d', 'source');
+
+    expect(handle).toBe('table-1-col-3f2b-9c1d-source');
+    expect(getHandleColumnId(handle)).toBe('3f2b-9c1d');
+  });
+
+  it('finds no column in table handles', () => {
+    expect(getHandleColumnId('table-1-right')).toBeUndefined();
+    expect(getHandleColumnId('')).toBeUndefined();
+    expect(getHandleColumnId(null)).toBeUndefined();
+  });
+
+  it('connects a foreign key edge to its first columns', () => {
+    const edge = createForeignKeyEdge(orders, customers, { columns: ['customer_id'], referencedColumns: ['id'] });
+
+    expect(edge).toMatchObject({
+      source: 'table-2',
+      target: 'table-1',
+      sourceHandle: 'table-2-col-7a4e-0b2c-source',
+      targetHandle: 'table-1-col-3f2b-9c1d-target',
+      data: { relationshipType: 'one-to-many' }
+    });
+  });
+
+  it('connects the tables when a column is missing', () => {
+    const edge = createForeignKeyEdge(orders, customers, { columns: ['CUSTOMER_ID'], referencedColumns: [] });
+
+    expect(edge).toMatchObject({ sourceHandle: '', targetHandle: '' });
+  });
+});
@@ -0,0 +1,34 @@
+import { Column, NodeType, SequenceNodeType } from '../types';
+
+/**
+ * A nullable column that is no key, identified by its name
+ */
+export const column = (name: string, dataType: string, options: Partial<Column> = {}): Column => ({
+  id: name,
+  name,
+  dataType,
+  isPrimaryKey: false,
+  isForeignKey: false,
+  isNullable: true,
+  ...options
+});
+
+/**
+ * A table node at the origin of the canvas
+ */
+export const table = (id: string, data: NodeType['data']): NodeType => ({
+  id,
+  type: 'table',
+  position: { x: 0, y: 0 },
+  data
+});
+
+/**
+ * A sequence node at the origin of the canvas that starts at 1 and counts up by 1
+ */
+export const sequence = (id: string, data: Partial<SequenceNodeType['data']> & { label: string }): SequenceNodeType => ({
+  id,
+  type: 'sequence',
+  position: { x: 0, y: 0 },
+  data: { start: 1, increment: 1, ...data }
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { describeChange, HistoryState, recordChange } from '../historyUtils';
+import { EdgeType, ERDNode, NodeType } from '../types';
+import { column, table } from './fixtures';
+
+const customers = table('customers', {
+  label: 'CUSTOMERS',
+  columns: [column('ID', 'NUMBER'), column('EMAIL', 'VARCHAR')]
+});
+const orders = table('orders', { label: 'ORDERS', tableType: 'VIEW', columns: [column('CUSTOMER_ID', 'NUMBER')] });
+
+const edge: EdgeType = {
+  id: 'edge',
+  source: 'orders',
+  target: 'customers',
+  sourceHandle: '',
+  targetHandle: '',
+  type: 'relationship',
+  data: { relationshipType: 'one-to-many' }
+};
+
+const withData = (node: NodeType, data: Partial<NodeType['data']>): NodeType => ({ ...node, data: { ...node.data, ...data } });
+const moved = (node: NodeType, x: number): NodeType => ({ ...node, position: { x, y: 0 } });
+
+describe('describeChange', () => {
+  it('names added and deleted objects by their type', () => {
+    expect(describeChange([customers], [], [customers, orders], [])?.label).toBe('Add view ORDERS');
+    expect(describeChange([customers, orders], [], [customers], [])?.label).toBe('Delete view ORDERS');
+    expect(describeChange([customers], [], [orders], [])?.label).toBe('Replace diagram (1 object)');
+  });
+
+  it('names the column that changed', () => {
+    const renamed = withData(customers, { columns: [column('ID', 'NUMBER'), { ...column('EMAIL', 'VARCHAR'), name: 'LOGIN' }] });
+    const added = withData(customers, { columns: [...customers.data.columns, column('NAME', 'VARCHAR')] });
+    const reordered = withData(customers, { columns: [...customers.data.columns].reverse() });
+
+    expect(describeChange([customers], [], [renamed], [])?.label).toBe('Rename column EMAIL to LOGIN in CUSTOMERS');
+    expect(describeChange([customers], [], [added], [])?.label).toBe('Add column NAME to CUSTOMERS');
+    expect(describeChange([customers], [], [reordered], [])?.label).toBe('Reorder columns of CUSTOMERS');
+  });
+
+  it('describes relationships before the columns they flag', () => {
+    const flagged = withData(orders, { columns: [column('CUSTOMER_ID', 'NUMBER', { isForeignKey: true })] });
+
+    expect(describeChange([customers, orders], [], [customers, flagged], [edge])?.label).toBe('Add relationship ORDERS → CUSTOMERS');
+    expect(describeChange([customers, orders], [edge], [customers, orders], [{ ...edge, data: { relationshipType: 'one-to-one' } }])?.label)
+      .toBe('Change relationship ORDERS → CUSTOMERS to one-to-one');
+  });
+
+  it('ignores UI state such as the selection', () => {
+    const selected = { ...customers, selected: true, data: { ...customers.data, _lintProblems: [] } } as ERDNode;
+
+    expect(describeChange([customers], [], [selected], [])).toBeNull();
+  });
+
+  it('marks moves so they can be combined', () => {
+    expect(describeChange([customers], [], [moved(customers, 50)], [])).toEqual({ label: 'Move table CUSTOMERS', kind: 'move', nodeIds: ['customers'] });
+  });
+});
+
+describe('recordChange', () => {
+  const initial: HistoryState = {
+    entries: [{ id: 'initial', label: 'Initial state', kind: 'initial', nodeIds: [], timestamp: 0, nodes: [customers], edges: [] }],
+    index: 0
+  };
+
+  it('adds an entry per change and drops the entries that were undone', () => {
+    const added = recordChange(initial, [customers, orders], [], 1000);
+    const undone = { ...added, index: 0 };
+    const replaced = recordChange(undone, [moved(customers, 50)], [], 2000);
+
+    expect(added.entries.map(entry => entry.label)).toEqual(['Initial state', 'Add view ORDERS']);
+    expect(replaced.entries.map(entry => entry.label)).toEqual(['Initial state', 'Move table CUSTOMERS']);
+    expect(replaced.index).toBe(1);
+  });
+
+  it('combines moves of the same nodes made in quick succession', () => {
+    const first = recordChange(initial, [moved(customers, 50)], [], 1000);
+    const second = recordChange(first, [moved(customers, 80)], [], 1500);
+    const later = recordChange(second, [moved(customers, 120)], [], 5000);
+
+    expect(second.entries).toHaveLength(2);
+    expect(second.entries[1].nodes[0].position.x).toBe(80);
+    expect(later.entries).toHaveLength(3);
+  });
+
+  it('only refreshes the snapshot when nothing in the model changed', () => {
+    const copied: ERDNode[] = [{ ...customers, data: { ...customers.data } }];
+    const refreshed = recordChange(initial, copied, [], 1000);
+
+    expect(refreshed.entries).toHaveLength(1);
+    expect(refreshed.entries[0].nodes).toBe(copied);
+  });
+});
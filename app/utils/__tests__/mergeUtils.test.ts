@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import DDLParser from '../DDLParser';
+import { mergeParsedERD } from '../mergeUtils';
+import { getColumnHandleId } from '../edgeUtils';
+import { DomainNodeType, EdgeType, ERDNode, NodeType } from '../types';
+import { column, table } from './fixtures';
+
+const customers: NodeType = {
+  ...table('customers', {
+    label: 'CUSTOMERS',
+    columns: [column('customer-id', 'NUMBER(38,0)', { name: 'CUSTOMER_ID', isPrimaryKey: true, isNullable: false })]
+  }),
+  position: { x: 100, y: 40 }
+};
+
+const orders: NodeType = {
+  ...table('orders', {
+    label: 'ORDERS',
+    columns: [
+      column('order-id', 'NUMBER(38,0)', { name: 'ORDER_ID', isPrimaryKey: true, isNullable: false }),
+      column('order-customer', 'NUMBER(38,0)', {
+        name: 'CUSTOMER_ID',
+        isForeignKey: true,
+        referencedTable: 'CUSTOMERS',
+        referencedColumn: 'CUSTOMER_ID'
+      })
+    ]
+  }),
+  position: { x: 500, y: 40 }
+};
+
+const domain: DomainNodeType = {
+  id: 'domain',
+  type: 'domain',
+  position: { x: 0, y: 0 },
+  style: { width: 800, height: 400 },
+  data: { label: 'Sales', color: '#3b82f6', opacity: 0.3 }
+};
+
+const foreignKeyEdge: EdgeType = {
+  id: 'orders-customers',
+  source: 'orders',
+  target: 'customers',
+  sourceHandle: getColumnHandleId('orders', 'order-customer', 'source'),
+  targetHandle: getColumnHandleId('customers', 'customer-id', 'target'),
+  type: 'relationship',
+  data: { relationshipType: 'one-to-one' }
+};
+
+const merge = (ddl: string, nodes: ERDNode[] = [domain, customers, orders], edges: EdgeType[] = [foreignKeyEdge]) => {
+  const parsed = new DDLParser(ddl).parse();
+  return mergeParsedERD(nodes, edges, parsed.nodes, parsed.edges);
+};
+
+const tableNamed = (nodes: ERDNode[], label: string) =>
+  nodes.find((node): node is NodeType => node.type === 'table' && node.data.label === label);
+
+describe('mergeParsedERD', () => {
+  it('keeps the ids, positions and column ids of tables that still exist', () => {
+    const { nodes, edges } = merge(
+      'CREATE TABLE CUSTOMERS (CUSTOMER_ID NUMBER(38,0) NOT NULL PRIMARY KEY, EMAIL VARCHAR(255));\n' +
+      'CREATE TABLE ORDERS (ORDER_ID NUMBER(38,0) NOT NULL PRIMARY KEY, CUSTOMER_ID NUMBER(38,0) REFERENCES CUSTOMERS (CUSTOMER_ID));'
+    );
+    const merged = tableNamed(nodes, 'CUSTOMERS')!;
+
+    expect(nodes.map(node => node.id)).toEqual(['domain', 'customers', 'orders']);
+    expect(merged.position).toEqual({ x: 100, y: 40 });
+    expect(merged.data.columns.map(col => col.name)).toEqual(['CUSTOMER_ID', 'EMAIL']);
+    expect(merged.data.columns[0].id).toBe('customer-id');
+    // The foreign key edge keeps its handles and relationship type
+    expect(edges).toEqual([foreignKeyEdge]);
+  });
+
+  it('removes tables missing from the DDL along with their edges, but keeps domains', () => {
+    const { nodes, edges } = merge('CREATE TABLE CUSTOMERS (CUSTOMER_ID NUMBER(38,0) NOT NULL PRIMARY KEY);');
+
+    expect(nodes.map(node => node.id)).toEqual(['domain', 'customers']);
+    expect(edges).toEqual([]);
+  });
+
+  it('drops the edge of a foreign key the DDL no longer declares, but keeps hand-drawn edges', () => {
+    const handDrawn: EdgeType = { ...foreignKeyEdge, id: 'hand-drawn', sourceHandle: 'orders-right', targetHandle: 'customers-left' };
+    const plainOrders = { ...orders, data: { ...orders.data, columns: orders.data.columns.map(col => ({ ...col, isForeignKey: false })) } };
+
+    const ddl =
+      'CREATE TABLE CUSTOMERS (CUSTOMER_ID NUMBER(38,0) NOT NULL PRIMARY KEY);\n' +
+      'CREATE TABLE ORDERS (ORDER_ID NUMBER(38,0) NOT NULL PRIMARY KEY, CUSTOMER_ID NUMBER(38,0));';
+
+    expect(merge(ddl).edges).toEqual([]);
+    expect(merge(ddl, [customers, plainOrders], [handDrawn]).edges).toEqual([handDrawn]);
+  });
+
+  it('places new tables to the right of the diagram and connects their foreign keys', () => {
+    const { nodes, edges } = merge(
+      'CREATE TABLE CUSTOMERS (CUSTOMER_ID NUMBER(38,0) NOT NULL PRIMARY KEY);\n' +
+      'CREATE TABLE ORDERS (ORDER_ID NUMBER(38,0) NOT NULL PRIMARY KEY, CUSTOMER_ID NUMBER(38,0) REFERENCES CUSTOMERS (CUSTOMER_ID));\n' +
+      'CREATE TABLE PAYMENTS (PAYMENT_ID NUMBER(38,0), ORDER_ID NUMBER(38,0) REFERENCES ORDERS (ORDER_ID));'
+    );
+    const payments = tableNamed(nodes, 'PAYMENTS')!;
+
+    expect(payments.position).toEqual({ x: 850, y: 0 });
+    expect(edges).toContainEqual(expect.objectContaining({
+      source: payments.id,
+      target: 'orders',
+      sourceHandle: getColumnHandleId(payments.id, payments.data.columns[1].id, 'source'),
+      targetHandle: getColumnHandleId('orders', 'order-id', 'target')
+    }));
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { migrateProject, PROJECT_VERSION, serializeProject } from '../projectSchema';
+import { column, table } from './fixtures';
+
+const customers = table('customers', { label: 'CUSTOMERS', columns: [column('ID', 'NUMBER', { isPrimaryKey: true })] });
+
+describe('migrateProject', () => {
+  it('upgrades an unversioned download and strips the React Flow state', () => {
+    const project = migrateProject({
+      nodes: [{
+        ...customers,
+        selected: true,
+        width: 250,
+        data: { ...customers.data, onChange: () => {}, _lastUpdate: 123 }
+      }, {
+        id: 'sales',
+        type: 'domain',
+        position: { x: 10, y: 20 },
+        style: { width: 800, height: 400, zIndex: -1 },
+        data: { label: 'Sales', color: '#3b82f6', opacity: 0.3 }
+      }],
+      edges: [{ id: 'e1', source: 'a', target: 'b', sourceHandle: 'a-right', targetHandle: 'b-left', animated: true }],
+      ddl: 'CREATE TABLE CUSTOMERS (ID NUMBER);'
+    });
+
+    expect(project).toEqual({
+      version: PROJECT_VERSION,
+      name: 'Untitled project',
+      nodes: [customers, {
+        id: 'sales',
+        type: 'domain',
+        position: { x: 10, y: 20 },
+        style: { width: 800, height: 400 },
+        data: { label: 'Sales', color: '#3b82f6', opacity: 0.3 }
+      }],
+      edges: [{
+        id: 'e1',
+        source: 'a',
+        target: 'b',
+        sourceHandle: 'a-right',
+        targetHandle: 'b-left',
+        type: 'relationship',
+        data: { relationshipType: 'one-to-many' }
+      }],
+      baselineNodes: null
+    });
+  });
+
+  it('reads back a saved project unchanged', () => {
+    const saved = serializeProject('Shop', [customers], [], [customers], { 'naming-convention': 'off' });
+
+    expect(migrateProject(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  it('rejects data that is no project or comes from a newer app', () => {
+    expect(() => migrateProject('CREATE TABLE')).toThrow('Invalid project format');
+    expect(() => migrateProject({ nodes: [] })).toThrow('Invalid project format');
+    expect(() => migrateProject({ version: PROJECT_VERSION + 1, nodes: [], edges: [] })).toThrow('newer than this app supports');
+  });
+});
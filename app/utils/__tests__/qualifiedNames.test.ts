@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findTableByReference, getQualifiedName, getTableReference, splitQualifiedName } from '../qualifiedNames';
+import { table } from './fixtures';
+
+describe('splitQualifiedName', () => {
+  it('splits database, schema and table', () => {
+    expect(splitQualifiedName('SALES.CORE.ORDERS')).toEqual({ database: 'SALES', schema: 'CORE', table: 'ORDERS' });
+    expect(splitQualifiedName('CORE.ORDERS')).toEqual({ schema: 'CORE', table: 'ORDERS' });
+    expect(splitQualifiedName('ORDERS')).toEqual({ table: 'ORDERS' });
+  });
+
+  it('keeps dots inside quoted parts', () => {
+    expect(splitQualifiedName('SALES."Core.v2".ORDERS')).toEqual({ database: 'SALES', schema: 'Core.v2', table: 'ORDERS' });
+  });
+
+  it('splits a single quoted name that holds the whole path', () => {
+    expect(splitQualifiedName('"SALES.CORE.ORDERS"')).toEqual({ database: 'SALES', schema: 'CORE', table: 'ORDERS' });
+  });
+});
+
+describe('getQualifiedName', () => {
+  it('fills in the namespace from the defaults', () => {
+    expect(getQualifiedName({ label: 'ORDERS' }, { database: 'SALES', schema: 'CORE' })).toBe('SALES.CORE.ORDERS');
+    expect(getQualifiedName({ label: 'ORDERS', schema: 'RAW' }, { database: 'SALES', schema: 'CORE' })).toBe('SALES.RAW.ORDERS');
+  });
+
+  it('leaves out a database without a schema', () => {
+    expect(getQualifiedName({ label: 'ORDERS', database: 'SALES' })).toBe('ORDERS');
+  });
+});
+
+describe('getTableReference', () => {
+  const from = { label: 'ORDERS', database: 'SALES', schema: 'CORE' };
+
+  it('qualifies the reference only as far as needed', () => {
+    expect(getTableReference({ label: 'CUSTOMERS', database: 'SALES', schema: 'CORE' }, from)).toBe('CUSTOMERS');
+    expect(getTableReference({ label: 'CUSTOMERS', database: 'SALES', schema: 'RAW' }, from)).toBe('RAW.CUSTOMERS');
+    expect(getTableReference({ label: 'CUSTOMERS', database: 'CRM', schema: 'CORE' }, from)).toBe('CRM.CORE.CUSTOMERS');
+  });
+});
+
+describe('findTableByReference', () => {
+  const core = table('core', { label: 'CUSTOMERS', database: 'SALES', schema: 'CORE', columns: [] });
+  const raw = table('raw', { label: 'CUSTOMERS', database: 'SALES', schema: 'RAW', columns: [] });
+  const legacy = table('legacy', { label: 'CRM.ACCOUNTS', columns: [] });
+
+  it('prefers the table in the schema of the referencing table', () => {
+    expect(findTableByReference([core, raw], 'CUSTOMERS', { label: 'ORDERS', database: 'SALES', schema: 'RAW' })).toBe(raw);
+    expect(findTableByReference([core, raw], 'CUSTOMERS', { label: 'ORDERS', database: 'SALES', schema: 'CORE' })).toBe(core);
+  });
+
+  it('follows the schema a reference names', () => {
+    expect(findTableByReference([core, raw], 'raw.customers', { label: 'ORDERS', schema: 'CORE' })).toBe(raw);
+    expect(findTableByReference([core, raw], '"SALES"."CORE"."CUSTOMERS"')).toBe(core);
+  });
+
+  it('finds tables of older projects that kept the qualified name in the label', () => {
+    expect(findTableByReference([core, legacy], 'CRM.ACCOUNTS')).toBe(legacy);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getLineageEdges, getQueryReferences, getQuerySources } from '../queryLineage';
+import { EdgeType } from '../types';
+import { table } from './fixtures';
+
+describe('getQueryReferences', () => {
+  it('reads the tables of FROM and JOIN clauses, aliased or not', () => {
+    expect(getQueryReferences(
+      'SELECT * FROM SALES.CORE.ORDERS o, PAYMENTS p JOIN "Customers" AS c ON o.CUSTOMER_ID = c.ID WHERE o.ID > 0'
+    )).toEqual(['SALES.CORE.ORDERS', 'PAYMENTS', '"Customers"']);
+  });
+
+  it('leaves out common table expressions, function arguments, comments and strings', () => {
+    expect(getQueryReferences([
+      'WITH recent AS (SELECT * FROM ORDERS WHERE EXTRACT(YEAR FROM CREATED_AT) = 2024)',
+      '-- FROM LEGACY',
+      "SELECT 'FROM ARCHIVE' FROM recent, LATERAL FLATTEN(input => recent.ITEMS)"
+    ].join('\n'))).toEqual(['ORDERS']);
+  });
+
+  it('reads subqueries', () => {
+    expect(getQueryReferences('SELECT * FROM (SELECT * FROM ORDERS) JOIN CUSTOMERS USING (ID)')).toEqual(['ORDERS', 'CUSTOMERS']);
+  });
+
+  it('finds nothing in an empty query', () => {
+    expect(getQueryReferences(undefined)).toEqual([]);
+    expect(getQueryReferences('  ')).toEqual([]);
+  });
+});
+
+describe('lineage', () => {
+  const orders = table('orders', { label: 'ORDERS', schema: 'CORE', columns: [] });
+  const rawOrders = table('raw-orders', { label: 'ORDERS', schema: 'RAW', columns: [] });
+  const customers = table('customers', { label: 'CUSTOMERS', schema: 'CORE', columns: [] });
+  const totals = table('totals', {
+    label: 'ORDER_TOTALS',
+    schema: 'CORE',
+    tableType: 'VIEW',
+    query: 'SELECT * FROM ORDERS JOIN RAW.ORDERS USING (ID) JOIN CUSTOMERS USING (ID)',
+    columns: []
+  });
+  const tables = [orders, rawOrders, customers, totals];
+
+  it('resolves the sources of a view to the tables on the canvas', () => {
+    expect(getQuerySources(totals, tables)).toEqual([orders, rawOrders, customers]);
+  });
+
+  it('connects a view to the sources it is not connected to yet', () => {
+    const existing: EdgeType = {
+      id: 'e1',
+      source: 'customers',
+      target: 'totals',
+      sourceHandle: '',
+      targetHandle: '',
+      type: 'relationship',
+      data: { relationshipType: 'one-to-many' }
+    };
+
+    expect(getLineageEdges(totals, tables, [existing]).map(edge => [edge.source, edge.target]))
+      .toEqual([['totals', 'orders'], ['totals', 'raw-orders']]);
+    expect(getLineageEdges(orders, tables, [])).toEqual([]);
+  });
+});
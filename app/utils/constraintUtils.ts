@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column, NodeType, TableConstraint } from './types';
+import { findTableByReference } from './qualifiedNames';
+import { getDataTypeMismatch } from './dataTypes';
+
+export interface ResolvedForeignKey {
+  name?: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface ResolvedKey {
+  name?: string;
+  columns: string[];
+}
+
+// A foreign key column whose type doesn't fit the column it references
+export interface ForeignKeyTypeMismatch {
+  column: string;
+  referencedTable: string;
+  referencedColumn: string;
+  message: string;
+}
+
+const sameName = (a: string, b: string) => a.toUpperCase() === b.toUpperCase();
+
+/**
+ * Get the primary key of a table.
+ * The column flags decide membership; a PRIMARY KEY constraint supplies the name and column order.
+ */
+export function getPrimaryKey(data: NodeType['data']): ResolvedKey | null {
+  const flagged = data.columns.filter(col => col.isPrimaryKey).map(col => col.name);
+  if (flagged.length === 0) return null;
+
+  const constraint = data.constraints?.find(c => c.type === 'PRIMARY KEY');
+  if (!constraint) return { columns: flagged };
+
+  const ordered = constraint.columns
+    .map(name => flagged.find(col => sameName(col, name)))
+    .filter((name): name is string => !!name);
+  const remaining = flagged.filter(col => !ordered.some(name => sameName(name, col)));
+
+  return { name: constraint.name, columns: [...ordered, ...remaining] };
+}
+
+/**
+ * Get all foreign keys of a table: FOREIGN KEY constraints plus single-column
+ * foreign keys declared on columns that no constraint covers
+ */
+export function getForeignKeys(data: NodeType['data']): ResolvedForeignKey[] {
+  const constraints = (data.constraints || []).filter(
+    c => c.type === 'FOREIGN KEY' && c.referencedTable && c.columns.length > 0
+  );
+
+  const foreignKeys: ResolvedForeignKey[] = constraints.map(c => ({
+    name: c.name,
+    columns: c.columns,
+    referencedTable: c.referencedTable as string,
+    referencedColumns: c.referencedColumns || []
+  }));
+
+  const covered = (col: Column) => constraints.some(c => c.columns.some(name => sameName(name, col.name)));
+
+  for (const col of data.columns) {
+    if (col.isForeignKey && col.referencedTable && col.referencedColumn && !covered(col)) {
+      foreignKeys.push({
+        columns: [col.name],
+        referencedTable: col.referencedTable,
+        referencedColumns: [col.referencedColumn]
+      });
+    }
+  }
+
+  return foreignKeys;
+}
+
+/**
+ * Mark the columns of a foreign key and point them at the referenced columns. The key is kept
+ * as a constraint when the column flags can't describe it: it is named, composite, or shares
+ * a column with another foreign key.
+ */
+export function addForeignKey(data: NodeType['data'], fk: ResolvedForeignKey): void {
+  const columns = fk.columns.map(name => data.columns.find(col => sameName(col.name, name)));
+  const constraints = data.constraints || [];
+  const covered = (col: Column) => constraints.some(c => c.type === 'FOREIGN KEY' && c.columns.some(name => sameName(name, col.name)));
+  let keep = !!fk.name || fk.columns.length > 1;
+
+  const kept: TableConstraint[] = [];
+  columns.forEach((col, i) => {
+    if (!col?.isForeignKey || !col.referencedTable || !col.referencedColumn) return;
+    if (covered(col)) {
+      keep = true;
+    } else if (keep || !sameName(col.referencedTable, fk.referencedTable) || !sameName(col.referencedColumn, fk.referencedColumns[i] || '')) {
+      // The foreign key the column flag described is kept before the flag is repointed
+      kept.push({ id: uuidv4(), type: 'FOREIGN KEY', columns: [col.name], referencedTable: col.referencedTable, referencedColumns: [col.referencedColumn] });
+      keep = true;
+    }
+  });
+
+  columns.forEach((col, i) => {
+    if (col && fk.referencedColumns[i]) {
+      col.isForeignKey = true;
+      col.referencedTable = fk.referencedTable;
+      col.referencedColumn = fk.referencedColumns[i];
+    }
+  });
+
+  if (keep) {
+    data.constraints = [
+      ...constraints,
+      ...kept,
+      {
+        id: uuidv4(),
+        ...(fk.name ? { name: fk.name } : {}),
+        type: 'FOREIGN KEY',
+        columns: fk.columns,
+        referencedTable: fk.referencedTable,
+        referencedColumns: fk.referencedColumns
+      }
+    ];
+  }
+}
+
+/**
+ * Compare the type of every foreign key column with the column it references.
+ * Foreign keys without referenced columns reference the primary key of their target.
+ */
+export function getForeignKeyTypeMismatches(table: NodeType, tables: NodeType[]): ForeignKeyTypeMismatch[] {
+  const mismatches: ForeignKeyTypeMismatch[] = [];
+  const findColumn = (columns: Column[], name: string) => columns.find(col => sameName(col.name, name));
+
+  for (const fk of getForeignKeys(table.data)) {
+    const target = findTableByReference(tables, fk.referencedTable, table.data);
+    if (!target) continue;
+
+    const referencedColumns = fk.referencedColumns.length > 0
+      ? fk.referencedColumns
+      : getPrimaryKey(target.data)?.columns || [];
+
+    fk.columns.forEach((name, i) => {
+      const column = findColumn(table.data.columns, name);
+      const referenced = referencedColumns[i] ? findColumn(target.data.columns, referencedColumns[i]) : undefined;
+      const message = column && referenced ? getDataTypeMismatch(column.dataType, referenced.dataType) : undefined;
+      if (message) {
+        mismatches.push({ column: column!.name, referencedTable: target.data.label, referencedColumn: referenced!.name, message });
+      }
+    });
+  }
+
+  return mismatches;
+}
+
+/**
+ * Get the UNIQUE constraints of a table
+ */
+export function getUniqueKeys(data: NodeType['data']): ResolvedKey[] {
+  return (data.constraints || [])
+    .filter(c => c.type === 'UNIQUE' && c.columns.length > 0)
+    .map(c => ({ name: c.name, columns: c.columns }));
+}
+
+/**
+ * Update column PK/FK flags so they agree with the constraint list.
+ * Columns in a FOREIGN KEY constraint point at the matching referenced column.
+ */
+export function syncColumnFlags(columns: Column[], constraints: TableConstraint[]): Column[] {
+  return columns.map(col => {
+    const updated = { ...col };
+    const inConstraint = (c: TableConstraint) => c.columns.some(name => sameName(name, col.name));
+
+    const primaryKey = constraints.find(c => c.type === 'PRIMARY KEY');
+    if (primaryKey && inConstraint(primaryKey)) {
+      updated.isPrimaryKey = true;
+    }
+
+    const foreignKey = constraints.find(c => c.type === 'FOREIGN KEY' && inConstraint(c));
+    if (foreignKey) {
+      const index = foreignKey.columns.findIndex(name => sameName(name, col.name));
+      updated.isForeignKey = true;
+      updated.referencedTable = foreignKey.referencedTable;
+      updated.referencedColumn = foreignKey.referencedColumns?.[index];
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Follow column renames and removals in the constraint list.
+ * Columns are matched by id, constraints left without columns are dropped.
+ */
+export function updateConstraintColumns(
+  constraints: TableConstraint[],
+  oldColumns: Column[],
+  newColumns: Column[]
+): TableConstraint[] {
+  const newNames = new Map(newColumns.map(col => [col.id, col.name]));
+  const renames = new Map<string, string | null>();
+  for (const col of oldColumns) {
+    renames.set(col.name.toUpperCase(), newNames.has(col.id) ? newNames.get(col.id)! : null);
+  }
+
+  return constraints
+    .map(c => ({
+      ...c,
+      columns: c.columns
+        .map(name => (renames.has(name.toUpperCase()) ? renames.get(name.toUpperCase()) : name))
+        .filter((name): name is string => !!name)
+    }))
+    .filter(c => c.columns.length > 0);
+}
@@ -0,0 +1,233 @@
+import { DataType } from './types';
+import { splitDataType } from './SQLDialects';
+
+export type DataTypeFamily = 'numeric' | 'text' | 'binary' | 'boolean' | 'temporal' | 'semi-structured' | 'geospatial';
+
+// What a base type is declared with: a length, a precision and scale, or fractional seconds
+export type DataTypeParameters = 'none' | 'length' | 'precision' | 'time';
+
+// Base types offered by the type picker, in the spelling Snowflake reports them in
+export const BASE_DATA_TYPES: Record<string, { family: DataTypeFamily; parameters: DataTypeParameters }> = {
+  NUMBER: { family: 'numeric', parameters: 'precision' },
+  FLOAT: { family: 'numeric', parameters: 'none' },
+  VARCHAR: { family: 'text', parameters: 'length' },
+  CHAR: { family: 'text', parameters: 'length' },
+  BINARY: { family: 'binary', parameters: 'length' },
+  BOOLEAN: { family: 'boolean', parameters: 'none' },
+  DATE: { family: 'temporal', parameters: 'none' },
+  TIME: { family: 'temporal', parameters: 'time' },
+  TIMESTAMP_NTZ: { family: 'temporal', parameters: 'time' },
+  TIMESTAMP_LTZ: { family: 'temporal', parameters: 'time' },
+  TIMESTAMP_TZ: { family: 'temporal', parameters: 'time' },
+  VARIANT: { family: 'semi-structured', parameters: 'none' },
+  OBJECT: { family: 'semi-structured', parameters: 'none' },
+  ARRAY: { family: 'semi-structured', parameters: 'none' },
+  GEOGRAPHY: { family: 'geospatial', parameters: 'none' },
+  GEOMETRY: { family: 'geospatial', parameters: 'none' }
+};
+
+// Snowflake synonyms mapped to the type Snowflake stores them as
+const TYPE_ALIASES: Record<string, string> = {
+  INT: 'NUMBER(38,0)',
+  INTEGER: 'NUMBER(38,0)',
+  BIGINT: 'NUMBER(38,0)',
+  SMALLINT: 'NUMBER(38,0)',
+  TINYINT: 'NUMBER(38,0)',
+  BYTEINT: 'NUMBER(38,0)',
+  DECIMAL: 'NUMBER',
+  NUMERIC: 'NUMBER',
+  STRING: 'VARCHAR',
+  TEXT: 'VARCHAR',
+  NVARCHAR: 'VARCHAR',
+  NVARCHAR2: 'VARCHAR',
+  'CHAR VARYING': 'VARCHAR',
+  'NCHAR VARYING': 'VARCHAR',
+  CHARACTER: 'CHAR',
+  NCHAR: 'CHAR',
+  DOUBLE: 'FLOAT',
+  'DOUBLE PRECISION': 'FLOAT',
+  REAL: 'FLOAT',
+  FLOAT4: 'FLOAT',
+  FLOAT8: 'FLOAT',
+  DATETIME: 'TIMESTAMP_NTZ',
+  TIMESTAMP: 'TIMESTAMP_NTZ',
+  VARBINARY: 'BINARY'
+};
+
+// Length Snowflake uses for VARCHAR and BINARY declared without one
+const MAX_VARCHAR_LENGTH = 16777216;
+const MAX_BINARY_LENGTH = 8388608;
+const MAX_PRECISION = 38;
+const MAX_SCALE = 37;
+const MAX_TIME_PRECISION = 9;
+
+/**
+ * Reduce a declared type to the form Snowflake reports it in, so that
+ * e.g. INT, INTEGER and NUMBER(38, 0) compare equal
+ */
+export function normalizeDataType(dataType: string): string {
+  const match = dataType.trim().toUpperCase().replace(/\s+/g, ' ').match(/^([A-Z_][A-Z0-9_ ]*?)\s*(?:\(([^)]*)\))?$/);
+  if (!match) return dataType.trim().toUpperCase();
+
+  let base = match[1];
+  let args = match[2] ? match[2].split(',').map(arg => arg.trim()) : [];
+
+  const alias = TYPE_ALIASES[base];
+  if (alias) {
+    const aliasMatch = alias.match(/^(\w+)(?:\((.*)\))?$/)!;
+    base = aliasMatch[1];
+    if (aliasMatch[2]) args = aliasMatch[2].split(',');
+  }
+
+  switch (base) {
+    case 'NUMBER':
+      return `NUMBER(${args[0] || 38},${args[1] || 0})`;
+    case 'CHAR':
+      // Snowflake stores CHAR as VARCHAR of the given length
+      return `VARCHAR(${args[0] || 1})`;
+    case 'VARCHAR':
+      return args[0] && Number(args[0]) !== MAX_VARCHAR_LENGTH ? `VARCHAR(${args[0]})` : 'VARCHAR';
+    case 'BINARY':
+      return args[0] && Number(args[0]) !== MAX_BINARY_LENGTH ? `BINARY(${args[0]})` : 'BINARY';
+    case 'TIME':
+    case 'TIMESTAMP_NTZ':
+    case 'TIMESTAMP_LTZ':
+    case 'TIMESTAMP_TZ':
+      // Nanosecond precision is the default
+      return args[0] && args[0] !== '9' ? `${base}(${args[0]})` : base;
+    default:
+      return args.length > 0 ? `${base}(${args.join(',')})` : base;
+  }
+}
+
+/**
+ * Check whether two declared types are stored as the same Snowflake type
+ */
+export function isSameDataType(a: string, b: string): boolean {
+  return normalizeDataType(a) === normalizeDataType(b);
+}
+
+/**
+ * Split a declared type into its base type and parameters, resolving synonyms to
+ * the type Snowflake stores them as, e.g. INT -> NUMBER(38,0) and TEXT(10) -> VARCHAR(10).
+ * Types the picker doesn't know, or structured ones like ARRAY(NUMBER), are kept whole as the base.
+ */
+export function parseDataType(dataType: string): DataType {
+  let { base, args } = splitDataType(dataType);
+
+  const alias = TYPE_ALIASES[base];
+  if (alias) {
+    const resolved = splitDataType(alias);
+    base = resolved.base;
+    if (resolved.args.length > 0) args = resolved.args;
+  }
+
+  const parameters = BASE_DATA_TYPES[base]?.parameters;
+  const hasNumericArgs = args.every(arg => arg === '' || Number.isFinite(Number(arg)));
+  if (!parameters || (parameters === 'none' && args.length > 0) || !hasNumericArgs) {
+    return { base: args.length > 0 ? `${base}(${args.join(', ')})` : base };
+  }
+
+  const [first, second] = args.map(Number);
+  switch (parameters) {
+    case 'length':
+      return { base, ...(args[0] ? { length: first } : {}) };
+    case 'precision':
+      return { base, ...(args[0] ? { precision: first } : {}), ...(args[1] ? { scale: second } : {}) };
+    case 'time':
+      return { base, ...(args[0] ? { timePrecision: first } : {}) };
+    default:
+      return { base };
+  }
+}
+
+/**
+ * Write a data type back as a declaration, leaving out parameters that are unset
+ */
+export function formatDataType(type: DataType): string {
+  switch (BASE_DATA_TYPES[type.base]?.parameters) {
+    case 'length':
+      return type.length !== undefined ? `${type.base}(${type.length})` : type.base;
+    case 'precision':
+      return type.precision !== undefined || type.scale !== undefined
+        ? `${type.base}(${type.precision ?? MAX_PRECISION},${type.scale ?? 0})`
+        : type.base;
+    case 'time':
+      return type.timePrecision !== undefined ? `${type.base}(${type.timePrecision})` : type.base;
+    default:
+      return type.base;
+  }
+}
+
+/**
+ * Write a declared type with Snowflake's name for it, e.g. INT -> NUMBER(38,0)
+ */
+export function resolveDataTypeAlias(dataType: string): string {
+  return dataType.trim() ? formatDataType(parseDataType(dataType)) : dataType;
+}
+
+/**
+ * Check the parameters of a data type against the limits Snowflake accepts
+ * @returns A message for each invalid parameter
+ */
+export function validateDataType(type: DataType): string[] {
+  const errors: string[] = [];
+  const checkRange = (name: string, value: number | undefined, min: number, max: number) => {
+    if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+      errors.push(`${name} must be a whole number from ${min} to ${max}`);
+    }
+  };
+
+  switch (BASE_DATA_TYPES[type.base]?.parameters) {
+    case 'length':
+      checkRange('Length', type.length, 1, type.base === 'BINARY' ? MAX_BINARY_LENGTH : MAX_VARCHAR_LENGTH);
+      break;
+    case 'precision': {
+      checkRange('Precision', type.precision, 1, MAX_PRECISION);
+      const precision = Number.isInteger(type.precision) ? type.precision! : MAX_PRECISION;
+      checkRange('Scale', type.scale, 0, Math.min(precision, MAX_SCALE));
+      break;
+    }
+    case 'time':
+      checkRange('Time precision', type.timePrecision, 0, MAX_TIME_PRECISION);
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Explain why a foreign key column can't hold the values of the column it references
+ * @returns Nothing when the types are compatible or either column is untyped
+ */
+export function getDataTypeMismatch(dataType: string, referencedType: string): string | undefined {
+  if (!dataType.trim() || !referencedType.trim() || isSameDataType(dataType, referencedType)) return undefined;
+
+  const type = parseDataType(dataType);
+  const referenced = parseDataType(referencedType);
+  const family = BASE_DATA_TYPES[type.base]?.family;
+  const incompatible = `${formatDataType(type)} is not compatible with ${formatDataType(referenced)}`;
+  const cannotHold = `${formatDataType(type)} can't hold every ${formatDataType(referenced)} value`;
+
+  if (!family || family !== BASE_DATA_TYPES[referenced.base]?.family) {
+    return incompatible;
+  }
+
+  // Compare the declared sizes, unset ones being the Snowflake defaults
+  switch (family) {
+    case 'numeric':
+      if (type.base !== referenced.base) return incompatible;
+      if ((type.scale ?? 0) !== (referenced.scale ?? 0)) return `${formatDataType(type)} has a different scale than ${formatDataType(referenced)}`;
+      return (type.precision ?? MAX_PRECISION) < (referenced.precision ?? MAX_PRECISION) ? cannotHold : undefined;
+    case 'text':
+    case 'binary': {
+      const defaultLength = (base: string) => base === 'CHAR' ? 1 : base === 'BINARY' ? MAX_BINARY_LENGTH : MAX_VARCHAR_LENGTH;
+      return (type.length ?? defaultLength(type.base)) < (referenced.length ?? defaultLength(referenced.base)) ? cannotHold : undefined;
+    }
+    case 'temporal':
+      if (type.base !== referenced.base) return incompatible;
+      return (type.timePrecision ?? MAX_TIME_PRECISION) < (referenced.timePrecision ?? MAX_TIME_PRECISION) ? cannotHold : undefined;
+    default:
+      return type.base === referenced.base ? undefined : incompatible;
+  }
+}
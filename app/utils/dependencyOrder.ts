@@ -0,0 +1,102 @@
+import { NodeType, EdgeType } from './types';
+import { getForeignKeys } from './constraintUtils';
+import { findTableByReference } from './qualifiedNames';
+import { getQuerySources, isDerivedTable } from './queryLineage';
+
+export interface TableDependencies {
+  // Objects that must exist first, e.g. the sources of a view
+  hard: Set<string>;
+  // Tables referenced by foreign keys; these are added once every table exists so they only affect readability
+  soft: Set<string>;
+}
+
+export interface DependencyOrder {
+  tables: NodeType[];
+  // Objects whose hard dependencies form a cycle, each listed along the cycle
+  cycles: NodeType[][];
+}
+
+/**
+ * Get what each table depends on, keyed by node id.
+ * Views, materialized views and dynamic tables depend on the tables their query reads
+ * from and on the other end of their edges; between two of them the edge source
+ * depends on its target.
+ */
+export function getDependencies(tables: NodeType[], edges: EdgeType[]): Map<string, TableDependencies> {
+  const dependencies = new Map<string, TableDependencies>(
+    tables.map(table => [table.id, { hard: new Set<string>(), soft: new Set<string>() }])
+  );
+  const byId = new Map(tables.map(table => [table.id, table]));
+
+  for (const edge of edges) {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target || source.id === target.id) continue;
+
+    if (isDerivedTable(source.data.tableType)) {
+      dependencies.get(source.id)!.hard.add(target.id);
+    } else if (isDerivedTable(target.data.tableType)) {
+      dependencies.get(target.id)!.hard.add(source.id);
+    }
+  }
+
+  for (const table of tables) {
+    if (isDerivedTable(table.data.tableType)) {
+      getQuerySources(table, tables).forEach(source => dependencies.get(table.id)!.hard.add(source.id));
+    }
+
+    for (const fk of getForeignKeys(table.data)) {
+      const referenced = findTableByReference(tables, fk.referencedTable, table.data);
+      if (referenced && referenced.id !== table.id) {
+        dependencies.get(table.id)!.soft.add(referenced.id);
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Order tables so every object comes after the objects it depends on, keeping the
+ * canvas order wherever the dependencies allow it. Foreign key cycles are broken
+ * silently; objects in a cycle of hard dependencies are emitted in canvas order and reported.
+ */
+export function orderByDependencies(tables: NodeType[], edges: EdgeType[]): DependencyOrder {
+  const dependencies = getDependencies(tables, edges);
+  const done = new Set<string>();
+  const ordered: NodeType[] = [];
+  const cycles: NodeType[][] = [];
+  let remaining = [...tables];
+
+  const isMet = (ids: Set<string>) => Array.from(ids).every(id => done.has(id));
+  const emit = (emitted: NodeType[]) => {
+    emitted.forEach(table => done.add(table.id));
+    ordered.push(...emitted);
+    remaining = remaining.filter(table => !done.has(table.id));
+  };
+
+  while (remaining.length > 0) {
+    const ready =
+      remaining.find(table => isMet(dependencies.get(table.id)!.hard) && isMet(dependencies.get(table.id)!.soft)) ||
+      remaining.find(table => isMet(dependencies.get(table.id)!.hard));
+    if (ready) {
+      emit([ready]);
+      continue;
+    }
+
+    // Every remaining object waits on another one, so following unmet dependencies must loop
+    const path: NodeType[] = [];
+    let current = remaining[0];
+    while (!path.includes(current)) {
+      path.push(current);
+      const next = Array.from(dependencies.get(current.id)!.hard).find(id => !done.has(id))!;
+      current = remaining.find(table => table.id === next)!;
+    }
+
+    const cycle = path.slice(path.indexOf(current));
+    cycles.push(cycle);
+    emit(remaining.filter(table => cycle.includes(table)));
+  }
+
+  return { tables: ordered, cycles };
+}
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column, EdgeType, NodeType } from './types';
+import { ResolvedForeignKey } from './constraintUtils';
+
+// Column handles are `${nodeId}-col-${columnId}-source` and `-target`, table handles `${nodeId}-top` etc.
+const HANDLE_COLUMN_REGEX = /-col-(.+)-(source|target)$/;
+
+/**
+ * Get the id of the handle a relationship leaves a column from (`source`) or arrives at (`target`)
+ */
+export function getColumnHandleId(nodeId: string, columnId: string, side: 'source' | 'target'): string {
+  return `${nodeId}-col-${columnId}-${side}`;
+}
+
+/**
+ * Get the column id of a column handle; table handles and missing handles have none
+ */
+export function getHandleColumnId(handle?: string | null): string | undefined {
+  return handle?.match(HANDLE_COLUMN_REGEX)?.[1];
+}
+
+/**
+ * Create a relationship edge from a table to the table it references. The edge connects
+ * the column handles when both columns are given and the tables otherwise.
+ */
+export function createRelationshipEdge(
+  source: NodeType,
+  target: NodeType,
+  sourceColumn?: Column,
+  targetColumn?: Column,
+  relationshipType: EdgeType['data']['relationshipType'] = 'one-to-many'
+): EdgeType {
+  return {
+    id: `e${source.id}-${target.id}-${uuidv4()}`,
+    source: source.id,
+    target: target.id,
+    sourceHandle: sourceColumn && targetColumn ? getColumnHandleId(source.id, sourceColumn.id, 'source') : '',
+    targetHandle: sourceColumn && targetColumn ? getColumnHandleId(target.id, targetColumn.id, 'target') : '',
+    type: 'relationship',
+    data: { relationshipType }
+  };
+}
+
+/**
+ * Create the edge of a foreign key. It connects the first columns of the key,
+ * so several foreign keys between two tables stay apart.
+ */
+export function createForeignKeyEdge(
+  source: NodeType,
+  target: NodeType,
+  fk: Pick<ResolvedForeignKey, 'columns' | 'referencedColumns'>
+): EdgeType {
+  const find = (table: NodeType, name?: string) =>
+    name === undefined ? undefined : table.data.columns.find(col => col.name.toUpperCase() === name.toUpperCase());
+  return createRelationshipEdge(source, target, find(source, fk.columns[0]), find(target, fk.referencedColumns[0]));
+}
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Column, DomainNodeType, EdgeType, ERDNode, HistoryChangeKind, HistoryEntry } from './types';
+
+export interface HistoryChange {
+  label: string;
+  kind: HistoryChangeKind;
+  nodeIds: string[];
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+// Oldest entries are dropped beyond this many
+const MAX_HISTORY = 100;
+
+// Moves of the same nodes within this window become one history entry
+const MOVE_COALESCE_MS = 1500;
+
+/**
+ * Serialize the parts of a node that belong to the model, leaving out callbacks
+ * and the UI state React Flow adds (selection, measured size, render timestamps)
+ */
+function getNodeContent(node: ERDNode): string {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node.data)) {
+    if (typeof value !== 'function' && !key.startsWith('_')) {
+      data[key] = value;
+    }
+  }
+  return JSON.stringify({ type: node.type, data, style: (node as DomainNodeType).style });
+}
+
+function getEdgeContent(edge: EdgeType): string {
+  const { source, target, sourceHandle, targetHandle, data } = edge;
+  return JSON.stringify({ source, target, sourceHandle, targetHandle, data });
+}
+
+function getTypeName(node: ERDNode): string {
+  if (node.type === 'domain') return 'domain';
+  if (node.type === 'sequence') return 'sequence';
+  return (node.data.tableType || 'TABLE').toLowerCase().replace(/_/g, ' ');
+}
+
+function describeNode(node: ERDNode): string {
+  return `${getTypeName(node)} ${node.data.label}`;
+}
+
+function describeEdge(edge: EdgeType, nodes: Map<string, ERDNode>): string {
+  const source = nodes.get(edge.source)?.data.label || edge.source;
+  const target = nodes.get(edge.target)?.data.label || edge.target;
+  return `${source} → ${target}`;
+}
+
+function countLabel(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Describe an edit to a single node, naming the column when only one changed
+ */
+function describeNodeEdit(prev: ERDNode, next: ERDNode): string {
+  if (prev.data.label !== next.data.label) {
+    return `Rename ${describeNode(prev)} to ${next.data.label}`;
+  }
+  if (prev.type !== 'table' || next.type !== 'table') {
+    return `Edit ${describeNode(next)}`;
+  }
+
+  const label = next.data.label;
+  if ((prev.data.tableType || 'TABLE') !== (next.data.tableType || 'TABLE')) {
+    return `Change ${label} to ${getTypeName(next)}`;
+  }
+
+  const prevColumns = new Map(prev.data.columns.map(col => [col.id, col]));
+  const nextColumns = new Map(next.data.columns.map(col => [col.id, col]));
+  const addedColumns = next.data.columns.filter(col => !prevColumns.has(col.id));
+  const removedColumns = prev.data.columns.filter(col => !nextColumns.has(col.id));
+  const editedColumns = next.data.columns.filter(col => {
+    const prevCol = prevColumns.get(col.id);
+    return prevCol && JSON.stringify(prevCol) !== JSON.stringify(col);
+  });
+  const columnChanges = addedColumns.length + removedColumns.length + editedColumns.length;
+  const names = (columns: Column[]) => columns.map(col => col.name).join(', ');
+
+  if (columnChanges > 0) {
+    if (addedColumns.length === columnChanges) return `Add column ${names(addedColumns)} to ${label}`;
+    if (removedColumns.length === columnChanges) return `Delete column ${names(removedColumns)} from ${label}`;
+    if (editedColumns.length === 1 && columnChanges === 1) {
+      const prevName = prevColumns.get(editedColumns[0].id)?.name;
+      return prevName !== editedColumns[0].name
+        ? `Rename column ${prevName} to ${editedColumns[0].name} in ${label}`
+        : `Edit column ${editedColumns[0].name} in ${label}`;
+    }
+    return `Edit ${countLabel(columnChanges, 'column')} in ${label}`;
+  }
+
+  if (prev.data.columns.map(col => col.id).join() !== next.data.columns.map(col => col.id).join()) {
+    return `Reorder columns of ${label}`;
+  }
+  if ((prev.data.comment || '') !== (next.data.comment || '')) {
+    return `Edit comment of ${label}`;
+  }
+  return `Edit ${describeNode(next)}`;
+}
+
+/**
+ * Describe what changed between two diagram states for the undo history.
+ * Returns null when only UI state such as the selection changed.
+ */
+export function describeChange(
+  prevNodes: ERDNode[],
+  prevEdges: EdgeType[],
+  nextNodes: ERDNode[],
+  nextEdges: EdgeType[]
+): HistoryChange | null {
+  const prevById = new Map(prevNodes.map(node => [node.id, node]));
+  const nextById = new Map(nextNodes.map(node => [node.id, node]));
+  const allNodes = new Map([...Array.from(prevById), ...Array.from(nextById)]);
+
+  const added = nextNodes.filter(node => !prevById.has(node.id));
+  const removed = prevNodes.filter(node => !nextById.has(node.id));
+  const edited = nextNodes.filter(node => {
+    const prev = prevById.get(node.id);
+    return prev && getNodeContent(prev) !== getNodeContent(node);
+  });
+  const moved = nextNodes.filter(node => {
+    const prev = prevById.get(node.id);
+    return prev && (prev.position.x !== node.position.x || prev.position.y !== node.position.y);
+  });
+
+  const prevEdgesById = new Map(prevEdges.map(edge => [edge.id, edge]));
+  const nextEdgeIds = new Set(nextEdges.map(edge => edge.id));
+  const addedEdges = nextEdges.filter(edge => !prevEdgesById.has(edge.id));
+  const removedEdges = prevEdges.filter(edge => !nextEdgeIds.has(edge.id));
+  const editedEdges = nextEdges.filter(edge => {
+    const prev = prevEdgesById.get(edge.id);
+    return prev && getEdgeContent(prev) !== getEdgeContent(edge);
+  });
+
+  const nodeIds = Array.from(new Set([...added, ...removed, ...edited, ...moved].map(node => node.id)));
+  const change = (label: string, kind: HistoryChangeKind = 'edit') => ({ label, kind, nodeIds });
+
+  // Node additions and removals, including whole-diagram imports
+  if (added.length > 0 && prevNodes.length > 0 && removed.length === prevNodes.length) {
+    return change(`Replace diagram (${countLabel(nextNodes.length, 'object')})`);
+  }
+  if (added.length > 1 && removed.length + edited.length === 0) return change(`Add ${countLabel(added.length, 'object')}`);
+  if (removed.length > 1 && added.length + edited.length === 0) return change(`Delete ${countLabel(removed.length, 'object')}`);
+  if (added.length + removed.length + edited.length > 1 && added.length + removed.length > 0) {
+    const parts = [
+      added.length > 0 ? `${added.length} added` : '',
+      removed.length > 0 ? `${removed.length} deleted` : '',
+      edited.length > 0 ? `${edited.length} edited` : ''
+    ].filter(Boolean);
+    return change(`Update diagram (${parts.join(', ')})`);
+  }
+  if (added.length === 1) return change(`Add ${describeNode(added[0])}`);
+  if (removed.length === 1) return change(`Delete ${describeNode(removed[0])}`);
+
+  // Relationships; connecting columns also flags the foreign key column, so edges go first
+  const edgeChanges = addedEdges.length + removedEdges.length + editedEdges.length;
+  if (edgeChanges > 1) return change(`Update ${countLabel(edgeChanges, 'relationship')}`);
+  if (addedEdges.length === 1) return change(`Add relationship ${describeEdge(addedEdges[0], allNodes)}`);
+  if (removedEdges.length === 1) return change(`Delete relationship ${describeEdge(removedEdges[0], allNodes)}`);
+  if (editedEdges.length === 1) {
+    return change(`Change relationship ${describeEdge(editedEdges[0], allNodes)} to ${editedEdges[0].data.relationshipType}`);
+  }
+
+  if (edited.length > 1) return change(`Edit ${countLabel(edited.length, 'object')}`);
+  if (edited.length === 1) return change(describeNodeEdit(prevById.get(edited[0].id) as ERDNode, edited[0]));
+
+  if (moved.length === 1) return change(`Move ${describeNode(moved[0])}`, 'move');
+  if (moved.length > 1) return change(`Move ${countLabel(moved.length, 'object')}`, 'move');
+
+  return null;
+}
+
+/**
+ * Check whether two changes touched the same nodes
+ */
+function sameNodeIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(id => b.includes(id));
+}
+
+/**
+ * Add the diagram state after a change to the history. Changes to UI state only refresh
+ * the current snapshot, and repeated moves of the same nodes become one entry.
+ */
+export function recordChange(history: HistoryState, nodes: ERDNode[], edges: EdgeType[], now: number): HistoryState {
+  const { entries, index } = history;
+  const current = entries[index];
+  if (current.nodes === nodes && current.edges === edges) return history;
+
+  const change = describeChange(current.nodes, current.edges, nodes, edges);
+
+  // Selection and size updates only refresh the snapshot
+  if (!change) {
+    const updated = entries.slice();
+    updated[index] = { ...current, nodes, edges };
+    return { entries: updated, index };
+  }
+
+  if (change.kind === 'move' && current.kind === 'move' && index === entries.length - 1 &&
+      now - current.timestamp < MOVE_COALESCE_MS && sameNodeIds(current.nodeIds, change.nodeIds)) {
+    const updated = entries.slice();
+    updated[index] = { ...current, timestamp: now, nodes, edges };
+    return { entries: updated, index };
+  }
+
+  // A new change discards everything that was undone
+  const updated = entries
+    .slice(0, index + 1)
+    .concat({ id: uuidv4(), ...change, timestamp: now, nodes, edges })
+    .slice(-MAX_HISTORY);
+  return { entries: updated, index: updated.length - 1 };
+}
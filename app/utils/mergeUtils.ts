@@ -0,0 +1,296 @@
+import { ERDNode, EdgeType, NodeType, Column, TableConstraint, SequenceNodeType } from './types';
+import { QualifiedTable, TableNamespace, findTableByReference, getQualifiedName, getTableReference } from './qualifiedNames';
+import { getColumnHandleId, getHandleColumnId } from './edgeUtils';
+
+/**
+ * Normalize a table label so generated and hand-written names compare equal
+ */
+export function normalizeTableName(label: string): string {
+  return label.replace(/"/g, '').toUpperCase();
+}
+
+function sameName(a?: string, b?: string): boolean {
+  return (a || '').toUpperCase() === (b || '').toUpperCase();
+}
+
+/**
+ * Leave the namespace of a new object unset when it only repeats the defaults
+ */
+function withoutDefaultNamespace<T extends QualifiedTable>(data: T, defaults: TableNamespace): T {
+  return {
+    ...data,
+    database: data.database && !sameName(data.database, defaults.database) ? data.database : undefined,
+    schema: data.schema && !sameName(data.schema, defaults.schema) ? data.schema : undefined
+  };
+}
+
+/**
+ * Merge a freshly parsed ERD into the current one.
+ * Tables that still exist keep their id, position and column ids, domains are
+ * left untouched and existing edges keep their handles and relationship type.
+ * Tables missing from the parsed result are removed along with their edges.
+ * Tables and sequences are matched by their qualified name, with unset database
+ * and schema taken from the defaults the DDL was generated with.
+ */
+export function mergeParsedERD(
+  currentNodes: ERDNode[],
+  currentEdges: EdgeType[],
+  parsedNodes: ERDNode[],
+  parsedEdges: EdgeType[],
+  defaults: TableNamespace = {}
+): { nodes: ERDNode[]; edges: EdgeType[] } {
+  const tableKey = (node: NodeType | SequenceNodeType) => normalizeTableName(getQualifiedName(node.data, defaults));
+
+  const currentTables = new Map<string, NodeType>();
+  const currentSequences = new Map<string, SequenceNodeType>();
+  for (const node of currentNodes) {
+    if (node.type === 'table') {
+      currentTables.set(tableKey(node), node);
+    } else if (node.type === 'sequence') {
+      currentSequences.set(tableKey(node), node);
+    }
+  }
+
+  // Parsed node id -> merged node id
+  const idMap = new Map<string, string>();
+  const mergedTables: NodeType[] = [];
+
+  // New tables are placed to the right of the existing diagram
+  const maxX = currentNodes.reduce((max, node) => Math.max(max, node.position.x), 0);
+  let newTableIndex = 0;
+
+  for (const parsed of parsedNodes) {
+    if (parsed.type !== 'table') continue;
+
+    const existing = currentTables.get(tableKey(parsed));
+    if (existing) {
+      idMap.set(parsed.id, existing.id);
+      mergedTables.push({
+        ...existing,
+        data: {
+          ...existing.data,
+          columns: mergeColumns(existing.data.columns, parsed.data.columns),
+          constraints: mergeConstraints(existing.data.columns, parsed.data.constraints),
+          comment: parsed.data.comment,
+          tags: parsed.data.tags,
+          tableType: parsed.data.tableType,
+          query: parsed.data.query,
+          targetLag: parsed.data.targetLag,
+          warehouse: parsed.data.warehouse,
+          refreshMode: parsed.data.refreshMode,
+          icebergCatalog: parsed.data.icebergCatalog
+        }
+      });
+    } else {
+      idMap.set(parsed.id, parsed.id);
+      mergedTables.push({
+        ...parsed,
+        data: withoutDefaultNamespace(parsed.data, defaults),
+        position: {
+          x: maxX + 350,
+          y: newTableIndex++ * 250
+        }
+      });
+    }
+  }
+
+  const mergedSequences: SequenceNodeType[] = [];
+  for (const parsed of parsedNodes) {
+    if (parsed.type !== 'sequence') continue;
+
+    const existing = currentSequences.get(tableKey(parsed));
+    mergedSequences.push(existing
+      ? {
+          ...existing,
+          data: { ...existing.data, start: parsed.data.start, increment: parsed.data.increment, comment: parsed.data.comment }
+        }
+      : {
+          ...parsed,
+          data: withoutDefaultNamespace(parsed.data, defaults),
+          position: {
+            x: maxX + 350,
+            y: newTableIndex++ * 250
+          }
+        });
+  }
+
+  // Point foreign keys at the names the user already has on the canvas
+  const parsedTables = parsedNodes.filter((node): node is NodeType => node.type === 'table');
+  const mergedByParsedId = new Map(parsedTables.map((node, index) => [node.id, mergedTables[index]]));
+  const remapReference = (reference: string, parsed: NodeType, merged: NodeType) => {
+    const target = findTableByReference(parsedTables, reference, parsed.data);
+    const mergedTarget = target && mergedByParsedId.get(target.id);
+    return mergedTarget ? getTableReference(mergedTarget.data, merged.data) : reference;
+  };
+
+  parsedTables.forEach((parsed, index) => {
+    const table = mergedTables[index];
+    table.data.columns = table.data.columns.map(col =>
+      col.referencedTable ? { ...col, referencedTable: remapReference(col.referencedTable, parsed, table) } : col
+    );
+    table.data.constraints = table.data.constraints?.map(constraint =>
+      constraint.referencedTable
+        ? { ...constraint, referencedTable: remapReference(constraint.referencedTable, parsed, table) }
+        : constraint
+    );
+  });
+
+  // Parsed column id -> merged column id, for the handles of parsed edges
+  const columnIdMap = new Map<string, string>();
+  parsedTables.forEach((parsed, index) => {
+    parsed.data.columns.forEach((col, i) => columnIdMap.set(col.id, mergedTables[index].data.columns[i].id));
+  });
+
+  // Keep domains and the original ordering of surviving tables and sequences
+  const mergedById = new Map<string, ERDNode>([...mergedTables, ...mergedSequences].map(node => [node.id, node]));
+  const nodes: ERDNode[] = [];
+  for (const node of currentNodes) {
+    if (node.type === 'domain') {
+      nodes.push(node);
+    } else if (mergedById.has(node.id)) {
+      nodes.push(mergedById.get(node.id)!);
+      mergedById.delete(node.id);
+    }
+  }
+  nodes.push(...Array.from(mergedById.values()));
+
+  return {
+    nodes,
+    edges: mergeEdges(currentNodes, currentEdges, parsedEdges, idMap, columnIdMap, new Set(nodes.map(node => node.id)))
+  };
+}
+
+/**
+ * Take column definitions from the parsed table but keep the ids of columns that
+ * already existed so edge handles keep pointing at them
+ */
+function mergeColumns(existingColumns: Column[], parsedColumns: Column[]): Column[] {
+  const existingByName = new Map(existingColumns.map(col => [col.name.toUpperCase(), col]));
+
+  return parsedColumns.map(parsed => {
+    const existing = existingByName.get(parsed.name.toUpperCase());
+    if (!existing) return parsed;
+
+    return {
+      ...existing,
+      ...parsed,
+      id: existing.id,
+      // View column lists carry no types, keep the ones the model has
+      dataType: parsed.dataType || existing.dataType,
+      referencedTable: parsed.referencedTable,
+      referencedColumn: parsed.referencedColumn,
+      defaultValue: parsed.defaultValue,
+      identity: parsed.identity,
+      collation: parsed.collation,
+      // The generator upper-cases plain identifiers, keep the user's spelling
+      name: existing.name
+    };
+  });
+}
+
+/**
+ * Take constraints from the parsed table, spelling column names the way the
+ * existing columns do so they keep matching after the merge
+ */
+function mergeConstraints(existingColumns: Column[], parsedConstraints?: TableConstraint[]): TableConstraint[] | undefined {
+  if (!parsedConstraints) return undefined;
+
+  const existingByName = new Map(existingColumns.map(col => [col.name.toUpperCase(), col.name]));
+  const rename = (name: string) => existingByName.get(name.toUpperCase()) || name;
+
+  return parsedConstraints.map(constraint => ({
+    ...constraint,
+    columns: constraint.columns.map(rename)
+  }));
+}
+
+/**
+ * Combine existing and parsed edges, matching them by the columns they connect so
+ * several foreign keys between the same tables stay apart. Existing edges that were
+ * backed by a foreign key are only kept if the DDL still declares it; hand-drawn
+ * edges are kept as long as both tables still exist.
+ */
+function mergeEdges(
+  currentNodes: ERDNode[],
+  currentEdges: EdgeType[],
+  parsedEdges: EdgeType[],
+  idMap: Map<string, string>,
+  columnIdMap: Map<string, string>,
+  survivingIds: Set<string>
+): EdgeType[] {
+  const pairKey = (edge: EdgeType) => [edge.source, edge.target].sort().join('|');
+  // Direction doesn't matter: hand-drawn edges may run from the referenced column
+  const edgeKey = (edge: EdgeType) =>
+    [`${edge.source}:${getHandleColumnId(edge.sourceHandle) || ''}`, `${edge.target}:${getHandleColumnId(edge.targetHandle) || ''}`].sort().join('|');
+
+  // Point parsed edges at the merged tables and columns
+  const remapHandle = (handle: string, nodeId: string, side: 'source' | 'target') => {
+    const parsedColumnId = getHandleColumnId(handle);
+    const columnId = parsedColumnId && columnIdMap.get(parsedColumnId);
+    return columnId ? getColumnHandleId(nodeId, columnId, side) : '';
+  };
+
+  const parsedByKey = new Map<string, EdgeType>();
+  for (const edge of parsedEdges) {
+    const source = idMap.get(edge.source);
+    const target = idMap.get(edge.target);
+    if (!source || !target) continue;
+
+    const remapped = {
+      ...edge,
+      source,
+      target,
+      sourceHandle: remapHandle(edge.sourceHandle, source, 'source'),
+      targetHandle: remapHandle(edge.targetHandle, target, 'target')
+    };
+    parsedByKey.set(edgeKey(remapped), remapped);
+  }
+
+  const edges: EdgeType[] = [];
+  const usedKeys = new Set<string>();
+
+  for (const edge of currentEdges) {
+    if (!survivingIds.has(edge.source) || !survivingIds.has(edge.target)) continue;
+
+    let key: string | undefined = edgeKey(edge);
+    if (!parsedByKey.has(key) && !getHandleColumnId(edge.sourceHandle) && !getHandleColumnId(edge.targetHandle)) {
+      // Edges drawn between whole tables stand in for one foreign key between them
+      key = Array.from(parsedByKey.entries())
+        .find(([parsedKey, parsed]) => !usedKeys.has(parsedKey) && pairKey(parsed) === pairKey(edge))?.[0];
+    }
+
+    if (key && parsedByKey.has(key)) {
+      edges.push(edge);
+      usedKeys.add(key);
+    } else if (!isForeignKeyEdge(currentNodes, edge)) {
+      edges.push(edge);
+    }
+  }
+
+  for (const [key, edge] of Array.from(parsedByKey.entries())) {
+    if (!usedKeys.has(key)) {
+      edges.push(edge);
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Check whether an edge represents a foreign key declared on either of its tables
+ */
+function isForeignKeyEdge(nodes: ERDNode[], edge: EdgeType): boolean {
+  const tables = nodes.filter((node): node is NodeType => node.type === 'table');
+  const source = tables.find(node => node.id === edge.source);
+  const target = tables.find(node => node.id === edge.target);
+  if (!source || !target) return false;
+
+  const references = (from: NodeType, to: NodeType) =>
+    from.data.columns.some(col =>
+      col.isForeignKey &&
+      col.referencedTable &&
+      findTableByReference(tables, col.referencedTable, from.data)?.id === to.id
+    );
+
+  return references(source, target) || references(target, source);
+}
@@ -0,0 +1,110 @@
+import { EdgeType, ERDNode, LintRuleSettings } from './types';
+
+// Bump when the saved project format changes and add a migration from the previous version
+export const PROJECT_VERSION = 2;
+
+export interface ProjectFile {
+  version: number;
+  name: string;
+  nodes: ERDNode[];
+  edges: EdgeType[];
+  baselineNodes?: ERDNode[] | null;
+  lintRules?: LintRuleSettings;
+}
+
+type Migration = (project: Record<string, any>) => Record<string, any>;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 is the unversioned { nodes, edges, ddl } download. Nodes were copied
+  // straight from React Flow, so they carry callbacks and UI state.
+  1: (project) => ({
+    version: 2,
+    name: project.name || 'Untitled project',
+    nodes: project.nodes.map(cleanNode),
+    edges: project.edges.map(cleanEdge),
+    baselineNodes: null
+  })
+};
+
+/**
+ * Keep only the model fields of a node, dropping callbacks, render timestamps and
+ * React Flow state such as selection and measured size
+ */
+function cleanNode(node: any): ERDNode {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node.data || {})) {
+    if (typeof value !== 'function' && !key.startsWith('_')) {
+      data[key] = value;
+    }
+  }
+
+  return {
+    id: node.id,
+    type: node.type,
+    position: { x: node.position?.x || 0, y: node.position?.y || 0 },
+    ...(node.type === 'domain' && node.style ? { style: { width: node.style.width, height: node.style.height } } : {}),
+    data
+  } as ERDNode;
+}
+
+function cleanEdge(edge: any): EdgeType {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle,
+    targetHandle: edge.targetHandle,
+    type: 'relationship',
+    data: { relationshipType: edge.data?.relationshipType || 'one-to-many' }
+  };
+}
+
+/**
+ * Read a saved project of any version and upgrade it to the current format
+ * @throws Error when the data isn't a project
+ */
+export function migrateProject(raw: unknown): ProjectFile {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid project format');
+  }
+
+  let project = raw as Record<string, any>;
+  if (!Array.isArray(project.nodes) || !Array.isArray(project.edges)) {
+    throw new Error('Invalid project format');
+  }
+
+  let version = typeof project.version === 'number' ? project.version : 1;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this app supports (${PROJECT_VERSION})`);
+  }
+
+  while (version < PROJECT_VERSION) {
+    project = MIGRATIONS[version](project);
+    version = project.version;
+  }
+
+  return project as ProjectFile;
+}
+
+/**
+ * Build the current-version project for saving
+ */
+export function serializeProject(
+  name: string,
+  nodes: ERDNode[],
+  edges: EdgeType[],
+  baselineNodes: ERDNode[] | null = null,
+  lintRules: LintRuleSettings = {}
+): ProjectFile {
+  return {
+    version: PROJECT_VERSION,
+    name,
+    nodes: nodes.map(cleanNode),
+    edges: edges.map(cleanEdge),
+    baselineNodes: baselineNodes ? baselineNodes.map(cleanNode) : null,
+    lintRules
+  };
+}
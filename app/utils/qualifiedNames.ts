@@ -0,0 +1,105 @@
+// Anything with a table name and an optional database and schema
+export interface QualifiedTable {
+  label: string;
+  database?: string;
+  schema?: string;
+}
+
+// Database and schema used when a table doesn't set its own
+export interface TableNamespace {
+  database?: string;
+  schema?: string;
+}
+
+/**
+ * Split a possibly qualified name like DB."My Schema".TABLE into its parts.
+ * A single quoted identifier containing dots ("DB.SCHEMA.TABLE") is split as well.
+ */
+export function splitQualifiedName(name: string): { database?: string; schema?: string; table: string } {
+  const parts: string[] = [];
+  let current = '';
+  let inQuote = false;
+
+  for (const char of name.trim()) {
+    if (char === '"') {
+      inQuote = !inQuote;
+    } else if (char === '.' && !inQuote) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  const names = parts.length === 1 ? parts[0].split('.') : parts;
+  const table = names[names.length - 1];
+
+  if (names.length >= 3) {
+    return { database: names[names.length - 3], schema: names[names.length - 2], table };
+  }
+  if (names.length === 2) {
+    return { schema: names[0], table };
+  }
+  return { table };
+}
+
+/**
+ * Get the dotted name of a table, filling in database and schema from the defaults
+ */
+export function getQualifiedName(table: QualifiedTable, defaults: TableNamespace = {}): string {
+  return getNameParts(table, defaults).join('.');
+}
+
+/**
+ * Get the database, schema and table name parts that are set
+ */
+export function getNameParts(table: QualifiedTable, defaults: TableNamespace = {}): string[] {
+  const database = table.database || defaults.database;
+  const schema = table.schema || defaults.schema;
+
+  return [schema ? database : undefined, schema, table.label].filter((part): part is string => !!part);
+}
+
+/**
+ * Get the name a foreign key uses to point at a table: the bare name within the
+ * same schema, otherwise qualified as far as needed
+ */
+export function getTableReference(target: QualifiedTable, from?: QualifiedTable): string {
+  const same = (a?: string, b?: string) => (a || '').toUpperCase() === (b || '').toUpperCase();
+
+  if (!target.schema || (from && same(target.database, from.database) && same(target.schema, from.schema))) {
+    return target.label;
+  }
+  if (!target.database || (from && same(target.database, from.database))) {
+    return `${target.schema}.${target.label}`;
+  }
+  return `${target.database}.${target.schema}.${target.label}`;
+}
+
+/**
+ * Find the table a (possibly qualified) reference points at. Unqualified references
+ * prefer a table in the same database and schema as the referencing table.
+ */
+export function findTableByReference<T extends { data: QualifiedTable }>(tables: T[], reference: string, from?: QualifiedTable): T | undefined {
+  const normalize = (value?: string) => (value || '').replace(/"/g, '').toUpperCase();
+  const ref = splitQualifiedName(reference);
+
+  const candidates = tables.filter(table =>
+    normalize(table.data.label) === normalize(ref.table) ||
+    // Older projects stored the qualified name in the label
+    normalize(table.data.label) === normalize(reference)
+  );
+  if (candidates.length <= 1) return candidates[0];
+
+  const score = (table: T) => {
+    const database = ref.database ?? (ref.schema ? undefined : from?.database);
+    const schema = ref.schema ?? from?.schema;
+    let points = 0;
+    if (schema !== undefined && normalize(table.data.schema) === normalize(schema)) points += 2;
+    if (database !== undefined && normalize(table.data.database) === normalize(database)) points += 1;
+    return points;
+  };
+
+  return candidates.reduce((best, table) => (score(table) > score(best) ? table : best));
+}
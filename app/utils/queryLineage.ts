@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NodeType, EdgeType } from './types';
+import { findTableByReference } from './qualifiedNames';
+
+// Object types built from a query over other objects
+export const DERIVED_TABLE_TYPES = ['VIEW', 'MATERIALIZED_VIEW', 'DYNAMIC_TABLE'];
+
+// A table name with optional database and schema parts, each quoted or plain
+const QUALIFIED_NAME_PATTERN = '((?:"[^"]+"|[a-zA-Z_][a-zA-Z0-9_$]*)(?:\\s*\\.\\s*(?:"[^"]+"|[a-zA-Z_][a-zA-Z0-9_$]*)){0,2})(?!\\s*[.(])';
+
+// Words that end a FROM item, so they are never read as a table alias
+const CLAUSE_KEYWORDS = 'WHERE|GROUP|ORDER|HAVING|QUALIFY|LIMIT|UNION|EXCEPT|MINUS|INTERSECT|JOIN|INNER|LEFT|RIGHT|FULL|CROSS|NATURAL|ON|USING|WINDOW|PIVOT|UNPIVOT|SAMPLE|AT|BEFORE|CHANGES|MATCH_RECOGNIZE';
+
+// An optional table alias, with or without AS
+const ALIAS_PATTERN = `(?:\\s+(?:AS\\s+)?(?!(?:${CLAUSE_KEYWORDS})\\b)(?:"[^"]+"|[a-zA-Z_][a-zA-Z0-9_$]*))?`;
+
+// Names that can follow FROM without being a table
+const NON_TABLE_NAMES = ['LATERAL', 'TABLE', 'VALUES'];
+
+/**
+ * Check whether an object type is defined by a query
+ */
+export function isDerivedTable(tableType?: string): boolean {
+  return DERIVED_TABLE_TYPES.includes(tableType || 'TABLE');
+}
+
+/**
+ * Remove comments and string literals so that their contents are not read as SQL
+ */
+function stripQueryText(query: string): string {
+  return query
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/--[^\n]*/g, ' ');
+}
+
+/**
+ * Check that a position is part of a query rather than of a function call like
+ * EXTRACT(YEAR FROM ...): either outside parentheses or inside a subquery
+ */
+function isInQueryScope(sql: string, index: number): boolean {
+  const openParens: number[] = [];
+  for (let i = 0; i < index; i++) {
+    if (sql[i] === '(') openParens.push(i);
+    else if (sql[i] === ')') openParens.pop();
+  }
+
+  const innermost = openParens[openParens.length - 1];
+  return innermost === undefined || /^\s*(SELECT|WITH)\b/i.test(sql.substring(innermost + 1));
+}
+
+/**
+ * Get the names of the tables and views a query reads from, as written in its
+ * FROM and JOIN clauses. Common table expressions are left out.
+ */
+export function getQueryReferences(query?: string): string[] {
+  if (!query?.trim()) return [];
+
+  const sql = stripQueryText(query);
+  const unquote = (name: string) => name.replace(/\s*\.\s*/g, '.');
+
+  const cteNames = new Set<string>();
+  const cteRegex = new RegExp(`(?:\\bWITH\\s+(?:RECURSIVE\\s+)?|,\\s*)${QUALIFIED_NAME_PATTERN}\\s*(?:\\([^)]*\\)\\s*)?AS\\s*\\(`, 'gi');
+  let match;
+  while ((match = cteRegex.exec(sql)) !== null) {
+    cteNames.add(match[1].replace(/"/g, '').toUpperCase());
+  }
+
+  const references: string[] = [];
+  const addReference = (name: string) => {
+    const key = name.replace(/"/g, '').toUpperCase();
+    if (cteNames.has(key) || NON_TABLE_NAMES.includes(key)) return;
+    if (!references.some(reference => reference.replace(/"/g, '').toUpperCase() === key)) {
+      references.push(unquote(name));
+    }
+  };
+
+  // FROM a, b JOIN c: the first item after FROM or JOIN, then any comma separated ones
+  const fromRegex = new RegExp(
+    `\\b(?:FROM|JOIN)\\s+${QUALIFIED_NAME_PATTERN}${ALIAS_PATTERN}((?:\\s*,\\s*${QUALIFIED_NAME_PATTERN.replace('(', '(?:')}${ALIAS_PATTERN})*)`,
+    'gi'
+  );
+  while ((match = fromRegex.exec(sql)) !== null) {
+    if (!isInQueryScope(sql, match.index)) continue;
+    addReference(match[1]);
+
+    const listRegex = new RegExp(`,\\s*${QUALIFIED_NAME_PATTERN}`, 'gi');
+    let item;
+    while ((item = listRegex.exec(match[2])) !== null) {
+      addReference(item[1]);
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Get the tables on the canvas that a view or dynamic table reads from
+ */
+export function getQuerySources(table: NodeType, tables: NodeType[]): NodeType[] {
+  const sources: NodeType[] = [];
+
+  for (const reference of getQueryReferences(table.data.query)) {
+    const source = findTableByReference(tables, reference, table.data);
+    if (source && source.id !== table.id && !sources.includes(source)) {
+      sources.push(source);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Create lineage edges from a view or dynamic table to the tables its query reads
+ * from that it is not connected to yet. Like dbt lineage, the edge runs from the
+ * dependent object to its source.
+ */
+export function getLineageEdges(table: NodeType, tables: NodeType[], edges: EdgeType[]): EdgeType[] {
+  if (!isDerivedTable(table.data.tableType)) return [];
+
+  const isConnected = (a: string, b: string) =>
+    edges.some(edge => (edge.source === a && edge.target === b) || (edge.source === b && edge.target === a));
+
+  return getQuerySources(table, tables)
+    .filter(source => !isConnected(table.id, source.id))
+    .map(source => ({
+      id: `e${table.id}-${source.id}-${uuidv4()}`,
+      source: table.id,
+      target: source.id,
+      sourceHandle: '',
+      targetHandle: '',
+      type: 'relationship',
+      data: { relationshipType: 'one-to-many' }
+    }));
+}
@@ -0,0 +1,39 @@
+import { ERDNode, SequenceNodeType } from './types';
+import { QualifiedTable, findTableByReference, getTableReference } from './qualifiedNames';
+
+// A default that draws from a sequence, e.g. DB.SCHEMA.ORDER_SEQ.NEXTVAL
+const NEXTVAL_PATTERN = /^\s*((?:"[^"]+"|[a-zA-Z_][a-zA-Z0-9_$]*)(?:\s*\.\s*(?:"[^"]+"|[a-zA-Z_][a-zA-Z0-9_$]*)){0,2})\s*\.\s*NEXTVAL\s*$/i;
+
+/**
+ * Get the sequences on the canvas
+ */
+export function getSequences(nodes: ERDNode[]): SequenceNodeType[] {
+  return nodes.filter((node): node is SequenceNodeType => node.type === 'sequence');
+}
+
+/**
+ * Get the name of the sequence a column default draws from, as written in the default
+ */
+export function getSequenceReference(defaultValue?: string): string | undefined {
+  return defaultValue?.match(NEXTVAL_PATTERN)?.[1].replace(/\s+/g, '');
+}
+
+/**
+ * Find the sequence on the canvas a column default draws from
+ * @param from The table of the column, whose schema unqualified names are looked up in
+ */
+export function findDefaultSequence(
+  sequences: SequenceNodeType[],
+  defaultValue?: string,
+  from?: QualifiedTable
+): SequenceNodeType | undefined {
+  const reference = getSequenceReference(defaultValue);
+  return reference ? findTableByReference(sequences, reference, from) : undefined;
+}
+
+/**
+ * Write the default that draws the next value of a sequence, qualified as far as the table needs
+ */
+export function getNextValueDefault(sequence: SequenceNodeType, from?: QualifiedTable): string {
+  return `${getTableReference(sequence.data, from)}.NEXTVAL`;
+}
@@ -28,17 +28,29 @@ const createColumn = (
   referencedColumn
 });
 
+// Surrogate keys are numbered by the warehouse
+const createSurrogateKey = (name: string): Column => ({
+  ...createColumn(name, 'INTEGER', true, false, false),
+  identity: { start: 1, increment: 1 }
+});
+
+// Audit timestamps are filled in on insert
+const createCreatedDate = (): Column => ({
+  ...createColumn('CREATED_DATE', 'TIMESTAMP_NTZ', false, false, false),
+  defaultValue: 'CURRENT_TIMESTAMP()'
+});
+
 // Kimball Templates
 const kimballDimensionType1: TableTemplate = {
   name: 'Kimball Dimension (Type 1)',
   description: 'Standard dimension table with Type 1 SCD (no history)',
   category: 'Kimball',
   getColumns: (tableName: string) => [
-    createColumn(`${tableName}_KEY`, 'INTEGER', true, false, false),
+    createSurrogateKey(`${tableName}_KEY`),
     createColumn('BUSINESS_KEY', 'VARCHAR', false, false, false),
     createColumn('DESCRIPTION', 'VARCHAR', false, false, true),
     createColumn('SOURCE_SYSTEM', 'VARCHAR', false, false, true),
-    createColumn('CREATED_DATE', 'TIMESTAMP_NTZ', false, false, false),
+    createCreatedDate(),
     createColumn('UPDATED_DATE', 'TIMESTAMP_NTZ', false, false, true),
   ]
 };
@@ -48,14 +60,14 @@ const kimballDimensionType2: TableTemplate = {
   description: 'Dimension table with Type 2 SCD (historical tracking)',
   category: 'Kimball',
   getColumns: (tableName: string) => [
-    createColumn(`${tableName}_KEY`, 'INTEGER', true, false, false),
+    createSurrogateKey(`${tableName}_KEY`),
     createColumn('BUSINESS_KEY', 'VARCHAR', false, false, false),
     createColumn('DESCRIPTION', 'VARCHAR', false, false, true),
     createColumn('SOURCE_SYSTEM', 'VARCHAR', false, false, true),
     createColumn('EFFECTIVE_FROM', 'TIMESTAMP_NTZ', false, false, false),
     createColumn('EFFECTIVE_TO', 'TIMESTAMP_NTZ', false, false, true),
     createColumn('IS_CURRENT', 'BOOLEAN', false, false, false),
-    createColumn('CREATED_DATE', 'TIMESTAMP_NTZ', false, false, false),
+    createCreatedDate(),
     createColumn('UPDATED_DATE', 'TIMESTAMP_NTZ', false, false, true),
   ]
 };
@@ -65,7 +77,7 @@ const kimballFactTable: TableTemplate = {
   description: 'Standard fact table with measures and dimension keys',
   category: 'Kimball',
   getColumns: (tableName: string) => [
-    createColumn(`${tableName}_KEY`, 'INTEGER', true, false, false),
+    createSurrogateKey(`${tableName}_KEY`),
     createColumn('DATE_KEY', 'INTEGER', false, true, false, 'DATE_DIM', 'DATE_KEY'),
     createColumn('CUSTOMER_KEY', 'INTEGER', false, true, false, 'CUSTOMER_DIM', 'CUSTOMER_KEY'),
     createColumn('PRODUCT_KEY', 'INTEGER', false, true, false, 'PRODUCT_DIM', 'PRODUCT_KEY'),
@@ -74,7 +86,7 @@ const kimballFactTable: TableTemplate = {
     createColumn('AMOUNT', 'DECIMAL', false, false, false),
     createColumn('COST', 'DECIMAL', false, false, true),
     createColumn('SOURCE_SYSTEM', 'VARCHAR', false, false, true),
-    createColumn('CREATED_DATE', 'TIMESTAMP_NTZ', false, false, false),
+    createCreatedDate(),
   ]
 };
 
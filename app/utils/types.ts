@@ -10,6 +10,46 @@ export interface Column {
   referencedColumn?: string;
   comment?: string;
   tags?: string[];
+  defaultValue?: string; // SQL expression, e.g. CURRENT_TIMESTAMP()
+  identity?: ColumnIdentity;
+  collation?: string;
+}
+
+// Values generated for an IDENTITY / AUTOINCREMENT column
+export interface ColumnIdentity {
+  start: number;
+  increment: number;
+}
+
+// A column type split into its parts, e.g. NUMBER(10,2) or TIMESTAMP_NTZ(3).
+// Unset parameters take the Snowflake default.
+export interface DataType {
+  base: string;
+  length?: number; // VARCHAR, CHAR and BINARY
+  precision?: number; // NUMBER
+  scale?: number; // NUMBER
+  timePrecision?: number; // TIME and TIMESTAMP_*, fractional seconds digits
+}
+
+// Named table constraint with an ordered column list
+export interface TableConstraint {
+  id: string;
+  name?: string;
+  type: 'PRIMARY KEY' | 'FOREIGN KEY' | 'UNIQUE';
+  columns: string[];
+  referencedTable?: string;
+  referencedColumns?: string[];
+}
+
+// How a dynamic table refreshes
+export type RefreshMode = 'AUTO' | 'FULL' | 'INCREMENTAL';
+
+// Query and refresh settings of views, materialized views and dynamic tables
+export interface QueryDefinition {
+  query?: string;
+  targetLag?: string;
+  warehouse?: string;
+  refreshMode?: RefreshMode;
 }
 
 // TableNode Type
@@ -19,10 +59,18 @@ export interface NodeType {
   position: { x: number; y: number };
   data: {
     label: string;
+    database?: string;
+    schema?: string;
     columns: Column[];
+    constraints?: TableConstraint[];
     comment?: string;
     tags?: string[];
     tableType?: 'TABLE' | 'VIEW' | 'MATERIALIZED_VIEW' | 'DYNAMIC_TABLE' | 'ICEBERG_TABLE';
+    query?: string; // SELECT the view or dynamic table is defined by
+    targetLag?: string;
+    warehouse?: string;
+    refreshMode?: RefreshMode;
+    icebergCatalog?: string;
   };
 }
 
@@ -40,8 +88,28 @@ export interface DomainNodeType {
   };
 }
 
+// SequenceNode Type
+export interface SequenceNodeType {
+  id: string;
+  type: 'sequence';
+  position: { x: number; y: number };
+  data: {
+    label: string;
+    database?: string;
+    schema?: string;
+    start: number;
+    increment: number;
+    comment?: string;
+    onChange?: (data: SequenceDefinition) => void;
+    onDelete?: (nodeId: string) => void;
+  };
+}
+
+// Editable settings of a sequence
+export type SequenceDefinition = Pick<SequenceNodeType['data'], 'label' | 'start' | 'increment' | 'comment'>;
+
 // Combined node type
-export type ERDNode = NodeType | DomainNodeType;
+export type ERDNode = NodeType | DomainNodeType | SequenceNodeType;
 
 // Edge Types
 export interface EdgeType {
@@ -59,16 +127,126 @@ export interface EdgeType {
 // Snowflake DDL Types
 export interface SnowflakeTable {
   name: string;
+  database?: string;
+  schema?: string;
   columns: Column[];
   primaryKey?: string[];
+  primaryKeyName?: string;
   foreignKeys?: {
+    name?: string;
     columns: string[];
     referencedTable: string;
+    referencedDatabase?: string;
+    referencedSchema?: string;
     referencedColumns: string[];
   }[];
+  uniqueKeys?: {
+    name?: string;
+    columns: string[];
+  }[];
   comment?: string;
   tags?: string[];
   tableType?: 'TABLE' | 'VIEW' | 'MATERIALIZED_VIEW' | 'DYNAMIC_TABLE' | 'ICEBERG_TABLE';
+  query?: string;
+  targetLag?: string;
+  warehouse?: string;
+  refreshMode?: RefreshMode;
+  icebergCatalog?: string;
+}
+
+// Schema diff Types
+export type SchemaChangeKind =
+  | 'CREATE_TABLE'
+  | 'DROP_TABLE'
+  | 'RENAME_TABLE'
+  | 'RECREATE_TABLE'
+  | 'ALTER_TABLE'
+  | 'ADD_COLUMN'
+  | 'DROP_COLUMN'
+  | 'RENAME_COLUMN'
+  | 'ALTER_COLUMN'
+  | 'ADD_CONSTRAINT'
+  | 'DROP_CONSTRAINT'
+  | 'CREATE_SEQUENCE'
+  | 'DROP_SEQUENCE'
+  | 'ALTER_SEQUENCE';
+
+export interface SchemaChange {
+  id: string;
+  kind: SchemaChangeKind;
+  table: string;
+  description: string;
+  sql: string;
+  destructive: boolean;
+}
+
+// Drift Types
+export type ColumnDriftKind = 'missing' | 'extra' | 'type' | 'nullability';
+
+export interface ColumnDrift {
+  column: string;
+  kind: ColumnDriftKind;
+  expected?: string; // What the model declares
+  actual?: string; // What Snowflake has
+}
+
+export interface TableDrift {
+  nodeId?: string; // Canvas table, unset for tables that only exist in Snowflake
+  table: string;
+  kind: 'missing' | 'extra' | 'changed';
+  columns: ColumnDrift[];
+}
+
+// Model lint Types
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+// Severity chosen per rule id in a project; rules that aren't listed use their default
+export type LintRuleSettings = Record<string, LintSeverity | 'off'>;
+
+export interface LintProblem {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  nodeId?: string; // Table the problem is on, if it still exists
+  columnId?: string;
+  edgeId?: string;
+}
+
+// Execution transcript Types
+export type StatementStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped';
+
+export interface StatementExecution {
+  index: number;
+  sql: string;
+  status: StatementStatus;
+  durationMs?: number;
+  message?: string;
+  error?: string;
+}
+
+// DDL import Types
+export interface ImportDiagnostic {
+  severity: 'error' | 'warning'; // Errors drop what they occur in, warnings mark skipped statements
+  message: string;
+}
+
+export interface ParseDiagnostic extends ImportDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  statement?: string; // Start of the statement the diagnostic belongs to
+}
+
+// Undo history Types
+export type HistoryChangeKind = 'initial' | 'move' | 'edit';
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  kind: HistoryChangeKind;
+  nodeIds: string[]; // Nodes touched by the change, used to coalesce moves
+  timestamp: number;
+  nodes: ERDNode[];
+  edges: EdgeType[];
 }
 
 // OpenAI API Types
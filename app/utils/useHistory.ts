@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { EdgeType, ERDNode, HistoryEntry } from './types';
+import { HistoryState, recordChange } from './historyUtils';
+
+// Create a hook that records every change to the diagram so it can be undone
+export function useHistory(
+  nodes: ERDNode[],
+  edges: EdgeType[],
+  setNodes: (nodes: ERDNode[]) => void,
+  setEdges: (edges: EdgeType[]) => void
+) {
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    entries: [{ id: uuidv4(), label: 'Initial state', kind: 'initial', nodeIds: [], timestamp: Date.now(), nodes, edges }],
+    index: 0
+  }));
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  // The state being restored by undo/redo, which must not be recorded again
+  const restoringRef = useRef<HistoryEntry | null>(null);
+
+  // Record each change of nodes or edges
+  useEffect(() => {
+    const restoring = restoringRef.current;
+    restoringRef.current = null;
+    if (restoring && restoring.nodes === nodes && restoring.edges === edges) return;
+
+    setHistory(current => recordChange(current, nodes, edges, Date.now()));
+  }, [nodes, edges]);
+
+  // Restore the diagram to the state after a history entry
+  const goTo = useCallback((target: number) => {
+    const { entries, index } = historyRef.current;
+    if (target < 0 || target >= entries.length || target === index) return;
+
+    const entry = entries[target];
+    restoringRef.current = entry;
+    setHistory({ entries, index: target });
+    setNodes(entry.nodes);
+    setEdges(entry.edges);
+  }, [setNodes, setEdges]);
+
+  // Start over with a single entry, e.g. when another project is opened
+  const reset = useCallback((nodes: ERDNode[], edges: EdgeType[], label: string = 'Initial state') => {
+    const entry: HistoryEntry = { id: uuidv4(), label, kind: 'initial', nodeIds: [], timestamp: Date.now(), nodes, edges };
+    restoringRef.current = entry;
+    setHistory({ entries: [entry], index: 0 });
+  }, []);
+
+  const undo = useCallback(() => goTo(historyRef.current.index - 1), [goTo]);
+  const redo = useCallback(() => goTo(historyRef.current.index + 1), [goTo]);
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    goTo,
+    reset
+  };
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { AIPromptResponse } from './types';
+import { AIPromptResponse, EdgeType, NodeType } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { findTableByReference } from './qualifiedNames';
+import { getColumnHandleId, getHandleColumnId } from './edgeUtils';
 
 interface GenerateERDResult {
   data: AIPromptResponse;
@@ -12,6 +14,34 @@ interface Message {
   content: string;
 }
 
+/**
+ * Attach an edge to the foreign key column at one end and the column it references at the other,
+ * the handles the parsers create; edges between tables without such a column get no handles
+ */
+function getForeignKeyHandles(nodes: NodeType[], edge: EdgeType): { sourceHandle: string; targetHandle: string } {
+  const source = nodes.find(node => node.id === edge.source);
+  const target = nodes.find(node => node.id === edge.target);
+  if (!source || !target) return { sourceHandle: '', targetHandle: '' };
+
+  const findPair = (child: NodeType, parent: NodeType) => {
+    const childColumn = child.data.columns.find(col =>
+      col.isForeignKey && col.referencedTable && findTableByReference([parent], col.referencedTable, child.data)
+    );
+    const parentColumn = childColumn && parent.data.columns.find(col =>
+      col.name.toUpperCase() === (childColumn.referencedColumn || '').toUpperCase()
+    );
+    return childColumn && parentColumn ? [childColumn, parentColumn] : undefined;
+  };
+
+  const pair = findPair(source, target);
+  const reversed = pair ? undefined : findPair(target, source);
+  const [sourceColumn, targetColumn] = pair || (reversed ? [reversed[1], reversed[0]] : []);
+
+  return sourceColumn && targetColumn
+    ? { sourceHandle: getColumnHandleId(source.id, sourceColumn.id, 'source'), targetHandle: getColumnHandleId(target.id, targetColumn.id, 'target') }
+    : { sourceHandle: '', targetHandle: '' };
+}
+
 export function useOpenAI() {
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
@@ -122,8 +152,8 @@ The response must be valid JSON in this exact format:
         "id": "string",
         "source": "string",
         "target": "string",
-        "sourceHandle": "string",
-        "targetHandle": "string",
+        "sourceHandle": "string (<source node id>-col-<column id>-source)",
+        "targetHandle": "string (<target node id>-col-<column id>-target)",
         "type": "relationship",
         "data": {
           "relationshipType": "one-to-one | one-to-many | many-to-many"
@@ -213,11 +243,13 @@ The response must be valid JSON in this exact format:
           }
         }));
         
+        // Keep column handles the model sent and connect the other edges to their foreign key columns
         parsedResponse.erd.edges = parsedResponse.erd.edges.map(edge => ({
           ...edge,
           id: edge.id || `e${edge.source}-${edge.target}`,
-          sourceHandle: edge.sourceHandle || `${edge.source}-source`,
-          targetHandle: edge.targetHandle || `${edge.target}-target`
+          ...(getHandleColumnId(edge.sourceHandle) && getHandleColumnId(edge.targetHandle)
+            ? {}
+            : getForeignKeyHandles(parsedResponse.erd.nodes, edge))
         }));
         
         return {
@@ -0,0 +1,214 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import ProjectStore, { ProjectSummary, StoredProject } from './ProjectStore';
+import { ProjectFile, serializeProject } from './projectSchema';
+import { EdgeType, ERDNode, LintRuleSettings } from './types';
+
+// Wait this long after the last edit before saving
+const AUTOSAVE_DELAY_MS = 800;
+
+const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface CurrentProject {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Create a hook that keeps the diagram saved in IndexedDB and manages the project list
+export function useProjects(
+  nodes: ERDNode[],
+  edges: EdgeType[],
+  baselineNodes: ERDNode[] | null,
+  lintRules: LintRuleSettings,
+  onOpen: (project: ProjectFile) => void
+) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [current, setCurrent] = useState<CurrentProject | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const storeRef = useRef<ProjectStore | null>(null);
+  const lastSavedRef = useRef('');
+  const restoredRef = useRef(false);
+  const onOpenRef = useRef(onOpen);
+  onOpenRef.current = onOpen;
+
+  // Latest state, so switching projects can save pending edits first
+  const latestRef = useRef({ nodes, edges, baselineNodes, lintRules, current });
+  latestRef.current = { nodes, edges, baselineNodes, lintRules, current };
+
+  const getStore = () => {
+    if (!storeRef.current) {
+      storeRef.current = new ProjectStore();
+    }
+    return storeRef.current;
+  };
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await getStore().listProjects());
+  }, []);
+
+  // Put a stored project on the canvas
+  const showProject = useCallback((record: StoredProject) => {
+    lastSavedRef.current = JSON.stringify(record.project);
+    setCurrent({ id: record.id, name: record.project.name, createdAt: record.createdAt });
+    setSaveStatus('saved');
+    getStore().setLastProjectId(record.id);
+    onOpenRef.current(record.project);
+  }, []);
+
+  const createRecord = useCallback(async (project: ProjectFile): Promise<StoredProject> => {
+    const now = Date.now();
+    const record = { id: uuidv4(), createdAt: now, updatedAt: now, project };
+    await getStore().saveProject(record);
+    return record;
+  }, []);
+
+  // Save the current project right away if it has unsaved changes
+  const flush = useCallback(async () => {
+    const { nodes, edges, baselineNodes, lintRules, current } = latestRef.current;
+    if (!current) return;
+
+    const project = serializeProject(current.name, nodes, edges, baselineNodes, lintRules);
+    const json = JSON.stringify(project);
+    if (json === lastSavedRef.current) return;
+
+    await getStore().saveProject({ id: current.id, createdAt: current.createdAt, updatedAt: Date.now(), project });
+    lastSavedRef.current = json;
+  }, []);
+
+  // Restore the last opened project on load
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+
+    const restore = async () => {
+      try {
+        const store = getStore();
+        const list = await store.listProjects();
+        const lastId = store.getLastProjectId();
+        const id = list.some(project => project.id === lastId) ? lastId : list[0]?.id;
+        const record = id ? await store.getProject(id) : null;
+
+        showProject(record || await createRecord(serializeProject(DEFAULT_PROJECT_NAME, [], [])));
+        await refreshProjects();
+      } catch (error) {
+        console.error('Failed to restore the last project:', error);
+        setSaveStatus('error');
+      }
+    };
+    restore();
+  }, [showProject, createRecord, refreshProjects]);
+
+  // Autosave shortly after every change
+  useEffect(() => {
+    if (!current) return;
+
+    const project = serializeProject(current.name, nodes, edges, baselineNodes, lintRules);
+    const json = JSON.stringify(project);
+    if (json === lastSavedRef.current) return;
+
+    setSaveStatus('saving');
+    const timer = setTimeout(async () => {
+      try {
+        await getStore().saveProject({ id: current.id, createdAt: current.createdAt, updatedAt: Date.now(), project });
+        lastSavedRef.current = json;
+        setSaveStatus('saved');
+        await refreshProjects();
+      } catch (error) {
+        console.error('Failed to save project:', error);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [nodes, edges, baselineNodes, lintRules, current, refreshProjects]);
+
+  const openProject = async (id: string) => {
+    try {
+      await flush();
+      const record = await getStore().getProject(id);
+      if (!record) {
+        alert('That project no longer exists.');
+        await refreshProjects();
+        return;
+      }
+      showProject(record);
+      await refreshProjects();
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      alert('Failed to open the project.');
+    }
+  };
+
+  const createProject = async (name: string = DEFAULT_PROJECT_NAME) => {
+    try {
+      await flush();
+      showProject(await createRecord(serializeProject(name, [], [])));
+      await refreshProjects();
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      alert('Failed to create the project.');
+    }
+  };
+
+  const renameProject = async (id: string, name: string) => {
+    try {
+      if (current?.id === id) {
+        // The autosave picks up the new name
+        setCurrent({ ...current, name });
+        return;
+      }
+      const record = await getStore().getProject(id);
+      if (record) {
+        await getStore().saveProject({ ...record, updatedAt: Date.now(), project: { ...record.project, name } });
+        await refreshProjects();
+      }
+    } catch (error) {
+      console.error('Failed to rename project:', error);
+      alert('Failed to rename the project.');
+    }
+  };
+
+  const duplicateProject = async (id: string) => {
+    try {
+      await flush();
+      const record = await getStore().getProject(id);
+      if (!record) return;
+
+      showProject(await createRecord({ ...record.project, name: `${record.project.name} (copy)` }));
+      await refreshProjects();
+    } catch (error) {
+      console.error('Failed to duplicate project:', error);
+      alert('Failed to duplicate the project.');
+    }
+  };
+
+  const deleteProject = async (id: string) => {
+    try {
+      await getStore().deleteProject(id);
+      if (current?.id === id) {
+        // Open the next most recent project, or start a new one when none are left
+        const remaining = (await getStore().listProjects()).filter(project => project.id !== id);
+        const next = remaining.length > 0 ? await getStore().getProject(remaining[0].id) : null;
+        showProject(next || await createRecord(serializeProject(DEFAULT_PROJECT_NAME, [], [])));
+      }
+      await refreshProjects();
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      alert('Failed to delete the project.');
+    }
+  };
+
+  return {
+    projects,
+    currentProject: current,
+    saveStatus,
+    openProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject
+  };
+}
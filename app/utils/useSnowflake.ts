@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 import { SnowflakeCredentials, SnowflakeExecutionResult } from './types';
+import SnowflakeIntrospector from './SnowflakeIntrospector';
+
+// Fired when the saved credentials change so every hook instance picks them up
+const CREDENTIALS_CHANGE_EVENT = 'snowflake-credentials-change';
 
 // Create a hook for managing Snowflake credentials and execution
 export function useSnowflake() {
@@ -9,17 +13,25 @@ export function useSnowflake() {
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   
-  // Load credentials from localStorage on mount
+  // Load credentials from localStorage on mount and whenever another instance saves them
   useEffect(() => {
-    const savedCredentials = localStorage.getItem('snowflake_credentials');
-    if (savedCredentials) {
+    const loadCredentials = () => {
+      const savedCredentials = localStorage.getItem('snowflake_credentials');
+      if (!savedCredentials) {
+        setCredentials(null);
+        return;
+      }
       try {
         const parsed = JSON.parse(savedCredentials);
         setCredentials(parsed);
       } catch (e) {
         console.error('Failed to parse saved Snowflake credentials:', e);
       }
-    }
+    };
+
+    loadCredentials();
+    window.addEventListener(CREDENTIALS_CHANGE_EVENT, loadCredentials);
+    return () => window.removeEventListener(CREDENTIALS_CHANGE_EVENT, loadCredentials);
   }, []);
   
   // Save credentials to localStorage when they change
@@ -27,6 +39,7 @@ export function useSnowflake() {
     localStorage.setItem('snowflake_credentials', JSON.stringify(creds));
     setCredentials(creds);
     setConnectionError(null);
+    window.dispatchEvent(new Event(CREDENTIALS_CHANGE_EVENT));
   };
   
   // Clear credentials
@@ -34,12 +47,11 @@ export function useSnowflake() {
     localStorage.removeItem('snowflake_credentials');
     setCredentials(null);
     setIsConnected(false);
+    window.dispatchEvent(new Event(CREDENTIALS_CHANGE_EVENT));
   };
   
-  // The real implementation would use the Snowflake JavaScript API
-  // For browser-based connections, we would typically need a proxy server
-  // that would handle the actual Snowflake connection, as direct connections
-  // from the browser aren't supported due to CORS and security issues.
+  // Browsers cannot connect to Snowflake directly (CORS and security), so every
+  // call goes through the /api/snowflake route handlers which run the driver.
   
   // Test connection
   const testConnection = async (): Promise<boolean> => {
@@ -49,8 +61,6 @@ export function useSnowflake() {
     setConnectionError(null);
     
     try {
-      // In a real production app, this would call a backend API endpoint
-      // that would validate the connection using the Snowflake Node.js driver
       const response = await connectToSnowflake(credentials);
       setIsConnected(response.status === 'success');
       
@@ -82,8 +92,6 @@ export function useSnowflake() {
     setIsExecuting(true);
     
     try {
-      // In a real production app, this would call a backend API endpoint
-      // that would execute the query using the Snowflake Node.js driver
       const result = await executeSnowflakeQuery(sql, credentials);
       return result;
     } catch (error: any) {
@@ -97,118 +105,32 @@ export function useSnowflake() {
     }
   };
   
-  // Implementation of connecting to Snowflake
-  // This is an enhanced mock that simulates more realistic behavior
-  // In a real app, this would call a backend endpoint that uses the Snowflake SDK
-  const connectToSnowflake = async (creds: SnowflakeCredentials): Promise<SnowflakeExecutionResult> => {
-    // Simulate network delay - would be real API call in production
-    await new Promise(resolve => setTimeout(resolve, 1000));
+  // Reads live schemas through executeSQL, so a fake driver on the server answers it too
+  const introspector = new SnowflakeIntrospector(executeSQL);
+  
+  // Post a request to one of the Snowflake API routes
+  const callSnowflakeApi = async (path: string, body: object): Promise<SnowflakeExecutionResult> => {
+    const response = await fetch(`/api/snowflake/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
     
     try {
-      // Check for properly formed account identifier
-      if (!creds.accountIdentifier || !/^[a-z0-9]+-[a-z0-9]+|[a-z0-9]+\.[a-z0-9]+-[0-9]+/i.test(creds.accountIdentifier)) {
-        throw new Error('Invalid account identifier format');
-      }
-      
-      // Check for required fields
-      if (!creds.username) {
-        throw new Error('Username is required');
-      }
-      
-      // Check for authentication requirements
-      if (creds.authType === 'password' && !creds.password) {
-        throw new Error('Password is required for password authentication');
-      } else if (creds.authType === 'keypair' && !creds.privateKey) {
-        throw new Error('Private key is required for keypair authentication');
-      }
-      
-      // In a real app, this would make an actual connection to Snowflake
-      // For now, we'll consider the connection successful if all required fields are present
-      return {
-        status: 'success',
-        message: 'Successfully connected to Snowflake'
-      };
-    } catch (error: any) {
-      return {
-        status: 'error',
-        message: 'Failed to connect to Snowflake',
-        error: error.message || 'Invalid credentials'
-      };
+      return await response.json() as SnowflakeExecutionResult;
+    } catch (e) {
+      throw new Error(`Snowflake API request failed with status ${response.status}`);
     }
   };
   
-  // Implementation of executing a query on Snowflake
-  // This is an enhanced mock that simulates more realistic behavior
-  // In a real app, this would call a backend endpoint that uses the Snowflake SDK
+  // Validate the credentials by opening a connection on the server
+  const connectToSnowflake = async (creds: SnowflakeCredentials): Promise<SnowflakeExecutionResult> => {
+    return callSnowflakeApi('connect', { credentials: creds });
+  };
+  
+  // Run SQL on the server and return its rows and columns
   const executeSnowflakeQuery = async (sql: string, creds: SnowflakeCredentials): Promise<SnowflakeExecutionResult> => {
-    // Simulate network delay - would be real API call in production
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    try {
-      // Basic SQL validation
-      if (!sql.trim()) {
-        throw new Error('SQL query is empty');
-      }
-      
-      const sqlLower = sql.trim().toLowerCase();
-      
-      // Check for potentially unsafe operations in this demo context
-      if (sqlLower.includes('drop database') || 
-          sqlLower.includes('drop schema') || 
-          sqlLower.includes('truncate table')) {
-        throw new Error('This operation is not allowed in this demo');
-      }
-      
-      // Simulate different responses based on SQL type
-      if (sqlLower.startsWith('select')) {
-        // Simulate a SELECT result
-        return {
-          status: 'success',
-          message: 'Query executed successfully',
-          columns: ['COLUMN1', 'COLUMN2'],
-          rows: [
-            ['Value1', 'Value2'],
-            ['Value3', 'Value4']
-          ]
-        };
-      } else if (sqlLower.startsWith('create') || 
-                 sqlLower.startsWith('alter') ||
-                 sqlLower.startsWith('drop') ||
-                 sqlLower.startsWith('insert') ||
-                 sqlLower.startsWith('update') ||
-                 sqlLower.startsWith('delete')) {
-        // Simulate a DDL/DML result
-        return {
-          status: 'success',
-          message: 'Statement executed successfully'
-        };
-      } else if (sqlLower.startsWith('show') || 
-                 sqlLower.startsWith('describe') || 
-                 sqlLower.startsWith('list')) {
-        // Simulate a metadata query result
-        return {
-          status: 'success',
-          message: 'Statement executed successfully',
-          columns: ['NAME', 'TYPE', 'DATABASE', 'SCHEMA', 'OWNER'],
-          rows: [
-            ['TABLE1', 'TABLE', 'MYDB', 'PUBLIC', 'MYUSER'],
-            ['TABLE2', 'TABLE', 'MYDB', 'PUBLIC', 'MYUSER']
-          ]
-        };
-      } else {
-        // Handle any other SQL statement
-        return {
-          status: 'success',
-          message: 'Statement executed successfully'
-        };
-      }
-    } catch (error: any) {
-      return {
-        status: 'error',
-        message: 'Failed to execute SQL',
-        error: error.message || 'An error occurred while executing the SQL'
-      };
-    }
+    return callSnowflakeApi('execute', { credentials: creds, sql });
   };
   
   return {
@@ -220,6 +142,7 @@ export function useSnowflake() {
     saveCredentials,
     clearCredentials,
     testConnection,
-    executeSQL
+    executeSQL,
+    introspector
   };
 } 
\ No newline at end of file
@@ -2,6 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
+  experimental: {
+    // The Snowflake SDK relies on native Node.js modules and must not be bundled
+    serverComponentsExternalPackages: ['snowflake-sdk'],
+  },
 }
 
-module.exports = nextConfig 
\ No newline at end of file
+module.exports = nextConfig 